@@ -1,15 +1,65 @@
 'use client';
 
+import { Suspense, useState } from 'react';
 import { useLayout } from '@/providers/LayoutProvider';
 import Link from 'next/link';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useEnquiry, useReplyToEnquiry, useUpdateEnquiryStatus } from '@/lib/hooks/useEnquiries';
+import { EnquiryStatusBadge } from '@/components/enquiries/EnquiryStatusBadge';
 
-export default function SingleEnquiryPage() {
+function SingleEnquiryContent() {
     const { isFullWidth } = useLayout();
+    const { toast } = useToast();
     const params = useParams();
-    const enquiryId = params.enquiryId;
+    const searchParams = useSearchParams();
+    const enquiryId = params.enquiryId as string;
+    // Guests follow their thread with the token from the link they were given
+    const token = searchParams.get('token') || undefined;
+
+    const [reply, setReply] = useState('');
+    const { data, isLoading, isError, error } = useEnquiry(enquiryId, token);
+    const replyMutation = useReplyToEnquiry();
+    const statusMutation = useUpdateEnquiryStatus();
+
+    const enquiry = data?.data;
+
+    const handleReply = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reply.trim()) return;
 
-    // TODO: Fetch enquiry details from API
+        replyMutation.mutate(
+            { enquiryId, message: reply, token },
+            {
+                onSuccess: () => setReply(''),
+                onError: (err: Error) => {
+                    toast({
+                        title: "Reply Failed",
+                        description: err.message || "Please try again.",
+                        variant: "destructive",
+                    });
+                }
+            }
+        );
+    };
+
+    const handleStatusChange = (status: 'open' | 'closed') => {
+        statusMutation.mutate(
+            { enquiryId, status, token },
+            {
+                onError: (err: Error) => {
+                    toast({
+                        title: "Update Failed",
+                        description: err.message || "Please try again.",
+                        variant: "destructive",
+                    });
+                }
+            }
+        );
+    };
 
     return (
         <div className={`${isFullWidth ? 'container-fluid' : 'container'} mx-auto px-4 py-16 transition-all duration-300`}>
@@ -23,44 +73,125 @@ export default function SingleEnquiryPage() {
                     <p className="text-muted-foreground">Enquiry ID: {enquiryId}</p>
                 </div>
 
-                <div className="space-y-6">
-                    <div className="bg-card border border-border rounded-lg p-6">
-                        <div className="flex justify-between items-start mb-4">
-                            <div>
-                                <h2 className="text-xl font-semibold mb-2">Subject</h2>
-                                <p className="text-muted-foreground">Enquiry subject will be loaded from the API...</p>
-                            </div>
-                            <span className="px-3 py-1 bg-primary/20 text-primary rounded-full text-sm font-medium">
-                                Pending
-                            </span>
-                        </div>
-                        <div className="space-y-3 text-sm">
-                            <div className="flex justify-between">
-                                <span className="text-muted-foreground">Submitted:</span>
-                                <span className="font-medium">-</span>
-                            </div>
-                            <div className="flex justify-between">
-                                <span className="text-muted-foreground">Status:</span>
-                                <span className="font-medium">Pending</span>
-                            </div>
-                        </div>
+                {isLoading ? (
+                    <div className="flex justify-center py-16">
+                        <Loader2 className="h-8 w-8 animate-spin" />
                     </div>
-
-                    <div className="bg-card border border-border rounded-lg p-6">
-                        <h3 className="font-semibold mb-4">Message</h3>
+                ) : isError || !enquiry ? (
+                    <div className="bg-card border border-border rounded-lg p-6 text-center">
                         <p className="text-muted-foreground">
-                            Enquiry message will be loaded from the API...
+                            {error?.message || 'This enquiry could not be found.'}
                         </p>
                     </div>
+                ) : (
+                    <div className="space-y-6">
+                        <div className="bg-card border border-border rounded-lg p-6">
+                            <div className="flex justify-between items-start mb-4">
+                                <div>
+                                    <h2 className="text-xl font-semibold mb-2">{enquiry.subject || enquiry.tourTitle}</h2>
+                                    <p className="text-muted-foreground">{enquiry.tourTitle}</p>
+                                </div>
+                                <EnquiryStatusBadge status={enquiry.status} />
+                            </div>
+                            <div className="space-y-3 text-sm">
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Submitted:</span>
+                                    <span className="font-medium">{format(new Date(enquiry.createdAt), 'MMM d, yyyy')}</span>
+                                </div>
+                                {enquiry.preferredDates?.from && (
+                                    <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Preferred dates:</span>
+                                        <span className="font-medium">
+                                            {format(new Date(enquiry.preferredDates.from), 'MMM d, yyyy')}
+                                            {enquiry.preferredDates.to && ` - ${format(new Date(enquiry.preferredDates.to), 'MMM d, yyyy')}`}
+                                        </span>
+                                    </div>
+                                )}
+                                {enquiry.participants && (
+                                    <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Travelers:</span>
+                                        <span className="font-medium">
+                                            {enquiry.participants.adults} adults
+                                            {enquiry.participants.children > 0 && `, ${enquiry.participants.children} children`}
+                                        </span>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
 
-                    <div className="bg-card border border-border rounded-lg p-6">
-                        <h3 className="font-semibold mb-4">Response</h3>
-                        <p className="text-muted-foreground">
-                            No response yet. We'll get back to you soon!
-                        </p>
+                        <div className="bg-card border border-border rounded-lg p-6">
+                            <h3 className="font-semibold mb-4">Conversation</h3>
+                            <div className="space-y-4">
+                                {enquiry.messages.map((message) => (
+                                    <div
+                                        key={message._id}
+                                        className={`rounded-lg p-4 ${message.sender === 'customer' ? 'bg-muted' : 'bg-primary/10 ml-8'}`}
+                                    >
+                                        <div className="flex justify-between text-xs text-muted-foreground mb-2">
+                                            <span>{message.sender === 'customer' ? 'You' : 'Tour operator'}</span>
+                                            <span>{format(new Date(message.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                                        </div>
+                                        <p className="whitespace-pre-line">{message.body}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {enquiry.status === 'closed' ? (
+                            <div className="bg-card border border-border rounded-lg p-6 flex justify-between items-center">
+                                <p className="text-muted-foreground">This enquiry is closed.</p>
+                                <Button
+                                    variant="outline"
+                                    onClick={() => handleStatusChange('open')}
+                                    disabled={statusMutation.isPending}
+                                >
+                                    Reopen
+                                </Button>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleReply} className="bg-card border border-border rounded-lg p-6 space-y-4">
+                                <label htmlFor="enquiryReply" className="block font-semibold">
+                                    Reply
+                                </label>
+                                <textarea
+                                    id="enquiryReply"
+                                    className="w-full p-2 border border-input rounded-md bg-background"
+                                    rows={4}
+                                    value={reply}
+                                    onChange={(e) => setReply(e.target.value)}
+                                />
+                                <div className="flex justify-between">
+                                    {enquiry.status !== 'converted' && (
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            onClick={() => handleStatusChange('closed')}
+                                            disabled={statusMutation.isPending}
+                                        >
+                                            Close Enquiry
+                                        </Button>
+                                    )}
+                                    <Button type="submit" className="ml-auto" disabled={replyMutation.isPending || !reply.trim()}>
+                                        {replyMutation.isPending ? 'Sending...' : 'Send Reply'}
+                                    </Button>
+                                </div>
+                            </form>
+                        )}
                     </div>
-                </div>
+                )}
             </div>
         </div>
     );
 }
+
+export default function SingleEnquiryPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+        }>
+            <SingleEnquiryContent />
+        </Suspense>
+    );
+}
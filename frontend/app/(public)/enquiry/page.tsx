@@ -2,12 +2,18 @@
 
 import { useLayout } from '@/providers/LayoutProvider';
 import Link from 'next/link';
+import { format } from 'date-fns';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useMyEnquiries } from '@/lib/hooks/useEnquiries';
+import { Enquiry } from '@/lib/api/enquiries';
+import { EnquiryStatusBadge } from '@/components/enquiries/EnquiryStatusBadge';
 
 export default function EnquiriesPage() {
     const { isFullWidth } = useLayout();
+    const { isAuthenticated, isHydrated } = useAuth();
+    const { data, isLoading, isError } = useMyEnquiries(isHydrated && isAuthenticated);
 
-    // TODO: Fetch user enquiries from API
-    const enquiries = [];
+    const enquiries: Enquiry[] = data || [];
 
     return (
         <div className={`${isFullWidth ? 'container-fluid' : 'container'} mx-auto px-4 py-16 transition-all duration-300`}>
@@ -27,16 +33,46 @@ export default function EnquiriesPage() {
                 </Link>
             </div>
 
-            {enquiries.length === 0 ? (
+            {isHydrated && !isAuthenticated ? (
                 <div className="text-center py-16 bg-card border border-border rounded-lg">
-                    <p className="text-xl text-muted-foreground mb-4">You don't have any enquiries yet</p>
+                    <p className="text-xl text-muted-foreground mb-4">Sign in to see your enquiries</p>
+                    <p className="text-sm text-muted-foreground">
+                        Sent an enquiry as a guest? Use the link from your confirmation to follow the conversation.
+                    </p>
+                </div>
+            ) : isLoading || !isHydrated ? (
+                <div className="text-center py-16 text-muted-foreground">Loading enquiries...</div>
+            ) : isError ? (
+                <div className="text-center py-16 bg-card border border-border rounded-lg">
+                    <p className="text-xl text-muted-foreground">We couldn&apos;t load your enquiries. Please try again.</p>
+                </div>
+            ) : enquiries.length === 0 ? (
+                <div className="text-center py-16 bg-card border border-border rounded-lg">
+                    <p className="text-xl text-muted-foreground mb-4">You don&apos;t have any enquiries yet</p>
                     <Link href="/contact" className="text-primary hover:text-primary/80">
                         Submit an Enquiry
                     </Link>
                 </div>
             ) : (
                 <div className="space-y-4">
-                    {/* Enquiry cards will be mapped here */}
+                    {enquiries.map((enquiry) => (
+                        <Link
+                            key={enquiry._id}
+                            href={`/enquiry/${enquiry._id}`}
+                            className="block bg-card border border-border rounded-lg p-6 hover:border-primary transition"
+                        >
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <h2 className="text-lg font-semibold mb-1">{enquiry.subject || enquiry.tourTitle}</h2>
+                                    <p className="text-sm text-muted-foreground">{enquiry.tourTitle}</p>
+                                </div>
+                                <EnquiryStatusBadge status={enquiry.status} />
+                            </div>
+                            <p className="text-sm text-muted-foreground mt-3">
+                                Last activity {format(new Date(enquiry.lastMessageAt), 'MMM d, yyyy h:mm a')}
+                            </p>
+                        </Link>
+                    ))}
                 </div>
             )}
         </div>
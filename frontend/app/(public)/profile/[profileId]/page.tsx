@@ -1,195 +1,203 @@
 'use client';
 
-import { useLayout } from '@/providers/LayoutProvider';
+import Image from 'next/image';
+import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Globe, Mail, MapPin, Phone, Star } from 'lucide-react';
+import { useLayout } from '@/providers/LayoutProvider';
+import { getSellerStorefront } from '@/lib/api/companyApi';
+import { formatPrice } from '@/lib/utils/defaultTourValues';
 
 export default function ProfilePage() {
     const { isFullWidth } = useLayout();
     const params = useParams();
-    const profileId = params.profileId;
+    const profileId = params.profileId as string;
 
-    const [isEditing, setIsEditing] = useState(false);
-    const [formData, setFormData] = useState({
-        name: '',
-        email: '',
-        phone: '',
-        address: '',
-        city: '',
-        country: '',
-        bio: '',
+    // Public storefront of the seller
+    const { data: storefront, isLoading, isError } = useQuery({
+        queryKey: ['storefront', profileId],
+        queryFn: () => getSellerStorefront(profileId),
+        staleTime: 5 * 60 * 1000,
+        enabled: !!profileId,
+        retry: false,
     });
 
-    // TODO: Fetch user profile from API
+    const containerClass = `${isFullWidth ? 'container-fluid' : 'container'} mx-auto px-4 py-16 transition-all duration-300`;
+
+    if (isLoading) {
+        return (
+            <div className={containerClass}>
+                <div className="max-w-5xl mx-auto animate-pulse space-y-6">
+                    <div className="h-48 bg-muted rounded-lg" />
+                    <div className="h-8 w-1/3 bg-muted rounded" />
+                    <div className="h-24 bg-muted rounded" />
+                </div>
+            </div>
+        );
+    }
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        // TODO: Update profile via API
-        setIsEditing(false);
-    };
+    if (isError || !storefront) {
+        return (
+            <div className={containerClass}>
+                <div className="max-w-xl mx-auto text-center">
+                    <h1 className="text-3xl font-bold mb-4">Profile not found</h1>
+                    <p className="text-muted-foreground mb-6">This tour operator doesn&apos;t exist or isn&apos;t public yet.</p>
+                    <Link href="/tours" className="text-primary hover:underline">
+                        Browse all tours
+                    </Link>
+                </div>
+            </div>
+        );
+    }
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-        setFormData({
-            ...formData,
-            [e.target.name]: e.target.value,
-        });
-    };
+    const { storefront: details, location, stats } = storefront;
+    const logo = details.logoUrl || storefront.avatar;
+    const place = [location.address, location.city, location.state, location.country].filter(Boolean).join(', ');
 
     return (
-        <div className={`${isFullWidth ? 'container-fluid' : 'container'} mx-auto px-4 py-16 transition-all duration-300`}>
-            <div className="max-w-4xl mx-auto">
-                <div className="mb-8 flex justify-between items-center">
-                    <div>
-                        <h1 className="text-4xl font-bold mb-2">Profile</h1>
-                        <p className="text-muted-foreground">Profile ID: {profileId}</p>
+        <div className={containerClass}>
+            <div className="max-w-5xl mx-auto">
+                {/* Header */}
+                <div className="relative mb-20 h-48 rounded-lg bg-primary/20 sm:h-64">
+                    {details.coverImageUrl && (
+                        <Image
+                            src={details.coverImageUrl}
+                            alt={storefront.companyName}
+                            fill
+                            className="rounded-lg object-cover"
+                        />
+                    )}
+                    <div className="absolute -bottom-14 left-6 flex h-28 w-28 items-center justify-center overflow-hidden rounded-full border-4 border-background bg-card">
+                        {logo ? (
+                            <Image src={logo} alt={storefront.companyName} width={112} height={112} className="h-full w-full object-cover" />
+                        ) : (
+                            <span className="text-4xl font-bold text-primary">{storefront.companyName.charAt(0)}</span>
+                        )}
+                    </div>
+                </div>
+
+                <div className="mb-10">
+                    <h1 className="text-4xl font-bold mb-2">{storefront.companyName}</h1>
+                    {details.tagline && <p className="text-lg text-muted-foreground">{details.tagline}</p>}
+                    <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        {stats.reviewCount > 0 && (
+                            <span className="flex items-center">
+                                <Star className="mr-1 h-4 w-4 fill-yellow-400 text-yellow-400" />
+                                {stats.averageRating.toFixed(1)} ({stats.reviewCount} reviews)
+                            </span>
+                        )}
+                        <span>{stats.tourCount} tours</span>
+                        <span>Member since {new Date(storefront.memberSince).getFullYear()}</span>
                     </div>
-                    <button
-                        onClick={() => setIsEditing(!isEditing)}
-                        className="px-6 py-2 border border-primary text-primary rounded-lg hover:bg-accent transition"
-                    >
-                        {isEditing ? 'Cancel' : 'Edit Profile'}
-                    </button>
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                    {/* Profile Sidebar */}
+                    {/* Contact */}
                     <div className="lg:col-span-1">
-                        <div className="bg-card border border-border rounded-lg p-6 text-center">
-                            <div className="w-32 h-32 mx-auto mb-4 bg-primary/20 rounded-full flex items-center justify-center">
-                                <span className="text-4xl text-primary">👤</span>
-                            </div>
-                            <h2 className="text-xl font-semibold mb-2">User Name</h2>
-                            <p className="text-sm text-muted-foreground mb-4">user@example.com</p>
-                            <div className="space-y-2 text-sm">
-                                <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Member Since:</span>
-                                    <span className="font-medium">2024</span>
+                        <div className="bg-card border border-border rounded-lg p-6 space-y-3 text-sm">
+                            <h2 className="text-xl font-semibold mb-2">Contact</h2>
+                            {place && (
+                                <p className="flex items-start">
+                                    <MapPin className="mr-2 mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                                    {place}
+                                </p>
+                            )}
+                            {details.publicEmail && (
+                                <a href={`mailto:${details.publicEmail}`} className="flex items-center hover:text-primary">
+                                    <Mail className="mr-2 h-4 w-4 text-primary" />
+                                    {details.publicEmail}
+                                </a>
+                            )}
+                            {details.publicPhone && (
+                                <a href={`tel:${details.publicPhone}`} className="flex items-center hover:text-primary">
+                                    <Phone className="mr-2 h-4 w-4 text-primary" />
+                                    {details.publicPhone}
+                                </a>
+                            )}
+                            {storefront.website && (
+                                <a href={storefront.website} target="_blank" rel="noopener noreferrer" className="flex items-center hover:text-primary">
+                                    <Globe className="mr-2 h-4 w-4 text-primary" />
+                                    {storefront.website.replace(/^https?:\/\//, '')}
+                                </a>
+                            )}
+                            {details.socialLinks.length > 0 && (
+                                <div className="flex flex-wrap gap-2 pt-2">
+                                    {details.socialLinks.map((social) => (
+                                        <a
+                                            key={social.url}
+                                            href={social.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="rounded-full border border-border px-3 py-1 capitalize hover:border-primary hover:text-primary"
+                                        >
+                                            {social.platform}
+                                        </a>
+                                    ))}
                                 </div>
-                                <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Bookings:</span>
-                                    <span className="font-medium">0</span>
-                                </div>
-                            </div>
+                            )}
                         </div>
                     </div>
 
-                    {/* Profile Content */}
-                    <div className="lg:col-span-2">
-                        {isEditing ? (
-                            <form onSubmit={handleSubmit} className="bg-card border border-border rounded-lg p-6">
-                                <h2 className="text-xl font-semibold mb-6">Edit Profile</h2>
-                                <div className="space-y-4">
-                                    <div>
-                                        <label className="block text-sm font-medium mb-2">Full Name</label>
-                                        <input
-                                            type="text"
-                                            name="name"
-                                            value={formData.name}
-                                            onChange={handleChange}
-                                            className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-sm font-medium mb-2">Email</label>
-                                        <input
-                                            type="email"
-                                            name="email"
-                                            value={formData.email}
-                                            onChange={handleChange}
-                                            className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-sm font-medium mb-2">Phone</label>
-                                        <input
-                                            type="tel"
-                                            name="phone"
-                                            value={formData.phone}
-                                            onChange={handleChange}
-                                            className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-sm font-medium mb-2">Address</label>
-                                        <input
-                                            type="text"
-                                            name="address"
-                                            value={formData.address}
-                                            onChange={handleChange}
-                                            className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent"
-                                        />
-                                    </div>
-                                    <div className="grid grid-cols-2 gap-4">
-                                        <div>
-                                            <label className="block text-sm font-medium mb-2">City</label>
-                                            <input
-                                                type="text"
-                                                name="city"
-                                                value={formData.city}
-                                                onChange={handleChange}
-                                                className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent"
-                                            />
-                                        </div>
-                                        <div>
-                                            <label className="block text-sm font-medium mb-2">Country</label>
-                                            <select
-                                                name="country"
-                                                value={formData.country}
-                                                onChange={handleChange}
-                                                className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent"
-                                            >
-                                                <option value="">Select Country</option>
-                                                <option value="AU">Australia</option>
-                                                <option value="US">United States</option>
-                                                <option value="UK">United Kingdom</option>
-                                            </select>
-                                        </div>
-                                    </div>
-                                    <div>
-                                        <label className="block text-sm font-medium mb-2">Bio</label>
-                                        <textarea
-                                            name="bio"
-                                            rows={4}
-                                            value={formData.bio}
-                                            onChange={handleChange}
-                                            className="w-full px-4 py-2 border border-border rounded-md bg-background focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
-                                        />
-                                    </div>
-                                    <button
-                                        type="submit"
-                                        className="w-full bg-primary text-primary-foreground py-3 rounded-lg hover:bg-primary/90 transition font-medium"
-                                    >
-                                        Save Changes
-                                    </button>
-                                </div>
-                            </form>
-                        ) : (
+                    {/* About and tours */}
+                    <div className="lg:col-span-2 space-y-8">
+                        {(storefront.description || storefront.destinations.length > 0 || storefront.categories.length > 0) && (
                             <div className="bg-card border border-border rounded-lg p-6">
-                                <h2 className="text-xl font-semibold mb-6">Profile Information</h2>
-                                <div className="space-y-4">
-                                    <div>
-                                        <p className="text-sm text-muted-foreground mb-1">Full Name</p>
-                                        <p className="font-medium">-</p>
+                                <h2 className="text-xl font-semibold mb-4">About</h2>
+                                {storefront.description && (
+                                    <p className="text-muted-foreground whitespace-pre-line mb-4">{storefront.description}</p>
+                                )}
+                                {[...storefront.destinations, ...storefront.categories].length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                        {[...storefront.destinations, ...storefront.categories].map((tag) => (
+                                            <span key={tag} className="rounded-full bg-secondary px-3 py-1 text-xs">
+                                                {tag}
+                                            </span>
+                                        ))}
                                     </div>
-                                    <div>
-                                        <p className="text-sm text-muted-foreground mb-1">Email</p>
-                                        <p className="font-medium">-</p>
-                                    </div>
-                                    <div>
-                                        <p className="text-sm text-muted-foreground mb-1">Phone</p>
-                                        <p className="font-medium">-</p>
-                                    </div>
-                                    <div>
-                                        <p className="text-sm text-muted-foreground mb-1">Address</p>
-                                        <p className="font-medium">-</p>
-                                    </div>
-                                    <div>
-                                        <p className="text-sm text-muted-foreground mb-1">Bio</p>
-                                        <p className="font-medium">-</p>
-                                    </div>
-                                </div>
+                                )}
                             </div>
                         )}
+
+                        <div>
+                            <h2 className="text-xl font-semibold mb-4">Tours</h2>
+                            {storefront.tours.length === 0 ? (
+                                <p className="text-muted-foreground">No tours published yet.</p>
+                            ) : (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                                    {storefront.tours.map((tour) => (
+                                        <Link
+                                            key={tour._id}
+                                            href={`/tours/${tour._id}`}
+                                            className="bg-card border border-border rounded-lg overflow-hidden hover:shadow-md transition"
+                                        >
+                                            <div className="relative h-40 bg-muted">
+                                                {tour.coverImage && (
+                                                    <Image src={tour.coverImage} alt={tour.title} fill className="object-cover" />
+                                                )}
+                                            </div>
+                                            <div className="p-4">
+                                                <h3 className="font-semibold mb-1 line-clamp-1">{tour.title}</h3>
+                                                {tour.location?.country && (
+                                                    <p className="text-sm text-muted-foreground mb-2">
+                                                        {[tour.location.city, tour.location.country].filter(Boolean).join(', ')}
+                                                    </p>
+                                                )}
+                                                <div className="flex items-center justify-between text-sm">
+                                                    {tour.price ? <span className="font-medium">{formatPrice(tour.price)}</span> : <span />}
+                                                    {!!tour.reviewCount && (
+                                                        <span className="flex items-center text-muted-foreground">
+                                                            <Star className="mr-1 h-4 w-4 fill-yellow-400 text-yellow-400" />
+                                                            {tour.averageRating?.toFixed(1)}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </Link>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                     </div>
                 </div>
             </div>
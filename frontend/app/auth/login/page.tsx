@@ -1,16 +1,28 @@
 "use client";
 
-import { useState, useRef, useEffect, Suspense } from "react";
+import { useState, useRef, useEffect, useCallback, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { loginUser } from "@/lib/api/users";
+import {
+    loginUser,
+    fetchCurrentUser,
+    getSocialSignInUrl,
+    isTwoFactorChallenge,
+    verifyTwoFactorLogin,
+    startTwoFactorLoginSetup,
+    confirmTwoFactorLoginSetup,
+    TwoFactorChallenge,
+    TwoFactorSetup,
+} from "@/lib/api/users";
+import type { User as StoreUser } from "@/lib/store/useUserStore";
 import { api } from "@/lib/api/apiClient";
 import { canAccessDashboard } from "@/lib/utils/roles";
-import { Mail, Lock, User, Phone, CheckCircle2, AlertCircle, Loader2, EyeIcon, EyeOffIcon } from "lucide-react";
+import { Mail, Lock, User, Phone, CheckCircle2, AlertCircle, Loader2, EyeIcon, EyeOffIcon, KeyRound } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { cn } from "@/lib/utils";
 
@@ -24,10 +36,16 @@ function LoginPageContent() {
     const [showRegisterPassword, setShowRegisterPassword] = useState(false);
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
-    const [showForm, setShowForm] = useState<'login' | 'signup' | 'forgot' | 'verify'>('login');
+    const [showForm, setShowForm] = useState<'login' | 'signup' | 'forgot' | 'verify' | 'twoFactor' | 'twoFactorSetup'>('login');
     const [keepMeSignedIn, setKeepMeSignedIn] = useState(false);
     const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
+    // Two-factor step after the password
+    const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+    const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [setupUser, setSetupUser] = useState<StoreUser | null>(null);
+
 
     // Check for form parameter in URL
     useEffect(() => {
@@ -46,12 +64,63 @@ function LoginPageContent() {
     const registerPhoneRef = useRef<HTMLInputElement>(null);
     const forgotEmailRef = useRef<HTMLInputElement>(null);
     const resetPasswordRef = useRef<HTMLInputElement>(null);
+    const twoFactorCodeRef = useRef<HTMLInputElement>(null);
 
     // Loading states
     const [isLoggingIn, setIsLoggingIn] = useState(false);
     const [isRegistering, setIsRegistering] = useState(false);
     const [isSendingReset, setIsSendingReset] = useState(false);
     const [isResettingPassword, setIsResettingPassword] = useState(false);
+    const [isVerifyingCode, setIsVerifyingCode] = useState(false);
+
+    const finishLogin = useCallback((user: StoreUser) => {
+        toast({
+            title: 'Login Successful',
+            description: 'Welcome back!',
+        });
+
+        // Check if user can access dashboard
+        if (canAccessDashboard(user.roles)) {
+            router.push('/dashboard');
+        } else {
+            router.push('/');
+        }
+    }, [router, toast]);
+
+    // Back from signing in with Google: the server set the cookie, needs a
+    // two-factor step first, or says why sign-in failed. The two-factor challenge
+    // itself stays in an httpOnly cookie, so an empty token lets the server read it
+    useEffect(() => {
+        const resumeSocialSignIn = async () => {
+            const oauthError = searchParams.get('oauthError');
+            const twoFactor = searchParams.get('twoFactor');
+            const challengeToken = '';
+
+            if (oauthError) {
+                toast({ title: 'Login Failed', description: oauthError, variant: 'destructive' });
+            } else if (twoFactor) {
+                setChallenge({
+                    challengeToken,
+                    twoFactorRequired: twoFactor === 'required',
+                    twoFactorSetupRequired: twoFactor === 'setup',
+                });
+                setKeepMeSignedIn(searchParams.get('keepMeSignedIn') === 'true');
+                if (twoFactor === 'setup') {
+                    setTwoFactorSetup(await startTwoFactorLoginSetup(challengeToken));
+                    setShowForm('twoFactorSetup');
+                } else {
+                    setShowForm('twoFactor');
+                }
+            } else if (searchParams.get('oauth')) {
+                const user = await fetchCurrentUser();
+                if (user) finishLogin(user);
+            }
+        };
+
+        resumeSocialSignIn().catch((error: Error) => {
+            toast({ title: 'Login Failed', description: error.message, variant: 'destructive' });
+        });
+    }, [searchParams, toast, finishLogin]);
 
     useEffect(() => {
         const token = searchParams.get('token');
@@ -97,31 +166,76 @@ function LoginPageContent() {
 
         setIsLoggingIn(true);
         try {
-            // Login - server sets httpOnly cookie and returns user data
-            const user = await loginUser({ email, password, keepMeSignedIn });
+            // Login - server sets httpOnly cookie and returns user data,
+            // or asks for a two-factor code first
+            const result = await loginUser({ email, password, keepMeSignedIn });
+
+            if (isTwoFactorChallenge(result)) {
+                setChallenge(result);
+                if (result.twoFactorSetupRequired) {
+                    setTwoFactorSetup(await startTwoFactorLoginSetup(result.challengeToken));
+                    setShowForm('twoFactorSetup');
+                } else {
+                    setShowForm('twoFactor');
+                }
+                return;
+            }
 
+            finishLogin(result);
+        } catch (error: any) {
             toast({
-                title: 'Login Successful',
-                description: 'Welcome back!',
+                title: 'Login Failed',
+                // Server explains wrong credentials and temporary lockouts
+                description: error.response?.data?.message || error.message || 'Invalid credentials',
+                variant: 'destructive',
             });
+        } finally {
+            setIsLoggingIn(false);
+        }
+    };
+
+    const handleTwoFactor = async () => {
+        const code = twoFactorCodeRef.current?.value.trim() || '';
+
+        if (!code) {
+            setErrors({ twoFactorCode: 'Code is required' });
+            return;
+        }
+        if (!challenge) {
+            setShowForm('login');
+            return;
+        }
 
-            // Check if user can access dashboard
-            if (canAccessDashboard(user.roles)) {
-                router.push('/dashboard');
+        setIsVerifyingCode(true);
+        try {
+            const params = { challengeToken: challenge.challengeToken, code, keepMeSignedIn };
+
+            if (showForm === 'twoFactorSetup') {
+                // Signed in now, but the recovery codes are shown before leaving the page
+                const result = await confirmTwoFactorLoginSetup(params);
+                setSetupUser(result.user);
+                setRecoveryCodes(result.recoveryCodes);
             } else {
-                router.push('/');
+                finishLogin(await verifyTwoFactorLogin(params));
             }
-        } catch (error: any) {
+        } catch (error) {
             toast({
-                title: 'Login Failed',
-                description: error.message || 'Invalid credentials',
+                title: 'Verification Failed',
+                description: (error as Error).message || 'Invalid authentication code',
                 variant: 'destructive',
             });
         } finally {
-            setIsLoggingIn(false);
+            setIsVerifyingCode(false);
         }
     };
 
+    const backToLogin = () => {
+        setChallenge(null);
+        setTwoFactorSetup(null);
+        setErrors({});
+        setShowForm('login');
+    };
+
     const handleRegister = async () => {
         const email = registerEmailRef.current?.value.trim() || '';
         const password = registerPasswordRef.current?.value.trim() || '';
@@ -301,6 +415,18 @@ function LoginPageContent() {
                                 Sign In
                             </Button>
 
+                            <div className="relative text-center text-xs uppercase text-muted-foreground">
+                                <span className="bg-card px-2">or</span>
+                            </div>
+
+                            <Button
+                                variant="outline"
+                                className="w-full"
+                                onClick={() => { window.location.href = getSocialSignInUrl('google', keepMeSignedIn); }}
+                            >
+                                Continue with Google
+                            </Button>
+
                             <div className="text-center text-sm">
                                 Don't have an account?{' '}
                                 <Button
@@ -435,6 +561,18 @@ function LoginPageContent() {
                                 Create Account
                             </Button>
 
+                            <div className="relative text-center text-xs uppercase text-muted-foreground">
+                                <span className="bg-card px-2">or</span>
+                            </div>
+
+                            <Button
+                                variant="outline"
+                                className="w-full"
+                                onClick={() => { window.location.href = getSocialSignInUrl('google'); }}
+                            >
+                                Continue with Google
+                            </Button>
+
                             <div className="text-center text-sm">
                                 Already have an account?{' '}
                                 <Button
@@ -539,6 +677,133 @@ function LoginPageContent() {
                         </CardContent>
                     </Card>
                 )}
+
+                {showForm === 'twoFactor' && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Two-Factor Authentication</CardTitle>
+                            <CardDescription>
+                                Enter the code from your authenticator app, or one of your recovery codes
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="two-factor-code">Authentication Code</Label>
+                                <div className="relative">
+                                    <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                    <Input
+                                        id="two-factor-code"
+                                        autoComplete="one-time-code"
+                                        placeholder="123456"
+                                        className="pl-10"
+                                        ref={twoFactorCodeRef}
+                                    />
+                                </div>
+                                {errors.twoFactorCode && <p className="text-sm text-destructive">{errors.twoFactorCode}</p>}
+                            </div>
+
+                            <Button
+                                className="w-full"
+                                onClick={handleTwoFactor}
+                                disabled={isVerifyingCode}
+                            >
+                                {isVerifyingCode && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Verify
+                            </Button>
+
+                            <div className="text-center text-sm">
+                                <Button
+                                    variant="link"
+                                    className="p-0 h-auto"
+                                    onClick={backToLogin}
+                                >
+                                    Back to login
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {showForm === 'twoFactorSetup' && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+                            <CardDescription>
+                                {recoveryCodes.length > 0
+                                    ? 'Save these recovery codes somewhere safe. Each one works once if you lose your authenticator.'
+                                    : 'Your account requires two-factor authentication. Scan the code with your authenticator app, then enter the code it shows.'}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {recoveryCodes.length > 0 ? (
+                                <>
+                                    <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+                                        {recoveryCodes.map((code) => (
+                                            <span key={code}>{code}</span>
+                                        ))}
+                                    </div>
+                                    <Button
+                                        className="w-full"
+                                        onClick={() => setupUser && finishLogin(setupUser)}
+                                    >
+                                        I&apos;ve saved my codes
+                                    </Button>
+                                </>
+                            ) : (
+                                <>
+                                    {twoFactorSetup && (
+                                        <div className="flex flex-col items-center gap-2">
+                                            <Image
+                                                src={twoFactorSetup.qrCode}
+                                                alt="Two-factor QR code"
+                                                width={192}
+                                                height={192}
+                                                unoptimized
+                                            />
+                                            <p className="text-xs text-muted-foreground">Or enter this key manually:</p>
+                                            <code className="break-all text-sm">{twoFactorSetup.secret}</code>
+                                        </div>
+                                    )}
+
+                                    <div className="space-y-2">
+                                        <Label htmlFor="two-factor-setup-code">Authentication Code</Label>
+                                        <div className="relative">
+                                            <KeyRound className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                            <Input
+                                                id="two-factor-setup-code"
+                                                autoComplete="one-time-code"
+                                                inputMode="numeric"
+                                                placeholder="123456"
+                                                className="pl-10"
+                                                ref={twoFactorCodeRef}
+                                            />
+                                        </div>
+                                        {errors.twoFactorCode && <p className="text-sm text-destructive">{errors.twoFactorCode}</p>}
+                                    </div>
+
+                                    <Button
+                                        className="w-full"
+                                        onClick={handleTwoFactor}
+                                        disabled={isVerifyingCode}
+                                    >
+                                        {isVerifyingCode && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                        Verify and Sign In
+                                    </Button>
+
+                                    <div className="text-center text-sm">
+                                        <Button
+                                            variant="link"
+                                            className="p-0 h-auto"
+                                            onClick={backToLogin}
+                                        >
+                                            Back to login
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
             </div>
         </div>
     );
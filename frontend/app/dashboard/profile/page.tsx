@@ -19,6 +19,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { GalleryPage } from '@/components/dashboard/gallery/GalleryPage';
+import { ActiveSessions } from '@/components/dashboard/profile/ActiveSessions';
+import { TwoFactorSettings } from '@/components/dashboard/profile/TwoFactorSettings';
 
 // Form validation schema
 const profileSchema = z.object({
@@ -129,9 +131,10 @@ export default function ProfilePage() {
         onSuccess: () => {
             toast({
                 title: 'Success',
-                description: 'Password changed successfully',
+                description: 'Password changed. Your other devices have been signed out.',
             });
             passwordForm.reset();
+            queryClient.invalidateQueries({ queryKey: ['mySessions'] });
         },
         onError: (error: Error) => {
             toast({
@@ -745,6 +748,10 @@ export default function ProfilePage() {
                             </Form>
                         </CardContent>
                     </Card>
+
+                    <TwoFactorSettings />
+
+                    <ActiveSessions />
                 </div>
             </div>
         </div>
@@ -9,6 +9,7 @@ import { TourEditorLayout } from '@/components/dashboard/tours/TourEditorLayout'
 import {
     TourBasicInfo,
     TourPricingDates,
+    TourAddOns,
     TourItinerary,
     TourInclusionsExclusions,
     TourFacts,
@@ -142,6 +143,9 @@ function TourForm() {
                         <TabsContent value="pricing" className="mt-0">
                             <TourPricingDates />
                         </TabsContent>
+                        <TabsContent value="add-ons" className="mt-0">
+                            <TourAddOns />
+                        </TabsContent>
                         <TabsContent value="itinerary" className="mt-0">
                             <TourItinerary />
                         </TabsContent>
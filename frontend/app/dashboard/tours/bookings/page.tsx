@@ -1,7 +1,21 @@
+'use client';
+
+import { SellerGuard } from '@/components/dashboard/RoleGuard';
+import { BookingsOverview } from '@/components/dashboard/bookings';
+
 export default function TourBookingsPage() {
     return (
-        <div>
-            <h1>Tour Bookings</h1>
-        </div>
+        <SellerGuard>
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Tour Bookings</h1>
+                    <p className="text-muted-foreground mt-2">
+                        Revenue, occupancy and cancellations for your tours
+                    </p>
+                </div>
+
+                <BookingsOverview />
+            </div>
+        </SellerGuard>
     );
 }
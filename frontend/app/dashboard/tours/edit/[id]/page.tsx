@@ -10,6 +10,7 @@ import { TourEditorLayout } from '@/components/dashboard/tours/TourEditorLayout'
 import {
     TourBasicInfo,
     TourPricingDates,
+    TourAddOns,
     TourItinerary,
     TourInclusionsExclusions,
     TourFacts,
@@ -323,6 +324,9 @@ function TourForm() {
                         <TabsContent value="pricing" className="mt-0">
                             <TourPricingDates />
                         </TabsContent>
+                        <TabsContent value="add-ons" className="mt-0">
+                            <TourAddOns />
+                        </TabsContent>
                         <TabsContent value="itinerary" className="mt-0">
                             <TourItinerary />
                         </TabsContent>
@@ -0,0 +1,21 @@
+'use client';
+
+import { SellerGuard } from '@/components/dashboard/RoleGuard';
+import { EnquiryInbox } from '@/components/dashboard/enquiries';
+
+export default function TourEnquiriesPage() {
+    return (
+        <SellerGuard>
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Enquiries</h1>
+                    <p className="text-muted-foreground mt-2">
+                        Answer customer questions and follow them through to a booking
+                    </p>
+                </div>
+
+                <EnquiryInbox />
+            </div>
+        </SellerGuard>
+    );
+}
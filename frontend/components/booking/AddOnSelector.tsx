@@ -0,0 +1,92 @@
+'use client';
+
+import { Minus, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TourAddOn } from '@/lib/types';
+import { formatPrice, getAddOnUnitPrice } from '@/lib/tourUtils';
+
+interface AddOnSelectorProps {
+    addOns: TourAddOn[];
+    // Quantities keyed by add-on ID
+    quantities: Record<string, number>;
+    onChange: (quantities: Record<string, number>) => void;
+    currency?: string;
+}
+
+/**
+ * Lets travelers choose how many of each tour add-on to book
+ * Required add-ons can't go below one.
+ */
+export function AddOnSelector({ addOns, quantities, onChange, currency = 'USD' }: AddOnSelectorProps) {
+    const available = addOns.filter(addOn => addOn._id && addOn.isActive !== false);
+
+    if (available.length === 0) {
+        return null;
+    }
+
+    const setQuantity = (addOn: TourAddOn, quantity: number) => {
+        const min = addOn.isRequired ? 1 : 0;
+        const max = addOn.maxQuantity || 1;
+        onChange({ ...quantities, [addOn._id as string]: Math.min(max, Math.max(min, quantity)) });
+    };
+
+    return (
+        <div className="space-y-3">
+            {available.map(addOn => {
+                const id = addOn._id as string;
+                const quantity = quantities[id] || 0;
+                const unitPrice = getAddOnUnitPrice(addOn);
+                const min = addOn.isRequired ? 1 : 0;
+                const max = addOn.maxQuantity || 1;
+
+                return (
+                    <div key={id} className="flex items-start justify-between gap-3 p-3 border border-input rounded-md">
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className="font-medium">{addOn.name}</span>
+                                {addOn.isRequired && <Badge variant="secondary">Included</Badge>}
+                            </div>
+                            {addOn.description && (
+                                <p className="text-sm text-muted-foreground">{addOn.description}</p>
+                            )}
+                            <div className="text-sm mt-1">
+                                {unitPrice < addOn.price && (
+                                    <span className="line-through text-muted-foreground mr-2">
+                                        {formatPrice(addOn.price, currency)}
+                                    </span>
+                                )}
+                                <span>{formatPrice(unitPrice, currency)}</span>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setQuantity(addOn, quantity - 1)}
+                                disabled={quantity <= min}
+                                aria-label={`Remove one ${addOn.name}`}
+                            >
+                                <Minus className="h-4 w-4" />
+                            </Button>
+                            <span className="w-6 text-center">{quantity}</span>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setQuantity(addOn, quantity + 1)}
+                                disabled={quantity >= max}
+                                aria-label={`Add one ${addOn.name}`}
+                            >
+                                <Plus className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
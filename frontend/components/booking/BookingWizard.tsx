@@ -6,10 +6,16 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ChevronLeft, ChevronRight, Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { TourAddOn } from '@/lib/types';
+import { getInitialAddOnQuantities } from '@/lib/tourUtils';
+import { AddOnSelector } from './AddOnSelector';
 
 interface BookingWizardProps {
     tourId: string;
     onComplete: (bookingId: string) => void;
+    // The tour's add-ons, offered on the first step
+    addOns?: TourAddOn[];
+    currency?: string;
 }
 
 interface WizardStep {
@@ -25,10 +31,11 @@ const STEPS: WizardStep[] = [
     { id: 4, title: 'Review', description: 'Review and confirm your booking' },
 ];
 
-export function BookingWizard({ tourId, onComplete }: BookingWizardProps) {
+export function BookingWizard({ tourId, onComplete, addOns = [], currency }: BookingWizardProps) {
     const [currentStep, setCurrentStep] = useState(1);
     const [completedSteps, setCompletedSteps] = useState<number[]>([]);
     const [bookingData, setBookingData] = useState<any>({});
+    const [addOnQuantities, setAddOnQuantities] = useState(() => getInitialAddOnQuantities(addOns));
 
     const progress = (currentStep / STEPS.length) * 100;
 
@@ -136,7 +143,21 @@ export function BookingWizard({ tourId, onComplete }: BookingWizardProps) {
                             <p className="text-sm text-muted-foreground">
                                 Date & Pricing selection component will be rendered here
                             </p>
-                            <Button onClick={() => handleStepComplete({ date: new Date(), pricing: {} })}>
+                            <AddOnSelector
+                                addOns={addOns}
+                                quantities={addOnQuantities}
+                                onChange={setAddOnQuantities}
+                                currency={currency}
+                            />
+                            <Button
+                                onClick={() => handleStepComplete({
+                                    date: new Date(),
+                                    pricing: {},
+                                    addOns: Object.entries(addOnQuantities)
+                                        .filter(([, quantity]) => quantity > 0)
+                                        .map(([addOnId, quantity]) => ({ addOnId, quantity })),
+                                })}
+                            >
                                 Continue
                             </Button>
                         </div>
@@ -2,24 +2,21 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ShoppingCart, Trash2, Calendar, Clock, Users, ShieldCheck, CreditCard, Tag, Plus, Minus } from 'lucide-react';
+import { ShoppingCart, Trash2, Calendar, Clock, Users, ShieldCheck, CreditCard, Plus, Minus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { format } from 'date-fns';
 import { toast } from '@/components/ui/use-toast';
 import { BookingWizard } from '@/components/cart/BookingWizard';
-import { useValidatePromoCode } from '@/lib/hooks/useBooking';
-import { getCartBookings, removeFromCart, updateCartBooking, clearCart, CartBooking } from '@/lib/cartUtils';
+import { useCreateSeatHold } from '@/lib/hooks/useBooking';
+import { getCartBookings, removeFromCart, updateCartBooking, clearCart, saveCheckoutHold, CartBooking } from '@/lib/cartUtils';
 
 export default function CartClient() {
     const router = useRouter();
     const [cartBookings, setCartBookings] = useState<CartBooking[]>([]);
-    const [promoCode, setPromoCode] = useState('');
-    const [discount, setDiscount] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
 
-    const validatePromoCodeMutation = useValidatePromoCode();
+    const createSeatHoldMutation = useCreateSeatHold();
 
     useEffect(() => {
         // Load bookings from localStorage using utility function
@@ -90,30 +87,35 @@ export default function CartClient() {
         });
     };
 
-    const applyPromoCode = () => {
-        if (promoCode.toUpperCase() === 'SAVE10') {
-            setDiscount(0.1);
-            toast({
-                title: 'Promo code applied!',
-                description: '10% discount has been applied to your order.',
-            });
-        } else if (promoCode.toUpperCase() === 'SAVE20') {
-            setDiscount(0.2);
-            toast({
-                title: 'Promo code applied!',
-                description: '20% discount has been applied to your order.',
-            });
-        } else if (promoCode) {
-            toast({
-                title: 'Invalid promo code',
-                description: 'The promo code you entered is not valid.',
-                variant: 'destructive',
-            });
-        }
+    // Seats are held on the server for a limited time once checkout starts
+    const handleCheckout = () => {
+        createSeatHoldMutation.mutate(
+            cartBookings.map(booking => ({ bookingReference: booking.bookingReference })),
+            {
+                onSuccess: (response) => {
+                    const hold = (response as { data?: { id: string; expiresAt: string } })?.data;
+                    if (hold) {
+                        saveCheckoutHold(hold);
+                    }
+                    router.push('/checkout');
+                },
+                onError: (error: Error) => {
+                    toast({
+                        title: 'Unable to start checkout',
+                        description: error.message || 'Some bookings in your cart are no longer available.',
+                        variant: 'destructive',
+                    });
+                },
+            }
+        );
     };
 
-    const subtotal = cartBookings.reduce((sum, booking) => sum + booking.pricing.totalPrice, 0);
-    const discountAmount = subtotal * discount;
+    // Promo codes are redeemed when each booking is created; the cart only reports them
+    const subtotal = cartBookings.reduce((sum, booking) => sum + (booking.pricing.subtotal ?? booking.pricing.totalPrice), 0);
+    const discountAmount = cartBookings.reduce((sum, booking) => sum + (booking.pricing.discountAmount || 0), 0);
+    const appliedCodes = cartBookings
+        .map(booking => booking.promoCode?.code)
+        .filter((code): code is string => !!code);
     const total = subtotal - discountAmount;
 
     if (isLoading) {
@@ -269,29 +271,6 @@ export default function CartClient() {
                                 </Card>
                             ))}
 
-                            {/* Promo Code Card */}
-                            <Card className="p-6">
-                                <div className="flex items-center gap-2 mb-4">
-                                    <Tag className="w-5 h-5 text-primary" />
-                                    <h3 className="font-semibold">Have a promo code?</h3>
-                                </div>
-                                <div className="flex gap-2">
-                                    <Input
-                                        placeholder="Enter promo code"
-                                        value={promoCode}
-                                        onChange={(e) => setPromoCode(e.target.value)}
-                                        className="flex-1"
-                                    />
-                                    <Button onClick={applyPromoCode} variant="outline">
-                                        Apply
-                                    </Button>
-                                </div>
-                                {discount > 0 && (
-                                    <p className="text-sm text-primary mt-2">
-                                        ✓ Promo code applied - {discount * 100}% off!
-                                    </p>
-                                )}
-                            </Card>
                         </div>
 
                         {/* Order Summary */}
@@ -307,9 +286,9 @@ export default function CartClient() {
                                         </span>
                                     </div>
 
-                                    {discount > 0 && (
+                                    {discountAmount > 0 && (
                                         <div className="flex justify-between text-primary">
-                                            <span>Discount ({discount * 100}% off)</span>
+                                            <span>Discount ({[...new Set(appliedCodes)].join(', ')})</span>
                                             <span className="font-medium">-${discountAmount.toLocaleString()}</span>
                                         </div>
                                     )}
@@ -325,9 +304,14 @@ export default function CartClient() {
                                     </div>
                                 </div>
 
-                                <Button size="lg" className="w-full mb-4" onClick={() => router.push('/checkout')}>
+                                <Button
+                                    size="lg"
+                                    className="w-full mb-4"
+                                    onClick={handleCheckout}
+                                    disabled={createSeatHoldMutation.isPending}
+                                >
                                     <CreditCard className="w-5 h-5 mr-2" />
-                                    Proceed to Checkout
+                                    {createSeatHoldMutation.isPending ? 'Reserving seats...' : 'Proceed to Checkout'}
                                 </Button>
 
                                 <Button variant="outline" className="w-full mb-3" onClick={() => router.push('/tours')}>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { CreditCard, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -9,14 +9,20 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { BookingWizard } from '@/components/cart/BookingWizard';
 import { toast } from '@/components/ui/use-toast';
+import { StripeCardField, StripeCardFieldHandle, TokenizedCard } from '@/components/checkout/StripeCardField';
 import { useProcessPayment } from '@/lib/hooks/useBooking';
-import { getCartBookings, clearCart, CartBooking } from '@/lib/cartUtils';
+import { getCartBookings, clearCart, getCheckoutHold, clearCheckoutHold, savePaymentAccessToken, CartBooking, CheckoutHold } from '@/lib/cartUtils';
+
+const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 export default function CheckoutClient() {
     const router = useRouter();
     const [paymentMethod, setPaymentMethod] = useState<'card' | 'paypal'>('card');
     const [cartBookings, setCartBookings] = useState<CartBooking[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [hold, setHold] = useState<CheckoutHold | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
 
     const [contactInfo, setContactInfo] = useState({
         firstName: '',
@@ -25,11 +31,7 @@ export default function CheckoutClient() {
         phone: '',
     });
 
-    const [cardInfo, setCardInfo] = useState({
-        cardNumber: '',
-        expiry: '',
-        cvv: '',
-    });
+    const cardFieldRef = useRef<StripeCardFieldHandle>(null);
 
     const processPaymentMutation = useProcessPayment();
 
@@ -40,10 +42,47 @@ export default function CheckoutClient() {
             router.push('/cart');
             return;
         }
+
+        // Checkout only runs while the seats are held on the server
+        const checkoutHold = getCheckoutHold();
+        if (!checkoutHold) {
+            toast({
+                title: 'Checkout expired',
+                description: 'Your seat reservation has expired. Please start checkout again.',
+                variant: 'destructive',
+            });
+            router.push('/cart');
+            return;
+        }
+
         setCartBookings(bookings);
+        setHold(checkoutHold);
         setIsLoading(false);
     }, [router]);
 
+    // Count down the seat hold and send the traveler back to the cart when it runs out
+    useEffect(() => {
+        if (!hold) return;
+
+        const timer = setInterval(() => {
+            const remaining = Math.max(0, Math.floor((new Date(hold.expiresAt).getTime() - Date.now()) / 1000));
+            setSecondsLeft(remaining);
+
+            if (remaining === 0) {
+                clearInterval(timer);
+                clearCheckoutHold();
+                toast({
+                    title: 'Checkout expired',
+                    description: 'Your seat reservation has expired. Please start checkout again.',
+                    variant: 'destructive',
+                });
+                router.push('/cart');
+            }
+        }, 1000);
+
+        return () => clearInterval(timer);
+    }, [hold, router]);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -57,14 +96,19 @@ export default function CheckoutClient() {
             return;
         }
 
-        // Validate card info if card payment
-        if (paymentMethod === 'card' && (!cardInfo.cardNumber || !cardInfo.expiry || !cardInfo.cvv)) {
-            toast({
-                title: 'Missing card information',
-                description: 'Please fill in all card details',
-                variant: 'destructive',
-            });
-            return;
+        // Card details go to Stripe; only the resulting token is sent to our server
+        let cardInfo: TokenizedCard | undefined;
+        if (paymentMethod === 'card') {
+            try {
+                cardInfo = await cardFieldRef.current?.tokenize();
+            } catch (error) {
+                toast({
+                    title: 'Card information',
+                    description: error instanceof Error ? error.message : 'Please check your card details',
+                    variant: 'destructive',
+                });
+                return;
+            }
         }
 
         // Process payment using API
@@ -73,10 +117,24 @@ export default function CheckoutClient() {
                 bookings: cartBookings,
                 paymentMethod,
                 contactInfo,
-                ...(paymentMethod === 'card' && { cardInfo }),
+                holdId: hold?.id,
+                ...(cardInfo && { cardInfo }),
             },
             {
-                onSuccess: () => {
+                onSuccess: (response) => {
+                    const payment = (response as {
+                        data?: { id?: string; status?: string; redirectUrl?: string; accessToken?: string };
+                    })?.data;
+
+                    // PayPal and 3-D Secure payments continue on the gateway's page
+                    if (payment?.status === 'requires_action' && payment.redirectUrl) {
+                        if (payment.id && payment.accessToken) {
+                            savePaymentAccessToken(payment.id, payment.accessToken);
+                        }
+                        window.location.href = payment.redirectUrl;
+                        return;
+                    }
+
                     // Clear cart
                     clearCart();
 
@@ -88,6 +146,11 @@ export default function CheckoutClient() {
                     router.push('/confirmation');
                 },
                 onError: (error: any) => {
+                    // 410 - the hold or a booking expired, checkout has to start over
+                    if (error.statusCode === 410) {
+                        clearCheckoutHold();
+                        router.push('/cart');
+                    }
                     toast({
                         title: 'Payment failed',
                         description: error.message || 'There was an error processing your payment. Please try again.',
@@ -200,39 +263,8 @@ export default function CheckoutClient() {
                                     </div>
 
                                     {paymentMethod === 'card' && (
-                                        <div className="space-y-4 pt-4">
-                                            <div>
-                                                <Label htmlFor="cardNumber">Card Number</Label>
-                                                <Input
-                                                    id="cardNumber"
-                                                    placeholder="1234 5678 9012 3456"
-                                                    required
-                                                    value={cardInfo.cardNumber}
-                                                    onChange={(e) => setCardInfo({ ...cardInfo, cardNumber: e.target.value })}
-                                                />
-                                            </div>
-                                            <div className="grid grid-cols-2 gap-4">
-                                                <div>
-                                                    <Label htmlFor="expiry">Expiry Date</Label>
-                                                    <Input
-                                                        id="expiry"
-                                                        placeholder="MM/YY"
-                                                        required
-                                                        value={cardInfo.expiry}
-                                                        onChange={(e) => setCardInfo({ ...cardInfo, expiry: e.target.value })}
-                                                    />
-                                                </div>
-                                                <div>
-                                                    <Label htmlFor="cvv">CVV</Label>
-                                                    <Input
-                                                        id="cvv"
-                                                        placeholder="123"
-                                                        required
-                                                        value={cardInfo.cvv}
-                                                        onChange={(e) => setCardInfo({ ...cardInfo, cvv: e.target.value })}
-                                                    />
-                                                </div>
-                                            </div>
+                                        <div className="pt-4">
+                                            <StripeCardField ref={cardFieldRef} />
                                         </div>
                                     )}
 
@@ -282,6 +314,12 @@ export default function CheckoutClient() {
                                         </div>
                                     </div>
 
+                                    {secondsLeft !== null && (
+                                        <p className="text-sm text-center text-muted-foreground">
+                                            Seats held for <span className="font-medium text-foreground">{formatCountdown(secondsLeft)}</span>
+                                        </p>
+                                    )}
+
                                     <Button
                                         type="submit"
                                         className="w-full"
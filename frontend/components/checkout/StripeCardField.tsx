@@ -0,0 +1,120 @@
+'use client';
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+
+// The parts of Stripe.js the checkout uses. The script is loaded from Stripe so
+// card numbers go straight to Stripe and never pass through our servers.
+interface StripeCardElement {
+    mount: (element: HTMLElement) => void;
+    destroy: () => void;
+}
+
+interface StripeJs {
+    elements: () => {
+        create: (type: 'card', options?: Record<string, unknown>) => StripeCardElement;
+    };
+    createPaymentMethod: (params: { type: 'card'; card: StripeCardElement }) => Promise<{
+        paymentMethod?: { id: string; card?: { last4?: string } };
+        error?: { message?: string };
+    }>;
+}
+
+declare global {
+    interface Window {
+        Stripe?: (publishableKey: string) => StripeJs;
+    }
+}
+
+const STRIPE_JS_URL = 'https://js.stripe.com/v3';
+const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
+
+export interface TokenizedCard {
+    token: string;
+    last4?: string;
+}
+
+export interface StripeCardFieldHandle {
+    /**
+     * Turn the entered card into a Stripe payment method the server can charge
+     */
+    tokenize: () => Promise<TokenizedCard>;
+}
+
+const loadStripe = (): Promise<NonNullable<Window['Stripe']>> =>
+    new Promise((resolve, reject) => {
+        if (window.Stripe) {
+            resolve(window.Stripe);
+            return;
+        }
+
+        let script = document.querySelector<HTMLScriptElement>(`script[src="${STRIPE_JS_URL}"]`);
+        if (!script) {
+            script = document.createElement('script');
+            script.src = STRIPE_JS_URL;
+            script.async = true;
+            document.head.appendChild(script);
+        }
+        script.addEventListener('load', () => (window.Stripe ? resolve(window.Stripe) : reject(new Error('Stripe.js did not load'))));
+        script.addEventListener('error', () => reject(new Error('Stripe.js did not load')));
+    });
+
+/**
+ * Card input hosted by Stripe Elements
+ */
+export const StripeCardField = forwardRef<StripeCardFieldHandle>(function StripeCardField(_props, ref) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const stripeRef = useRef<StripeJs | null>(null);
+    const cardRef = useRef<StripeCardElement | null>(null);
+    const [error, setError] = useState<string | null>(
+        publishableKey ? null : 'Card payments are not available right now. Please use PayPal.'
+    );
+
+    useEffect(() => {
+        if (!publishableKey) return;
+
+        let cancelled = false;
+        loadStripe()
+            .then((Stripe) => {
+                if (cancelled || !containerRef.current) return;
+                const stripe = Stripe(publishableKey);
+                const card = stripe.elements().create('card', { hidePostalCode: true });
+                card.mount(containerRef.current);
+                stripeRef.current = stripe;
+                cardRef.current = card;
+            })
+            .catch(() => setError('The card form could not be loaded. Please refresh the page.'));
+
+        return () => {
+            cancelled = true;
+            cardRef.current?.destroy();
+            cardRef.current = null;
+        };
+    }, []);
+
+    useImperativeHandle(ref, () => ({
+        tokenize: async () => {
+            if (!stripeRef.current || !cardRef.current) {
+                throw new Error('Card payments are not available right now');
+            }
+
+            const { paymentMethod, error: stripeError } = await stripeRef.current.createPaymentMethod({
+                type: 'card',
+                card: cardRef.current,
+            });
+            if (stripeError || !paymentMethod) {
+                throw new Error(stripeError?.message || 'Please check your card details');
+            }
+
+            return { token: paymentMethod.id, last4: paymentMethod.card?.last4 };
+        },
+    }), []);
+
+    return (
+        <div className="space-y-2">
+            <Label>Card Details</Label>
+            <div ref={containerRef} className="rounded-md border border-input bg-background px-3 py-3" />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+    );
+});
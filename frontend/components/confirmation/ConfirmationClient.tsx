@@ -6,13 +6,49 @@ import { CheckCircle, Mail, Calendar, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { BookingWizard } from '@/components/cart/BookingWizard';
+import { toast } from '@/components/ui/use-toast';
+import { useConfirmPayment } from '@/lib/hooks/useBooking';
+import { clearCart, getPaymentAccessToken } from '@/lib/cartUtils';
 
 export default function ConfirmationClient() {
     const router = useRouter();
+    const confirmPaymentMutation = useConfirmPayment();
+    const { mutate: confirmPayment } = confirmPaymentMutation;
 
     useEffect(() => {
-        // Optional: Send confirmation email or analytics event
-    }, []);
+        // Returning from a payment gateway (PayPal, 3-D Secure)
+        const params = new URLSearchParams(window.location.search);
+        const paymentId = params.get('paymentId');
+        if (!paymentId) return;
+
+        if (params.get('cancelled') === 'true') {
+            router.push('/checkout');
+            return;
+        }
+
+        confirmPayment({ paymentId, token: getPaymentAccessToken(paymentId) }, {
+            onSuccess: () => clearCart(),
+            onError: (error: Error) => {
+                toast({
+                    title: 'Payment failed',
+                    description: error.message || 'We could not confirm your payment. Please try again.',
+                    variant: 'destructive',
+                });
+                router.push('/checkout');
+            },
+        });
+    }, [confirmPayment, router]);
+
+    if (confirmPaymentMutation.isPending) {
+        return (
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                    <p className="text-muted-foreground">Confirming your payment...</p>
+                </div>
+            </div>
+        );
+    }
 
     return (
         <div className="min-h-screen bg-background">
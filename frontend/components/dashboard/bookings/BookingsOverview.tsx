@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { CalendarCheck, DollarSign, Percent, Undo2, Calendar } from 'lucide-react';
+import { format } from 'date-fns';
+import { LoadingState } from '@/components/dashboard/shared/LoadingState';
+import { EmptyState } from '@/components/dashboard/shared/EmptyState';
+import { ErrorState } from '@/components/dashboard/shared/ErrorState';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useBookingStats, useManagedBookings } from '@/lib/hooks/useBooking';
+import { getUserToursTitle } from '@/lib/api/destinations';
+
+interface TourTitle {
+    _id: string;
+    title: string;
+    code?: string;
+}
+
+interface ManagedBooking {
+    id: string;
+    bookingReference: string;
+    tourTitle: string;
+    contactName: string;
+    departureDate: string;
+    status: string;
+    paymentStatus: string;
+    pricing: { totalPrice: number; currency: string };
+}
+
+const formatMoney = (value: number, currency?: string) => currency
+    ? value.toLocaleString(undefined, { style: 'currency', currency })
+    : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function BookingsOverview() {
+    const { userId } = useAuth();
+    const [tourId, setTourId] = useState<string>('all');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    const filters = {
+        tourId: tourId === 'all' ? undefined : tourId,
+        from: from || undefined,
+        to: to || undefined,
+    };
+
+    const { data: tourTitles } = useQuery({
+        queryKey: ['tourTitles', userId],
+        queryFn: () => getUserToursTitle(userId!),
+        enabled: !!userId,
+    });
+
+    const { data: statsResponse, isLoading: statsLoading, isError: statsError, refetch: refetchStats } = useBookingStats(filters);
+    const { data: bookingsData, isLoading: bookingsLoading } = useManagedBookings({ tourId: filters.tourId, limit: 20 });
+
+    const stats = statsResponse?.data;
+    const bookings = (bookingsData || []) as ManagedBooking[];
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardContent className="pt-6 grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Tour</label>
+                        <Select value={tourId} onValueChange={setTourId}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">All tours</SelectItem>
+                                {((tourTitles as { data?: TourTitle[] })?.data || []).map((tour) => (
+                                    <SelectItem key={tour._id} value={tour._id}>
+                                        {tour.code ? `${tour.title} (${tour.code})` : tour.title}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="statsFrom" className="text-sm font-medium">From</label>
+                        <Input id="statsFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="statsTo" className="text-sm font-medium">To</label>
+                        <Input id="statsTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                    </div>
+                </CardContent>
+            </Card>
+
+            {statsLoading ? (
+                <LoadingState type="cards" rows={4} />
+            ) : statsError || !stats ? (
+                <ErrorState onRetry={() => refetchStats()} />
+            ) : (
+                <>
+                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                        <Card>
+                            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                <CardTitle className="text-sm font-medium">Bookings</CardTitle>
+                                <CalendarCheck className="h-4 w-4 text-primary" />
+                            </CardHeader>
+                            <CardContent>
+                                <div className="text-2xl font-bold">{stats.totalBookings}</div>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    {stats.byStatus.map((row) => `${row.count} ${row.status}`).join(' · ') || 'No bookings yet'}
+                                </p>
+                            </CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                <CardTitle className="text-sm font-medium">Net Revenue</CardTitle>
+                                <DollarSign className="h-4 w-4 text-primary" />
+                            </CardHeader>
+                            <CardContent>
+                                <div className="text-2xl font-bold">{formatMoney(stats.netRevenue, stats.currency)}</div>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    {formatMoney(stats.bookedValue, stats.currency)} booked
+                                </p>
+                            </CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                <CardTitle className="text-sm font-medium">Refunded</CardTitle>
+                                <Undo2 className="h-4 w-4 text-primary" />
+                            </CardHeader>
+                            <CardContent>
+                                <div className="text-2xl font-bold">{formatMoney(stats.refunded, stats.currency)}</div>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    of {formatMoney(stats.collected, stats.currency)} collected
+                                </p>
+                            </CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                <CardTitle className="text-sm font-medium">Cancellation Rate</CardTitle>
+                                <Percent className="h-4 w-4 text-primary" />
+                            </CardHeader>
+                            <CardContent>
+                                <div className="text-2xl font-bold">{stats.cancellationRate}%</div>
+                                <p className="text-xs text-muted-foreground mt-1">of bookings in this period</p>
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="grid gap-6 lg:grid-cols-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Revenue by Month</CardTitle>
+                                <CardDescription>Grouped by the month the booking was made</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {stats.revenueByMonth.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No bookings in this period.</p>
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Month</TableHead>
+                                                <TableHead className="text-right">Bookings</TableHead>
+                                                <TableHead className="text-right">Collected</TableHead>
+                                                <TableHead className="text-right">Refunded</TableHead>
+                                                <TableHead className="text-right">Net</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {stats.revenueByMonth.map((row) => (
+                                                <TableRow key={row.month}>
+                                                    <TableCell>{format(new Date(`${row.month}-01T00:00:00`), 'MMM yyyy')}</TableCell>
+                                                    <TableCell className="text-right">{row.bookings}</TableCell>
+                                                    <TableCell className="text-right">{formatMoney(row.collected, stats.currency)}</TableCell>
+                                                    <TableCell className="text-right">{formatMoney(row.refunded, stats.currency)}</TableCell>
+                                                    <TableCell className="text-right font-medium">{formatMoney(row.netRevenue, stats.currency)}</TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Occupancy</CardTitle>
+                                <CardDescription>
+                                    {from || to ? 'Departures in the selected period' : 'Upcoming departures'}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {stats.occupancy.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No departures with seat inventory yet.</p>
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Departure</TableHead>
+                                                <TableHead>Tour</TableHead>
+                                                <TableHead className="text-right">Seats</TableHead>
+                                                <TableHead className="text-right">Full</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {stats.occupancy.map((row) => (
+                                                <TableRow key={`${row.tourId}-${row.departureId}-${row.departureDate}`}>
+                                                    <TableCell>{format(new Date(row.departureDate), 'MMM d, yyyy')}</TableCell>
+                                                    <TableCell className="max-w-[12rem] truncate">{row.tourTitle}</TableCell>
+                                                    <TableCell className="text-right">{row.reserved}/{row.capacity}</TableCell>
+                                                    <TableCell className="text-right">{row.occupancyRate}%</TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+                </>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Recent Bookings</CardTitle>
+                    <CardDescription>Latest bookings for your tours</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {bookingsLoading ? (
+                        <LoadingState type="table" rows={5} columns={5} />
+                    ) : bookings.length === 0 ? (
+                        <EmptyState
+                            icon={<Calendar className="h-10 w-10" />}
+                            title="No bookings"
+                            description="Bookings for your tours will show up here."
+                        />
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Reference</TableHead>
+                                    <TableHead>Tour</TableHead>
+                                    <TableHead>Customer</TableHead>
+                                    <TableHead>Departure</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Total</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {bookings.map((booking) => (
+                                    <TableRow key={booking.id}>
+                                        <TableCell className="font-mono text-xs">{booking.bookingReference}</TableCell>
+                                        <TableCell className="max-w-[14rem] truncate">{booking.tourTitle}</TableCell>
+                                        <TableCell>{booking.contactName}</TableCell>
+                                        <TableCell>{format(new Date(booking.departureDate), 'MMM d, yyyy')}</TableCell>
+                                        <TableCell className="space-x-1">
+                                            <Badge variant="secondary" className="capitalize">{booking.status}</Badge>
+                                            <Badge variant="outline" className="capitalize">{booking.paymentStatus}</Badge>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {booking.pricing.currency} {formatMoney(booking.pricing.totalPrice)}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { BookingsOverview } from './BookingsOverview';
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { LoadingState } from '@/components/dashboard/shared/LoadingState';
+import { EmptyState } from '@/components/dashboard/shared/EmptyState';
+import { ErrorState } from '@/components/dashboard/shared/ErrorState';
+import { EnquiryStatusBadge } from '@/components/enquiries/EnquiryStatusBadge';
+import { useEnquiry, useEnquiryInbox, useReplyToEnquiry, useUpdateEnquiryStatus } from '@/lib/hooks/useEnquiries';
+import { Enquiry, EnquiryStatus } from '@/lib/api/enquiries';
+
+type StatusFilter = EnquiryStatus | 'all';
+
+function EnquiryThread({ enquiryId }: { enquiryId: string }) {
+    const [reply, setReply] = useState('');
+    const [bookingId, setBookingId] = useState('');
+    const { data, isLoading } = useEnquiry(enquiryId);
+    const replyMutation = useReplyToEnquiry();
+    const statusMutation = useUpdateEnquiryStatus();
+
+    const enquiry = data?.data;
+
+    if (isLoading || !enquiry) {
+        return <LoadingState type="form" rows={3} />;
+    }
+
+    const handleReply = () => {
+        if (!reply.trim()) return;
+        replyMutation.mutate(
+            { enquiryId, message: reply },
+            {
+                onSuccess: () => {
+                    setReply('');
+                    toast.success('Reply sent');
+                },
+                onError: (error: Error) => toast.error(error.message || 'Failed to send reply'),
+            }
+        );
+    };
+
+    const handleStatus = (status: EnquiryStatus) => {
+        statusMutation.mutate(
+            { enquiryId, status, bookingId: status === 'converted' ? bookingId.trim() : undefined },
+            {
+                onSuccess: () => toast.success('Enquiry updated'),
+                onError: (error: Error) => toast.error(error.message || 'Failed to update enquiry'),
+            }
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="text-sm space-y-1">
+                <p><span className="text-muted-foreground">From:</span> {enquiry.contactName} ({enquiry.contactEmail})</p>
+                {enquiry.contactPhone && <p><span className="text-muted-foreground">Phone:</span> {enquiry.contactPhone}</p>}
+                {enquiry.preferredDates?.from && (
+                    <p>
+                        <span className="text-muted-foreground">Preferred dates:</span>{' '}
+                        {format(new Date(enquiry.preferredDates.from), 'MMM d, yyyy')}
+                        {enquiry.preferredDates.to && ` - ${format(new Date(enquiry.preferredDates.to), 'MMM d, yyyy')}`}
+                    </p>
+                )}
+                {enquiry.participants && (
+                    <p>
+                        <span className="text-muted-foreground">Travelers:</span>{' '}
+                        {enquiry.participants.adults} adults, {enquiry.participants.children} children
+                    </p>
+                )}
+            </div>
+
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+                {enquiry.messages.map((message) => (
+                    <div
+                        key={message._id}
+                        className={`rounded-lg p-3 text-sm ${message.sender === 'customer' ? 'bg-muted mr-8' : 'bg-primary/10 ml-8'}`}
+                    >
+                        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                            <span className="capitalize">{message.sender}</span>
+                            <span>{format(new Date(message.createdAt), 'MMM d, h:mm a')}</span>
+                        </div>
+                        <p className="whitespace-pre-line">{message.body}</p>
+                    </div>
+                ))}
+            </div>
+
+            <Textarea
+                placeholder="Write a reply..."
+                rows={3}
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2 justify-between">
+                <div className="flex gap-2">
+                    {enquiry.status !== 'closed' ? (
+                        <Button variant="outline" onClick={() => handleStatus('closed')} disabled={statusMutation.isPending}>
+                            Close
+                        </Button>
+                    ) : (
+                        <Button variant="outline" onClick={() => handleStatus('open')} disabled={statusMutation.isPending}>
+                            Reopen
+                        </Button>
+                    )}
+                </div>
+                <Button onClick={handleReply} disabled={replyMutation.isPending || !reply.trim()}>
+                    {replyMutation.isPending ? 'Sending...' : 'Send Reply'}
+                </Button>
+            </div>
+
+            {enquiry.status !== 'converted' && (
+                <div className="flex gap-2 pt-4 border-t">
+                    <Input
+                        placeholder="Booking ID"
+                        value={bookingId}
+                        onChange={(e) => setBookingId(e.target.value)}
+                    />
+                    <Button
+                        variant="secondary"
+                        onClick={() => handleStatus('converted')}
+                        disabled={statusMutation.isPending || !bookingId.trim()}
+                    >
+                        Mark as Booked
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function EnquiryInbox() {
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [selected, setSelected] = useState<Enquiry | null>(null);
+
+    const { data, isLoading, isError, refetch } = useEnquiryInbox(statusFilter === 'all' ? undefined : statusFilter);
+    const enquiries: Enquiry[] = data || [];
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                    <CardTitle>Inbox</CardTitle>
+                    <CardDescription>Questions customers asked about your tours</CardDescription>
+                </div>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                    <SelectTrigger className="w-44">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All enquiries</SelectItem>
+                        <SelectItem value="open">Awaiting reply</SelectItem>
+                        <SelectItem value="answered">Answered</SelectItem>
+                        <SelectItem value="converted">Booked</SelectItem>
+                        <SelectItem value="closed">Closed</SelectItem>
+                    </SelectContent>
+                </Select>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <LoadingState type="table" rows={5} columns={4} />
+                ) : isError ? (
+                    <ErrorState onRetry={() => refetch()} />
+                ) : enquiries.length === 0 ? (
+                    <EmptyState
+                        icon={<MessageSquare className="h-10 w-10" />}
+                        title="No enquiries"
+                        description="Enquiries customers send from your tour pages will show up here."
+                    />
+                ) : (
+                    <div className="divide-y">
+                        {enquiries.map((enquiry) => (
+                            <button
+                                key={enquiry._id}
+                                type="button"
+                                onClick={() => setSelected(enquiry)}
+                                className="w-full text-left py-4 flex items-start justify-between gap-4 hover:bg-muted/50 px-2 rounded-md"
+                            >
+                                <div className="min-w-0">
+                                    <p className="font-medium truncate">{enquiry.subject || enquiry.tourTitle}</p>
+                                    <p className="text-sm text-muted-foreground truncate">
+                                        {enquiry.contactName} · {enquiry.tourTitle}
+                                    </p>
+                                </div>
+                                <div className="flex flex-col items-end gap-1 shrink-0">
+                                    <EnquiryStatusBadge status={enquiry.status} />
+                                    <span className="text-xs text-muted-foreground">
+                                        {format(new Date(enquiry.lastMessageAt), 'MMM d, h:mm a')}
+                                    </span>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+                <DialogContent className="max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>{selected?.subject || selected?.tourTitle}</DialogTitle>
+                        <DialogDescription>{selected?.tourTitle}</DialogDescription>
+                    </DialogHeader>
+                    {selected && <EnquiryThread enquiryId={selected._id} />}
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1 @@
+export { EnquiryInbox } from './EnquiryInbox';
@@ -65,6 +65,7 @@ const baseNavigationItems: NavigationItem[] = [
             { href: '/dashboard/tours/facts', label: 'Facts', icon: Lightbulb },
             { href: '/dashboard/tours/faq', label: 'FAQ', icon: HelpCircle },
             { href: '/dashboard/tours/bookings', label: 'Bookings', icon: Calendar },
+            { href: '/dashboard/tours/enquiries', label: 'Enquiries', icon: MessageSquare },
             { href: '/dashboard/tours/reviews', label: 'Reviews', icon: Star },
             { href: '/dashboard/tours/settings', label: 'Settings', icon: Wrench },
         ]
@@ -0,0 +1,128 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, LogOut, MonitorSmartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/components/ui/use-toast';
+import { getMySessions, revokeAllMySessions, revokeMySession } from '@/lib/api/users';
+import useUserStore from '@/lib/store/useUserStore';
+
+/**
+ * ActiveSessions Component
+ * Devices the user is signed in on, with sign-out for one or all of them
+ */
+export function ActiveSessions() {
+    const router = useRouter();
+    const queryClient = useQueryClient();
+
+    const { data: sessions, isLoading } = useQuery({
+        queryKey: ['mySessions'],
+        queryFn: getMySessions,
+    });
+
+    // Signing this browser out ends the dashboard session too
+    const signedOut = () => {
+        useUserStore.getState().clearUser();
+        router.push('/auth/login');
+    };
+
+    const onError = (error: Error) => {
+        toast({
+            title: 'Error',
+            description: error.message || 'Failed to sign out',
+            variant: 'destructive',
+        });
+    };
+
+    const revokeMutation = useMutation({
+        mutationFn: (sessionId: string) => revokeMySession(sessionId),
+        onSuccess: (_, sessionId) => {
+            if (sessions?.find(session => session.id === sessionId)?.current) {
+                return signedOut();
+            }
+            toast({ title: 'Signed out', description: 'The device was signed out' });
+            queryClient.invalidateQueries({ queryKey: ['mySessions'] });
+        },
+        onError,
+    });
+
+    const revokeAllMutation = useMutation({
+        mutationFn: (keepCurrent: boolean) => revokeAllMySessions(keepCurrent),
+        onSuccess: (_, keepCurrent) => {
+            if (!keepCurrent) {
+                return signedOut();
+            }
+            toast({ title: 'Signed out', description: 'All other devices were signed out' });
+            queryClient.invalidateQueries({ queryKey: ['mySessions'] });
+        },
+        onError,
+    });
+
+    const hasOtherSessions = (sessions || []).some(session => !session.current);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <MonitorSmartphone className="h-5 w-5" />
+                    <CardTitle>Active Sessions</CardTitle>
+                </div>
+                <CardDescription>Devices signed in to your account</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isLoading && (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+                {sessions?.map(session => (
+                    <div key={session.id} className="flex items-start justify-between gap-4">
+                        <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <span className="font-medium">{session.device || 'Unknown device'}</span>
+                                {session.current && <Badge variant="secondary">This device</Badge>}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                {session.ip ? `${session.ip} · ` : ''}
+                                Active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                            </p>
+                        </div>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            disabled={revokeMutation.isPending}
+                            onClick={() => revokeMutation.mutate(session.id)}
+                        >
+                            <LogOut className="h-4 w-4" />
+                        </Button>
+                    </div>
+                ))}
+                <div className="flex flex-col gap-2 pt-2">
+                    {hasOtherSessions && (
+                        <Button
+                            type="button"
+                            variant="outline"
+                            disabled={revokeAllMutation.isPending}
+                            onClick={() => revokeAllMutation.mutate(true)}
+                        >
+                            Sign out other devices
+                        </Button>
+                    )}
+                    <Button
+                        type="button"
+                        variant="destructive"
+                        disabled={revokeAllMutation.isPending}
+                        onClick={() => revokeAllMutation.mutate(false)}
+                    >
+                        Sign out everywhere
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
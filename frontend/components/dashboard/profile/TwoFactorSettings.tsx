@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/components/ui/use-toast';
+import {
+    disableMyTwoFactor,
+    enableMyTwoFactor,
+    getMyTwoFactor,
+    regenerateMyRecoveryCodes,
+    setupMyTwoFactor,
+    TwoFactorSetup,
+} from '@/lib/api/users';
+
+/**
+ * TwoFactorSettings Component
+ * Turn authenticator-app codes on or off and manage recovery codes
+ */
+export function TwoFactorSettings() {
+    const queryClient = useQueryClient();
+    const [code, setCode] = useState('');
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+    const { data: status, isLoading } = useQuery({
+        queryKey: ['myTwoFactor'],
+        queryFn: getMyTwoFactor,
+    });
+
+    const onError = (error: Error) => {
+        toast({
+            title: 'Error',
+            description: error.message || 'Something went wrong',
+            variant: 'destructive',
+        });
+    };
+
+    // New recovery codes are shown until the user dismisses them
+    const showRecoveryCodes = (codes: string[]) => {
+        setCode('');
+        setSetup(null);
+        setRecoveryCodes(codes);
+        queryClient.invalidateQueries({ queryKey: ['myTwoFactor'] });
+    };
+
+    const setupMutation = useMutation({
+        mutationFn: setupMyTwoFactor,
+        onSuccess: (data) => {
+            setCode('');
+            setSetup(data);
+        },
+        onError,
+    });
+
+    const enableMutation = useMutation({
+        mutationFn: (value: string) => enableMyTwoFactor(value),
+        onSuccess: (codes) => {
+            toast({ title: 'Two-factor enabled', description: 'Save your recovery codes somewhere safe' });
+            showRecoveryCodes(codes);
+        },
+        onError,
+    });
+
+    const regenerateMutation = useMutation({
+        mutationFn: (value: string) => regenerateMyRecoveryCodes(value),
+        onSuccess: (codes) => {
+            toast({ title: 'Recovery codes replaced', description: 'Your old recovery codes no longer work' });
+            showRecoveryCodes(codes);
+        },
+        onError,
+    });
+
+    const disableMutation = useMutation({
+        mutationFn: (value: string) => disableMyTwoFactor(value),
+        onSuccess: () => {
+            toast({ title: 'Two-factor disabled', description: 'Sign-in now only needs your password' });
+            setCode('');
+            queryClient.invalidateQueries({ queryKey: ['myTwoFactor'] });
+        },
+        onError,
+    });
+
+    const isBusy = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+    const codeInput = (
+        <div className="space-y-2">
+            <Label htmlFor="two-factor-code">Authentication Code</Label>
+            <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+            />
+        </div>
+    );
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    <CardTitle>Two-Factor Authentication</CardTitle>
+                    {status?.enabled && <Badge variant="secondary">On</Badge>}
+                </div>
+                <CardDescription>
+                    {status?.required
+                        ? 'Required for your account. Sign-in asks for a code from your authenticator app.'
+                        : 'Ask for a code from your authenticator app when signing in'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isLoading && (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+
+                {recoveryCodes.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground">
+                            Each recovery code works once if you lose your authenticator. They won&apos;t be shown again.
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+                            {recoveryCodes.map(recoveryCode => (
+                                <span key={recoveryCode}>{recoveryCode}</span>
+                            ))}
+                        </div>
+                        <Button type="button" variant="outline" className="w-full" onClick={() => setRecoveryCodes([])}>
+                            Done
+                        </Button>
+                    </div>
+                )}
+
+                {status && !status.enabled && !setup && (
+                    <Button
+                        type="button"
+                        className="w-full"
+                        disabled={setupMutation.isPending}
+                        onClick={() => setupMutation.mutate()}
+                    >
+                        {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Set up two-factor authentication
+                    </Button>
+                )}
+
+                {status && !status.enabled && setup && (
+                    <>
+                        <div className="flex flex-col items-center gap-2">
+                            <Image src={setup.qrCode} alt="Two-factor QR code" width={192} height={192} unoptimized />
+                            <p className="text-xs text-muted-foreground">Or enter this key manually:</p>
+                            <code className="break-all text-sm">{setup.secret}</code>
+                        </div>
+                        {codeInput}
+                        <Button
+                            type="button"
+                            className="w-full"
+                            disabled={!code || isBusy}
+                            onClick={() => enableMutation.mutate(code)}
+                        >
+                            {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Enable
+                        </Button>
+                    </>
+                )}
+
+                {status?.enabled && recoveryCodes.length === 0 && (
+                    <>
+                        <p className="text-sm text-muted-foreground">
+                            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                            Enter a current code to replace them{status.required ? '' : ' or to turn two-factor off'}.
+                        </p>
+                        {codeInput}
+                        <div className="flex flex-col gap-2">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                disabled={!code || isBusy}
+                                onClick={() => regenerateMutation.mutate(code)}
+                            >
+                                New recovery codes
+                            </Button>
+                            {!status.required && (
+                                <Button
+                                    type="button"
+                                    variant="destructive"
+                                    disabled={!code || isBusy}
+                                    onClick={() => disableMutation.mutate(code)}
+                                >
+                                    Turn off two-factor
+                                </Button>
+                            )}
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import React from 'react';
+import { useFormContext, useFieldArray } from 'react-hook-form';
+import { DollarSign, PackagePlus, Plus, Trash2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getDefaultAddOn } from '@/lib/utils/defaultTourValues';
+
+const ADD_ON_CATEGORIES = [
+    { value: 'transportation', label: 'Transportation' },
+    { value: 'accommodation', label: 'Accommodation' },
+    { value: 'activity', label: 'Activity' },
+    { value: 'meal', label: 'Meal' },
+    { value: 'equipment', label: 'Equipment' },
+    { value: 'insurance', label: 'Insurance' },
+    { value: 'guide', label: 'Guide' },
+    { value: 'other', label: 'Other' },
+];
+
+/**
+ * TourAddOns Component
+ * Manages the optional extras travelers can add when booking
+ */
+export function TourAddOns() {
+    const { control, watch } = useFormContext();
+    const currency = watch('currency') || 'USD';
+
+    const { fields: addOns, append: appendAddOn, remove: removeAddOn } = useFieldArray({
+        control,
+        name: 'addOns',
+    });
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <PackagePlus className="h-5 w-5 text-primary" />
+                    <CardTitle>Add-ons</CardTitle>
+                </div>
+                <CardDescription>
+                    Extras travelers can add to their booking, priced per unit in {currency}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {addOns.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                        No add-ons yet. Add airport pickups, equipment rental, insurance and other extras.
+                    </p>
+                )}
+                {addOns.map((field, index) => (
+                    <AddOnItem
+                        key={field.id}
+                        index={index}
+                        onRemove={() => removeAddOn(index)}
+                    />
+                ))}
+                <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => appendAddOn(getDefaultAddOn())}
+                    className="w-full"
+                >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Add-on
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
+
+type AddOnErrors = Partial<Record<'name' | 'discountPrice', { message?: string }>>;
+
+/**
+ * Add-on Item Component
+ * One add-on with its price, quantity limit and availability
+ */
+interface AddOnItemProps {
+    index: number;
+    onRemove: () => void;
+}
+
+function AddOnItem({ index, onRemove }: AddOnItemProps) {
+    const { register, setValue, watch, formState: { errors } } = useFormContext();
+    const addOn = watch(`addOns.${index}`) || {};
+    const addOnErrors = (errors.addOns as unknown as AddOnErrors[] | undefined)?.[index];
+
+    return (
+        <Card>
+            <CardContent className="pt-6 space-y-4">
+                <div className="flex items-start justify-between">
+                    <h4 className="font-semibold">{addOn.name || `Add-on ${index + 1}`}</h4>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={onRemove}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {/* Name */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`addOns.${index}.name`}>
+                            Name <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                            id={`addOns.${index}.name`}
+                            placeholder="e.g., Airport pickup"
+                            {...register(`addOns.${index}.name`)}
+                        />
+                        {addOnErrors?.name && (
+                            <p className="text-sm text-destructive">{addOnErrors.name.message}</p>
+                        )}
+                    </div>
+
+                    {/* Category */}
+                    <div className="space-y-2">
+                        <Label>Category</Label>
+                        <Select
+                            value={addOn.category || 'other'}
+                            onValueChange={(value) => setValue(`addOns.${index}.category`, value, { shouldDirty: true })}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {ADD_ON_CATEGORIES.map(category => (
+                                    <SelectItem key={category.value} value={category.value}>
+                                        {category.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                {/* Description */}
+                <div className="space-y-2">
+                    <Label htmlFor={`addOns.${index}.description`}>Description</Label>
+                    <Textarea
+                        id={`addOns.${index}.description`}
+                        rows={2}
+                        {...register(`addOns.${index}.description`)}
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {/* Price */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`addOns.${index}.price`}>
+                            Price <span className="text-destructive">*</span>
+                        </Label>
+                        <div className="relative">
+                            <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                id={`addOns.${index}.price`}
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="pl-10"
+                                {...register(`addOns.${index}.price`, { valueAsNumber: true })}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Discount Price */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`addOns.${index}.discountPrice`}>Discount Price</Label>
+                        <Input
+                            id={`addOns.${index}.discountPrice`}
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            disabled={!addOn.isDiscounted}
+                            {...register(`addOns.${index}.discountPrice`, { valueAsNumber: true })}
+                        />
+                        {addOnErrors?.discountPrice && (
+                            <p className="text-sm text-destructive">{addOnErrors.discountPrice.message}</p>
+                        )}
+                    </div>
+
+                    {/* Max Quantity */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`addOns.${index}.maxQuantity`}>Max Quantity</Label>
+                        <Input
+                            id={`addOns.${index}.maxQuantity`}
+                            type="number"
+                            min="1"
+                            {...register(`addOns.${index}.maxQuantity`, { valueAsNumber: true })}
+                        />
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="flex items-center justify-between">
+                        <Label>Discounted</Label>
+                        <Switch
+                            checked={addOn.isDiscounted || false}
+                            onCheckedChange={(checked) => setValue(`addOns.${index}.isDiscounted`, checked, { shouldDirty: true })}
+                        />
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <Label>Required</Label>
+                        <Switch
+                            checked={addOn.isRequired || false}
+                            onCheckedChange={(checked) => setValue(`addOns.${index}.isRequired`, checked, { shouldDirty: true })}
+                        />
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <Label>Available</Label>
+                        <Switch
+                            checked={addOn.isActive ?? true}
+                            onCheckedChange={(checked) => setValue(`addOns.${index}.isActive`, checked, { shouldDirty: true })}
+                        />
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import { useFormContext, useFieldArray } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import {
     Calendar as CalendarIcon,
@@ -30,9 +31,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { DualRangeSlider } from '@/components/ui/dual-range-slider';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
+import { getExchangeRates } from '@/lib/api/currencies';
 import {
     generateUniqueId,
     getDefaultPricingOption,
+    getDefaultPaxTier,
     getDefaultDeparture,
     calculateDaysNights,
 } from '@/lib/utils/defaultTourValues';
@@ -55,6 +58,15 @@ export function TourPricingDates() {
     const pricingOptionsEnabled = pricing.pricingOptionsEnabled || false;
     const discountEnabled = pricing.discount?.discountEnabled || false;
 
+    // Tours can be priced in any currency that has an exchange rate
+    const currency = watch('currency') || 'USD';
+    const { data: exchangeRates } = useQuery({
+        queryKey: ['exchangeRates'],
+        queryFn: getExchangeRates,
+        staleTime: 5 * 60 * 1000,
+    });
+    const currencies = Array.from(new Set([currency, ...Object.keys(exchangeRates?.rates || {})])).sort();
+
     // Watch dates values
     const dates = watch('dates') || {};
     const scheduleType = dates.scheduleType || 'flexible';
@@ -67,6 +79,11 @@ export function TourPricingDates() {
         name: 'pricing.pricingOptions',
     });
 
+    const { fields: paxTiers, append: appendPaxTier, remove: removePaxTier } = useFieldArray({
+        control,
+        name: 'paxTiers',
+    });
+
     const { fields: departures, append: appendDeparture, remove: removeDeparture } = useFieldArray({
         control,
         name: 'dates.departures',
@@ -108,6 +125,27 @@ export function TourPricingDates() {
                         )}
                     </div>
 
+                    {/* Currency */}
+                    <div className="space-y-2">
+                        <Label>Currency</Label>
+                        <Select
+                            value={currency}
+                            onValueChange={(value) => setValue('currency', value, { shouldDirty: true })}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {currencies.map(code => (
+                                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                            All prices for this tour are in this currency. Travellers paying in another currency are charged at the exchange rate on the day they book.
+                        </p>
+                    </div>
+
                     {/* Price Per Person Toggle */}
                     <div className="flex items-center justify-between">
                         <div className="space-y-0.5">
@@ -316,6 +354,48 @@ export function TourPricingDates() {
                 )}
             </Card>
 
+            {/* Group Size Pricing */}
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Users className="h-5 w-5 text-primary" />
+                        <CardTitle>Group Size Pricing</CardTitle>
+                    </div>
+                    <CardDescription>
+                        Price by party size, per person or as a flat private-group rate. Adults and
+                        children count towards the party size; the tier replaces the base price.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {paxTiers.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            No tiers yet. Every party pays the base price.
+                        </p>
+                    )}
+                    {paxTiers.map((field, index) => (
+                        <PaxTierItem
+                            key={field.id}
+                            index={index}
+                            onRemove={() => removePaxTier(index)}
+                        />
+                    ))}
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => {
+                            // Start the new tier right after the last one
+                            const lastTier = watch(`paxTiers.${paxTiers.length - 1}`);
+                            const minPax = lastTier ? (lastTier.maxPax || lastTier.minPax) + 1 : 1;
+                            appendPaxTier(getDefaultPaxTier({ minPax, price }));
+                        }}
+                        className="w-full"
+                    >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Tier
+                    </Button>
+                </CardContent>
+            </Card>
+
             {/* Schedule Type */}
             <Card>
                 <CardHeader>
@@ -500,6 +580,111 @@ function PricingOptionItem({ index, onRemove }: PricingOptionItemProps) {
     );
 }
 
+type PaxTierErrors = Partial<Record<'minPax' | 'maxPax' | 'price', { message?: string }>>;
+
+/**
+ * Pax Tier Item Component
+ * Price for one range of party sizes
+ */
+interface PaxTierItemProps {
+    index: number;
+    onRemove: () => void;
+}
+
+function PaxTierItem({ index, onRemove }: PaxTierItemProps) {
+    const { register, setValue, watch, formState: { errors } } = useFormContext();
+    const tier = watch(`paxTiers.${index}`) || {};
+    const tierErrors = (errors.paxTiers as unknown as PaxTierErrors[] | undefined)?.[index];
+
+    return (
+        <Card>
+            <CardContent className="pt-6 space-y-4">
+                <div className="flex items-start justify-between">
+                    <h4 className="font-semibold">Tier {index + 1}</h4>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={onRemove}
+                    >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {/* Min Travelers */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`paxTiers.${index}.minPax`}>
+                            Min Travelers <span className="text-destructive">*</span>
+                        </Label>
+                        <Input
+                            id={`paxTiers.${index}.minPax`}
+                            type="number"
+                            min="1"
+                            {...register(`paxTiers.${index}.minPax`, { valueAsNumber: true })}
+                        />
+                        {tierErrors?.minPax && (
+                            <p className="text-sm text-destructive">{tierErrors.minPax.message}</p>
+                        )}
+                    </div>
+
+                    {/* Max Travelers */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`paxTiers.${index}.maxPax`}>Max Travelers</Label>
+                        <Input
+                            id={`paxTiers.${index}.maxPax`}
+                            type="number"
+                            min="1"
+                            placeholder="No limit"
+                            {...register(`paxTiers.${index}.maxPax`, {
+                                setValueAs: (value) => (value === '' || value === null ? undefined : Number(value)),
+                            })}
+                        />
+                        {tierErrors?.maxPax && (
+                            <p className="text-sm text-destructive">{tierErrors.maxPax.message}</p>
+                        )}
+                    </div>
+
+                    {/* Price */}
+                    <div className="space-y-2">
+                        <Label htmlFor={`paxTiers.${index}.price`}>
+                            {tier.pricePerPerson === false ? 'Group Price' : 'Price per Person'}{' '}
+                            <span className="text-destructive">*</span>
+                        </Label>
+                        <div className="relative">
+                            <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                id={`paxTiers.${index}.price`}
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="pl-10"
+                                {...register(`paxTiers.${index}.price`, { valueAsNumber: true })}
+                            />
+                        </div>
+                        {tierErrors?.price && (
+                            <p className="text-sm text-destructive">{tierErrors.price.message}</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                        <Label>Private Group</Label>
+                        <p className="text-sm text-muted-foreground">
+                            Charge one flat price for the whole party
+                        </p>
+                    </div>
+                    <Switch
+                        checked={tier.pricePerPerson === false}
+                        onCheckedChange={(checked) => setValue(`paxTiers.${index}.pricePerPerson`, !checked, { shouldDirty: true })}
+                    />
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
 /**
  * Discount Date Range Component
  * Date range picker for discount validity
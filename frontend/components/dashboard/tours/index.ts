@@ -6,6 +6,7 @@
 export { TourEditorLayout } from './TourEditorLayout';
 export { TourBasicInfo } from './TourBasicInfo';
 export { TourPricingDates } from './TourPricingDates';
+export { TourAddOns } from './TourAddOns';
 export { TourItinerary } from './TourItinerary';
 export { TourInclusionsExclusions } from './TourInclusionsExclusions';
 export { TourFacts } from './TourFacts';
@@ -1,6 +1,7 @@
 import {
     FileText,
     CreditCard,
+    PackagePlus,
     MapPin,
     ClipboardCheck,
     Package,
@@ -34,6 +35,12 @@ export const tourEditorTabs: TourTab[] = [
         icon: CreditCard,
         description: 'Pricing configuration and tour dates',
     },
+    {
+        id: 'add-ons',
+        title: 'Add-ons',
+        icon: PackagePlus,
+        description: 'Optional extras travelers can add when booking',
+    },
     {
         id: 'itinerary',
         title: 'Itinerary and Destination',
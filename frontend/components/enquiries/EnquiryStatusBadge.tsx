@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { EnquiryStatus } from '@/lib/api/enquiries';
+
+const STATUS_LABELS: Record<EnquiryStatus, string> = {
+    open: 'Awaiting reply',
+    answered: 'Answered',
+    converted: 'Booked',
+    closed: 'Closed',
+};
+
+const STATUS_VARIANTS: Record<EnquiryStatus, 'default' | 'secondary' | 'outline'> = {
+    open: 'default',
+    answered: 'secondary',
+    converted: 'outline',
+    closed: 'outline',
+};
+
+export function EnquiryStatusBadge({ status }: { status: EnquiryStatus }) {
+    return <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>;
+}
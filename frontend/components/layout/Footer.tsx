@@ -21,6 +21,7 @@ export function Footer() {
     const { data: companyInfo, isLoading } = useQuery({
         queryKey: ['companyInfo'],
         queryFn: getCompanyInfo,
+        staleTime: 5 * 60 * 1000,
     });
 
     const mutation = useMutation({
@@ -2,6 +2,8 @@
 
 import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { useDebounce } from 'use-debounce';
 import { Search, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import {
@@ -14,15 +16,9 @@ import {
 } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useLayout } from '@/providers/LayoutProvider';
+import { suggestTours, TourSuggestion } from '@/lib/api/tours';
 import './MenuBarSearch.css';
 
-interface Tour {
-    _id: string;
-    title: string;
-    coverImage: string;
-    updatedAt: string;
-}
-
 interface Category {
     _id: string;
     name: string;
@@ -47,12 +43,18 @@ export function MenuBarSearch({ handleSearch, headerSearch }: MenuBarSearchProps
     const [title, setTitle] = useState('');
     const [selectedCategory, setSelectedCategory] = useState('');
     const [isHeaderFixed, setIsHeaderFixed] = useState(false);
-    const [isSearching, setIsSearching] = useState(false);
-    const [searchResults, setSearchResults] = useState<Tour[]>([]);
     const [categories] = useState<Category[]>([]); // TODO: Fetch from API
-    const [latestTours] = useState<Tour[]>([]); // TODO: Fetch from API
+    const [latestTours] = useState<TourSuggestion[]>([]); // TODO: Fetch from API
     const { isFullWidth } = useLayout();
 
+    // Suggest as the user types, once they pause
+    const [keyword, { flush }] = useDebounce(title.trim(), 300);
+    const { data: searchResults = [], isFetching: isSearching } = useQuery({
+        queryKey: ['tourSuggestions', keyword, selectedCategory],
+        queryFn: () => suggestTours(keyword, selectedCategory),
+        enabled: keyword.length >= 2,
+    });
+
     useEffect(() => {
         const checkHeaderFixed = () => {
             const header = document.getElementById('main-header');
@@ -70,31 +72,26 @@ export function MenuBarSearch({ handleSearch, headerSearch }: MenuBarSearchProps
     }, []);
 
     const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const newTitle = e.target.value;
-        setTitle(newTitle);
-        // TODO: Implement debounced search
+        setTitle(e.target.value);
     };
 
     const handleCategorySelect = (category: string) => {
         const selectedCat = category === 'all' ? '' : category;
         setSelectedCategory(selectedCat);
-        // TODO: Trigger search with category
     };
 
-    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
-        setIsSearching(true);
-        // TODO: Implement search API call
-        setTimeout(() => setIsSearching(false), 1000);
+        // Search right away instead of waiting for the debounce
+        flush();
     };
 
     const clearSearch = () => {
         setTitle('');
         setSelectedCategory('');
-        setSearchResults([]);
     };
 
-    const displayTours = searchResults.length > 0 ? searchResults : latestTours;
+    const displayTours = keyword.length >= 2 ? searchResults : latestTours;
 
     return (
         <div
@@ -193,11 +190,11 @@ export function MenuBarSearch({ handleSearch, headerSearch }: MenuBarSearchProps
                             {displayTours.map((tour) => (
                                 <li
                                     className="flex relative flex-col pl-[100px] mb-5 items-start"
-                                    key={tour._id}
+                                    key={tour.id}
                                 >
                                     <Link
                                         className="image-wrapper pr-5 absolute left-0 top-0"
-                                        href={`/tours/${tour._id}`}
+                                        href={`/tours/${tour.id}`}
                                     >
                                         <img
                                             className="w-20 h-15"
@@ -206,7 +203,7 @@ export function MenuBarSearch({ handleSearch, headerSearch }: MenuBarSearchProps
                                         />
                                     </Link>
                                     <h4>
-                                        <Link className="cd-nowrap" href={`/tours/${tour._id}`}>
+                                        <Link className="cd-nowrap" href={`/tours/${tour.id}`}>
                                             {tour.title}
                                         </Link>
                                     </h4>
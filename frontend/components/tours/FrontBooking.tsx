@@ -1,9 +1,12 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
-import { createBooking } from '@/lib/api/bookings';
+import { createBooking, getPriceQuote, AddOnSelection, PriceQuoteRequest } from '@/lib/api/bookings';
+import { convertPrice, getExchangeRates } from '@/lib/api/currencies';
+import { useValidatePromoCode } from '@/lib/hooks/useBooking';
+import { useCreateEnquiry } from '@/lib/hooks/useEnquiries';
 import { CartBooking } from '@/lib/cartUtils';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/use-toast';
@@ -13,8 +16,15 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { Tour, PricingOption } from '@/lib/types';
-import { generateDepartureInstances, calculateDeparturePrice } from '@/lib/tourUtils';
+import { Tour } from '@/lib/types';
+import {
+    generateDepartureInstances,
+    getInitialAddOnQuantities,
+    findPaxTier,
+    describePaxRange,
+    formatPrice as formatCurrency,
+} from '@/lib/tourUtils';
+import { AddOnSelector } from '@/components/booking/AddOnSelector';
 
 interface FrontBookingProps {
     tourData: Tour;
@@ -31,6 +41,13 @@ interface BookingFormData {
     specialRequests: string;
 }
 
+type BookingRequest = Omit<CartBooking, 'bookingReference' | 'promoCode' | 'pricing'> & {
+    // The server prices the booking; only the currency to pay in is sent
+    pricing: { currency: string };
+    promoCode?: string;
+    addOns?: AddOnSelection[];
+};
+
 interface EnquiryFormData {
     fullName: string;
     email: string;
@@ -58,46 +75,43 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
     });
 
     const [selectedDate, setSelectedDate] = useState<Date | undefined>(prefilledDate);
+    const [promoCodeInput, setPromoCodeInput] = useState('');
+    const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
     const [dateRange, setDateRange] = useState<{ from: Date; to: Date } | undefined>();
+    const [addOnQuantities, setAddOnQuantities] = useState(() => getInitialAddOnQuantities(tourData.addOns));
+
+    // Prices are shown in the tour's currency; travellers may choose another currency to pay in
+    const tourCurrency = tourData.currency || 'USD';
+    const [payCurrency, setPayCurrency] = useState(tourCurrency);
+    const { data: exchangeRates } = useQuery({
+        queryKey: ['exchangeRates'],
+        queryFn: getExchangeRates,
+        staleTime: 5 * 60 * 1000,
+    });
+    const payCurrencies = useMemo(
+        () => Array.from(new Set([tourCurrency, ...Object.keys(exchangeRates?.rates || {})])).sort(),
+        [tourCurrency, exchangeRates]
+    );
 
-    // Generate available dates and price map
-    const { availableDates, datePriceMap } = useMemo(() => {
+    // Generate available dates
+    const availableDates = useMemo(() => {
         const dates: Date[] = [];
-        const priceMap = new Map<string, { price: number; discountedPrice?: number }>();
         const today = new Date();
         today.setHours(0, 0, 0, 0);
 
         if (!tourData.tourDates?.departures) {
-            return { availableDates: dates, datePriceMap: priceMap };
+            return dates;
         }
 
         // Generate all departure instances
-        const allDepartures = generateDepartureInstances(tourData.tourDates);
-
-        allDepartures.forEach((departure) => {
+        generateDepartureInstances(tourData.tourDates).forEach((departure) => {
             const departureDate = new Date(departure.dateRange.from);
             if (departureDate >= today) {
-                const dateKey = format(departureDate, 'yyyy-MM-dd');
                 dates.push(departureDate);
-
-                // Calculate pricing for this departure
-                const pricing = calculateDeparturePrice(
-                    departure,
-                    tourData.price,
-                    tourData.salePrice,
-                    tourData.saleEnabled,
-                    tourData.pricingOptions,
-                    tourData.pricingGroups
-                );
-
-                priceMap.set(dateKey, {
-                    price: pricing.originalPrice,
-                    discountedPrice: pricing.hasDiscount ? pricing.displayPrice : undefined
-                });
             }
         });
 
-        return { availableDates: dates, datePriceMap: priceMap };
+        return dates;
     }, [tourData]);
 
     // Update form when prefilled date changes
@@ -117,51 +131,79 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
         }
     }, [prefilledDate, tourData.tourDates?.days]);
 
-    // Calculate pricing
-    const calculatePricing = () => {
-        let basePrice = tourData.price || 0;
-        let originalPrice = basePrice;
+    // Prices come from the server's pricing engine, the same one that prices the booking
+    const selectedAddOns = (tourData.addOns || []).filter(addOn => addOn._id && addOnQuantities[addOn._id] > 0);
+    const quoteRequest: PriceQuoteRequest = {
+        participants: { adults: bookingForm.adults, children: bookingForm.children },
+        addOns: selectedAddOns.map(addOn => ({ addOnId: addOn._id as string, quantity: addOnQuantities[addOn._id as string] })),
+        promoCode: appliedPromoCode || undefined,
+    };
+    const { data: quote, error: quoteError } = useQuery({
+        queryKey: ['priceQuote', tourData._id, quoteRequest],
+        queryFn: () => getPriceQuote(tourData._id, quoteRequest),
+        placeholderData: (previousData) => previousData,
+    });
 
-        // Check if sale price is enabled
-        if (tourData.saleEnabled && tourData.salePrice) {
-            originalPrice = tourData.price || 0;
-            basePrice = tourData.salePrice;
+    // A changed party or add-ons can make the applied code invalid; drop it rather than block the quote
+    useEffect(() => {
+        if (quoteError && appliedPromoCode) {
+            setAppliedPromoCode(null);
+            toast({
+                title: "Promo code removed",
+                description: quoteError.message,
+                variant: "destructive",
+            });
         }
-        // If a date is selected, use the price from datePriceMap
-        else if (selectedDate) {
-            const dateKey = format(selectedDate, 'yyyy-MM-dd');
-            const priceInfo = datePriceMap.get(dateKey);
-
-            if (priceInfo) {
-                originalPrice = priceInfo.price;
-                basePrice = priceInfo.discountedPrice || priceInfo.price;
+    }, [quoteError, appliedPromoCode, toast]);
+
+    const adultLine = quote?.lineItems.find(item => item.type === 'traveler' && item.category !== 'child' && item.category !== 'infant');
+    const totalPrice = quote?.pricing.totalPrice ?? 0;
+
+    // Party-size tiers, with the one the current party falls into
+    const paxTiers = [...(tourData.paxTiers || [])].sort((a, b) => a.minPax - b.minPax);
+    const currentPaxTier = findPaxTier(paxTiers, bookingForm.adults + bookingForm.children);
+
+    const validatePromoCodeMutation = useValidatePromoCode();
+    const enquiryMutation = useCreateEnquiry();
+
+    const handleApplyPromoCode = () => {
+        const code = promoCodeInput.trim();
+        if (!code) return;
+
+        validatePromoCodeMutation.mutate(
+            { promoCode: code, tourId: tourData._id, amount: quote?.pricing.subtotal, currency: quote?.pricing.currency || tourCurrency },
+            {
+                onSuccess: (response) => {
+                    const result = (response as { data?: { code: string; discountAmount?: number } })?.data;
+                    if (!result) return;
+                    setAppliedPromoCode(result.code);
+                    toast({
+                        title: "Promo code applied!",
+                        description: `You save ${formatPrice(result.discountAmount || 0)} on this booking.`,
+                    });
+                },
+                onError: (error: Error) => {
+                    setAppliedPromoCode(null);
+                    toast({
+                        title: "Invalid promo code",
+                        description: error.message || "The promo code you entered is not valid.",
+                        variant: "destructive",
+                    });
+                }
             }
-        }
-
-        const adultPrice = basePrice * bookingForm.adults;
-        const childPrice = basePrice * bookingForm.children * 0.7; // 30% discount for children
-        const totalPrice = adultPrice + childPrice;
-
-        return {
-            basePrice,
-            originalPrice,
-            adultPrice,
-            childPrice,
-            totalPrice,
-            currency: 'USD'
-        };
+        );
     };
 
-    const pricing = calculatePricing();
-
     // Format price
-    const formatPrice = (price: number): string => {
-        return price.toFixed(2);
+    const formatPrice = (price: number, currency: string = tourCurrency): string => {
+        return formatCurrency(price, currency);
     };
 
+    const payTotal = convertPrice(totalPrice, tourCurrency, payCurrency, exchangeRates);
+
     // Booking mutation
     const bookingMutation = useMutation({
-        mutationFn: (bookingData: Omit<CartBooking, 'bookingReference'>) => createBooking(bookingData),
+        mutationFn: (bookingData: BookingRequest) => createBooking(bookingData),
         onSuccess: (response) => {
             const bookingData = response.data;
             toast({
@@ -190,6 +232,9 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
             });
             setSelectedDate(undefined);
             setDateRange(undefined);
+            setAddOnQuantities(getInitialAddOnQuantities(tourData.addOns));
+            setPromoCodeInput('');
+            setAppliedPromoCode(null);
 
             // Redirect to cart page
             setTimeout(() => {
@@ -245,7 +290,7 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
         }
 
         // Prepare booking data
-        const bookingData: Omit<CartBooking, 'bookingReference'> = {
+        const bookingData: BookingRequest = {
             _id: tourData._id,
             tourTitle: tourData.title,
             tourCode: tourData.code || `TOUR-${tourData._id.slice(-8).toUpperCase()}`,
@@ -260,9 +305,11 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
             contactPhone: bookingForm.phone,
             specialRequests: bookingForm.specialRequests,
             pricing: {
-                totalPrice: pricing.totalPrice,
-                currency: pricing.currency
-            }
+                // The server prices the booking in the tour's currency and converts it at the current rate
+                currency: payCurrency
+            },
+            promoCode: appliedPromoCode || undefined,
+            addOns: quoteRequest.addOns
         };
 
         bookingMutation.mutate(bookingData);
@@ -281,17 +328,51 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
             return;
         }
 
-        // For now, just show success message
-        toast({
-            title: "Enquiry Sent!",
-            description: "We'll get back to you soon.",
-        });
-
-        setEnquiryForm({
-            fullName: '',
-            email: '',
-            message: ''
-        });
+        enquiryMutation.mutate(
+            {
+                tourId: tourData._id,
+                contactInfo: {
+                    fullName: enquiryForm.fullName,
+                    email: enquiryForm.email,
+                },
+                message: enquiryForm.message,
+                // Share the date and party size picked on the booking tab, if any
+                preferredDates: dateRange
+                    ? { from: format(dateRange.from, 'yyyy-MM-dd'), to: format(dateRange.to, 'yyyy-MM-dd') }
+                    : undefined,
+                participants: {
+                    adults: bookingForm.adults,
+                    children: bookingForm.children
+                }
+            },
+            {
+                onSuccess: (response) => {
+                    const enquiry = response.data;
+                    toast({
+                        title: "Enquiry Sent!",
+                        description: "We'll get back to you soon.",
+                    });
+
+                    setEnquiryForm({
+                        fullName: '',
+                        email: '',
+                        message: ''
+                    });
+
+                    // Guests can only reach the thread with the token they were given
+                    router.push(enquiry.accessToken
+                        ? `/enquiry/${enquiry._id}?token=${enquiry.accessToken}`
+                        : `/enquiry/${enquiry._id}`);
+                },
+                onError: (error: Error) => {
+                    toast({
+                        title: "Enquiry Failed",
+                        description: error.message || "Please try again.",
+                        variant: "destructive",
+                    });
+                }
+            }
+        );
     };
 
     return (
@@ -446,6 +527,34 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
                         </div>
                     </div>
 
+                    {paxTiers.length > 0 && (
+                        <div>
+                            <span className="block text-sm font-medium mb-1">Group Pricing</span>
+                            <div className="border border-border rounded-md divide-y divide-border text-sm">
+                                {paxTiers.map(tier => (
+                                    <div
+                                        key={tier.minPax}
+                                        className={cn(
+                                            'flex justify-between px-3 py-2',
+                                            tier === currentPaxTier && 'bg-primary/10 font-medium text-primary'
+                                        )}
+                                    >
+                                        <span>{describePaxRange(tier)}</span>
+                                        <span>
+                                            {formatCurrency(tier.price, tourCurrency)}
+                                            {tier.pricePerPerson ? ' per person' : ' private group'}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                            {!currentPaxTier && (
+                                <p className="text-sm text-destructive mt-1">
+                                    This tour isn&apos;t available for a party of {bookingForm.adults + bookingForm.children}.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
                     <div>
                         <label htmlFor="specialRequests" className="block text-sm font-medium mb-1">
                             Special Requests (Optional)
@@ -460,48 +569,106 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
                         />
                     </div>
 
-                    <div className="pt-4 border-t border-border">
-                        <div className="flex justify-between mb-2">
-                            <span>Price per person:</span>
-                            <div className="text-right">
-                                {pricing.basePrice < pricing.originalPrice ? (
-                                    <div>
-                                        <div className="flex items-center gap-2 justify-end">
-                                            <span className="text-sm line-through text-muted-foreground">
-                                                ${formatPrice(pricing.originalPrice)}
-                                            </span>
-                                            <span className="bg-green-600 text-white text-xs px-2 py-0.5 rounded">
-                                                -{Math.round(((pricing.originalPrice - pricing.basePrice) / pricing.originalPrice) * 100)}%
-                                            </span>
-                                        </div>
-                                        <div className="text-lg font-bold text-green-600">
-                                            ${formatPrice(pricing.basePrice)}
-                                        </div>
-                                    </div>
-                                ) : (
-                                    <div className="text-lg font-bold text-primary">
-                                        ${formatPrice(pricing.basePrice)}
-                                    </div>
-                                )}
-                                {tourData.pricePerPerson && (
-                                    <div className="text-xs text-muted-foreground">per person</div>
-                                )}
-                            </div>
+                    {tourData.addOns && tourData.addOns.length > 0 && (
+                        <div>
+                            <span className="block text-sm font-medium mb-1">Add-ons (Optional)</span>
+                            <AddOnSelector
+                                addOns={tourData.addOns}
+                                quantities={addOnQuantities}
+                                onChange={setAddOnQuantities}
+                                currency={tourCurrency}
+                            />
                         </div>
-                        <div className="flex justify-between mb-2">
-                            <span>Adults ({bookingForm.adults}):</span>
-                            <span>${formatPrice(pricing.adultPrice)}</span>
+                    )}
+
+                    <div>
+                        <label htmlFor="promoCode" className="block text-sm font-medium mb-1">
+                            Promo Code (Optional)
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                id="promoCode"
+                                className="flex-1 p-2 border border-input rounded-md bg-background uppercase"
+                                placeholder="Enter promo code"
+                                value={promoCodeInput}
+                                onChange={(e) => {
+                                    setPromoCodeInput(e.target.value);
+                                    setAppliedPromoCode(null);
+                                }}
+                            />
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={handleApplyPromoCode}
+                                disabled={!promoCodeInput.trim() || validatePromoCodeMutation.isPending}
+                            >
+                                {validatePromoCodeMutation.isPending ? 'Checking...' : 'Apply'}
+                            </Button>
                         </div>
-                        {bookingForm.children > 0 && (
+                    </div>
+
+                    <div className="pt-4 border-t border-border">
+                        {adultLine && quote && (
                             <div className="flex justify-between mb-2">
-                                <span>Children ({bookingForm.children}):</span>
-                                <span>${formatPrice(pricing.childPrice)}</span>
+                                <span>{adultLine.category === 'group' ? 'Price per group:' : 'Price per person:'}</span>
+                                <div className="text-right">
+                                    {quote.pricing.basePrice < adultLine.unitPrice ? (
+                                        <div>
+                                            <div className="flex items-center gap-2 justify-end">
+                                                <span className="text-sm line-through text-muted-foreground">
+                                                    {formatPrice(adultLine.unitPrice)}
+                                                </span>
+                                                <span className="bg-green-600 text-white text-xs px-2 py-0.5 rounded">
+                                                    -{Math.round(((adultLine.unitPrice - quote.pricing.basePrice) / adultLine.unitPrice) * 100)}%
+                                                </span>
+                                            </div>
+                                            <div className="text-lg font-bold text-green-600">
+                                                {formatPrice(quote.pricing.basePrice)}
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <div className="text-lg font-bold text-primary">
+                                            {formatPrice(quote.pricing.basePrice)}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
                         )}
+                        {quote?.lineItems.map((item, index) => (
+                            <div
+                                key={`${item.type}-${item.category}-${index}`}
+                                className={cn('flex justify-between mb-2', item.amount < 0 && 'text-green-600')}
+                            >
+                                <span>{item.label}{item.type !== 'promo' && item.type !== 'tax' ? ` (${item.quantity})` : ''}:</span>
+                                <span>{item.amount < 0 ? `-${formatPrice(-item.amount)}` : formatPrice(item.amount)}</span>
+                            </div>
+                        ))}
                         <div className="flex justify-between font-bold text-lg pt-2 border-t border-border">
                             <span>Total:</span>
-                            <span className="text-primary">${formatPrice(pricing.totalPrice)}</span>
+                            <span className="text-primary">{quote ? formatPrice(totalPrice) : '...'}</span>
                         </div>
+                        {payCurrencies.length > 1 && (
+                            <div className="flex justify-between items-center mt-3 text-sm">
+                                <label htmlFor="payCurrency">Pay in:</label>
+                                <select
+                                    id="payCurrency"
+                                    className="p-1 border border-input rounded-md bg-background"
+                                    value={payCurrency}
+                                    onChange={(e) => setPayCurrency(e.target.value)}
+                                >
+                                    {payCurrencies.map(currency => (
+                                        <option key={currency} value={currency}>{currency}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        {payCurrency !== tourCurrency && payTotal !== undefined && (
+                            <div className="flex justify-between mt-2 text-sm text-muted-foreground">
+                                <span>Approx. total in {payCurrency}:</span>
+                                <span>{formatPrice(payTotal, payCurrency)}</span>
+                            </div>
+                        )}
                     </div>
 
                     <Button
@@ -562,8 +729,9 @@ export function FrontBooking({ tourData, prefilledDate }: FrontBookingProps) {
                             className="w-full"
                             size="lg"
                             onClick={handleEnquirySubmit}
+                            disabled={enquiryMutation.isPending}
                         >
-                            Send Enquiry
+                            {enquiryMutation.isPending ? 'Sending...' : 'Send Enquiry'}
                         </Button>
                     </TabsContent>
                 )}
@@ -6,6 +6,7 @@ import { PricingOptions } from './PricingOptions';
 
 interface PricingDisplayProps {
     tour: Tour;
+    // Symbol or ISO code; defaults to the tour's currency
     currency?: string;
 }
 
@@ -26,7 +27,7 @@ interface PricingDisplayProps {
  * <PricingDisplay tour={tourData} currency="€" />
  * ```
  */
-export function PricingDisplay({ tour, currency = '$' }: PricingDisplayProps) {
+export function PricingDisplay({ tour, currency = tour.currency || '$' }: PricingDisplayProps) {
     return (
         <div className="space-y-6">
             {/* Base Pricing - Always shown (Requirement 5.1, 5.2) */}
@@ -47,7 +47,8 @@ interface PricingOptionCardProps {
     currency: string;
 }
 
-function PricingOptionCard({ option, currency }: PricingOptionCardProps) {
+function PricingOptionCard({ option, currency: tourCurrency }: PricingOptionCardProps) {
+    const currency = option.currency || tourCurrency;
     // Calculate discount if enabled and within date range
     const hasActiveDiscount = option.discountEnabled && option.discount;
     let displayPrice = option.price;
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState } from 'react';
+import Image from 'next/image';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { Star, ThumbsUp, Eye, MessageCircle, Send } from 'lucide-react';
+import { Star, ThumbsUp, Eye, MessageCircle, Send, BadgeCheck } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -18,9 +19,17 @@ import {
     incrementReviewView,
     incrementReplyView,
 } from '@/lib/api/reviews';
-import { Review, Reply } from '@/lib/types';
+import { Review, Reply, ReviewAspect, ReviewAspectRatings } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
+const REVIEW_ASPECTS: { key: ReviewAspect; label: string }[] = [
+    { key: 'guide', label: 'Guide' },
+    { key: 'value', label: 'Value' },
+    { key: 'accommodation', label: 'Accommodation' },
+    { key: 'transport', label: 'Transport' },
+    { key: 'itinerary', label: 'Itinerary' },
+];
+
 interface ReviewSystemProps {
     tourId: string;
     initialReviews?: Review[];
@@ -75,9 +84,18 @@ function ReviewForm({ tourId, onSuccess }: ReviewFormProps) {
     const [rating, setRating] = useState(5);
     const [comment, setComment] = useState('');
     const [hoveredRating, setHoveredRating] = useState(0);
+    const [aspectRatings, setAspectRatings] = useState<ReviewAspectRatings>({});
+
+    // Aspect ratings are optional - clicking the current rating clears it
+    const toggleAspectRating = (aspect: ReviewAspect, star: number) => {
+        setAspectRatings((current) => ({
+            ...current,
+            [aspect]: current[aspect] === star ? undefined : star,
+        }));
+    };
 
     const addReviewMutation = useMutation({
-        mutationFn: () => addReview(tourId, rating, comment),
+        mutationFn: () => addReview(tourId, rating, comment, { aspectRatings }),
         onSuccess: () => {
             toast({
                 title: 'Review submitted',
@@ -86,6 +104,7 @@ function ReviewForm({ tourId, onSuccess }: ReviewFormProps) {
             });
             setComment('');
             setRating(5);
+            setAspectRatings({});
             onSuccess();
         },
         onError: (error: any) => {
@@ -143,6 +162,40 @@ function ReviewForm({ tourId, onSuccess }: ReviewFormProps) {
                         </div>
                     </div>
 
+                    <fieldset>
+                        <legend className="text-xs sm:text-sm font-medium mb-2">Rate Each Part (optional)</legend>
+                        <div className="grid gap-1 sm:grid-cols-2 sm:gap-x-6">
+                            {REVIEW_ASPECTS.map(({ key, label }) => (
+                                <div key={key} className="flex items-center justify-between gap-2">
+                                    <span id={`aspect-${key}-label`} className="text-xs sm:text-sm text-muted-foreground">{label}</span>
+                                    <div className="flex" role="radiogroup" aria-labelledby={`aspect-${key}-label`}>
+                                        {[1, 2, 3, 4, 5].map((star) => (
+                                            <button
+                                                key={star}
+                                                type="button"
+                                                role="radio"
+                                                aria-checked={aspectRatings[key] === star}
+                                                onClick={() => toggleAspectRating(key, star)}
+                                                className="focus:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded p-1"
+                                                aria-label={`Rate ${label.toLowerCase()} ${star} star${star !== 1 ? 's' : ''}`}
+                                            >
+                                                <Star
+                                                    className={cn(
+                                                        'h-4 w-4',
+                                                        star <= (aspectRatings[key] || 0)
+                                                            ? 'fill-yellow-400 text-yellow-400'
+                                                            : 'text-gray-300'
+                                                    )}
+                                                    aria-hidden="true"
+                                                />
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </fieldset>
+
                     <div>
                         <label htmlFor="comment" className="text-xs sm:text-sm font-medium mb-2 block">
                             Your Review
@@ -224,6 +277,12 @@ function ReviewCard({ review, tourId, onUpdate }: ReviewCardProps) {
                         <div className="min-w-0 flex-1">
                             <div className="flex items-center gap-2 flex-wrap">
                                 <h4 className="font-semibold text-sm sm:text-base">{userName}</h4>
+                                {review.verified && (
+                                    <Badge variant="outline" className="text-xs gap-1 text-green-700 border-green-200">
+                                        <BadgeCheck className="h-3 w-3" aria-hidden="true" />
+                                        Verified traveler
+                                    </Badge>
+                                )}
                                 {review.status === 'pending' && (
                                     <Badge variant="secondary" className="text-xs" role="status">Pending Approval</Badge>
                                 )}
@@ -256,6 +315,42 @@ function ReviewCard({ review, tourId, onUpdate }: ReviewCardProps) {
 
                     <p className="text-xs sm:text-sm break-words">{review.comment}</p>
 
+                    {review.aspectRatings && Object.keys(review.aspectRatings).length > 0 && (
+                        <dl className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                            {REVIEW_ASPECTS.filter(({ key }) => review.aspectRatings?.[key]).map(({ key, label }) => (
+                                <div key={key} className="flex items-center gap-1">
+                                    <dt>{label}</dt>
+                                    <dd className="flex items-center gap-0.5 font-medium text-foreground">
+                                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+                                        {review.aspectRatings?.[key]}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    )}
+
+                    {review.photos && review.photos.length > 0 && (
+                        <div className="flex gap-2 flex-wrap" aria-label="Review photos">
+                            {review.photos.map((photo) => (
+                                <a
+                                    key={photo.imageId}
+                                    href={photo.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="relative h-16 w-16 sm:h-20 sm:w-20 overflow-hidden rounded-md border"
+                                >
+                                    <Image
+                                        src={photo.url}
+                                        alt={`Photo from ${userName}'s trip`}
+                                        fill
+                                        sizes="80px"
+                                        className="object-cover"
+                                    />
+                                </a>
+                            ))}
+                        </div>
+                    )}
+
                     <div className="flex items-center gap-2 sm:gap-4 flex-wrap" role="group" aria-label="Review actions">
                         <Button
                             variant="ghost"
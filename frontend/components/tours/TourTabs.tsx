@@ -1,6 +1,6 @@
 'use client';
 
-import { Tour } from '@/lib/types';
+import { CancellationPolicy as TourCancellationPolicy, Tour } from '@/lib/types';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import RichTextRenderer from '@/components/RichTextRenderer';
 import { ItineraryAccordion } from './ItineraryAccordion';
@@ -13,7 +13,7 @@ import {
     AccordionItem,
     AccordionTrigger,
 } from '@/components/ui/accordion';
-import { CheckCircle2, XCircle } from 'lucide-react';
+import { CheckCircle2, ShieldCheck, XCircle } from 'lucide-react';
 
 interface TourTabsProps {
     tour: Tour;
@@ -101,11 +101,12 @@ export function TourTabs({ tour, onBookNow }: TourTabsProps) {
                     salePrice={tour.salePrice}
                     pricePerPerson={tour.pricePerPerson}
                     priceLockDate={tour.priceLockDate}
+                    currency={tour.currency}
                 />
 
                 {/* Advanced Pricing Options */}
                 {tour.pricingOptionsEnabled && tour.pricingGroups && (
-                    <PricingOptions pricingGroups={tour.pricingGroups} />
+                    <PricingOptions pricingGroups={tour.pricingGroups} currency={tour.currency} />
                 )}
 
                 {/* Departure Dates */}
@@ -124,6 +125,9 @@ export function TourTabs({ tour, onBookNow }: TourTabsProps) {
                         />
                     </section>
                 )}
+
+                {/* Cancellation Policy */}
+                <CancellationPolicy policy={tour.cancellationPolicy} />
             </TabsContent>
 
             {/* FAQs Tab */}
@@ -198,3 +202,41 @@ function InclusionsExclusions({ inclusions, exclusions }: InclusionsExclusionsPr
         </div>
     );
 }
+
+interface CancellationPolicyProps {
+    policy?: TourCancellationPolicy;
+}
+
+function CancellationPolicy({ policy }: CancellationPolicyProps) {
+    if (!policy?.tiers?.length) {
+        return null;
+    }
+
+    const tiers = [...policy.tiers].sort((a, b) => b.daysBeforeDeparture - a.daysBeforeDeparture);
+
+    return (
+        <section className="bg-card border rounded-lg p-4 sm:p-6" aria-labelledby="cancellation-heading">
+            <div className="flex items-center gap-2 mb-3 sm:mb-4">
+                <ShieldCheck className="h-4 w-4 sm:h-5 sm:w-5 text-primary shrink-0" aria-hidden="true" />
+                <h3 id="cancellation-heading" className="text-base sm:text-lg font-semibold">Cancellation Policy</h3>
+            </div>
+            <ul className="space-y-2 text-sm">
+                {tiers.map((tier) => (
+                    <li key={tier.daysBeforeDeparture} className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">
+                            {tier.daysBeforeDeparture > 0
+                                ? `${tier.daysBeforeDeparture}+ days before departure`
+                                : 'Up to departure'}
+                        </span>
+                        <span className="font-medium">
+                            {tier.refundPercentage > 0 ? `${tier.refundPercentage}% refund` : 'No refund'}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            {policy.description && (
+                <p className="mt-3 text-sm text-muted-foreground">{policy.description}</p>
+            )}
+        </section>
+    );
+}
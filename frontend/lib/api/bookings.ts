@@ -6,6 +6,22 @@ import { api, handleApiError, extractResponseData } from './apiClient';
  * Follows server API specifications from API_DOCUMENTATION.md
  */
 
+// Add-on and quantity chosen when booking
+export interface AddOnSelection {
+    addOnId: string;
+    quantity: number;
+}
+
+// An add-on as booked, priced in the booking currency
+export interface BookingAddOn {
+    addOnId: string;
+    name: string;
+    category?: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+}
+
 export interface BookingData {
     tourId: string;
     tourTitle: string;
@@ -16,12 +32,8 @@ export interface BookingData {
         children: number;
         infants?: number;
     };
+    // The server prices the booking itself; only the currency to pay in is sent
     pricing: {
-        basePrice: number;
-        adultPrice: number;
-        childPrice: number;
-        infantPrice?: number;
-        totalPrice: number;
         currency: string;
     };
     contactInfo: {
@@ -31,8 +43,66 @@ export interface BookingData {
         country?: string;
     };
     specialRequests?: string;
+    promoCode?: string;
+    // Priced by the server from the tour
+    addOns?: AddOnSelection[];
+}
+
+// One line of a price breakdown; discounts are negative
+export interface PriceLineItem {
+    type: 'traveler' | 'discount' | 'addOn' | 'promo' | 'tax';
+    category?: string;
+    label: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+}
+
+export interface PriceQuoteRequest {
+    participants: {
+        adults: number;
+        children: number;
+        infants?: number;
+    };
+    pricingOptionId?: string;
+    addOns?: AddOnSelection[];
+    currency?: string;
+    promoCode?: string;
+}
+
+export interface PriceQuote {
+    pricing: {
+        basePrice: number;
+        adultPrice: number;
+        childPrice: number;
+        infantPrice?: number;
+        subtotal: number;
+        discountAmount: number;
+        addOnsTotal: number;
+        taxAmount: number;
+        taxRate: number;
+        totalPrice: number;
+        currency: string;
+        priceCurrency: string;
+        exchangeRate: number;
+    };
+    addOns: BookingAddOn[];
+    lineItems: PriceLineItem[];
 }
 
+/**
+ * Price a booking on the server, with a line-item breakdown
+ * Bookings are priced the same way when they are created.
+ */
+export const getPriceQuote = async (tourId: string, request: PriceQuoteRequest): Promise<PriceQuote> => {
+    try {
+        const response = await api.post(`/tours/${tourId}/quote`, request);
+        return extractResponseData<{ data: PriceQuote }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'quoting price');
+    }
+};
+
 /**
  * Create a new booking
  */
@@ -136,25 +206,121 @@ export const updatePaymentStatus = async (
     }
 };
 
+export interface BookingAmendmentRequest {
+    departureDate?: string;
+    participants?: {
+        adults?: number;
+        children?: number;
+        infants?: number;
+    };
+    travelers?: Array<{
+        firstName: string;
+        lastName: string;
+        email: string;
+        phone: string;
+        dateOfBirth: string;
+        passportNumber?: string;
+    }>;
+    reason?: string;
+}
+
+/**
+ * Change the date, participants or travelers of a booking
+ */
+export const amendBooking = async (bookingId: string, changes: BookingAmendmentRequest) => {
+    try {
+        const response = await api.post(`/bookings/${bookingId}/amendments`, changes);
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'amending booking');
+    }
+};
+
+export interface RefundQuote {
+    bookingId: string;
+    bookingReference: string;
+    cancellable: boolean;
+    daysBeforeDeparture: number;
+    policy: {
+        tiers: Array<{ daysBeforeDeparture: number; refundPercentage: number }>;
+        description?: string;
+        isDefault: boolean;
+    };
+    appliedTier: { daysBeforeDeparture: number; refundPercentage: number } | null;
+    refundPercentage: number;
+    paidAmount: number;
+    refundAmount: number;
+    currency: string;
+}
+
 /**
- * Cancel booking
+ * Get the refund a booking would receive if cancelled now
+ */
+export const getRefundQuote = async (bookingId: string): Promise<RefundQuote> => {
+    try {
+        const response = await api.get(`/bookings/${bookingId}/refund-quote`);
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'fetching refund quote');
+    }
+};
+
+/**
+ * Cancel booking (refunds according to the tour's cancellation policy)
  */
 export const cancelBooking = async (bookingId: string, reason?: string) => {
     try {
-        const response = await api.post(`/bookings/${bookingId}/cancel`, { reason });
+        const response = await api.delete(`/bookings/${bookingId}`, { data: { reason } });
         return extractResponseData(response);
     } catch (error) {
         throw handleApiError(error, 'cancelling booking');
     }
 };
 
+export interface BookingStats {
+    // Amounts are converted to this currency, the exchange rate base
+    currency: string;
+    totalBookings: number;
+    byStatus: Array<{ status: string; count: number; totalRevenue: number; paidRevenue: number }>;
+    bookedValue: number;
+    collected: number;
+    refunded: number;
+    netRevenue: number;
+    // Percentage of bookings that were cancelled
+    cancellationRate: number;
+    revenueByMonth: Array<{
+        month: string;
+        bookings: number;
+        bookedValue: number;
+        collected: number;
+        refunded: number;
+        netRevenue: number;
+    }>;
+    occupancy: Array<{
+        tourId: string;
+        tourTitle: string;
+        departureId: string;
+        departureDate: string;
+        capacity: number;
+        reserved: number;
+        occupancyRate: number;
+    }>;
+}
+
+export interface BookingStatsParams {
+    sellerId?: string;
+    tourId?: string;
+    from?: string;
+    to?: string;
+}
+
 /**
- * Get booking statistics
+ * Get booking statistics (scoped to the seller's own tours for sellers)
  */
-export const getBookingStats = async () => {
+export const getBookingStats = async (params?: BookingStatsParams) => {
     try {
-        const response = await api.get('/bookings/stats');
-        return extractResponseData(response);
+        const response = await api.get('/bookings/stats', { params });
+        return extractResponseData<{ data: BookingStats }>(response);
     } catch (error) {
         throw handleApiError(error, 'fetching booking stats');
     }
@@ -174,11 +340,12 @@ export const processPayment = async (paymentData: {
         email: string;
         phone: string;
     };
+    // Card tokenized in the browser by Stripe.js; card numbers never reach the API
     cardInfo?: {
-        cardNumber: string;
-        expiry: string;
-        cvv: string;
+        token: string;
+        last4?: string;
     };
+    holdId?: string;
 }) => {
     try {
         const response = await api.post('/bookings/payment', paymentData, {
@@ -190,14 +357,79 @@ export const processPayment = async (paymentData: {
     }
 };
 
+/**
+ * Hold the seats of cart bookings while the traveler checks out
+ * @param bookings - Cart bookings (matched by id or booking reference)
+ * @returns Seat hold with expiresAt and remainingSeconds
+ */
+export const createSeatHold = async (bookings: Array<{ id?: string; bookingReference?: string }>) => {
+    try {
+        const response = await api.post('/bookings/holds', { bookings });
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'holding seats');
+    }
+};
+
+/**
+ * Release a seat hold
+ * @param holdId - Hold returned by createSeatHold
+ */
+export const releaseSeatHold = async (holdId: string) => {
+    try {
+        const response = await api.delete(`/bookings/holds/${holdId}`);
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'releasing seat hold');
+    }
+};
+
+/**
+ * Confirm a payment after returning from the payment gateway
+ * @param paymentId - Payment returned by processPayment
+ * @param token - Access token returned to guest payers by processPayment
+ * @returns Settled payment
+ */
+export const confirmPayment = async ({ paymentId, token }: { paymentId: string; token?: string }) => {
+    try {
+        const response = await api.post(`/bookings/payment/${paymentId}/confirm`, { token }, {
+            timeout: 30000,
+        });
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'confirming payment');
+    }
+};
+
+/**
+ * Download the PDF voucher for a booking
+ * @param bookingId - Booking ID
+ * @returns PDF file as a Blob
+ */
+export const downloadBookingVoucher = async (bookingId: string): Promise<Blob> => {
+    try {
+        const response = await api.get(`/bookings/${bookingId}/voucher`, {
+            responseType: 'blob',
+            timeout: 30000,
+        });
+        return response.data;
+    } catch (error) {
+        throw handleApiError(error, 'downloading voucher');
+    }
+};
+
 /**
  * Validate promo code
  * @param promoCode - Promo code to validate
+ * @param options - Tour and subtotal to check the code against
  * @returns Discount information
  */
-export const validatePromoCode = async (promoCode: string) => {
+export const validatePromoCode = async (
+    promoCode: string,
+    options: { tourId?: string; amount?: number; currency?: string } = {}
+) => {
     try {
-        const response = await api.post('/bookings/promo/validate', { promoCode }, {
+        const response = await api.post('/bookings/promo/validate', { promoCode, ...options }, {
             timeout: 10000,
         });
         return extractResponseData(response);
@@ -1,5 +1,8 @@
+import { api, handleApiError, extractResponseData } from './apiClient';
+
 /**
  * Company API endpoints
+ * Site settings managed by admins and the public storefronts of sellers
  */
 
 // Define the CompanyInfo interface
@@ -24,48 +27,189 @@ export interface CompanyInfo {
     }[];
 }
 
-// For demo purposes - this will be replaced with an actual API call once backend is ready
-const mockCompanyInfo: CompanyInfo = {
-    companyName: "TourBNT",
-    description: "Discover the world with TourBNT - your trusted partner for unforgettable travel experiences and adventures around the globe.",
-    contactPhone: "+61 0433 926 079",
-    contactEmail: "support@TourBNT.com",
-    address: "123 Travel Lane, Sydney, NSW 2000, Australia",
-    resources: [
-        { title: "Travel Guides", link: "/guides" },
-        { title: "Tour Packages", link: "/packages" },
-        { title: "Destination Tips", link: "/tips" },
-        { title: "Travel Insurance", link: "/insurance" }
-    ],
-    quickLinks: [
-        { title: "About Us", link: "/about" },
-        { title: "Our Services", link: "/services" },
-        { title: "Meet Our Team", link: "/team" },
-        { title: "Download App", link: "/app" }
-    ],
-    socialMedia: [
-        { platform: "Facebook", link: "https://facebook.com/TourBNT", icon: "facebook" },
-        { platform: "Twitter", link: "https://twitter.com/TourBNT", icon: "twitter" },
-        { platform: "Instagram", link: "https://instagram.com/TourBNT", icon: "instagram" },
-        { platform: "LinkedIn", link: "https://linkedin.com/company/TourBNT", icon: "linkedin" }
-    ]
+export interface SettingsLink {
+    title: string;
+    url: string;
+}
+
+export interface SocialLink {
+    platform: string;
+    url: string;
+}
+
+export interface SiteSettings {
+    branding: {
+        siteName: string;
+        tagline?: string;
+        description?: string;
+        logoUrl?: string;
+        faviconUrl?: string;
+        primaryColor?: string;
+    };
+    contact: {
+        email?: string;
+        phone?: string;
+        address?: string;
+    };
+    footerLinks: {
+        resources: SettingsLink[];
+        quickLinks: SettingsLink[];
+    };
+    socialLinks: SocialLink[];
+    defaultCurrency: string;
+    supportedLanguages: string[];
+    updatedAt?: string;
+}
+
+export type SiteSettingsUpdate = Partial<{
+    branding: Partial<SiteSettings['branding']>;
+    contact: Partial<SiteSettings['contact']>;
+    footerLinks: Partial<SiteSettings['footerLinks']>;
+    socialLinks: SocialLink[];
+    defaultCurrency: string;
+    supportedLanguages: string[];
+}>;
+
+export interface StorefrontSettings {
+    tagline?: string;
+    logoUrl?: string;
+    coverImageUrl?: string;
+    publicEmail?: string;
+    publicPhone?: string;
+    socialLinks: SocialLink[];
+    showAddress: boolean;
+}
+
+export interface SellerStorefront {
+    sellerId: string;
+    companyName: string;
+    description?: string;
+    sellerType?: string;
+    website?: string;
+    avatar?: string;
+    storefront: StorefrontSettings;
+    location: {
+        address?: string;
+        city?: string;
+        state?: string;
+        country?: string;
+    };
+    destinations: string[];
+    categories: string[];
+    stats: {
+        tourCount: number;
+        averageRating: number;
+        reviewCount: number;
+    };
+    tours: {
+        _id: string;
+        title: string;
+        code: string;
+        coverImage?: string;
+        price?: number;
+        averageRating?: number;
+        reviewCount?: number;
+        location?: { city?: string; country?: string };
+    }[];
+    memberSince: string;
+}
+
+export interface MyStorefront extends StorefrontSettings {
+    businessDescription?: string;
+    website?: string;
+    // Storefronts are public once the seller application is approved
+    isPublic: boolean;
+}
+
+// The footer has icons for these platforms
+const SOCIAL_ICONS: Record<string, string> = {
+    facebook: 'facebook',
+    twitter: 'twitter',
+    x: 'twitter',
+    instagram: 'instagram',
+    linkedin: 'linkedin',
+};
+
+/**
+ * Get the public site settings
+ */
+export const getSiteSettings = async (): Promise<SiteSettings> => {
+    try {
+        const response = await api.get('/settings/site');
+        return extractResponseData<{ data: SiteSettings }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching site settings');
+    }
+};
+
+/**
+ * Update the site settings (admin)
+ */
+export const updateSiteSettings = async (settings: SiteSettingsUpdate): Promise<SiteSettings> => {
+    try {
+        const response = await api.patch('/settings/site', settings);
+        return extractResponseData<{ data: SiteSettings }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'updating site settings');
+    }
 };
 
+/**
+ * Get the company details shown in the footer
+ */
 export const getCompanyInfo = async (): Promise<CompanyInfo> => {
+    const { branding, contact, footerLinks, socialLinks } = await getSiteSettings();
+
+    return {
+        companyName: branding.siteName,
+        description: branding.description || branding.tagline || '',
+        contactPhone: contact.phone || '',
+        contactEmail: contact.email || '',
+        address: contact.address || '',
+        resources: footerLinks.resources.map(({ title, url }) => ({ title, link: url })),
+        quickLinks: footerLinks.quickLinks.map(({ title, url }) => ({ title, link: url })),
+        socialMedia: socialLinks.map(({ platform, url }) => ({
+            platform: platform.charAt(0).toUpperCase() + platform.slice(1),
+            link: url,
+            icon: SOCIAL_ICONS[platform] || platform,
+        })),
+    };
+};
+
+/**
+ * Get a seller's public storefront
+ */
+export const getSellerStorefront = async (sellerId: string): Promise<SellerStorefront> => {
+    try {
+        const response = await api.get(`/settings/storefronts/${sellerId}`);
+        return extractResponseData<{ data: SellerStorefront }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching seller storefront');
+    }
+};
+
+/**
+ * Get the current seller's storefront settings
+ */
+export const getMyStorefront = async (): Promise<MyStorefront> => {
+    try {
+        const response = await api.get('/settings/storefront');
+        return extractResponseData<{ data: MyStorefront }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching storefront settings');
+    }
+};
+
+/**
+ * Update the current seller's storefront settings
+ */
+export const updateMyStorefront = async (
+    storefront: Partial<StorefrontSettings> & { businessDescription?: string; website?: string }
+): Promise<MyStorefront> => {
     try {
-        // In a real implementation, this would be an API call:
-        // const response = await api.get('/company-info');
-        // return response.data;
-
-        // For now, return the mock data with a simulated delay
-        return new Promise((resolve) => {
-            setTimeout(() => resolve(mockCompanyInfo), 300);
-        });
+        const response = await api.patch('/settings/storefront', storefront);
+        return extractResponseData<{ data: MyStorefront }>(response).data;
     } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Error fetching company info: ${error.message}`);
-        } else {
-            throw new Error(`Error fetching company info: ${String(error)}`);
-        }
+        throw handleApiError(error, 'updating storefront settings');
     }
 };
@@ -0,0 +1,105 @@
+import { api, handleApiError, extractResponseData } from './apiClient';
+
+/**
+ * Currency API endpoints
+ * Exchange rates kept by admins and conversions between tour and payment currencies
+ */
+
+export interface ExchangeRateTable {
+    // Rates are units of each currency per 1 unit of the base currency
+    base: string;
+    rates: Record<string, number>;
+    updatedAt?: string;
+}
+
+export interface ConvertedAmount {
+    amount: number;
+    from: string;
+    to: string;
+    rate: number;
+}
+
+/**
+ * Convert an amount with a rate table already fetched, rounded to cents
+ * Returns undefined when either currency has no rate.
+ */
+export const convertPrice = (
+    amount: number,
+    from: string,
+    to: string,
+    table?: ExchangeRateTable
+): number | undefined => {
+    if (from === to) return amount;
+    const fromRate = table?.rates[from];
+    const toRate = table?.rates[to];
+    if (!fromRate || !toRate) return undefined;
+
+    return Math.round(amount * (toRate / fromRate) * 100) / 100;
+};
+
+/**
+ * Get the exchange rate table
+ */
+export const getExchangeRates = async (): Promise<ExchangeRateTable> => {
+    try {
+        const response = await api.get('/currencies/rates');
+        return extractResponseData<{ data: ExchangeRateTable }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching exchange rates');
+    }
+};
+
+/**
+ * Convert an amount between two currencies at the current rates
+ */
+export const convertAmount = async (amount: number, from: string, to: string): Promise<ConvertedAmount> => {
+    try {
+        const response = await api.get('/currencies/convert', { params: { amount, from, to } });
+        return extractResponseData<{ data: ConvertedAmount }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'converting amount');
+    }
+};
+
+/**
+ * Set a currency's exchange rate (admin)
+ */
+export const setExchangeRate = async (currency: string, rate: number): Promise<ExchangeRateTable> => {
+    try {
+        const response = await api.put(`/currencies/rates/${currency}`, { rate });
+        return extractResponseData<{ data: ExchangeRateTable }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'saving exchange rate');
+    }
+};
+
+/**
+ * Import exchange rates from a CSV or JSON file (admin)
+ */
+export const importExchangeRates = async (file: File): Promise<ExchangeRateTable & { imported: number }> => {
+    try {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await api.post('/currencies/rates/import', formData, {
+            headers: {
+                'Content-Type': 'multipart/form-data',
+            },
+        });
+        return extractResponseData<{ data: ExchangeRateTable & { imported: number } }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'importing exchange rates');
+    }
+};
+
+/**
+ * Remove a currency's exchange rate (admin)
+ */
+export const deleteExchangeRate = async (currency: string): Promise<ExchangeRateTable> => {
+    try {
+        const response = await api.delete(`/currencies/rates/${currency}`);
+        return extractResponseData<{ data: ExchangeRateTable }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'removing exchange rate');
+    }
+};
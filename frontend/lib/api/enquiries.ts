@@ -0,0 +1,147 @@
+import { api, handleApiError, extractResponseData } from './apiClient';
+
+/**
+ * Enquiry API Methods
+ * Pre-booking questions about a tour, answered by the tour's seller
+ */
+
+export type EnquiryStatus = 'open' | 'answered' | 'converted' | 'closed';
+
+export interface EnquiryMessage {
+    _id: string;
+    sender: 'customer' | 'seller' | 'admin';
+    author?: { _id: string; name: string; avatar?: string } | string;
+    body: string;
+    createdAt: string;
+}
+
+export interface Enquiry {
+    _id: string;
+    tour: { _id: string; title: string; code?: string; coverImage?: string } | string;
+    tourTitle: string;
+    contactName: string;
+    contactEmail: string;
+    contactPhone?: string;
+    subject?: string;
+    preferredDates?: {
+        from?: string;
+        to?: string;
+        flexible: boolean;
+    };
+    participants?: {
+        adults: number;
+        children: number;
+    };
+    messages: EnquiryMessage[];
+    lastMessageAt: string;
+    status: EnquiryStatus;
+    booking?: string;
+    createdAt: string;
+    // Only returned once, to guests, when the enquiry is created
+    accessToken?: string;
+}
+
+export interface EnquiryData {
+    tourId: string;
+    contactInfo: {
+        fullName: string;
+        email: string;
+        phone?: string;
+    };
+    subject?: string;
+    message: string;
+    preferredDates?: {
+        from?: string;
+        to?: string;
+        flexible?: boolean;
+    };
+    participants?: {
+        adults: number;
+        children?: number;
+    };
+}
+
+/**
+ * Submit an enquiry about a tour
+ */
+export const createEnquiry = async (enquiryData: EnquiryData) => {
+    try {
+        const response = await api.post('/enquiries', enquiryData);
+        return extractResponseData<{ data: Enquiry }>(response);
+    } catch (error) {
+        throw handleApiError(error, 'sending enquiry');
+    }
+};
+
+/**
+ * Get the current user's enquiries
+ */
+export const getMyEnquiries = async (params?: { page?: number; limit?: number; status?: EnquiryStatus }) => {
+    try {
+        const response = await api.get('/enquiries/my-enquiries', { params });
+        return extractResponseData<Enquiry[]>(response);
+    } catch (error) {
+        throw handleApiError(error, 'fetching enquiries');
+    }
+};
+
+/**
+ * Get the enquiry inbox (admin/seller)
+ */
+export const getEnquiryInbox = async (params?: {
+    page?: number;
+    limit?: number;
+    status?: EnquiryStatus;
+    tour?: string;
+}) => {
+    try {
+        const response = await api.get('/enquiries/inbox', { params });
+        return extractResponseData<Enquiry[]>(response);
+    } catch (error) {
+        throw handleApiError(error, 'fetching enquiry inbox');
+    }
+};
+
+/**
+ * Get an enquiry thread (guests pass their access token)
+ */
+export const getEnquiry = async (enquiryId: string, token?: string) => {
+    try {
+        const response = await api.get(`/enquiries/${enquiryId}`, { params: { token } });
+        return extractResponseData<{ data: Enquiry }>(response);
+    } catch (error) {
+        throw handleApiError(error, 'fetching enquiry');
+    }
+};
+
+/**
+ * Reply to an enquiry thread
+ */
+export const replyToEnquiry = async (enquiryId: string, message: string, token?: string) => {
+    try {
+        const response = await api.post(`/enquiries/${enquiryId}/replies`, { message }, { params: { token } });
+        return extractResponseData<{ data: Enquiry }>(response);
+    } catch (error) {
+        throw handleApiError(error, 'replying to enquiry');
+    }
+};
+
+/**
+ * Close, reopen or convert an enquiry
+ */
+export const updateEnquiryStatus = async (
+    enquiryId: string,
+    status: EnquiryStatus,
+    options?: { bookingId?: string; token?: string }
+) => {
+    try {
+        const response = await api.patch(
+            `/enquiries/${enquiryId}/status`,
+            { status, bookingId: options?.bookingId },
+            { params: { token: options?.token } }
+        );
+        return extractResponseData<{ data: Enquiry }>(response);
+    } catch (error) {
+        throw handleApiError(error, 'updating enquiry status');
+    }
+};
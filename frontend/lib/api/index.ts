@@ -100,4 +100,18 @@ export {
 
 export {
     getCompanyInfo,
+    getSiteSettings,
+    updateSiteSettings,
+    getSellerStorefront,
+    getMyStorefront,
+    updateMyStorefront,
 } from './companyApi';
+
+export {
+    getExchangeRates,
+    convertAmount,
+    convertPrice,
+    setExchangeRate,
+    importExchangeRates,
+    deleteExchangeRate,
+} from './currencies';
@@ -1,4 +1,5 @@
 import { api, handleApiError, extractResponseData } from './apiClient';
+import { ReviewAspectRatings } from '@/lib/types';
 
 /**
  * Review API Methods
@@ -81,13 +82,21 @@ export const likeReview = async (tourId: string, reviewId: string) => {
 
 /**
  * Add a new review
+ * Only travelers with a completed booking for the tour can review it.
+ * Photos are IDs of images in the traveler's gallery.
  */
-export const addReview = async (tourId: string, rating: number, comment: string) => {
+export const addReview = async (
+    tourId: string,
+    rating: number,
+    comment: string,
+    details?: { aspectRatings?: ReviewAspectRatings; photos?: string[] }
+) => {
     try {
         const response = await api.post(`/tours/${tourId}/reviews`, {
             rating,
             comment,
             tour: tourId,
+            ...details,
         });
         return extractResponseData(response);
     } catch (error) {
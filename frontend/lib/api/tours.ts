@@ -1,5 +1,6 @@
 import { api, serverApi, handleApiError, createFormData, extractResponseData } from './apiClient';
 import { AxiosError } from 'axios';
+import { Tour } from '@/lib/types';
 
 /**
  * Tour API Methods
@@ -291,18 +292,142 @@ export const deleteTour = async (tourId: string) => {
     }
 };
 
+export interface TourSearchFacetValue {
+    id: string;
+    name: string;
+    count: number;
+}
+
+export interface TourSearchFacetBucket {
+    key: string;
+    min: number;
+    max?: number;
+    count: number;
+}
+
+export interface TourSearchFacets {
+    destinations: TourSearchFacetValue[];
+    categories: TourSearchFacetValue[];
+    priceRanges: TourSearchFacetBucket[];
+    durations: TourSearchFacetBucket[];
+}
+
+export interface TourSearchResponse {
+    items: Tour[];
+    pagination: {
+        page: number;
+        limit: number;
+        totalItems: number;
+        totalPages: number;
+    };
+    facets: TourSearchFacets;
+}
+
 /**
  * Search tours with filters
+ * Accepts the query string built by the home search form (keyword, destination,
+ * type, duration, startDate, endDate, minPrice, maxPrice) and returns the
+ * results together with the facet counts.
  */
-export const searchTours = async (query: string) => {
+export const searchTours = async (query: string): Promise<TourSearchResponse> => {
     try {
-        const response = await api.get(`/api/tour-search?${query}`);
-        return extractResponseData(response);
+        const response = await api.get(`/tours/search?${query}`);
+        // Facets live next to the items, so keep the whole body
+        return response.data as TourSearchResponse;
     } catch (error) {
         throw handleApiError(error, 'searching tours');
     }
 };
 
+export interface TourSuggestion {
+    id: string;
+    title: string;
+    code?: string;
+    coverImage?: string;
+    price?: number;
+    averageRating?: number;
+    updatedAt: string;
+}
+
+/**
+ * Search-as-you-type suggestions (partial words and small typos still match)
+ */
+export const suggestTours = async (q: string, category?: string): Promise<TourSuggestion[]> => {
+    try {
+        const response = await api.get('/tours/suggest', { params: { q, category: category || undefined } });
+        return extractResponseData<{ data: TourSuggestion[] }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching tour suggestions');
+    }
+};
+
+export interface NearbyTour extends Tour {
+    // Kilometres from the searched point
+    distance: number;
+}
+
+export interface NearbyToursResponse {
+    items: NearbyTour[];
+    pagination: {
+        page: number;
+        limit: number;
+        totalItems: number;
+        totalPages: number;
+    };
+}
+
+/**
+ * Tours within a radius of a point, nearest first ("tours near me")
+ */
+export const getToursNearby = async (params: {
+    lat: number;
+    lng: number;
+    radiusKm?: number;
+    page?: number;
+    limit?: number;
+}): Promise<NearbyToursResponse> => {
+    try {
+        const response = await api.get('/tours/nearby', { params });
+        return response.data as NearbyToursResponse;
+    } catch (error) {
+        throw handleApiError(error, 'fetching nearby tours');
+    }
+};
+
+export interface MapBounds {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+export interface TourMapMarker {
+    id: string;
+    title: string;
+    code?: string;
+    coverImage?: string;
+    price?: number;
+    averageRating?: number;
+    location: {
+        city?: string;
+        country?: string;
+        lat: number;
+        lng: number;
+    };
+}
+
+/**
+ * Tours inside the visible map area, as map markers
+ */
+export const getToursInBounds = async (bounds: MapBounds, limit?: number): Promise<TourMapMarker[]> => {
+    try {
+        const response = await api.get('/tours/within-bounds', { params: { ...bounds, limit } });
+        return extractResponseData<{ data: TourMapMarker[] }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching tours for the map');
+    }
+};
+
 /**
  * Server-side tour fetching (for SSR/SSG)
  */
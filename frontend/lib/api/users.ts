@@ -18,7 +18,7 @@ import useUserStore, { User } from '../store/useUserStore';
 export const fetchCurrentUser = async (): Promise<User | null> => {
     try {
         const response = await api.get('/users/me');
-        const userData = extractResponseData<User>(response);
+        const userData = extractResponseData<{ data: User }>(response).data;
         useUserStore.getState().setUser(userData);
         return userData;
     } catch {
@@ -28,33 +28,119 @@ export const fetchCurrentUser = async (): Promise<User | null> => {
     }
 };
 
+// Second step the server asks for after the password when two-factor is on (or required)
+export interface TwoFactorChallenge {
+    twoFactorRequired: boolean;
+    twoFactorSetupRequired: boolean;
+    challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    otpauthUrl: string;
+    // PNG data URL to scan with an authenticator app
+    qrCode: string;
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+export const isTwoFactorChallenge = (result: User | TwoFactorChallenge): result is TwoFactorChallenge =>
+    'challengeToken' in result;
+
+// Store the signed-in user
+const setLoggedInUser = (userData: User): User => {
+    // Ensure id is always a string (handle MongoDB ObjectId buffer conversion)
+    const normalizedUser: User = {
+        ...userData,
+        id: userData.id?.toString() || userData.id || null,
+    };
+
+    useUserStore.getState().setUser(normalizedUser);
+    return normalizedUser;
+};
+
 /**
  * Login user with credentials
  * Server sets httpOnly cookie on success
  * @param credentials - Email, password, and optional keepMeSignedIn flag
- * @returns User data
+ * @returns User data, or a two-factor challenge when a code is needed to finish signing in
  */
 export const loginUser = async (credentials: {
     email: string;
     password: string;
     keepMeSignedIn?: boolean;
-}): Promise<User> => {
+}): Promise<User | TwoFactorChallenge> => {
     const response = await api.post('/users/login', credentials);
-    
+
     // Extract data from nested response structure: { success, message, data: { user: {...} } }
-    const responseData = extractResponseData<{ user: User } | User>(response);
-    const userData = 'user' in responseData ? responseData.user : responseData;
-    
-    // Ensure id is always a string (handle MongoDB ObjectId buffer conversion)
-    const normalizedUser: User = {
-        ...userData,
-        id: userData.id?.toString() || userData.id || null,
-    };
-    
-    useUserStore.getState().setUser(normalizedUser);
-    return normalizedUser;
+    const { data } = extractResponseData<{ data: { user: User } | TwoFactorChallenge }>(response);
+    if ('challengeToken' in data) {
+        return data;
+    }
+
+    return setLoggedInUser(data.user);
+};
+
+/**
+ * Finish signing in with an authenticator or recovery code
+ * Server sets httpOnly cookie on success
+ */
+export const verifyTwoFactorLogin = async (params: {
+    challengeToken: string;
+    code: string;
+    keepMeSignedIn?: boolean;
+}): Promise<User> => {
+    try {
+        const response = await api.post('/auth/login/2fa', params);
+        return setLoggedInUser(extractResponseData<{ data: { user: User } }>(response).data.user);
+    } catch (error) {
+        throw handleApiError(error, 'verifying authentication code');
+    }
+};
+
+/**
+ * Start the two-factor setup the server requires before signing in
+ * @param challengeToken - Token from the login response
+ */
+export const startTwoFactorLoginSetup = async (challengeToken: string): Promise<TwoFactorSetup> => {
+    try {
+        const response = await api.post('/auth/2fa/setup', { challengeToken });
+        return extractResponseData<{ data: TwoFactorSetup }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'starting two-factor setup');
+    }
 };
 
+/**
+ * Finish the required two-factor setup and sign in
+ * @returns The signed-in user and the recovery codes to save
+ */
+export const confirmTwoFactorLoginSetup = async (params: {
+    challengeToken: string;
+    code: string;
+    keepMeSignedIn?: boolean;
+}): Promise<{ user: User; recoveryCodes: string[] }> => {
+    try {
+        const response = await api.post('/auth/2fa/setup/verify', params);
+        const { data } = extractResponseData<{ data: { user: User; recoveryCodes: string[] } }>(response);
+        return { user: setLoggedInUser(data.user), recoveryCodes: data.recoveryCodes };
+    } catch (error) {
+        throw handleApiError(error, 'enabling two-factor authentication');
+    }
+};
+
+/**
+ * Server URL that starts signing in with an outside provider
+ * The browser navigates there; the server sends it back to /auth/login when done.
+ * @param provider - e.g. "google"
+ */
+export const getSocialSignInUrl = (provider: string, keepMeSignedIn = false): string =>
+    `${api.defaults.baseURL}/auth/oauth/${provider}?keepMeSignedIn=${keepMeSignedIn}`;
+
 /**
  * Logout user
  * Calls server to clear httpOnly cookie and clears local store
@@ -118,6 +204,120 @@ export const changeMyPassword = async (data: {
     }
 };
 
+// A device the current user is signed in on
+export interface UserSession {
+    id: string;
+    device?: string;
+    userAgent?: string;
+    ip?: string;
+    createdAt: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    // The session making the request
+    current: boolean;
+}
+
+/**
+ * Get the current user's active sessions, most recently used first
+ */
+export const getMySessions = async (): Promise<UserSession[]> => {
+    try {
+        const response = await api.get('/users/me/sessions');
+        return extractResponseData<{ data: UserSession[] }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching sessions');
+    }
+};
+
+/**
+ * Sign out one of the current user's sessions
+ * @param sessionId - The session to sign out
+ */
+export const revokeMySession = async (sessionId: string) => {
+    try {
+        const response = await api.delete(`/users/me/sessions/${sessionId}`);
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'signing out session');
+    }
+};
+
+/**
+ * Sign out of every session
+ * @param keepCurrent - Keep this browser signed in
+ */
+export const revokeAllMySessions = async (keepCurrent = false) => {
+    try {
+        const response = await api.delete('/users/me/sessions', { params: { keepCurrent } });
+        return extractResponseData<{ data: { revoked: number } }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'signing out sessions');
+    }
+};
+
+/**
+ * Get the current user's two-factor status
+ */
+export const getMyTwoFactor = async (): Promise<TwoFactorStatus> => {
+    try {
+        const response = await api.get('/users/me/2fa');
+        return extractResponseData<{ data: TwoFactorStatus }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'fetching two-factor status');
+    }
+};
+
+/**
+ * Create a new two-factor secret for the current user
+ */
+export const setupMyTwoFactor = async (): Promise<TwoFactorSetup> => {
+    try {
+        const response = await api.post('/users/me/2fa/setup');
+        return extractResponseData<{ data: TwoFactorSetup }>(response).data;
+    } catch (error) {
+        throw handleApiError(error, 'starting two-factor setup');
+    }
+};
+
+/**
+ * Turn two-factor on with a code from the new secret
+ * @returns The recovery codes to save
+ */
+export const enableMyTwoFactor = async (code: string): Promise<string[]> => {
+    try {
+        const response = await api.post('/users/me/2fa/enable', { code });
+        return extractResponseData<{ data: { recoveryCodes: string[] } }>(response).data.recoveryCodes;
+    } catch (error) {
+        throw handleApiError(error, 'enabling two-factor authentication');
+    }
+};
+
+/**
+ * Replace the current user's recovery codes
+ * @param code - A current authenticator or recovery code
+ */
+export const regenerateMyRecoveryCodes = async (code: string): Promise<string[]> => {
+    try {
+        const response = await api.post('/users/me/2fa/recovery-codes', { code });
+        return extractResponseData<{ data: { recoveryCodes: string[] } }>(response).data.recoveryCodes;
+    } catch (error) {
+        throw handleApiError(error, 'regenerating recovery codes');
+    }
+};
+
+/**
+ * Turn two-factor off
+ * @param code - A current authenticator or recovery code
+ */
+export const disableMyTwoFactor = async (code: string) => {
+    try {
+        const response = await api.delete('/users/me/2fa', { data: { code } });
+        return extractResponseData(response);
+    } catch (error) {
+        throw handleApiError(error, 'disabling two-factor authentication');
+    }
+};
+
 /**
  * Upload current user avatar
  * @param avatarData - File, FormData, or URL string
@@ -12,17 +12,31 @@ export interface CartBooking {
     pricing: {
         totalPrice: number;
         currency: string;
+        subtotal?: number;
+        discountAmount?: number;
     };
     contactName: string;
     contactEmail: string;
     contactPhone: string;
     specialRequests?: string;
+    promoCode?: {
+        code: string;
+        discountAmount: number;
+    };
     tour?: {
         duration?: string;
         destination?: string;
     };
 }
 
+export interface CheckoutHold {
+    id: string;
+    expiresAt: string;
+}
+
+const CHECKOUT_HOLD_KEY = 'checkoutHold';
+const PAYMENT_TOKEN_KEY = 'paymentAccessToken';
+
 /**
  * Generate a unique booking reference
  */
@@ -101,11 +115,72 @@ export function clearCart(): void {
     if (typeof window === 'undefined') return;
 
     localStorage.removeItem('cartBookings');
+    localStorage.removeItem(CHECKOUT_HOLD_KEY);
+    localStorage.removeItem(PAYMENT_TOKEN_KEY);
 
     // Dispatch custom event
     window.dispatchEvent(new Event('cartUpdated'));
 }
 
+/**
+ * Remember the seat hold created when checkout started
+ */
+export function saveCheckoutHold(hold: CheckoutHold): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(CHECKOUT_HOLD_KEY, JSON.stringify({ id: hold.id, expiresAt: hold.expiresAt }));
+}
+
+/**
+ * Get the current seat hold, or null when there is none or it has run out
+ */
+export function getCheckoutHold(): CheckoutHold | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+        const stored = localStorage.getItem(CHECKOUT_HOLD_KEY);
+        const hold: CheckoutHold | null = stored ? JSON.parse(stored) : null;
+        if (!hold || new Date(hold.expiresAt).getTime() <= Date.now()) {
+            return null;
+        }
+        return hold;
+    } catch (error) {
+        console.error('Error reading checkout hold:', error);
+        return null;
+    }
+}
+
+/**
+ * Remember the access token a guest gets for a payment, to confirm it after the gateway
+ */
+export function savePaymentAccessToken(paymentId: string, token: string): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(PAYMENT_TOKEN_KEY, JSON.stringify({ paymentId, token }));
+}
+
+/**
+ * Get the guest access token for a payment, if this browser started it
+ */
+export function getPaymentAccessToken(paymentId: string): string | undefined {
+    if (typeof window === 'undefined') return undefined;
+
+    try {
+        const stored = localStorage.getItem(PAYMENT_TOKEN_KEY);
+        const saved: { paymentId: string; token: string } | null = stored ? JSON.parse(stored) : null;
+        return saved?.paymentId === paymentId ? saved.token : undefined;
+    } catch (error) {
+        console.error('Error reading payment access token:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Forget the seat hold (paid, expired or abandoned)
+ */
+export function clearCheckoutHold(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(CHECKOUT_HOLD_KEY);
+}
+
 /**
  * Update a booking in the cart
  */
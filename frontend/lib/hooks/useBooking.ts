@@ -2,10 +2,18 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
     createBooking,
     processPayment,
+    confirmPayment,
+    createSeatHold,
     getUserBookings,
     getBookingByReference,
     validatePromoCode,
     cancelBooking,
+    getRefundQuote,
+    amendBooking,
+    BookingAmendmentRequest,
+    getAllBookings,
+    getBookingStats,
+    BookingStatsParams,
 } from '../api/bookings';
 import { CartBooking } from '../cartUtils';
 
@@ -39,6 +47,29 @@ export const useProcessPayment = () => {
     });
 };
 
+/**
+ * Hook to hold seats when checkout starts
+ */
+export const useCreateSeatHold = () => {
+    return useMutation({
+        mutationFn: createSeatHold,
+    });
+};
+
+/**
+ * Hook to confirm a payment that required gateway approval
+ */
+export const useConfirmPayment = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: confirmPayment,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['userBookings'] });
+        },
+    });
+};
+
 /**
  * Hook to get user's bookings
  */
@@ -67,7 +98,41 @@ export const useBookingByReference = (bookingReference: string, enabled = true)
  */
 export const useValidatePromoCode = () => {
     return useMutation({
-        mutationFn: validatePromoCode,
+        mutationFn: ({ promoCode, tourId, amount, currency }: {
+            promoCode: string;
+            tourId?: string;
+            amount?: number;
+            currency?: string;
+        }) => validatePromoCode(promoCode, { tourId, amount, currency }),
+    });
+};
+
+/**
+ * Hook to amend a booking (date, participants, travelers)
+ */
+export const useAmendBooking = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ bookingId, changes }: { bookingId: string; changes: BookingAmendmentRequest }) =>
+            amendBooking(bookingId, changes),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['userBookings'] });
+            queryClient.invalidateQueries({ queryKey: ['booking'] });
+            queryClient.invalidateQueries({ queryKey: ['refundQuote'] });
+        },
+    });
+};
+
+/**
+ * Hook to get the refund quote shown before cancelling
+ */
+export const useRefundQuote = (bookingId: string, enabled = true) => {
+    return useQuery({
+        queryKey: ['refundQuote', bookingId],
+        queryFn: () => getRefundQuote(bookingId),
+        enabled: enabled && !!bookingId,
+        staleTime: 0, // The quote changes as departure approaches
     });
 };
 
@@ -82,6 +147,29 @@ export const useCancelBooking = () => {
         onSuccess: () => {
             // Invalidate user bookings query to refetch
             queryClient.invalidateQueries({ queryKey: ['userBookings'] });
+            queryClient.invalidateQueries({ queryKey: ['refundQuote'] });
         },
     });
 };
+
+/**
+ * Hook to get the bookings the current admin/seller manages
+ */
+export const useManagedBookings = (params?: Parameters<typeof getAllBookings>[0]) => {
+    return useQuery({
+        queryKey: ['managedBookings', params],
+        queryFn: () => getAllBookings(params),
+        staleTime: 1000 * 60, // 1 minute
+    });
+};
+
+/**
+ * Hook to get booking statistics for the dashboard
+ */
+export const useBookingStats = (params?: BookingStatsParams) => {
+    return useQuery({
+        queryKey: ['bookingStats', params],
+        queryFn: () => getBookingStats(params),
+        staleTime: 1000 * 60 * 5, // 5 minutes
+    });
+};
@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+    createEnquiry,
+    getMyEnquiries,
+    getEnquiryInbox,
+    getEnquiry,
+    replyToEnquiry,
+    updateEnquiryStatus,
+    EnquiryStatus,
+} from '../api/enquiries';
+
+/**
+ * Hook to submit an enquiry
+ */
+export const useCreateEnquiry = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: createEnquiry,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['myEnquiries'] });
+        },
+    });
+};
+
+/**
+ * Hook to get the current user's enquiries
+ */
+export const useMyEnquiries = (enabled = true) => {
+    return useQuery({
+        queryKey: ['myEnquiries'],
+        queryFn: () => getMyEnquiries({ limit: 50 }),
+        enabled,
+        staleTime: 1000 * 60, // 1 minute
+    });
+};
+
+/**
+ * Hook to get the seller/admin enquiry inbox
+ */
+export const useEnquiryInbox = (status?: EnquiryStatus) => {
+    return useQuery({
+        queryKey: ['enquiryInbox', status],
+        queryFn: () => getEnquiryInbox({ status, limit: 50 }),
+        staleTime: 1000 * 60, // 1 minute
+    });
+};
+
+/**
+ * Hook to get an enquiry thread
+ */
+export const useEnquiry = (enquiryId: string, token?: string) => {
+    return useQuery({
+        queryKey: ['enquiry', enquiryId, token],
+        queryFn: () => getEnquiry(enquiryId, token),
+        enabled: !!enquiryId,
+    });
+};
+
+/**
+ * Hook to reply to an enquiry
+ */
+export const useReplyToEnquiry = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ enquiryId, message, token }: { enquiryId: string; message: string; token?: string }) =>
+            replyToEnquiry(enquiryId, message, token),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['enquiry'] });
+            queryClient.invalidateQueries({ queryKey: ['myEnquiries'] });
+            queryClient.invalidateQueries({ queryKey: ['enquiryInbox'] });
+        },
+    });
+};
+
+/**
+ * Hook to close, reopen or convert an enquiry
+ */
+export const useUpdateEnquiryStatus = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ enquiryId, status, bookingId, token }: {
+            enquiryId: string;
+            status: EnquiryStatus;
+            bookingId?: string;
+            token?: string;
+        }) => updateEnquiryStatus(enquiryId, status, { bookingId, token }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['enquiry'] });
+            queryClient.invalidateQueries({ queryKey: ['myEnquiries'] });
+            queryClient.invalidateQueries({ queryKey: ['enquiryInbox'] });
+        },
+    });
+};
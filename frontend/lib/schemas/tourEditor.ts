@@ -225,6 +225,49 @@ export const pricingSchema = z.object({
     }
 });
 
+// ============================================================================
+// ADD-ON SCHEMA
+// ============================================================================
+
+export const addOnSchema = z.object({
+    _id: optionalString,
+    name: z.string().min(1, "Name is required"),
+    description: optionalString,
+    category: z.enum(["transportation", "accommodation", "activity", "meal", "equipment", "insurance", "guide", "other"]).default("other"),
+    customCategory: optionalString,
+    price: z.number().min(0, "Price must be a positive number"),
+    isDiscounted: z.boolean().default(false),
+    discountPrice: optionalNumber,
+    isRequired: z.boolean().default(false),
+    maxQuantity: z.number().min(1, "Maximum quantity must be at least 1").default(1),
+    image: optionalString,
+    isActive: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+    if (data.isDiscounted && (data.discountPrice === undefined || data.discountPrice > data.price)) {
+        ctx.addIssue({
+            path: ["discountPrice"],
+            code: z.ZodIssueCode.custom,
+            message: "Discount price must be set and no higher than the price.",
+        });
+    }
+});
+
+// Price for a range of party sizes (adults and children)
+export const paxTierSchema = z.object({
+    minPax: z.number().int().min(1, "Minimum travelers must be at least 1"),
+    maxPax: optionalNumber,
+    price: z.number().min(0, "Price must be a positive number"),
+    pricePerPerson: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+    if (data.maxPax !== undefined && data.maxPax < data.minPax) {
+        ctx.addIssue({
+            path: ["maxPax"],
+            code: z.ZodIssueCode.custom,
+            message: "Maximum travelers can't be less than the minimum.",
+        });
+    }
+});
+
 // ============================================================================
 // DEPARTURE SCHEMA
 // ============================================================================
@@ -317,6 +360,8 @@ export const baseTourSchema = z.object({
 
     // Pricing and Dates
     pricing: pricingSchema.optional(),
+    paxTiers: z.array(paxTierSchema).optional(),
+    addOns: z.array(addOnSchema).optional(),
     dates: tourDatesSchema.optional(),
 
     // Legacy fields for backward compatibility
@@ -356,6 +401,8 @@ export const tourEditSchema = z.object({
     featured: z.boolean().optional(),
     destination: optionalString,
     pricing: z.any().optional(),
+    paxTiers: z.array(paxTierSchema).optional(),
+    addOns: z.array(addOnSchema).optional(),
     dates: z.any().optional(),
     price: optionalNumber,
     minSize: optionalNumber,
@@ -390,6 +437,8 @@ export type Category = z.infer<typeof categorySchema>;
 export type GalleryItem = z.infer<typeof gallerySchema>;
 export type Location = z.infer<typeof locationSchema>;
 export type PricingOption = z.infer<typeof pricingOptionSchema>;
+export type AddOn = z.infer<typeof addOnSchema>;
+export type PaxTier = z.infer<typeof paxTierSchema>;
 export type Departure = z.infer<typeof departureSchema>;
 export type TourDates = z.infer<typeof tourDatesSchema>;
 export type Pricing = z.infer<typeof pricingSchema>;
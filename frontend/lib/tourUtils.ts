@@ -1,17 +1,19 @@
-import { Departure, PricingOption, TourDates } from './types';
+import { Departure, PaxTier, PricingOption, TourAddOn, TourDates } from './types';
 
 /**
  * Format price with currency symbol
  * @param price - The price to format
- * @param currency - Currency symbol (default: '$')
- * @returns Formatted price string (e.g., "$1,234.56")
+ * @param currency - Currency symbol or ISO currency code (default: '$')
+ * @returns Formatted price string (e.g., "$1,234.56" or "NPR 1,234.56")
  */
 export function formatPrice(price: number, currency: string = '$'): string {
-    if (typeof price !== 'number' || isNaN(price)) {
-        return `${currency}0.00`;
+    const amount = typeof price !== 'number' || isNaN(price) ? 0 : price;
+
+    if (/^[A-Z]{3}$/.test(currency)) {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
     }
 
-    return `${currency}${price.toLocaleString('en-US', {
+    return `${currency}${amount.toLocaleString('en-US', {
         minimumFractionDigits: 2,
         maximumFractionDigits: 2,
     })}`;
@@ -156,7 +158,8 @@ export function getFactIconName(iconName?: string): string {
 }
 
 /**
- * Calculate departure price with discounts
+ * Calculate departure price with discounts, for display
+ * Booking totals always come from the server quote (getTourQuote).
  * @param departure - The departure object
  * @param basePrice - Base tour price
  * @param salePrice - Sale price (if sale is enabled)
@@ -208,28 +211,26 @@ export function calculateDeparturePrice(
             originalPrice = selectedOption.price;
             displayPrice = selectedOption.price;
 
-            // Apply pricing option discount if enabled and within date range
+            // Apply pricing option discount if enabled and within date range, the way the server prices it
             if (selectedOption.discountEnabled && selectedOption.discount) {
                 const now = new Date();
-                const discountStart = selectedOption.discount.discountDateRange?.from
-                    ? new Date(selectedOption.discount.discountDateRange.from)
-                    : null;
-                const discountEnd = selectedOption.discount.discountDateRange?.to
-                    ? new Date(selectedOption.discount.discountDateRange.to)
-                    : null;
+                const discountStart = selectedOption.discount.discountDateRange?.from;
+                const discountEnd = selectedOption.discount.discountDateRange?.to;
 
-                const isWithinDateRange = (!discountStart || now >= discountStart) &&
-                    (!discountEnd || now <= discountEnd);
+                const isWithinDateRange = !!discountStart && !!discountEnd &&
+                    now >= new Date(discountStart) && now <= new Date(discountEnd);
 
                 if (isWithinDateRange) {
-                    if (selectedOption.discount.percentageOrPrice) {
-                        // Percentage discount
-                        const discountAmount = (originalPrice * (selectedOption.discount.discountPercentage || 0)) / 100;
-                        displayPrice = originalPrice - discountAmount;
-                    } else {
-                        // Fixed price discount - discountPrice IS the final price
-                        displayPrice = selectedOption.discount.discountPrice || originalPrice;
+                    let discountAmount = selectedOption.discount.percentageOrPrice
+                        ? (originalPrice * (selectedOption.discount.discountPercentage || 0)) / 100
+                        : selectedOption.discount.discountPrice || 0;
+
+                    // Percentage discounts are capped; a fixed discountPrice is the amount taken off
+                    const maxDiscount = selectedOption.discount.maxDiscountAmount;
+                    if (selectedOption.discount.percentageOrPrice && maxDiscount && discountAmount > maxDiscount) {
+                        discountAmount = maxDiscount;
                     }
+                    displayPrice = originalPrice - Math.min(originalPrice, Math.max(0, discountAmount));
                 }
             }
         }
@@ -248,6 +249,53 @@ export function calculateDeparturePrice(
     };
 }
 
+/**
+ * Price charged per unit of an add-on
+ * @param addOn - The tour add-on
+ * @returns The discount price when the add-on is discounted, otherwise its price
+ */
+export function getAddOnUnitPrice(addOn: TourAddOn): number {
+    return addOn.isDiscounted && typeof addOn.discountPrice === 'number' ? addOn.discountPrice : addOn.price;
+}
+
+/**
+ * Quantity of each add-on a booking starts with: one of every required add-on
+ * @param addOns - The tour's add-ons
+ * @returns Quantities keyed by add-on ID
+ */
+export function getInitialAddOnQuantities(addOns: TourAddOn[] = []): Record<string, number> {
+    return Object.fromEntries(
+        addOns
+            .filter(addOn => addOn._id && addOn.isActive !== false && addOn.isRequired)
+            .map(addOn => [addOn._id as string, 1])
+    );
+}
+
+/**
+ * Party-size tier a party falls into
+ * @param tiers - The tour's party-size tiers
+ * @param pax - Adults and children in the party (infants don't count)
+ * @returns The matching tier, if any
+ */
+export function findPaxTier(tiers: PaxTier[] = [], pax: number): PaxTier | undefined {
+    return tiers.find(tier => pax >= tier.minPax && (tier.maxPax == null || pax <= tier.maxPax));
+}
+
+/**
+ * Describe the party sizes a tier covers
+ * @param tier - The party-size tier
+ * @returns Range label (e.g., "1 traveler", "2-3 travelers", "4+ travelers")
+ */
+export function describePaxRange({ minPax, maxPax }: Pick<PaxTier, 'minPax' | 'maxPax'>): string {
+    if (maxPax == null) {
+        return `${minPax}+ travelers`;
+    }
+    if (maxPax === minPax) {
+        return `${minPax} traveler${minPax === 1 ? '' : 's'}`;
+    }
+    return `${minPax}-${maxPax} travelers`;
+}
+
 /**
  * Generate departure instances for recurring patterns
  * @param tourDates - Tour dates configuration
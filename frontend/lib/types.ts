@@ -18,11 +18,22 @@ export interface Reply {
     replies?: Reply[]; // Support nested replies
 }
 
+export type ReviewAspect = 'guide' | 'value' | 'accommodation' | 'transport' | 'itinerary';
+export type ReviewAspectRatings = Partial<Record<ReviewAspect, number>>;
+
+export interface ReviewPhoto {
+    imageId: string;
+    url: string;
+}
+
 export interface Review {
     _id: string;
     rating: number;
+    aspectRatings?: ReviewAspectRatings;
     title: string;
     comment: string;
+    photos?: ReviewPhoto[];
+    verified?: boolean; // Reviewer completed a booking for the tour
     user?: User;
     name?: string; // For non-authenticated users
     status: 'pending' | 'approved' | 'rejected';
@@ -226,11 +237,23 @@ export interface Departure {
 }
 
 // Pricing Option types
+export interface CancellationTier {
+    daysBeforeDeparture: number;
+    refundPercentage: number;
+}
+
+export interface CancellationPolicy {
+    tiers: CancellationTier[];
+    description?: string;
+}
+
 export interface PricingOption {
     _id?: string;
     id?: string;
     name: string;
     price: number;
+    // ISO currency code; the tour's currency applies when not set
+    currency?: string;
     category: 'adult' | 'child' | 'senior' | 'student' | 'custom';
     customCategory?: string;
     minPax: number;
@@ -239,7 +262,9 @@ export interface PricingOption {
     discount?: {
         percentageOrPrice: boolean;
         discountPercentage?: number;
+        // Amount taken off the price for fixed discounts
         discountPrice?: number;
+        maxDiscountAmount?: number;
         discountDateRange?: {
             from: string;
             to: string;
@@ -247,6 +272,33 @@ export interface PricingOption {
     };
 }
 
+// Optional extra travelers can add to a booking
+export interface TourAddOn {
+    _id?: string;
+    name: string;
+    description?: string;
+    category: 'transportation' | 'accommodation' | 'activity' | 'meal' | 'equipment' | 'insurance' | 'guide' | 'other';
+    customCategory?: string;
+    // Price per unit, in the tour's currency
+    price: number;
+    isDiscounted?: boolean;
+    discountPrice?: number;
+    // Always included, at least once per booking
+    isRequired?: boolean;
+    maxQuantity: number;
+    image?: string;
+    isActive?: boolean;
+}
+
+// Price for a range of party sizes; maxPax is left out for open-ended tiers (e.g. 4+)
+export interface PaxTier {
+    minPax: number;
+    maxPax?: number;
+    price: number;
+    // False for a flat private-group price covering the whole party
+    pricePerPerson: boolean;
+}
+
 export interface PricingGroup {
     label: string;
     options: PricingOption[];
@@ -279,6 +331,8 @@ export interface Tour {
     description?: string;
     excerpt?: string;
     price: number;
+    // ISO currency code the tour is priced in
+    currency?: string;
     originalPrice?: number;
     coverImage: string;
     images?: string[];
@@ -304,6 +358,9 @@ export interface Tour {
     pricingOptionsEnabled?: boolean;
     pricingGroups?: PricingGroup[];
     pricingOptions?: PricingOption[];
+    paxTiers?: PaxTier[];
+    addOns?: TourAddOn[];
+    cancellationPolicy?: CancellationPolicy;
 
     // Content
     include?: string; // Rich text
@@ -330,9 +387,10 @@ export interface Tour {
         tripDuration?: string;
     };
 
-    // Reviews
-    reviews?: Review[];
+    // Reviews (the reviews themselves come from /tours/:id/reviews)
     averageRating?: number;
+    aspectRatings?: ReviewAspectRatings;
+    approvedReviewCount?: number;
     reviewCount?: number;
 
     // Other
@@ -12,6 +12,8 @@ import type {
     GalleryItem,
     Location,
     PricingOption,
+    AddOn,
+    PaxTier,
     Departure,
     TourDates,
     Pricing,
@@ -81,6 +83,34 @@ export const getDefaultPricingOption = (option?: Partial<PricingOption>): Pricin
     maxPax: option?.maxPax ?? 10,
 });
 
+/**
+ * Default add-on configuration
+ */
+export const getDefaultAddOn = (addOn?: Partial<AddOn>): AddOn => ({
+    _id: addOn?._id,
+    name: addOn?.name ?? '',
+    description: addOn?.description ?? '',
+    category: addOn?.category ?? 'other',
+    customCategory: addOn?.customCategory,
+    price: addOn?.price ?? 0,
+    isDiscounted: addOn?.isDiscounted ?? false,
+    discountPrice: addOn?.discountPrice,
+    isRequired: addOn?.isRequired ?? false,
+    maxQuantity: addOn?.maxQuantity ?? 1,
+    image: addOn?.image,
+    isActive: addOn?.isActive ?? true,
+});
+
+/**
+ * Default party-size price tier
+ */
+export const getDefaultPaxTier = (tier?: Partial<PaxTier>): PaxTier => ({
+    minPax: tier?.minPax ?? 1,
+    maxPax: tier?.maxPax,
+    price: tier?.price ?? 0,
+    pricePerPerson: tier?.pricePerPerson ?? true,
+});
+
 /**
  * Default pricing configuration
  */
@@ -234,6 +264,8 @@ export const defaultTourValues: Partial<TourFormData> = {
     gallery: [],
     location: getDefaultLocation(),
     pricing: getDefaultPricing(),
+    paxTiers: [],
+    addOns: [],
     dates: getDefaultTourDates(),
     // Legacy fields
     price: 0,
@@ -299,6 +331,16 @@ export const getTourWithDefaults = (values: Partial<TourFormData> = {}): TourFor
             ? values.faqs.map(faq => getDefaultFAQ(faq))
             : [],
 
+        // Process party-size tiers
+        paxTiers: Array.isArray(values.paxTiers)
+            ? values.paxTiers.map(tier => getDefaultPaxTier(tier))
+            : [],
+
+        // Process add-ons
+        addOns: Array.isArray(values.addOns)
+            ? values.addOns.map(addOn => getDefaultAddOn(addOn))
+            : [],
+
         // Process gallery
         gallery: Array.isArray(values.gallery)
             ? values.gallery.map(item => getDefaultGalleryItem(item))
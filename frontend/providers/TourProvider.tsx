@@ -8,6 +8,7 @@ import { createTour, getSingleTour, updateTour } from '@/lib/api/tours';
 import { toast } from '@/components/ui/use-toast';
 import { useBreadcrumbs } from './BreadcrumbsProvider';
 import makeId from '@/lib/utils/makeId';
+import type { AddOn, PaxTier } from '@/lib/schemas/tourEditor';
 
 /**
  * Tour Provider Context
@@ -27,8 +28,12 @@ export interface Tour {
     gallery: any[];
     category: any[];
     destination: any;
+    // ISO currency code the tour's prices are in
+    currency?: string;
     pricing: any;
     pricingOptions: any[];
+    paxTiers?: PaxTier[];
+    addOns?: AddOn[];
     dates: any;
     itinerary: any;
     include: any;
@@ -124,6 +129,8 @@ export function TourProvider({ children, defaultValues, isEditing = false }: Tou
                 maxSize: 10,
             },
             pricingOptions: [],
+            paxTiers: [],
+            addOns: [],
             facts: [],
             faqs: [],
             itinerary: [],
@@ -625,7 +632,7 @@ export function TourProvider({ children, defaultValues, isEditing = false }: Tou
         // Top-level fields to process
         const topLevelFields = [
             "title", "code", "excerpt", "description", "tourStatus", "coverImage",
-            "file", "outline-solid", "include", "exclude", "map", "destination", "gallery"
+            "file", "outline-solid", "include", "exclude", "map", "destination", "gallery", "currency"
         ];
 
         formData.append("id", tourId || "");
@@ -911,6 +918,18 @@ export function TourProvider({ children, defaultValues, isEditing = false }: Tou
             formData.append("pricingOptionsEnabled", String(true));
         }
 
+        // Party-size price tiers
+        if (Array.isArray(values.paxTiers) && shouldIncludeField('paxTiers', values.paxTiers, isCreating)) {
+            changedFieldCount++;
+            formData.append("paxTiers", JSON.stringify(values.paxTiers));
+        }
+
+        // Add-ons keep their _id so existing bookings still refer to them
+        if (Array.isArray(values.addOns) && shouldIncludeField('addOns', values.addOns, isCreating)) {
+            changedFieldCount++;
+            formData.append("addOns", JSON.stringify(values.addOns));
+        }
+
         // Handle boolean fields
         ['enquiry', 'features'].forEach(key => {
             if (values[key] !== undefined && shouldIncludeField(key, values[key], isCreating)) {
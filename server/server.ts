@@ -1,11 +1,15 @@
 import app from "./src/app";
 import { config } from "./src/config/config";
 import connectDB from "./src/config/db";
+import { startBackgroundJobs } from "./src/jobs";
 
 const startServer = async () => {
   // Connect database
   await connectDB();
 
+  // Seat hold sweeper and other scheduled work
+  startBackgroundJobs();
+
   const port = Number(config.port) || 4000;
 
   app.listen(port, () => {
@@ -8,6 +8,12 @@ import {
     forgotPassword,
     resetPassword
 } from '../user/userController';
+import {
+    verifyTwoFactorLogin,
+    startTwoFactorLoginSetup,
+    confirmTwoFactorLoginSetup
+} from '../user/userTwoFactorController';
+import { startOAuthSignIn, oauthCallback } from '../user/userOAuthController';
 
 const authRouter = express.Router();
 
@@ -87,7 +93,15 @@ authRouter.post(
  * /api/v1/auth/login:
  *   post:
  *     summary: User login
- *     description: Authenticate user with email and password, returns JWT token
+ *     description: |
+ *       Authenticate user with email and password and set the auth cookie.
+ *       Accounts with two-factor authentication get a challenge token instead of the cookie
+ *       (`twoFactorRequired`) and finish at `/auth/login/2fa`. Admins without two-factor
+ *       get `twoFactorSetupRequired` and have to set it up through `/auth/2fa/setup` first.
+ *
+ *       Unknown emails and wrong passwords both return 401. After a few failures for the same
+ *       email each retry has to wait longer, and too many failures lock sign-in for that email
+ *       for a while (429 with a Retry-After header); the account owner is notified.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -144,14 +158,34 @@ authRouter.post(
  *                   type: string
  *                   description: User email
  *                   example: "john@example.com"
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                   description: A code is needed to finish signing in
+ *                 twoFactorSetupRequired:
+ *                   type: boolean
+ *                   description: Two-factor has to be set up before signing in
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Short-lived token for the second step
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
- *         $ref: '#/components/responses/Unauthorized'
- *       404:
- *         $ref: '#/components/responses/NotFound'
+ *         description: Invalid email or password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       429:
- *         $ref: '#/components/responses/TooManyRequests'
+ *         description: Too many attempts from this IP, or sign-in for this email is backing off or locked
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until sign-in can be tried again
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 authRouter.post(
     '/login',
@@ -163,12 +197,153 @@ authRouter.post(
     loginUser
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Finish login with a two-factor code
+ *     description: |
+ *       Second login step for accounts with two-factor authentication. Takes a code from the
+ *       authenticator app or an unused recovery code and sets the auth cookie. The challenge
+ *       token from `/auth/login` expires after 5 minutes and works once.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: From the login response; after Google sign-in it comes from a cookie instead
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *               keepMeSignedIn:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Invalid code, or invalid or expired challenge token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts; wrong codes count towards the account's sign-in lockout
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+authRouter.post(
+    '/login/2fa',
+    authLimiter,
+    [body('code').notEmpty().withMessage('Authentication code is required')],
+    verifyTwoFactorLogin
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start required two-factor setup during login
+ *     description: |
+ *       For accounts that must use two-factor authentication but haven't set it up.
+ *       Returns a new secret, its otpauth link and a QR code to scan.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: From the login response; after Google sign-in it comes from a cookie instead
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorSetup'
+ *       400:
+ *         description: Invalid or expired challenge token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post(
+    '/2fa/setup',
+    authLimiter,
+    startTwoFactorLoginSetup
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup/verify:
+ *   post:
+ *     summary: Finish required two-factor setup and log in
+ *     description: |
+ *       Turns two-factor authentication on with a code from the new secret, sets the auth
+ *       cookie and returns the recovery codes. They are shown only this once.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: From the login response; after Google sign-in it comes from a cookie instead
+ *               code:
+ *                 type: string
+ *               keepMeSignedIn:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled and logged in
+ *       400:
+ *         description: Invalid code, or invalid or expired challenge token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post(
+    '/2fa/setup/verify',
+    authLimiter,
+    [body('code').notEmpty().withMessage('Authentication code is required')],
+    confirmTwoFactorLoginSetup
+);
+
 /**
  * @swagger
  * /api/v1/auth/verify-email:
  *   post:
  *     summary: Verify email
- *     description: Verify user email with verification token
+ *     description: |
+ *       Verify user email with the token from the verification email.
+ *       Tokens work once, for email verification only, and expire after an hour.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -190,7 +365,11 @@ authRouter.post(
  *             schema:
  *               $ref: '#/components/schemas/SuccessResponse'
  *       400:
- *         $ref: '#/components/responses/BadRequest'
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       429:
  *         $ref: '#/components/responses/TooManyRequests'
  */
@@ -206,7 +385,9 @@ authRouter.post(
  * /api/v1/auth/forgot-password:
  *   post:
  *     summary: Forgot password
- *     description: Request password reset email
+ *     description: |
+ *       Request password reset email. The link is valid for an hour and
+ *       replaces any reset link sent before it.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -246,7 +427,9 @@ authRouter.post(
  * /api/v1/auth/reset-password:
  *   post:
  *     summary: Reset password
- *     description: Reset user password with reset token
+ *     description: |
+ *       Reset user password with the token from the reset email. The token works once;
+ *       the new password revokes every other reset link and signs out all existing sessions.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -273,7 +456,11 @@ authRouter.post(
  *             schema:
  *               $ref: '#/components/schemas/SuccessResponse'
  *       400:
- *         $ref: '#/components/responses/BadRequest'
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       429:
@@ -289,4 +476,66 @@ authRouter.post(
     resetPassword
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/oauth/{provider}:
+ *   get:
+ *     summary: Sign in with an outside provider
+ *     description: |
+ *       Redirects the browser to the provider's sign-in page (OpenID Connect authorization-code
+ *       flow with PKCE). Only `google` is available. The provider returns to the callback below.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google]
+ *       - in: query
+ *         name: keepMeSignedIn
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       302:
+ *         description: |
+ *           Redirect to the provider, or back to the frontend login page with `oauthError`
+ *           when the provider is unknown or not configured
+ */
+authRouter.get('/oauth/:provider', authLimiter, startOAuthSignIn);
+
+/**
+ * @swagger
+ * /api/v1/auth/oauth/{provider}/callback:
+ *   get:
+ *     summary: Provider sign-in callback
+ *     description: |
+ *       Checks the state and the provider's ID token, then signs in the user with this identity.
+ *       An unknown identity is linked to the account with the same verified email, or a new
+ *       account is created. Ends on the frontend login page:
+ *       `oauth=<provider>` when the auth cookie was set, `twoFactor` when a two-factor step is
+ *       needed (the challenge token is then set in a short-lived httpOnly cookie), or
+ *       `oauthError` with the reason sign-in failed.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the frontend login page
+ */
+authRouter.get('/oauth/:provider/callback', authLimiter, oauthCallback);
+
 export default authRouter;
@@ -0,0 +1,58 @@
+import mongoose, { Document } from 'mongoose';
+
+// What a one-time token may be used for; a token only works for its own purpose.
+// The two-factor purposes carry a sign-in from the password step to the code step.
+export type OneTimeTokenPurpose = 'email-verification' | 'password-reset' | 'two-factor-login' | 'two-factor-setup';
+
+export interface OneTimeToken extends Document {
+    user: mongoose.Types.ObjectId;
+    purpose: OneTimeTokenPurpose;
+    // SHA-256 of the token sent to the user; the token itself is never stored
+    tokenHash: string;
+    expiresAt: Date;
+    // Set when the token is used or revoked
+    consumedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Why a session stopped being valid
+export type SessionRevokeReason = 'logout' | 'revoked' | 'password-change' | 'role-change';
+
+// A signed-in browser or device; its id is carried in the auth token as `sid`
+export interface Session extends Document {
+    user: mongoose.Types.ObjectId;
+    userAgent?: string;
+    // Readable summary of the user agent, e.g. "Chrome on Windows"
+    device?: string;
+    ip?: string;
+    keepMeSignedIn: boolean;
+    lastSeenAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: SessionRevokeReason;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Where a request came from
+export interface SessionClient {
+    userAgent?: string;
+    ip?: string;
+}
+
+// Failed sign-ins for one email address, whether or not an account uses it
+export interface LoginAttempt extends Document {
+    email: string;
+    // Failures since the last lockout or successful sign-in
+    failedCount: number;
+    lastFailedAt: Date;
+    lastIp?: string;
+    lastDevice?: string;
+    lockedUntil?: Date;
+    // Lockouts so far; each one lasts twice as long as the one before
+    lockouts: number;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -0,0 +1,39 @@
+import mongoose, { Schema } from 'mongoose';
+import { LoginAttempt } from './authTypes';
+
+const loginAttemptSchema = new Schema<LoginAttempt>(
+    {
+        email: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        failedCount: {
+            type: Number,
+            default: 0,
+        },
+        lastFailedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        lastIp: String,
+        lastDevice: String,
+        lockedUntil: Date,
+        lockouts: {
+            type: Number,
+            default: 0,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    { timestamps: true }
+);
+
+// MongoDB forgets failed attempts once they are old enough
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginAttemptModel = mongoose.model<LoginAttempt>('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttemptModel;
@@ -0,0 +1,36 @@
+import mongoose, { Schema } from 'mongoose';
+import { OneTimeToken } from './authTypes';
+
+const oneTimeTokenSchema = new Schema<OneTimeToken>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        purpose: {
+            type: String,
+            enum: ['email-verification', 'password-reset', 'two-factor-login', 'two-factor-setup'],
+            required: true,
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        consumedAt: Date,
+    },
+    { timestamps: true }
+);
+
+oneTimeTokenSchema.index({ user: 1, purpose: 1, consumedAt: 1 });
+// MongoDB removes tokens once they have expired
+oneTimeTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OneTimeTokenModel = mongoose.model<OneTimeToken>('OneTimeToken', oneTimeTokenSchema);
+
+export default OneTimeTokenModel;
@@ -0,0 +1,38 @@
+import createHttpError from 'http-errors';
+import { config } from '../../../config/config';
+import { IdentityProvider } from './identityProvider';
+import { OidcProvider } from './oidcProvider';
+
+export * from './identityProvider';
+export { OidcProvider };
+
+// Providers keep their discovery document and keys, so each is created once
+const providers = new Map<string, IdentityProvider>();
+
+/**
+ * Where the provider sends the browser back to after sign-in
+ */
+export const getCallbackUrl = (name: string): string =>
+    `${config.baseUrl || `http://localhost:${config.port}`}/api/v1/auth/oauth/${name}/callback`;
+
+/**
+ * Resolve the sign-in provider by name, e.g. "google"
+ */
+export const getIdentityProvider = (name: string): IdentityProvider => {
+    const existing = providers.get(name);
+    if (existing) {
+        return existing;
+    }
+
+    if (name === 'google') {
+        const { issuer, clientId, clientSecret, redirectUri } = config.socialLogin.google;
+        if (!clientId) {
+            throw createHttpError(503, 'Google sign-in is not configured');
+        }
+        const provider = new OidcProvider('google', issuer, clientId, clientSecret, redirectUri || getCallbackUrl('google'));
+        providers.set(name, provider);
+        return provider;
+    }
+
+    throw createHttpError(404, `Unknown sign-in provider: ${name}`);
+};
@@ -0,0 +1,141 @@
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import createHttpError from 'http-errors';
+import { decode, verify, JwtPayload } from 'jsonwebtoken';
+import { AuthorizationRequest, CodeExchange, IdentityClaims, IdentityProvider } from './identityProvider';
+
+interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+// Signing keys published at the issuer's jwks_uri
+interface JsonWebKeySet {
+    keys?: Array<JsonWebKey & { kid?: string; use?: string }>;
+}
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        throw new Error(`${url} responded with ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+};
+
+/**
+ * OpenID Connect provider using the authorization-code flow with PKCE
+ * Endpoints and signing keys come from the issuer's discovery document, so
+ * any compliant issuer works - Google in production, a fake one in tests.
+ */
+export class OidcProvider implements IdentityProvider {
+    private discovery?: Promise<DiscoveryDocument>;
+    private signingKeys = new Map<string, KeyObject>();
+
+    constructor(
+        readonly name: string,
+        private issuer: string,
+        private clientId: string,
+        private clientSecret: string | undefined,
+        private redirectUri: string,
+        private scope: string = 'openid email profile'
+    ) { }
+
+    private getDiscovery(): Promise<DiscoveryDocument> {
+        if (!this.discovery) {
+            const url = `${this.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+            this.discovery = fetchJson<DiscoveryDocument>(url).catch((error) => {
+                // Try again on the next sign-in rather than caching the failure
+                this.discovery = undefined;
+                throw error;
+            });
+        }
+        return this.discovery;
+    }
+
+    // Signing key for an ID token; the key set is fetched again when the provider rotates keys
+    private async getSigningKey(keyId?: string): Promise<KeyObject> {
+        const cached = keyId && this.signingKeys.get(keyId);
+        if (cached) {
+            return cached;
+        }
+
+        const { jwks_uri } = await this.getDiscovery();
+        const { keys = [] } = await fetchJson<JsonWebKeySet>(jwks_uri);
+        this.signingKeys.clear();
+        for (const jwk of keys) {
+            if (jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+                this.signingKeys.set(jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' }));
+            }
+        }
+
+        const key = this.signingKeys.get(keyId || '') || (!keyId && this.signingKeys.size === 1 ? [...this.signingKeys.values()][0] : undefined);
+        if (!key) {
+            throw createHttpError(401, `Sign-in with ${this.name} failed`);
+        }
+        return key;
+    }
+
+    async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+        const { authorization_endpoint } = await this.getDiscovery();
+        const params = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.clientId,
+            redirect_uri: this.redirectUri,
+            scope: this.scope,
+            state: request.state,
+            nonce: request.nonce,
+            code_challenge: request.codeChallenge,
+            code_challenge_method: 'S256',
+        });
+        return `${authorization_endpoint}?${params.toString()}`;
+    }
+
+    async exchangeCode(exchange: CodeExchange): Promise<IdentityClaims> {
+        const discovery = await this.getDiscovery();
+        const response = await fetch(discovery.token_endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'authorization_code',
+                code: exchange.code,
+                redirect_uri: this.redirectUri,
+                client_id: this.clientId,
+                code_verifier: exchange.codeVerifier,
+                ...(this.clientSecret && { client_secret: this.clientSecret }),
+            }),
+        });
+
+        const body: any = await response.json().catch(() => ({}));
+        if (!response.ok || !body.id_token) {
+            throw createHttpError(401, `Sign-in with ${this.name} failed`);
+        }
+
+        const header = decode(body.id_token, { complete: true })?.header;
+        const key = await this.getSigningKey(header?.kid);
+
+        let claims: JwtPayload;
+        try {
+            claims = verify(body.id_token, key, {
+                algorithms: ['RS256'],
+                audience: this.clientId,
+                issuer: discovery.issuer,
+            }) as JwtPayload;
+        } catch {
+            throw createHttpError(401, `Sign-in with ${this.name} failed`);
+        }
+
+        if (!claims.sub || claims.nonce !== exchange.nonce) {
+            throw createHttpError(401, `Sign-in with ${this.name} failed`);
+        }
+
+        return {
+            subject: claims.sub,
+            email: claims.email ? String(claims.email).toLowerCase() : undefined,
+            // Some issuers send the flag as a string
+            emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+            name: claims.name,
+            picture: claims.picture,
+        };
+    }
+}
@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import LoginAttemptModel from '../loginAttemptModel';
+import Notification from '../../notifications/notificationModel';
+import { SessionClient } from '../authTypes';
+import { describeDevice } from './sessionService';
+import { config } from '../../../config/config';
+import { metricsCollector } from '../../../utils/metrics';
+import { logger } from '../../../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+
+// Why sign-in is refused for now, and for how long
+export interface LoginBlock {
+    locked: boolean;
+    retryAfterSeconds: number;
+}
+
+const normalizeEmail = (email: string) => String(email || '').trim().toLowerCase();
+
+// j***@example.com - enough to tell accounts apart in the metrics without logging the address
+const maskEmail = (email: string) => {
+    const [name, domain] = email.split('@');
+    return `${name.slice(0, 1)}***@${domain || ''}`;
+};
+
+/**
+ * Login Protection Service
+ * Tracks failed sign-ins per email address, for accounts that exist and ones
+ * that don't, so the responses never tell the two apart. After a few failures
+ * each retry has to wait longer; after maxFailedAttempts the address is locked.
+ */
+export class LoginProtectionService {
+    private static instance: LoginProtectionService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): LoginProtectionService {
+        if (!LoginProtectionService.instance) {
+            LoginProtectionService.instance = new LoginProtectionService();
+        }
+        return LoginProtectionService.instance;
+    }
+
+    // Wait required after this many failures: doubles with every failure past the threshold
+    private backoffSeconds(failedCount: number): number {
+        const { backoffAfterAttempts, backoffBaseSeconds } = config.loginProtection;
+        if (failedCount < backoffAfterAttempts) {
+            return 0;
+        }
+        return backoffBaseSeconds * 2 ** (failedCount - backoffAfterAttempts);
+    }
+
+    private lockoutMinutes(lockouts: number): number {
+        const { lockoutMinutes, maxLockoutMinutes } = config.loginProtection;
+        return Math.min(lockoutMinutes * 2 ** Math.max(0, lockouts - 1), maxLockoutMinutes);
+    }
+
+    /**
+     * Whether sign-in for this email has to wait
+     */
+    async getBlock(email: string): Promise<LoginBlock | null> {
+        const attempt = await LoginAttemptModel.findOne({ email: normalizeEmail(email) }).lean();
+        if (!attempt) {
+            return null;
+        }
+
+        const now = Date.now();
+        if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+            return { locked: true, retryAfterSeconds: Math.ceil((attempt.lockedUntil.getTime() - now) / 1000) };
+        }
+
+        const nextAttemptAt = attempt.lastFailedAt.getTime() + this.backoffSeconds(attempt.failedCount) * 1000;
+        if (nextAttemptAt > now) {
+            return { locked: false, retryAfterSeconds: Math.ceil((nextAttemptAt - now) / 1000) };
+        }
+        return null;
+    }
+
+    /**
+     * Count a failed sign-in, locking the email once it has failed too often
+     * @param userId - The account using this email, if any; it is told about the lockout
+     */
+    async recordFailure(email: string, client: SessionClient, userId?: mongoose.Types.ObjectId): Promise<void> {
+        const { maxFailedAttempts, attemptWindowMinutes } = config.loginProtection;
+        const normalizedEmail = normalizeEmail(email);
+        const now = new Date();
+
+        // Attempts past the window are forgotten even if MongoDB hasn't removed them yet
+        await LoginAttemptModel.deleteOne({ email: normalizedEmail, expiresAt: { $lte: now } });
+
+        const attempt = await LoginAttemptModel.findOneAndUpdate(
+            { email: normalizedEmail },
+            {
+                $inc: { failedCount: 1 },
+                $set: {
+                    lastFailedAt: now,
+                    lastIp: client.ip,
+                    lastDevice: describeDevice(client.userAgent),
+                    expiresAt: new Date(now.getTime() + attemptWindowMinutes * MINUTE_MS),
+                },
+            },
+            { new: true, upsert: true }
+        );
+
+        if (attempt.failedCount < maxFailedAttempts) {
+            return;
+        }
+
+        // Only the request that crosses the limit starts the lockout
+        const lockoutMinutes = this.lockoutMinutes(attempt.lockouts + 1);
+        const lockedUntil = new Date(now.getTime() + lockoutMinutes * MINUTE_MS);
+        const locked = await LoginAttemptModel.findOneAndUpdate(
+            { _id: attempt._id, failedCount: { $gte: maxFailedAttempts } },
+            {
+                $set: {
+                    failedCount: 0,
+                    lockedUntil,
+                    expiresAt: new Date(lockedUntil.getTime() + attemptWindowMinutes * MINUTE_MS),
+                },
+                $inc: { lockouts: 1 },
+            }
+        );
+        if (!locked) {
+            return;
+        }
+
+        metricsCollector.recordAccountLockout({
+            account: maskEmail(normalizedEmail),
+            userId: userId?.toString(),
+            clientIp: client.ip || 'unknown',
+            timestamp: now.toISOString(),
+            failedAttempts: attempt.failedCount,
+            lockoutMinutes,
+        });
+
+        if (userId) {
+            await this.notify(
+                userId,
+                'Sign-in Temporarily Locked',
+                `After ${attempt.failedCount} failed sign-in attempts, the latest from ${attempt.lastDevice} (${client.ip || 'unknown IP'}), ` +
+                `sign-in to your account is paused for ${lockoutMinutes} minutes. If this wasn't you, consider changing your password.`
+            );
+        }
+    }
+
+    /**
+     * Clear the failures after a successful sign-in, telling the user if it followed suspicious ones
+     */
+    async recordSuccess(email: string, client: SessionClient, userId: mongoose.Types.ObjectId): Promise<void> {
+        const attempt = await LoginAttemptModel.findOneAndDelete({ email: normalizeEmail(email) }).lean();
+        if (!attempt) {
+            return;
+        }
+
+        if (attempt.lockouts > 0 || attempt.failedCount >= config.loginProtection.backoffAfterAttempts) {
+            await this.notify(
+                userId,
+                'New Sign-in After Failed Attempts',
+                `Your account was signed in from ${describeDevice(client.userAgent)} (${client.ip || 'unknown IP'}) ` +
+                `after repeated failed attempts. If this wasn't you, change your password and sign out your other sessions.`
+            );
+        }
+    }
+
+    /**
+     * Security notification for the account owner (best effort)
+     */
+    private async notify(userId: mongoose.Types.ObjectId, title: string, message: string) {
+        try {
+            await Notification.create({
+                recipient: userId,
+                type: 'security_alert',
+                title,
+                message,
+            });
+        } catch (error: any) {
+            logger.warn('Could not create security notification', { error: error.message });
+        }
+    }
+
+    // Static accessors used by the controllers
+    static async getBlock(email: string) {
+        return LoginProtectionService.getInstance().getBlock(email);
+    }
+
+    static async recordFailure(email: string, client: SessionClient, userId?: mongoose.Types.ObjectId) {
+        return LoginProtectionService.getInstance().recordFailure(email, client, userId);
+    }
+
+    static async recordSuccess(email: string, client: SessionClient, userId: mongoose.Types.ObjectId) {
+        return LoginProtectionService.getInstance().recordSuccess(email, client, userId);
+    }
+}
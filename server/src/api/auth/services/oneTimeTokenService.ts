@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import OneTimeTokenModel from '../oneTimeTokenModel';
+import { OneTimeToken, OneTimeTokenPurpose } from '../authTypes';
+
+// How long a token stays usable after it is issued
+const TOKEN_TTL_MINUTES: Record<OneTimeTokenPurpose, number> = {
+    'email-verification': 60,
+    'password-reset': 60,
+    'two-factor-login': 5,
+    'two-factor-setup': 15,
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * One-Time Token Service
+ * Single-use, purpose-scoped tokens for the links in verification and
+ * password reset emails and for two-factor sign-in. Only a hash of each token is stored.
+ */
+export class OneTimeTokenService {
+    private static instance: OneTimeTokenService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): OneTimeTokenService {
+        if (!OneTimeTokenService.instance) {
+            OneTimeTokenService.instance = new OneTimeTokenService();
+        }
+        return OneTimeTokenService.instance;
+    }
+
+    /**
+     * Issue a token for a user, revoking any earlier one for the same purpose
+     * so only the most recent link works. Returns the raw token to send.
+     */
+    async issue(userId: string | mongoose.Types.ObjectId, purpose: OneTimeTokenPurpose): Promise<string> {
+        await this.revokeAll(userId, purpose);
+
+        const token = crypto.randomBytes(32).toString('base64url');
+        await OneTimeTokenModel.create({
+            user: userId,
+            purpose,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000),
+        });
+
+        return token;
+    }
+
+    /**
+     * Look up a usable token without using it up
+     */
+    async find(token: string, purpose: OneTimeTokenPurpose): Promise<OneTimeToken> {
+        const found = await OneTimeTokenModel.findOne({
+            tokenHash: hashToken(String(token)),
+            purpose,
+            consumedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        });
+
+        if (!found) {
+            throw createHttpError(400, 'Invalid or expired token');
+        }
+        return found;
+    }
+
+    /**
+     * Use up a token, returning it with the user it was issued to
+     * Fails for unknown, expired, already used and other-purpose tokens alike.
+     */
+    async consume(token: string, purpose: OneTimeTokenPurpose): Promise<OneTimeToken> {
+        const consumed = await OneTimeTokenModel.findOneAndUpdate(
+            {
+                tokenHash: hashToken(String(token)),
+                purpose,
+                consumedAt: { $exists: false },
+                expiresAt: { $gt: new Date() },
+            },
+            { $set: { consumedAt: new Date() } },
+            { new: true }
+        );
+
+        if (!consumed) {
+            throw createHttpError(400, 'Invalid or expired token');
+        }
+        return consumed;
+    }
+
+    /**
+     * Revoke every outstanding token a user has for a purpose
+     */
+    async revokeAll(userId: string | mongoose.Types.ObjectId, purpose: OneTimeTokenPurpose): Promise<void> {
+        await OneTimeTokenModel.updateMany(
+            { user: userId, purpose, consumedAt: { $exists: false } },
+            { $set: { consumedAt: new Date() } }
+        );
+    }
+
+    // Static accessors used by the controllers
+    static async issue(userId: string | mongoose.Types.ObjectId, purpose: OneTimeTokenPurpose) {
+        return OneTimeTokenService.getInstance().issue(userId, purpose);
+    }
+
+    static async find(token: string, purpose: OneTimeTokenPurpose) {
+        return OneTimeTokenService.getInstance().find(token, purpose);
+    }
+
+    static async consume(token: string, purpose: OneTimeTokenPurpose) {
+        return OneTimeTokenService.getInstance().consume(token, purpose);
+    }
+
+    static async revokeAll(userId: string | mongoose.Types.ObjectId, purpose: OneTimeTokenPurpose) {
+        return OneTimeTokenService.getInstance().revokeAll(userId, purpose);
+    }
+}
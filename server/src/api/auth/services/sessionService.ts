@@ -0,0 +1,205 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import SessionModel from '../sessionModel';
+import { Session, SessionClient, SessionRevokeReason } from '../authTypes';
+import { COOKIE_DURATIONS } from '../../../utils/cookieUtils';
+import { getClientIp } from '../../../utils/apiResponse';
+
+// Expired auth tokens can still be refreshed for a few minutes, so sessions outlive them by as much
+const EXPIRY_GRACE_MS = 5 * 60 * 1000;
+// lastSeenAt is only written once a minute per session
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+const BROWSERS: Array<[RegExp, string]> = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux'],
+];
+
+/**
+ * Readable device name from a user agent, e.g. "Firefox on Linux"
+ */
+export const describeDevice = (userAgent?: string): string => {
+    if (!userAgent) {
+        return 'Unknown device';
+    }
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || 'Unknown device';
+};
+
+export const getSessionClient = (req: Request): SessionClient => ({
+    userAgent: req.get('user-agent'),
+    ip: getClientIp(req),
+});
+
+const sessionDuration = (keepMeSignedIn: boolean) =>
+    keepMeSignedIn ? COOKIE_DURATIONS.LONG_SESSION : COOKIE_DURATIONS.SHORT_SESSION;
+
+/**
+ * Session Service
+ * Server-side record of every sign-in. Auth tokens name their session, and
+ * a token stops working as soon as its session is revoked.
+ */
+export class SessionService {
+    private static instance: SessionService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): SessionService {
+        if (!SessionService.instance) {
+            SessionService.instance = new SessionService();
+        }
+        return SessionService.instance;
+    }
+
+    /**
+     * Start a session for a user signing in
+     */
+    async create(userId: string | mongoose.Types.ObjectId, client: SessionClient, keepMeSignedIn: boolean): Promise<Session> {
+        return SessionModel.create({
+            user: userId,
+            userAgent: client.userAgent,
+            device: describeDevice(client.userAgent),
+            ip: client.ip,
+            keepMeSignedIn,
+            lastSeenAt: new Date(),
+            expiresAt: new Date(Date.now() + sessionDuration(keepMeSignedIn) + EXPIRY_GRACE_MS),
+        });
+    }
+
+    /**
+     * The user's session, unless it has been revoked or has expired
+     */
+    async findActive(sessionId: string, userId: string): Promise<Session | null> {
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+            return null;
+        }
+        return SessionModel.findOne({
+            _id: sessionId,
+            user: userId,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        });
+    }
+
+    /**
+     * Record activity on a session, extending it when its token is re-issued
+     */
+    async touch(session: Session, client: SessionClient, extended: boolean): Promise<void> {
+        const now = Date.now();
+        if (!extended && now - session.lastSeenAt.getTime() < LAST_SEEN_INTERVAL_MS) {
+            return;
+        }
+
+        const update: Record<string, unknown> = { lastSeenAt: new Date(now) };
+        if (client.ip) {
+            update.ip = client.ip;
+        }
+        if (extended) {
+            update.expiresAt = new Date(now + sessionDuration(session.keepMeSignedIn) + EXPIRY_GRACE_MS);
+        }
+        await SessionModel.updateOne({ _id: session._id }, { $set: update });
+    }
+
+    /**
+     * Push a session's expiry out to a full session length, for a re-issued token
+     */
+    async extend(sessionId: string, keepMeSignedIn: boolean): Promise<void> {
+        const now = Date.now();
+        await SessionModel.updateOne(
+            { _id: sessionId, revokedAt: { $exists: false } },
+            { $set: { lastSeenAt: new Date(now), expiresAt: new Date(now + sessionDuration(keepMeSignedIn) + EXPIRY_GRACE_MS) } }
+        );
+    }
+
+    /**
+     * The user's active sessions, most recently used first
+     */
+    async listActive(userId: string) {
+        return SessionModel.find({
+            user: userId,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        })
+            .sort({ lastSeenAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Revoke one of the user's sessions
+     */
+    async revoke(userId: string, sessionId: string, reason: SessionRevokeReason = 'revoked'): Promise<void> {
+        const result = mongoose.Types.ObjectId.isValid(sessionId)
+            ? await SessionModel.updateOne(
+                { _id: sessionId, user: userId, revokedAt: { $exists: false } },
+                { $set: { revokedAt: new Date(), revokedReason: reason } }
+            )
+            : { matchedCount: 0 };
+
+        if (result.matchedCount === 0) {
+            throw createHttpError(404, 'Session not found');
+        }
+    }
+
+    /**
+     * Revoke all of a user's sessions, optionally keeping the one making the request
+     * @returns How many sessions were revoked
+     */
+    async revokeAll(
+        userId: string | mongoose.Types.ObjectId,
+        reason: SessionRevokeReason,
+        exceptSessionId?: string
+    ): Promise<number> {
+        const filter: Record<string, unknown> = { user: userId, revokedAt: { $exists: false } };
+        if (exceptSessionId) {
+            filter._id = { $ne: exceptSessionId };
+        }
+
+        const result = await SessionModel.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+        return result.modifiedCount;
+    }
+
+    // Static accessors used by the controllers and the authenticate middleware
+    static async create(userId: string | mongoose.Types.ObjectId, client: SessionClient, keepMeSignedIn: boolean) {
+        return SessionService.getInstance().create(userId, client, keepMeSignedIn);
+    }
+
+    static async findActive(sessionId: string, userId: string) {
+        return SessionService.getInstance().findActive(sessionId, userId);
+    }
+
+    static async touch(session: Session, client: SessionClient, extended: boolean) {
+        return SessionService.getInstance().touch(session, client, extended);
+    }
+
+    static async extend(sessionId: string, keepMeSignedIn: boolean) {
+        return SessionService.getInstance().extend(sessionId, keepMeSignedIn);
+    }
+
+    static async listActive(userId: string) {
+        return SessionService.getInstance().listActive(userId);
+    }
+
+    static async revoke(userId: string, sessionId: string, reason?: SessionRevokeReason) {
+        return SessionService.getInstance().revoke(userId, sessionId, reason);
+    }
+
+    static async revokeAll(userId: string | mongoose.Types.ObjectId, reason: SessionRevokeReason, exceptSessionId?: string) {
+        return SessionService.getInstance().revokeAll(userId, reason, exceptSessionId);
+    }
+}
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import createHttpError from 'http-errors';
+import userModel from '../../user/userModel';
+import { IdentityClaims } from '../providers';
+import { SessionService } from './sessionService';
+import { OneTimeTokenService } from './oneTimeTokenService';
+import { logger } from '../../../utils/logger';
+
+// Password nobody knows, for accounts that sign in through a provider;
+// the owner can set a real one through password reset
+const randomPasswordHash = () => bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+/**
+ * Social Login Service
+ * Finds the user behind an outside sign-in. A known identity signs in its
+ * user; otherwise the provider-verified email links to the account using it,
+ * or a new account is created for it.
+ */
+export class SocialLoginService {
+    private static instance: SocialLoginService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): SocialLoginService {
+        if (!SocialLoginService.instance) {
+            SocialLoginService.instance = new SocialLoginService();
+        }
+        return SocialLoginService.instance;
+    }
+
+    async findOrCreateUser(provider: string, claims: IdentityClaims) {
+        const linked = await userModel.findOne({
+            identities: { $elemMatch: { provider, subject: claims.subject } },
+        });
+        if (linked) {
+            return linked;
+        }
+
+        // Linking by email is only safe when the provider vouches for the address
+        if (!claims.email || !claims.emailVerified) {
+            throw createHttpError(403, 'Your account email address has not been verified with the provider');
+        }
+
+        const identity = { provider, subject: claims.subject, email: claims.email, linkedAt: new Date() };
+
+        // A verified account already belongs to whoever owns the email
+        const verified = await userModel.findOneAndUpdate(
+            { email: claims.email, verified: true, 'identities.provider': { $ne: provider } },
+            { $push: { identities: identity } },
+            { new: true }
+        );
+        if (verified) {
+            logger.info('Linked sign-in identity to existing user', { provider, userId: verified._id.toString() });
+            return verified;
+        }
+
+        // Anyone could have registered an unverified account with this email, so
+        // whatever they set up stops working: the password is replaced, two-factor
+        // is turned off and every session and emailed link is revoked
+        const unverified = await userModel.findOneAndUpdate(
+            { email: claims.email, verified: { $ne: true }, 'identities.provider': { $ne: provider } },
+            {
+                $push: { identities: identity },
+                $set: {
+                    verified: true,
+                    password: await randomPasswordHash(),
+                    twoFactor: { enabled: false },
+                },
+            },
+            { new: true }
+        );
+        if (unverified) {
+            await SessionService.revokeAll(unverified._id, 'password-change');
+            await OneTimeTokenService.revokeAll(unverified._id, 'email-verification');
+            await OneTimeTokenService.revokeAll(unverified._id, 'password-reset');
+            logger.info('Linked sign-in identity to unverified user and reset its credentials', {
+                provider,
+                userId: unverified._id.toString(),
+            });
+            return unverified;
+        }
+        if (await userModel.exists({ email: claims.email })) {
+            throw createHttpError(409, 'This email is already linked to a different account with this provider');
+        }
+
+        const user = await userModel.create({
+            name: claims.name || claims.email.split('@')[0],
+            email: claims.email,
+            password: await randomPasswordHash(),
+            avatar: claims.picture,
+            verified: true,
+            identities: [identity],
+        });
+        logger.info('Created user from sign-in identity', { provider, userId: user._id.toString() });
+        return user;
+    }
+
+    // Static accessors used by the controllers
+    static async findOrCreateUser(provider: string, claims: IdentityClaims) {
+        return SocialLoginService.getInstance().findOrCreateUser(provider, claims);
+    }
+}
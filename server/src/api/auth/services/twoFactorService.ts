@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import QRCode from 'qrcode';
+import userModel from '../../user/userModel';
+import { config } from '../../../config/config';
+import { encrypt, decrypt } from '../../../utils/encryption';
+import { generateTotpSecret, getTotpUri, verifyTotp } from '../../../utils/totp';
+import { OneTimeTokenService } from './oneTimeTokenService';
+
+// Roles that can't sign in without two-factor authentication
+const REQUIRED_FOR_ROLES = ['admin'];
+const RECOVERY_CODE_COUNT = 10;
+
+const hashCode = (code: string) =>
+    crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+// Ten random characters shown as xxxxx-xxxxx
+const generateRecoveryCode = () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+type UserId = string | mongoose.Types.ObjectId;
+
+export interface TwoFactorEnrollment {
+    secret: string;
+    otpauthUrl: string;
+    // PNG data URL of the otpauth link, for authenticator apps to scan
+    qrCode: string;
+}
+
+// Sign-in waiting for a code, or for two-factor to be set up
+export interface TwoFactorLoginChallenge {
+    twoFactorRequired: boolean;
+    twoFactorSetupRequired: boolean;
+    challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+/**
+ * Two-Factor Service
+ * TOTP enrollment, verification and recovery codes. Secrets are stored
+ * encrypted and recovery codes hashed; both are excluded from user queries.
+ */
+export class TwoFactorService {
+    private static instance: TwoFactorService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): TwoFactorService {
+        if (!TwoFactorService.instance) {
+            TwoFactorService.instance = new TwoFactorService();
+        }
+        return TwoFactorService.instance;
+    }
+
+    /**
+     * Whether the user's role requires two-factor authentication
+     */
+    isRequired(user: { roles?: string | string[] }): boolean {
+        const roles = Array.isArray(user.roles) ? user.roles : [user.roles];
+        return roles.some(role => !!role && REQUIRED_FOR_ROLES.includes(role));
+    }
+
+    /**
+     * Challenge for the second sign-in step, or null when the user can sign in straight away
+     * Two-factor accounts need a code; required roles without two-factor have to set it up.
+     */
+    async createLoginChallenge(user: {
+        _id: mongoose.Types.ObjectId;
+        roles?: string | string[];
+        twoFactor?: { enabled?: boolean };
+    }): Promise<TwoFactorLoginChallenge | null> {
+        const twoFactorEnabled = user.twoFactor?.enabled === true;
+        if (!twoFactorEnabled && !this.isRequired(user)) {
+            return null;
+        }
+
+        const challengeToken = await OneTimeTokenService.issue(
+            user._id,
+            twoFactorEnabled ? 'two-factor-login' : 'two-factor-setup'
+        );
+        return { twoFactorRequired: twoFactorEnabled, twoFactorSetupRequired: !twoFactorEnabled, challengeToken };
+    }
+
+    private async loadUser(userId: UserId, secrets = '') {
+        const user = await userModel.findById(userId).select(secrets);
+        if (!user) {
+            throw createHttpError(404, 'User not found');
+        }
+        return user;
+    }
+
+    async getStatus(userId: UserId): Promise<TwoFactorStatus> {
+        const user = await this.loadUser(userId, '+twoFactor.recoveryCodes');
+        return {
+            enabled: user.twoFactor?.enabled === true,
+            required: this.isRequired(user),
+            recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length || 0,
+        };
+    }
+
+    /**
+     * Start enrolling: create a secret that becomes active once a code from it is confirmed
+     */
+    async startEnrollment(userId: UserId): Promise<TwoFactorEnrollment> {
+        const user = await this.loadUser(userId);
+        if (user.twoFactor?.enabled) {
+            throw createHttpError(409, 'Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await userModel.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': encrypt(secret) } });
+
+        const otpauthUrl = getTotpUri(secret, user.email, config.twoFactor.issuer);
+        return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+    }
+
+    /**
+     * Finish enrolling with a code from the new secret
+     * @returns The recovery codes, shown to the user only this once
+     */
+    async confirmEnrollment(userId: UserId, code: string): Promise<string[]> {
+        const user = await this.loadUser(userId, '+twoFactor.pendingSecret');
+        if (user.twoFactor?.enabled) {
+            throw createHttpError(409, 'Two-factor authentication is already enabled');
+        }
+
+        const pendingSecret = user.twoFactor?.pendingSecret;
+        if (!pendingSecret) {
+            throw createHttpError(400, 'Start two-factor setup first');
+        }
+        const step = verifyTotp(decrypt(pendingSecret), code);
+        if (step === null) {
+            throw createHttpError(400, 'Invalid authentication code');
+        }
+
+        const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        await userModel.updateOne(
+            { _id: user._id },
+            {
+                $set: {
+                    'twoFactor.enabled': true,
+                    'twoFactor.secret': pendingSecret,
+                    'twoFactor.recoveryCodes': recoveryCodes.map(hashCode),
+                    'twoFactor.lastUsedStep': step,
+                    'twoFactor.enabledAt': new Date(),
+                },
+                $unset: { 'twoFactor.pendingSecret': 1 },
+            }
+        );
+        return recoveryCodes;
+    }
+
+    /**
+     * Check an authenticator code, or a recovery code, which is used up
+     * Throws 400 when neither matches.
+     */
+    async verify(userId: UserId, code: string): Promise<void> {
+        const user = await this.loadUser(userId, '+twoFactor.secret +twoFactor.recoveryCodes');
+        const twoFactor = user.twoFactor;
+        if (!twoFactor?.enabled || !twoFactor.secret) {
+            throw createHttpError(400, 'Two-factor authentication is not enabled');
+        }
+
+        const step = verifyTotp(decrypt(twoFactor.secret), code);
+        if (step !== null) {
+            // Move lastUsedStep forward atomically, so a replayed or concurrently reused code fails
+            const claimed = await userModel.updateOne(
+                {
+                    _id: user._id,
+                    $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }],
+                },
+                { $set: { 'twoFactor.lastUsedStep': step } }
+            );
+            if (claimed.modifiedCount === 0) {
+                throw createHttpError(400, 'This code has already been used. Wait for a new one.');
+            }
+            return;
+        }
+
+        const codeHash = hashCode(String(code || ''));
+        const result = await userModel.updateOne(
+            { _id: user._id, 'twoFactor.recoveryCodes': codeHash },
+            { $pull: { 'twoFactor.recoveryCodes': codeHash } }
+        );
+        if (result.modifiedCount === 0) {
+            throw createHttpError(400, 'Invalid authentication code');
+        }
+    }
+
+    /**
+     * Replace the recovery codes, after checking a current code
+     */
+    async regenerateRecoveryCodes(userId: UserId, code: string): Promise<string[]> {
+        await this.verify(userId, code);
+
+        const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        await userModel.updateOne({ _id: userId }, { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashCode) } });
+        return recoveryCodes;
+    }
+
+    /**
+     * Turn two-factor authentication off, after checking a current code
+     */
+    async disable(userId: UserId, code: string): Promise<void> {
+        const user = await this.loadUser(userId);
+        if (this.isRequired(user)) {
+            throw createHttpError(403, 'Two-factor authentication is required for your account');
+        }
+
+        await this.verify(userId, code);
+        await userModel.updateOne({ _id: userId }, { $set: { twoFactor: { enabled: false } } });
+    }
+
+    // Static accessors used by the controllers
+    static isRequired(user: { roles?: string | string[] }) {
+        return TwoFactorService.getInstance().isRequired(user);
+    }
+
+    static async createLoginChallenge(user: Parameters<TwoFactorService['createLoginChallenge']>[0]) {
+        return TwoFactorService.getInstance().createLoginChallenge(user);
+    }
+
+    static async getStatus(userId: UserId) {
+        return TwoFactorService.getInstance().getStatus(userId);
+    }
+
+    static async startEnrollment(userId: UserId) {
+        return TwoFactorService.getInstance().startEnrollment(userId);
+    }
+
+    static async confirmEnrollment(userId: UserId, code: string) {
+        return TwoFactorService.getInstance().confirmEnrollment(userId, code);
+    }
+
+    static async verify(userId: UserId, code: string) {
+        return TwoFactorService.getInstance().verify(userId, code);
+    }
+
+    static async regenerateRecoveryCodes(userId: UserId, code: string) {
+        return TwoFactorService.getInstance().regenerateRecoveryCodes(userId, code);
+    }
+
+    static async disable(userId: UserId, code: string) {
+        return TwoFactorService.getInstance().disable(userId, code);
+    }
+}
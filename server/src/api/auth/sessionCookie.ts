@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { sign } from 'jsonwebtoken';
+import { config } from '../../config/config';
+import { COOKIE_NAMES, COOKIE_DURATIONS, getAuthCookieOptions } from '../../utils/cookieUtils';
+import { SessionService, getSessionClient } from './services/sessionService';
+import { User } from '../user/userTypes';
+
+// What the session token is built from
+type SessionUser = Pick<User, '_id' | 'roles'>;
+
+/**
+ * Sign a token for the user's session and set it as the auth cookie
+ */
+export const setSessionCookie = (res: Response, user: SessionUser, keepMeSignedIn: boolean, sessionId: string) => {
+    const expiresIn = keepMeSignedIn ? '30d' : '2h';
+    const maxAge = keepMeSignedIn ? COOKIE_DURATIONS.LONG_SESSION : COOKIE_DURATIONS.SHORT_SESSION;
+
+    const token = sign(
+        {
+            sub: user._id.toString(),
+            sid: sessionId, // Server-side session, checked on every request
+            roles: user.roles || [], // Ensure roles is an array
+            keepMeSignedIn: keepMeSignedIn, // Store in JWT to preserve during sliding session
+        },
+        config.jwtSecret,
+        { expiresIn }
+    );
+
+    res.cookie(COOKIE_NAMES.AUTH_TOKEN, token, getAuthCookieOptions(maxAge));
+};
+
+/**
+ * Sign the user in: start a session for this device and set its cookie
+ */
+export const startSession = async (req: Request, res: Response, user: SessionUser, keepMeSignedIn: boolean) => {
+    const session = await SessionService.create(user._id, getSessionClient(req), keepMeSignedIn);
+    setSessionCookie(res, user, keepMeSignedIn, session.id);
+    return session;
+};
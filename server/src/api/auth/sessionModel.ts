@@ -0,0 +1,41 @@
+import mongoose, { Schema } from 'mongoose';
+import { Session } from './authTypes';
+
+const sessionSchema = new Schema<Session>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        userAgent: String,
+        device: String,
+        ip: String,
+        keepMeSignedIn: {
+            type: Boolean,
+            default: false,
+        },
+        lastSeenAt: {
+            type: Date,
+            default: Date.now,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: Date,
+        revokedReason: {
+            type: String,
+            enum: ['logout', 'revoked', 'password-change', 'role-change'],
+        },
+    },
+    { timestamps: true }
+);
+
+sessionSchema.index({ user: 1, revokedAt: 1, lastSeenAt: -1 });
+// MongoDB removes sessions once they have expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const SessionModel = mongoose.model<Session>('Session', sessionSchema);
+
+export default SessionModel;
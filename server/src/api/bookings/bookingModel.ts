@@ -1,6 +1,57 @@
 import mongoose, { Schema } from 'mongoose';
 import { Booking } from './bookingTypes';
 
+const travelerSchema = {
+    firstName: {
+        type: String,
+        required: true,
+    },
+    lastName: {
+        type: String,
+        required: true,
+    },
+    email: {
+        type: String,
+        required: true,
+    },
+    phone: {
+        type: String,
+        required: true,
+    },
+    dateOfBirth: {
+        type: Date,
+        required: true,
+    },
+    passportNumber: {
+        type: String,
+    },
+};
+
+const bookingAddOnSchema = {
+    addOnId: {
+        type: Schema.Types.ObjectId,
+        required: true,
+    },
+    name: {
+        type: String,
+        required: true,
+    },
+    category: String,
+    quantity: {
+        type: Number,
+        required: true,
+        min: 1,
+    },
+    unitPrice: {
+        type: Number,
+        required: true,
+    },
+    totalPrice: {
+        type: Number,
+        required: true,
+    },
+};
+
 const bookingSchema = new Schema<Booking>(
     {
         // Tour reference
@@ -58,36 +109,31 @@ const bookingSchema = new Schema<Booking>(
                 min: 0,
             },
         },
-        travelers: [
-            {
-                firstName: {
-                    type: String,
-                    required: true,
-                },
-                lastName: {
-                    type: String,
-                    required: true,
-                },
-                email: {
-                    type: String,
-                    required: true,
-                },
-                phone: {
-                    type: String,
-                    required: true,
-                },
-                dateOfBirth: {
-                    type: Date,
-                    required: true,
-                },
-                passportNumber: {
-                    type: String,
-                },
-            },
-        ],
+        travelers: [travelerSchema],
         pricingOptionId: {
             type: String,
         },
+
+        // Seat inventory reservation
+        inventory: {
+            type: Schema.Types.ObjectId,
+            ref: 'DepartureInventory',
+        },
+        departureId: String,
+        reservedSeats: {
+            type: Number,
+            default: 0,
+        },
+
+        // Unpaid bookings give their seats back after this time
+        expiresAt: Date,
+        hold: {
+            type: Schema.Types.ObjectId,
+            ref: 'SeatHold',
+        },
+        abandonedAt: Date,
+        // Set once the pre-departure reminder email has gone out
+        reminderSentAt: Date,
         pricing: {
             basePrice: {
                 type: Number,
@@ -105,6 +151,23 @@ const bookingSchema = new Schema<Booking>(
                 type: Number,
                 default: 0,
             },
+            subtotal: Number,
+            discountAmount: {
+                type: Number,
+                default: 0,
+            },
+            addOnsTotal: {
+                type: Number,
+                default: 0,
+            },
+            taxAmount: {
+                type: Number,
+                default: 0,
+            },
+            taxRate: {
+                type: Number,
+                default: 0,
+            },
             totalPrice: {
                 type: Number,
                 required: true,
@@ -113,8 +176,69 @@ const bookingSchema = new Schema<Booking>(
                 type: String,
                 default: 'USD',
             },
+            // Tour price currency and the rate to `currency`, locked at creation
+            priceCurrency: String,
+            exchangeRate: {
+                type: Number,
+                default: 1,
+            },
+            rateLockedAt: Date,
+        },
+
+        // Extras chosen when booking, priced in the booking currency
+        addOns: {
+            type: [bookingAddOnSchema],
+            default: [],
         },
 
+        // Applied promo code
+        promoCode: {
+            promoCodeId: {
+                type: Schema.Types.ObjectId,
+                ref: 'PromoCode',
+            },
+            code: String,
+            discountType: {
+                type: String,
+                enum: ['percentage', 'fixed'],
+            },
+            discountValue: Number,
+            discountAmount: Number,
+            currency: String,
+        },
+
+        // Amendment history, oldest first
+        amendments: [
+            {
+                changedFields: [{
+                    type: String,
+                    enum: ['departureDate', 'participants', 'travelers'],
+                }],
+                previous: {
+                    departureDate: Date,
+                    participants: {
+                        adults: Number,
+                        children: Number,
+                        infants: Number,
+                    },
+                    travelers: [travelerSchema],
+                    totalPrice: Number,
+                },
+                newTotal: Number,
+                priceDifference: Number,
+                reason: String,
+                amendedBy: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'User',
+                },
+                amendedAt: {
+                    type: Date,
+                    default: Date.now,
+                },
+                _id: false,
+            },
+        ],
+
         // Contact information
         contactName: {
             type: String,
@@ -151,6 +275,11 @@ const bookingSchema = new Schema<Booking>(
             type: Number,
             default: 0,
         },
+        // Money returned on cancellation (see the Refund ledger for the details)
+        refundedAmount: {
+            type: Number,
+            default: 0,
+        },
         paymentDetails: {
             method: String,
             transactionId: String,
@@ -180,10 +309,14 @@ const bookingSchema = new Schema<Booking>(
 
 // Indexes
 bookingSchema.index({ tour: 1, departureDate: 1 });
+bookingSchema.index({ tour: 1, createdAt: -1 });
 bookingSchema.index({ user: 1 });
 bookingSchema.index({ bookingReference: 1 }, { unique: true });
 bookingSchema.index({ status: 1 });
+bookingSchema.index({ status: 1, paymentStatus: 1, expiresAt: 1 });
+bookingSchema.index({ status: 1, departureDate: 1 });
 bookingSchema.index({ 'guestInfo.email': 1 });
+bookingSchema.index({ 'promoCode.promoCodeId': 1 }, { sparse: true });
 
 // Generate booking reference before saving
 bookingSchema.pre('save', function (next) {
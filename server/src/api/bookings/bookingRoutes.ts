@@ -1,5 +1,5 @@
 import express, { RequestHandler } from 'express';
-import { authenticate, authorizeRoles } from '../../middlewares/authenticate';
+import { authenticate, authorizeRoles, optionalAuthenticate } from '../../middlewares/authenticate';
 import { paginationMiddleware } from '../../middlewares/pagination';
 import { filterSortMiddleware } from '../../middlewares/filterSort';
 import { asyncAuthHandler } from '../../utils/routeWrapper';
@@ -13,8 +13,19 @@ import {
     updatePaymentStatus,
     cancelBooking,
     getBookingStats,
-    downloadVoucher
+    downloadVoucher,
+    getRefundQuote,
+    amendBooking
 } from './controllers/bookingController';
+import { processPayment, confirmPayment, getPayment } from './controllers/paymentController';
+import {
+    validatePromoCode,
+    getPromoCodes,
+    createPromoCode,
+    updatePromoCode,
+    deletePromoCode
+} from './controllers/promoCodeController';
+import { createHold, getHold, releaseHold } from './controllers/holdController';
 
 const bookingRouter = express.Router();
 
@@ -27,7 +38,10 @@ const bookingRouter = express.Router();
  * /api/v1/bookings:
  *   post:
  *     summary: Create a new booking
- *     description: Create a booking for a tour (supports both authenticated users and guest bookings)
+ *     description: |
+ *       Create a booking for a tour (supports both authenticated users and guest bookings). A signed-in traveler is linked to the booking, which is what later lets them review the tour.
+ *       The price is worked out on the server the same way as `/api/v1/tours/{tourId}/quote`;
+ *       only the currency to pay in is taken from `pricing`.
  *     tags: [Bookings]
  *     requestBody:
  *       required: true
@@ -65,6 +79,28 @@ const bookingRouter = express.Router();
  *                 type: string
  *               specialRequests:
  *                 type: string
+ *               pricingOptionId:
+ *                 type: string
+ *                 description: Pricing option chosen (party size must fit its minPax/maxPax)
+ *               pricing:
+ *                 type: object
+ *                 properties:
+ *                   currency:
+ *                     type: string
+ *                     description: Currency to pay in; the tour's currency when omitted
+ *               promoCode:
+ *                 type: string
+ *                 description: Promo code to redeem against the booking total
+ *               addOns:
+ *                 type: array
+ *                 description: Add-ons chosen from the tour. Prices come from the tour; required add-ons are always included.
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     addOnId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
  *               isGuestBooking:
  *                 type: boolean
  *               guestInfo:
@@ -87,8 +123,14 @@ const bookingRouter = express.Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Not enough seats left on the departure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
-bookingRouter.post('/', asyncAuthHandler(createBooking));
+bookingRouter.post('/', optionalAuthenticate, asyncAuthHandler(createBooking));
 
 /**
  * @swagger
@@ -120,6 +162,296 @@ bookingRouter.post('/', asyncAuthHandler(createBooking));
  */
 bookingRouter.get('/reference/:reference', asyncAuthHandler(getBookingByReference));
 
+/**
+ * @swagger
+ * /api/v1/bookings/payment:
+ *   post:
+ *     summary: Process payment for bookings
+ *     description: Charge the outstanding balance of one or more pending bookings through the configured gateway. PayPal (and cards requiring 3-D Secure) return status `requires_action` with a `redirectUrl`.
+ *     tags: [Bookings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookings
+ *               - paymentMethod
+ *               - contactInfo
+ *             properties:
+ *               bookings:
+ *                 type: array
+ *                 description: Bookings to pay for (matched by id or bookingReference)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     bookingReference:
+ *                       type: string
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [card, paypal]
+ *               contactInfo:
+ *                 type: object
+ *                 properties:
+ *                   firstName:
+ *                     type: string
+ *                   lastName:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                     format: email
+ *                   phone:
+ *                     type: string
+ *               holdId:
+ *                 type: string
+ *                 description: Seat hold returned by POST /bookings/holds
+ *               cardInfo:
+ *                 type: object
+ *                 description: Card tokenized in the browser by the gateway's script; raw card numbers are rejected
+ *                 required:
+ *                   - token
+ *                 properties:
+ *                   token:
+ *                     type: string
+ *                     description: Gateway payment method token (e.g. a Stripe payment method id)
+ *                   last4:
+ *                     type: string
+ *                     description: Last four digits reported by the gateway
+ *     responses:
+ *       201:
+ *         description: Payment processed or awaiting customer action (includes `accessToken` for guests)
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       410:
+ *         description: Seat hold or booking has expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       402:
+ *         description: Payment declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.post('/payment', optionalAuthenticate, asyncAuthHandler(processPayment));
+
+/**
+ * @swagger
+ * /api/v1/bookings/payment/{paymentId}:
+ *   get:
+ *     summary: Get payment status
+ *     description: Retrieve the current state of a payment. Only the payer, the owner of one of its bookings or an admin may see it; guest payers pass the access token they received when paying.
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Guest access token
+ *     responses:
+ *       200:
+ *         description: Payment retrieved successfully
+ *       403:
+ *         description: Not the payer, a booking owner or an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.get('/payment/:paymentId', optionalAuthenticate, asyncAuthHandler(getPayment));
+
+/**
+ * @swagger
+ * /api/v1/bookings/payment/{paymentId}/confirm:
+ *   post:
+ *     summary: Confirm payment
+ *     description: Complete a payment after the customer returns from the gateway (PayPal approval, 3-D Secure)
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Guest access token
+ *     responses:
+ *       200:
+ *         description: Payment confirmed successfully
+ *       402:
+ *         description: Payment declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not the payer, a booking owner or an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.post('/payment/:paymentId/confirm', optionalAuthenticate, asyncAuthHandler(confirmPayment));
+
+/**
+ * @swagger
+ * /api/v1/bookings/promo/validate:
+ *   post:
+ *     summary: Validate a promo code
+ *     description: Check that a promo code is active and usable. When `tourId` and `amount` are supplied the tour restriction and minimum purchase are checked and the discount is calculated. Fixed amounts come back converted to `currency`.
+ *     tags: [Bookings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - promoCode
+ *             properties:
+ *               promoCode:
+ *                 type: string
+ *               tourId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Booking subtotal the code would apply to
+ *               currency:
+ *                 type: string
+ *                 description: Currency of `amount` (ISO 4217); the code's own currency when omitted
+ *     responses:
+ *       200:
+ *         description: Promo code is valid
+ *       400:
+ *         description: Promo code is invalid, expired, used up or not applicable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.post('/promo/validate', asyncAuthHandler(validatePromoCode));
+
+/**
+ * @swagger
+ * /api/v1/bookings/holds:
+ *   post:
+ *     summary: Hold seats for checkout
+ *     description: Start checkout for pending bookings. Their seats are kept for a limited time (HOLD_CHECKOUT_MINUTES); pass the returned hold `id` as `holdId` when paying. Unpaid bookings are cancelled automatically once their time runs out.
+ *     tags: [Bookings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookings
+ *             properties:
+ *               bookings:
+ *                 type: array
+ *                 description: Bookings to check out (matched by id or bookingReference)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     bookingReference:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Seats held - response includes `expiresAt` and `remainingSeconds`
+ *       400:
+ *         description: Booking can no longer be checked out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       410:
+ *         description: One or more bookings have expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.post('/holds', asyncAuthHandler(createHold));
+
+/**
+ * @swagger
+ * /api/v1/bookings/holds/{holdId}:
+ *   get:
+ *     summary: Get seat hold status
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Seat hold retrieved successfully
+ *       404:
+ *         description: Seat hold not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Release a seat hold
+ *     description: End the checkout hold early. The bookings keep the time left on their own expiry.
+ *     tags: [Bookings]
+ *     parameters:
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Seat hold released successfully
+ *       404:
+ *         description: Seat hold not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.get('/holds/:holdId', asyncAuthHandler(getHold));
+bookingRouter.delete('/holds/:holdId', asyncAuthHandler(releaseHold));
+
 // ============================================================================
 // AUTHENTICATED ROUTES (Require authentication)
 // ============================================================================
@@ -182,10 +514,31 @@ bookingRouter.get('/my-bookings', authenticate, asyncAuthHandler(getUserBookings
  * /api/v1/bookings/stats:
  *   get:
  *     summary: Get booking statistics
- *     description: Retrieve booking statistics and analytics (admin/seller only)
+ *     description: Revenue by month, occupancy per departure and cancellation rate (admin/seller only). Sellers only see their own tours; admins can scope by seller.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sellerId
+ *         schema:
+ *           type: string
+ *         description: Limit to one seller's tours (admin only)
+ *       - in: query
+ *         name: tourId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Bookings made from this date (occupancy uses departures from this date)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
  *     responses:
  *       200:
  *         description: Statistics retrieved successfully
@@ -194,22 +547,83 @@ bookingRouter.get('/my-bookings', authenticate, asyncAuthHandler(getUserBookings
  *             schema:
  *               type: object
  *               properties:
+ *                 currency:
+ *                   type: string
+ *                   description: Base currency all amounts are converted to at current rates
  *                 totalBookings:
  *                   type: number
- *                 pendingBookings:
+ *                 byStatus:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       status:
+ *                         type: string
+ *                       count:
+ *                         type: number
+ *                       totalRevenue:
+ *                         type: number
+ *                       paidRevenue:
+ *                         type: number
+ *                 bookedValue:
  *                   type: number
- *                 confirmedBookings:
+ *                 collected:
  *                   type: number
- *                 cancelledBookings:
+ *                 refunded:
  *                   type: number
- *                 totalRevenue:
+ *                 netRevenue:
  *                   type: number
+ *                 cancellationRate:
+ *                   type: number
+ *                   description: Percentage of bookings that were cancelled
+ *                 revenueByMonth:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       month:
+ *                         type: string
+ *                         example: 2026-05
+ *                       bookings:
+ *                         type: number
+ *                       bookedValue:
+ *                         type: number
+ *                       collected:
+ *                         type: number
+ *                       refunded:
+ *                         type: number
+ *                       netRevenue:
+ *                         type: number
+ *                 occupancy:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       tourId:
+ *                         type: string
+ *                       tourTitle:
+ *                         type: string
+ *                       departureDate:
+ *                         type: string
+ *                         format: date
+ *                       capacity:
+ *                         type: number
+ *                       reserved:
+ *                         type: number
+ *                       occupancyRate:
+ *                         type: number
  *       401:
  *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Not your seller account or tour
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 bookingRouter.get(
     '/stats',
@@ -222,12 +636,205 @@ bookingRouter.get(
 // ADMIN/SELLER ROUTES (Require admin or seller role)
 // ============================================================================
 
+/**
+ * @swagger
+ * /api/v1/bookings/promo:
+ *   get:
+ *     summary: Get promo codes
+ *     description: Admins see every promo code, sellers see the codes they created
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [global, tour, seller]
+ *     responses:
+ *       200:
+ *         description: Promo codes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   post:
+ *     summary: Create a promo code
+ *     description: Admins can create global, tour or seller codes. Sellers can create codes for their own tours (`tour`) or all of their tours (`seller`).
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - discountType
+ *               - discountValue
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               code:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               discountType:
+ *                 type: string
+ *                 enum: [percentage, fixed]
+ *               discountValue:
+ *                 type: number
+ *               maxDiscountAmount:
+ *                 type: number
+ *               minPurchaseAmount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code of the fixed amounts (defaults to PAYMENT_DEFAULT_CURRENCY)
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               maxUses:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *               scope:
+ *                 type: string
+ *                 enum: [global, tour, seller]
+ *               applicableTours:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               seller:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Promo code created successfully
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Promo code already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.get(
+    '/promo',
+    authenticate,
+    authorizeRoles('admin', 'seller') as RequestHandler,
+    paginationMiddleware,
+    filterSortMiddleware(['isActive', 'scope', 'discountType'], ['createdAt', 'endDate', 'currentUses', 'code']),
+    asyncAuthHandler(getPromoCodes)
+);
+
+bookingRouter.post(
+    '/promo',
+    authenticate,
+    authorizeRoles('admin', 'seller') as RequestHandler,
+    asyncAuthHandler(createPromoCode)
+);
+
+/**
+ * @swagger
+ * /api/v1/bookings/promo/{promoId}:
+ *   patch:
+ *     summary: Update a promo code
+ *     description: Update a promo code you created (admins can update any). Usage counters cannot be changed.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code updated successfully
+ *       403:
+ *         description: Forbidden - Not your promo code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Promo code not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Delete a promo code
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code deleted successfully
+ *       404:
+ *         description: Promo code not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.patch(
+    '/promo/:promoId',
+    authenticate,
+    authorizeRoles('admin', 'seller') as RequestHandler,
+    asyncAuthHandler(updatePromoCode)
+);
+
+bookingRouter.delete(
+    '/promo/:promoId',
+    authenticate,
+    authorizeRoles('admin', 'seller') as RequestHandler,
+    asyncAuthHandler(deletePromoCode)
+);
+
 /**
  * @swagger
  * /api/v1/bookings:
  *   get:
  *     summary: Get all bookings
- *     description: Retrieve all bookings with pagination and filtering (admin/seller only)
+ *     description: Retrieve bookings with pagination and filtering. Admins see every booking; sellers only bookings for tours they author.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -253,6 +860,10 @@ bookingRouter.get(
  *           type: string
  *           enum: [unpaid, partial, paid, refunded]
  *       - in: query
+ *         name: tourId
+ *         schema:
+ *           type: string
+ *       - in: query
  *         name: sort
  *         schema:
  *           type: string
@@ -334,8 +945,8 @@ bookingRouter.get('/:bookingId', authenticate, asyncAuthHandler(getBookingById))
  * @swagger
  * /api/v1/bookings/{bookingId}/status:
  *   patch:
- *     summary: Update booking status
- *     description: Update the status of a booking (admin/seller only)
+ *     description: Update the status of a booking (admins, or the seller who owns the tour). Setting `cancelled` cancels the booking under its cancellation policy and issues the refund, like DELETE /bookings/{bookingId}.
+ *     description: Update the status of a booking (admins, or the seller who owns the tour)
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -374,7 +985,7 @@ bookingRouter.get('/:bookingId', authenticate, asyncAuthHandler(getBookingById))
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
- *         description: Forbidden - Admin/Seller access required
+ *         description: Forbidden - Admin or the seller of the booked tour required
  *         content:
  *           application/json:
  *             schema:
@@ -392,7 +1003,7 @@ bookingRouter.patch(
  * /api/v1/bookings/{bookingId}/payment:
  *   patch:
  *     summary: Update payment status
- *     description: Update the payment status of a booking (admin/seller only)
+ *     description: Update the payment status of a booking (admins, or the seller who owns the tour)
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -433,7 +1044,7 @@ bookingRouter.patch(
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
- *         description: Forbidden - Admin/Seller access required
+ *         description: Forbidden - Admin or the seller of the booked tour required
  *         content:
  *           application/json:
  *             schema:
@@ -446,12 +1057,162 @@ bookingRouter.patch(
     asyncAuthHandler(updatePaymentStatus)
 );
 
+/**
+ * @swagger
+ * /api/v1/bookings/{bookingId}/amendments:
+ *   post:
+ *     summary: Amend booking
+ *     description: |
+ *       Change the departure date, participant counts or travelers of a booking.
+ *       Seats are re-checked on the new departure and the price is recalculated from the
+ *       tour's pricing; a cheaper booking is refunded the difference, a dearer one is left
+ *       with a balance to pay. Every change is kept in the booking's amendment history.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               departureDate:
+ *                 type: string
+ *                 format: date
+ *               participants:
+ *                 type: object
+ *                 properties:
+ *                   adults:
+ *                     type: number
+ *                   children:
+ *                     type: number
+ *                   infants:
+ *                     type: number
+ *               travelers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Booking amended successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Invalid changes or the booking can no longer be changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Not your booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Not enough seats on the new departure, or the booking changed concurrently
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.post(
+    '/:bookingId/amendments',
+    authenticate,
+    asyncAuthHandler(amendBooking)
+);
+
+/**
+ * @swagger
+ * /api/v1/bookings/{bookingId}/refund-quote:
+ *   get:
+ *     summary: Get refund quote
+ *     description: Show what the tour's cancellation policy would refund if the booking were cancelled now
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     responses:
+ *       200:
+ *         description: Refund quote calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 cancellable:
+ *                   type: boolean
+ *                 daysBeforeDeparture:
+ *                   type: number
+ *                 policy:
+ *                   type: object
+ *                   properties:
+ *                     tiers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           daysBeforeDeparture:
+ *                             type: number
+ *                           refundPercentage:
+ *                             type: number
+ *                     description:
+ *                       type: string
+ *                     isDefault:
+ *                       type: boolean
+ *                 refundPercentage:
+ *                   type: number
+ *                 paidAmount:
+ *                   type: number
+ *                 refundAmount:
+ *                   type: number
+ *                 currency:
+ *                   type: string
+ *       403:
+ *         description: Forbidden - Not your booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Booking not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+bookingRouter.get(
+    '/:bookingId/refund-quote',
+    authenticate,
+    asyncAuthHandler(getRefundQuote)
+);
+
 /**
  * @swagger
  * /api/v1/bookings/{bookingId}:
  *   delete:
  *     summary: Cancel booking
- *     description: Cancel a booking (authenticated users can cancel their own bookings)
+ *     description: |
+ *       Cancel a booking under the tour's cancellation policy. The refund the policy allows
+ *       is sent back through the original payment and recorded in the refund ledger.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -484,6 +1245,12 @@ bookingRouter.patch(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       400:
+ *         description: Booking is already cancelled or has departed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
  *         description: Forbidden - Cannot cancel this booking
  *         content:
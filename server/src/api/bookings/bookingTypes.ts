@@ -1,4 +1,5 @@
 import mongoose, { Document } from 'mongoose';
+import { AppliedPromoCode } from './promoCodeTypes';
 
 export interface BookingGuest {
     fullName: string;
@@ -22,13 +23,61 @@ export interface BookingParticipants {
     infants?: number;
 }
 
+// An add-on as booked, with its price at the time of booking
+export interface BookingAddOn {
+    addOnId: mongoose.Types.ObjectId;
+    name: string;
+    category?: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+}
+
+// Add-on and quantity chosen by the traveler
+export interface AddOnSelection {
+    addOnId: string;
+    quantity: number;
+}
+
 export interface BookingPricing {
     basePrice: number;
     adultPrice: number;
     childPrice: number;
     infantPrice?: number;
+    subtotal?: number;
+    discountAmount?: number;
+    // Total of the booking's add-ons, included in totalPrice
+    addOnsTotal?: number;
+    // Tax charged on the amount after discounts, and its percentage
+    taxAmount?: number;
+    taxRate?: number;
     totalPrice: number;
+    // Currency the booking is charged in
     currency: string;
+    // Currency of the tour prices the booking was priced from, and the rate
+    // from it to `currency` locked when the booking was created
+    priceCurrency?: string;
+    exchangeRate?: number;
+    rateLockedAt?: Date;
+}
+
+export type AmendableField = 'departureDate' | 'participants' | 'travelers';
+
+export interface BookingAmendment {
+    changedFields: AmendableField[];
+    // Booking details as they were before the change
+    previous: {
+        departureDate: Date;
+        participants: BookingParticipants;
+        travelers: TravelerInfo[];
+        totalPrice: number;
+    };
+    newTotal: number;
+    // Positive when the customer owes more, negative when money was refunded
+    priceDifference: number;
+    reason?: string;
+    amendedBy?: mongoose.Types.ObjectId;
+    amendedAt: Date;
 }
 
 export interface Booking extends Document {
@@ -50,6 +99,24 @@ export interface Booking extends Document {
     travelers: TravelerInfo[];
     pricing: BookingPricing;
     pricingOptionId?: string;
+    addOns?: BookingAddOn[];
+    promoCode?: AppliedPromoCode;
+
+    // Seat inventory reservation
+    inventory?: mongoose.Types.ObjectId;
+    departureId?: string;
+    reservedSeats?: number;
+
+    // Unpaid bookings give their seats back after this time
+    expiresAt?: Date;
+    hold?: mongoose.Types.ObjectId;
+    abandonedAt?: Date;
+
+    // Pre-departure reminder email
+    reminderSentAt?: Date;
+
+    // Changes made after booking (date, party size, travelers)
+    amendments?: BookingAmendment[];
 
     // Contact information
     contactName: string;
@@ -67,6 +134,7 @@ export interface Booking extends Document {
     paymentMethod?: string;
     transactionId?: string;
     paidAmount: number;
+    refundedAmount?: number;
     paymentDetails?: {
         method: string;
         transactionId: string;
@@ -86,3 +154,54 @@ export interface Booking extends Document {
     createdAt: Date;
     updatedAt: Date;
 }
+
+// Filters for the booking dashboard statistics
+export interface BookingStatsQuery {
+    // Admins can look at one seller's tours; sellers are always limited to their own
+    sellerId?: string;
+    tourId?: string;
+    // Bookings made in this range (occupancy uses departures in this range)
+    from?: Date;
+    to?: Date;
+}
+
+export interface BookingStatusBreakdown {
+    status: Booking['status'];
+    count: number;
+    totalRevenue: number;
+    paidRevenue: number;
+}
+
+export interface MonthlyRevenue {
+    // YYYY-MM
+    month: string;
+    bookings: number;
+    bookedValue: number;
+    collected: number;
+    refunded: number;
+    netRevenue: number;
+}
+
+export interface DepartureOccupancy {
+    tourId: string;
+    tourTitle: string;
+    departureId: string;
+    departureDate: Date;
+    capacity: number;
+    reserved: number;
+    occupancyRate: number;
+}
+
+export interface BookingStats {
+    // Currency every amount is reported in
+    currency: string;
+    totalBookings: number;
+    byStatus: BookingStatusBreakdown[];
+    bookedValue: number;
+    collected: number;
+    refunded: number;
+    netRevenue: number;
+    cancellationRate: number;
+    revenueByMonth: MonthlyRevenue[];
+    occupancy: DepartureOccupancy[];
+}
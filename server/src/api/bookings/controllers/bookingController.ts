@@ -1,20 +1,53 @@
 import { Request, Response, NextFunction } from 'express';
 import { BookingService } from '../services/bookingService';
+import { RefundService } from '../services/refundService';
+import { AmendmentService } from '../services/amendmentService';
+import { BookingStatsService } from '../services/bookingStatsService';
+import { BookingEmailService } from '../services/bookingEmailService';
 import { HTTP_STATUS, sendSuccess, sendPaginatedResponse } from '../../../utils/apiResponse';
 import createHttpError from 'http-errors';
 
+/**
+ * Only the traveler who made a booking, the seller of the booked tour or an admin may manage it
+ */
+const assertCanManageBooking = async (req: Request, bookingId: string) => {
+    const booking = await BookingService.getBookingById(bookingId);
+
+    if (!(await BookingService.canManageBooking(booking, req.user))) {
+        throw createHttpError(403, 'You do not have access to this booking');
+    }
+
+    return booking;
+};
+
+/**
+ * Status and payment changes are reserved for the seller of the booked tour or an admin
+ */
+const assertCanOperateBooking = async (req: Request, bookingId: string) => {
+    const booking = await BookingService.getBookingById(bookingId);
+
+    if (!(await BookingService.canOperateBooking(booking, req.user))) {
+        throw createHttpError(403, 'Only the tour operator or an admin can change this booking');
+    }
+
+    return booking;
+};
+
 /**
  * Create a new booking
  */
 export const createBooking = async (req: Request
 , res: Response, next: NextFunction) => {
     try {
-        const { tourId, tourTitle, tourCode, departureDate, participants, pricing, contactInfo, specialRequests } = req.body;
+        const { tourId, tourTitle, tourCode, departureDate, participants, pricing, pricingOptionId, contactInfo, specialRequests, promoCode, addOns } = req.body;
 
         // Validate required fields
-        if (!tourId || !departureDate || !participants || !pricing || !contactInfo) {
+        if (!tourId || !departureDate || !participants || !contactInfo) {
             throw createHttpError(400, 'Missing required booking information');
         }
+        if (addOns !== undefined && !Array.isArray(addOns)) {
+            throw createHttpError(400, 'addOns must be an array');
+        }
 
         // Determine if this is a guest booking
         const isGuestBooking = !req.user;
@@ -25,7 +58,9 @@ export const createBooking = async (req: Request
             tourCode,
             departureDate,
             participants,
-            pricing,
+            // Only the currency to charge in is taken from the client; the price is worked out on the server
+            pricing: pricing?.currency ? { currency: pricing.currency } : undefined,
+            pricingOptionId,
             contactName: contactInfo.fullName,
             contactEmail: contactInfo.email,
             contactPhone: contactInfo.phone,
@@ -46,7 +81,10 @@ export const createBooking = async (req: Request
             };
         }
 
-        const booking = await BookingService.createBooking(bookingData);
+        const booking = await BookingService.createBooking(bookingData, promoCode, addOns);
+
+        // Emails are sent in the background and never fail the request
+        void BookingEmailService.sendBookingConfirmation(String(booking.id));
 
         sendSuccess(res, booking, 'Booking created successfully', HTTP_STATUS.CREATED);
     } catch (error) {
@@ -70,7 +108,7 @@ export const getAllBookings = async (req: Request
         const sortBy = req.sort?.field || 'createdAt';
         const sortOrder = req.sort?.order || 'desc';
 
-        const result = await BookingService.getAllBookings(filters, {
+        const result = await BookingService.getAllBookings(req.user!, filters, {
             page,
             limit,
             sortBy,
@@ -94,7 +132,7 @@ export const getAllBookings = async (req: Request
 export const getBookingById = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const { bookingId } = req.params;
-        const booking = await BookingService.getBookingById(bookingId);
+        const booking = await assertCanManageBooking(req, bookingId);
 
         sendSuccess(res, booking, 'Booking retrieved successfully');
     } catch (error) {
@@ -182,6 +220,14 @@ export const getTourBookings = async (req: Request, res: Response, next: NextFun
         const { tourId } = req.params;
         const { page = 1, limit = 10 } = req.query;
 
+        // Sellers only see bookings for tours they author
+        if (!req.user!.roles.includes('admin')) {
+            const tourIds = await BookingService.getSellerTourIds(req.user!.id);
+            if (!tourIds.some(id => id.toString() === tourId)) {
+                throw createHttpError(403, 'You do not have access to this tour');
+            }
+        }
+
         const result = await BookingService.getTourBookings(tourId, {
             page: Number(page),
             limit: Number(limit),
@@ -211,8 +257,13 @@ export const updateBookingStatus = async (req: Request, res: Response, next: Nex
         if (!status) {
             throw createHttpError(400, 'Status is required');
         }
+        const current = await assertCanOperateBooking(req, bookingId);
 
-        const booking = await BookingService.updateBookingStatus(bookingId, status, notes);
+        const booking = await BookingService.updateBookingStatus(bookingId, status, notes, req.user?.id);
+
+        if (current.status !== status && (status === 'confirmed' || status === 'cancelled')) {
+            void BookingEmailService.sendStatusChange(bookingId);
+        }
 
         sendSuccess(res, booking, 'Booking status updated successfully');
     } catch (error) {
@@ -231,6 +282,7 @@ export const updatePaymentStatus = async (req: Request, res: Response, next: Nex
         if (!paymentStatus) {
             throw createHttpError(400, 'Payment status is required');
         }
+        await assertCanOperateBooking(req, bookingId);
 
         const booking = await BookingService.updatePaymentStatus(
             bookingId,
@@ -239,12 +291,53 @@ export const updatePaymentStatus = async (req: Request, res: Response, next: Nex
             transactionId
         );
 
+        if (paymentStatus === 'paid' || paymentStatus === 'partial') {
+            void BookingEmailService.sendPaymentReceipt(bookingId);
+        }
+
         sendSuccess(res, booking, 'Payment status updated successfully');
     } catch (error) {
         next(error);
     }
 };
 
+/**
+ * Get the refund a booking would receive if cancelled now
+ */
+export const getRefundQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { bookingId } = req.params;
+        await assertCanManageBooking(req, bookingId);
+
+        const quote = await RefundService.getRefundQuote(bookingId);
+
+        sendSuccess(res, quote, 'Refund quote calculated successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Change the date, participants or travelers of a booking
+ */
+export const amendBooking = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { bookingId } = req.params;
+        const { departureDate, participants, travelers, reason } = req.body;
+        await assertCanManageBooking(req, bookingId);
+
+        const booking = await AmendmentService.amendBooking(
+            bookingId,
+            { departureDate, participants, travelers, reason },
+            req.user?.id
+        );
+
+        sendSuccess(res, booking, 'Booking amended successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
 /**
  * Cancel booking
  */
@@ -252,8 +345,11 @@ export const cancelBooking = async (req: Request, res: Response, next: NextFunct
     try {
         const { bookingId } = req.params;
         const { reason } = req.body;
+        await assertCanManageBooking(req, bookingId);
+
+        const booking = await BookingService.cancelBooking(bookingId, reason, req.user?.id);
 
-        const booking = await BookingService.cancelBooking(bookingId, reason);
+        void BookingEmailService.sendStatusChange(bookingId);
 
         sendSuccess(res, booking, 'Booking cancelled successfully');
     } catch (error) {
@@ -266,7 +362,14 @@ export const cancelBooking = async (req: Request, res: Response, next: NextFunct
  */
 export const getBookingStats = async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const stats = await BookingService.getBookingStats();
+        const { sellerId, tourId, from, to } = req.query;
+
+        const stats = await BookingStatsService.getBookingStats(req.user!, {
+            sellerId: sellerId as string | undefined,
+            tourId: tourId as string | undefined,
+            from: from ? new Date(from as string) : undefined,
+            to: to ? new Date(to as string) : undefined,
+        });
 
         sendSuccess(res, stats, 'Booking statistics retrieved successfully');
     } catch (error) {
@@ -282,18 +385,15 @@ export const downloadVoucher = async (req: Request
     try {
         const { bookingId } = req.params;
 
-        // Get booking to verify ownership
-        const booking = await BookingService.getBookingById(bookingId);
-
         // Verify user has access to this booking
-        if (req.user && booking.user && booking.user.toString() !== req.user.id) {
-            throw createHttpError(403, 'You do not have access to this booking');
-        }
+        await assertCanManageBooking(req, bookingId);
 
-        // Generate voucher data
-        const voucherData = await BookingService.generateVoucher(bookingId);
+        const { fileName, pdf } = await BookingService.generateVoucher(bookingId);
 
-        sendSuccess(res, voucherData, 'Voucher data retrieved successfully');
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.setHeader('Content-Length', pdf.length);
+        res.status(HTTP_STATUS.OK).send(pdf);
     } catch (error) {
         next(error);
     }
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { HoldService } from '../services/holdService';
+import { HTTP_STATUS, sendSuccess } from '../../../utils/apiResponse';
+import createHttpError from 'http-errors';
+
+/**
+ * Hold the seats of the cart's bookings for checkout
+ */
+export const createHold = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { bookings } = req.body;
+
+        if (!bookings) {
+            throw createHttpError(400, 'Bookings are required');
+        }
+
+        const hold = await HoldService.createHold({ bookings, userId: req.user?.id });
+
+        sendSuccess(res, hold, 'Seats held for checkout', HTTP_STATUS.CREATED);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get seat hold status
+ */
+export const getHold = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { holdId } = req.params;
+        const hold = await HoldService.getHold(holdId);
+
+        sendSuccess(res, hold, 'Seat hold retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Release a seat hold
+ */
+export const releaseHold = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { holdId } = req.params;
+        const hold = await HoldService.releaseHold(holdId);
+
+        sendSuccess(res, hold, 'Seat hold released successfully');
+    } catch (error) {
+        next(error);
+    }
+};
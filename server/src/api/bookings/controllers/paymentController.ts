@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentService, PaymentViewer } from '../services/paymentService';
+import { HTTP_STATUS, sendSuccess } from '../../../utils/apiResponse';
+import createHttpError from 'http-errors';
+
+// Signed-in payers are identified by their session, guests by the token they got when paying
+const getViewer = (req: Request): PaymentViewer => ({
+    user: req.user,
+    token: (req.query.token as string) || req.body?.token,
+});
+
+/**
+ * Process payment for one or more bookings
+ */
+export const processPayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { bookings, paymentMethod, contactInfo, cardInfo, holdId } = req.body;
+
+        if (!bookings || !paymentMethod || !contactInfo) {
+            throw createHttpError(400, 'Missing required payment information');
+        }
+
+        const payment = await PaymentService.processPayment({
+            bookings,
+            paymentMethod,
+            contactInfo,
+            cardInfo,
+            holdId,
+            userId: req.user?.id,
+        });
+
+        const message = payment.status === 'requires_action'
+            ? 'Additional action required to complete payment'
+            : 'Payment processed successfully';
+
+        sendSuccess(res, payment, message, HTTP_STATUS.CREATED);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Confirm a payment after the customer returns from the gateway
+ */
+export const confirmPayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { paymentId } = req.params;
+        const payment = await PaymentService.confirmPayment(paymentId, getViewer(req));
+
+        sendSuccess(res, payment, 'Payment confirmed successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get payment status
+ */
+export const getPayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { paymentId } = req.params;
+        const payment = await PaymentService.getPayment(paymentId, getViewer(req));
+
+        sendSuccess(res, payment, 'Payment retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
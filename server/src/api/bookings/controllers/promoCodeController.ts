@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import { PromoCodeService } from '../services/promoCodeService';
+import { HTTP_STATUS, sendSuccess, sendPaginatedResponse } from '../../../utils/apiResponse';
+import createHttpError from 'http-errors';
+
+/**
+ * Validate a promo code before checkout
+ */
+export const validatePromoCode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { promoCode, tourId, amount, currency } = req.body;
+
+        if (!promoCode) {
+            throw createHttpError(400, 'Promo code is required');
+        }
+
+        const parsedAmount = amount !== undefined && amount !== null ? Number(amount) : undefined;
+        if (parsedAmount !== undefined && (isNaN(parsedAmount) || parsedAmount < 0)) {
+            throw createHttpError(400, 'Amount must be a positive number');
+        }
+
+        const result = await PromoCodeService.validatePromoCode(promoCode, {
+            tourId,
+            amount: parsedAmount,
+            currency,
+        });
+
+        sendSuccess(res, result, 'Promo code is valid');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get promo codes (admin sees all, seller sees own)
+ */
+export const getPromoCodes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page, limit } = req.pagination || { page: 1, limit: 10 };
+        const filters: any = req.filters || {};
+        const sortBy = req.sort?.field || 'createdAt';
+        const sortOrder = req.sort?.order || 'desc';
+
+        const result = await PromoCodeService.listPromoCodes(req.user!, {
+            page,
+            limit,
+            sortBy,
+            sortOrder
+        }, filters);
+
+        sendPaginatedResponse(res, result.items, {
+            page: result.page,
+            limit: result.limit,
+            totalItems: result.totalItems,
+            totalPages: result.totalPages
+        }, 'Promo codes retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Create a promo code
+ */
+export const createPromoCode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const promo = await PromoCodeService.createPromoCode({ ...req.body }, req.user!);
+
+        sendSuccess(res, promo, 'Promo code created successfully', HTTP_STATUS.CREATED);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Update a promo code
+ */
+export const updatePromoCode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { promoId } = req.params;
+        const promo = await PromoCodeService.updatePromoCode(promoId, { ...req.body }, req.user!);
+
+        sendSuccess(res, promo, 'Promo code updated successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Delete a promo code
+ */
+export const deletePromoCode = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { promoId } = req.params;
+        await PromoCodeService.deletePromoCode(promoId, req.user!);
+
+        sendSuccess(res, null, 'Promo code deleted successfully');
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,118 @@
+import { config } from '../../../config/config';
+import {
+    GatewayChargeRequest,
+    GatewayRefundRequest,
+    GatewayRefundResult,
+    GatewayResult,
+    PaymentGateway,
+    toMinorUnits,
+} from './paymentGateway';
+
+/**
+ * Card gateway backed by the Stripe PaymentIntents REST API
+ * Charges a payment method the browser created with Stripe.js.
+ */
+export class CardGateway implements PaymentGateway {
+    readonly name = 'stripe';
+
+    constructor(
+        private secretKey: string,
+        private apiBase: string = config.payments.stripe.apiBase
+    ) { }
+
+    private async request(path: string, params?: Record<string, string>): Promise<any> {
+        const response = await fetch(`${this.apiBase}${path}`, {
+            method: params ? 'POST' : 'GET',
+            headers: {
+                Authorization: `Bearer ${this.secretKey}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: params ? new URLSearchParams(params).toString() : undefined,
+        });
+
+        const body: any = await response.json();
+        if (!response.ok) {
+            return { error: body?.error?.message || `Card gateway responded with ${response.status}` };
+        }
+        return body;
+    }
+
+    private toResult(intent: any): GatewayResult {
+        if (intent.error) {
+            return { status: 'failed', failureReason: intent.error };
+        }
+
+        switch (intent.status) {
+            case 'succeeded':
+                return { status: 'succeeded', reference: intent.id };
+            case 'requires_action':
+                return {
+                    status: 'requires_action',
+                    reference: intent.id,
+                    redirectUrl: intent.next_action?.redirect_to_url?.url,
+                };
+            default:
+                return {
+                    status: 'failed',
+                    reference: intent.id,
+                    failureReason: intent.last_payment_error?.message || `Payment ${intent.status}`,
+                };
+        }
+    }
+
+    async charge(request: GatewayChargeRequest): Promise<GatewayResult> {
+        const params: Record<string, string> = {
+            amount: String(toMinorUnits(request.amount)),
+            currency: request.currency.toLowerCase(),
+            description: request.description,
+            receipt_email: request.customer.email,
+            confirm: 'true',
+            'metadata[paymentId]': request.paymentId,
+        };
+
+        if (request.returnUrl) {
+            params.return_url = request.returnUrl;
+        }
+
+        if (!request.card?.token) {
+            return { status: 'failed', failureReason: 'Card details are required' };
+        }
+        params.payment_method = request.card.token;
+
+        return this.toResult(await this.request('/payment_intents', params));
+    }
+
+    async confirm(reference: string): Promise<GatewayResult> {
+        // The customer completed authentication on Stripe's side; read back the final state
+        return this.toResult(await this.request(`/payment_intents/${encodeURIComponent(reference)}`));
+    }
+
+    async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+        const params: Record<string, string> = {
+            payment_intent: request.reference,
+            amount: String(toMinorUnits(request.amount)),
+        };
+        if (request.reason) {
+            params['metadata[reason]'] = request.reason;
+        }
+
+        const refund = await this.request('/refunds', params);
+        if (refund.error) {
+            return { status: 'failed', failureReason: refund.error };
+        }
+
+        switch (refund.status) {
+            case 'succeeded':
+                return { status: 'succeeded', reference: refund.id };
+            case 'pending':
+            case 'requires_action':
+                return { status: 'pending', reference: refund.id };
+            default:
+                return {
+                    status: 'failed',
+                    reference: refund.id,
+                    failureReason: refund.failure_reason || `Refund ${refund.status}`,
+                };
+        }
+    }
+}
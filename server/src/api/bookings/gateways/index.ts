@@ -0,0 +1,51 @@
+import createHttpError from 'http-errors';
+import { config } from '../../../config/config';
+import { PaymentMethod } from '../paymentTypes';
+import { PaymentGateway } from './paymentGateway';
+import { MockGateway } from './mockGateway';
+import { CardGateway } from './cardGateway';
+import { PaypalGateway } from './paypalGateway';
+
+export * from './paymentGateway';
+export { MockGateway, CardGateway, PaypalGateway };
+
+const mockGateway = new MockGateway();
+
+/**
+ * Resolve the gateway adapter for a payment method
+ * PAYMENT_GATEWAY=mock forces the mock gateway for every method.
+ */
+export const getPaymentGateway = (method: PaymentMethod): PaymentGateway => {
+    if (config.payments.gateway === 'mock') {
+        return mockGateway;
+    }
+
+    if (method === 'card') {
+        const { secretKey } = config.payments.stripe;
+        if (!secretKey) {
+            throw createHttpError(503, 'Card payments are not configured');
+        }
+        return new CardGateway(secretKey);
+    }
+
+    if (method === 'paypal') {
+        const { clientId, clientSecret } = config.payments.paypal;
+        if (!clientId || !clientSecret) {
+            throw createHttpError(503, 'PayPal payments are not configured');
+        }
+        return new PaypalGateway(clientId, clientSecret);
+    }
+
+    throw createHttpError(400, `Unsupported payment method: ${method}`);
+};
+
+/**
+ * Resolve a gateway by the name stored on a payment intent
+ * Mock intents only settle while the mock gateway is switched on.
+ */
+export const getPaymentGatewayByName = (name: string, method: PaymentMethod): PaymentGateway => {
+    if (name === mockGateway.name && config.payments.gateway !== 'mock') {
+        throw createHttpError(400, 'This payment was made with the mock gateway, which is switched off');
+    }
+    return getPaymentGateway(method);
+};
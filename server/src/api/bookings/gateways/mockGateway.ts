@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import { GatewayChargeRequest, GatewayRefundRequest, GatewayRefundResult, GatewayResult, PaymentGateway } from './paymentGateway';
+
+/**
+ * Card tokens that the mock gateway always declines (Stripe's declining test payment methods)
+ */
+export const MOCK_DECLINED_TOKENS = ['pm_card_visa_chargeDeclined', 'pm_card_visa_chargeDeclinedInsufficientFunds'];
+
+/**
+ * Local gateway for development and tests
+ * Settles every charge and refund immediately except for the declined test cards above.
+ */
+export class MockGateway implements PaymentGateway {
+    readonly name = 'mock';
+
+    async charge(request: GatewayChargeRequest): Promise<GatewayResult> {
+        const token = request.card?.token;
+
+        if (token && MOCK_DECLINED_TOKENS.includes(token)) {
+            return {
+                status: 'failed',
+                failureReason: 'Your card was declined.',
+            };
+        }
+
+        return {
+            status: 'succeeded',
+            reference: `mock_${crypto.randomBytes(8).toString('hex')}`,
+        };
+    }
+
+    async confirm(reference: string): Promise<GatewayResult> {
+        return { status: 'succeeded', reference };
+    }
+
+    async refund(_request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+        return {
+            status: 'succeeded',
+            reference: `mock_re_${crypto.randomBytes(8).toString('hex')}`,
+        };
+    }
+}
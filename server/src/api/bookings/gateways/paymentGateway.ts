@@ -0,0 +1,76 @@
+/**
+ * Payment gateway adapter contract
+ * Every gateway (card, PayPal, mock) implements this interface so the
+ * payment service never depends on a specific provider.
+ */
+
+/**
+ * A card tokenized in the browser by the gateway's own script
+ * Card numbers and security codes never reach this server.
+ */
+export interface CardDetails {
+    // Provider-side payment method token (e.g. a Stripe payment method id)
+    token: string;
+    // Last four digits reported by the gateway, kept for receipts
+    last4?: string;
+}
+
+export interface GatewayChargeRequest {
+    paymentId: string;
+    amount: number;
+    currency: string;
+    description: string;
+    customer: {
+        name: string;
+        email: string;
+    };
+    card?: CardDetails;
+    returnUrl?: string;
+    cancelUrl?: string;
+}
+
+export interface GatewayResult {
+    status: 'succeeded' | 'requires_action' | 'failed';
+    reference?: string;
+    redirectUrl?: string;
+    failureReason?: string;
+}
+
+export interface GatewayRefundRequest {
+    // Gateway reference of the original charge
+    reference: string;
+    amount: number;
+    currency: string;
+    reason?: string;
+}
+
+export interface GatewayRefundResult {
+    status: 'succeeded' | 'pending' | 'failed';
+    reference?: string;
+    failureReason?: string;
+}
+
+export interface PaymentGateway {
+    readonly name: string;
+
+    /**
+     * Start a charge. Redirect-based gateways return `requires_action`
+     * with a redirect URL; direct gateways settle immediately.
+     */
+    charge(request: GatewayChargeRequest): Promise<GatewayResult>;
+
+    /**
+     * Complete a charge that previously returned `requires_action`
+     */
+    confirm(reference: string): Promise<GatewayResult>;
+
+    /**
+     * Return part or all of a settled charge to the customer
+     */
+    refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+}
+
+/**
+ * Convert a decimal amount to the smallest currency unit
+ */
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
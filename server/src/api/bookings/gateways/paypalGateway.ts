@@ -0,0 +1,134 @@
+import { config } from '../../../config/config';
+import { GatewayChargeRequest, GatewayRefundRequest, GatewayRefundResult, GatewayResult, PaymentGateway } from './paymentGateway';
+
+/**
+ * PayPal gateway backed by the Orders v2 REST API
+ * `charge` creates an order and returns the approval URL; `confirm`
+ * captures the order once the customer returns from PayPal. Refunds go
+ * against the order's capture.
+ */
+export class PaypalGateway implements PaymentGateway {
+    readonly name = 'paypal';
+
+    constructor(
+        private clientId: string,
+        private clientSecret: string,
+        private apiBase: string = config.payments.paypal.apiBase
+    ) { }
+
+    private async getAccessToken(): Promise<string> {
+        const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+        const response = await fetch(`${this.apiBase}/v1/oauth2/token`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Basic ${credentials}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: 'grant_type=client_credentials',
+        });
+
+        if (!response.ok) {
+            throw new Error(`PayPal authentication failed with status ${response.status}`);
+        }
+
+        const body: any = await response.json();
+        return body.access_token;
+    }
+
+    private async request(path: string, payload?: object, method: 'GET' | 'POST' = 'POST'): Promise<any> {
+        const accessToken = await this.getAccessToken();
+        const response = await fetch(`${this.apiBase}${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: payload ? JSON.stringify(payload) : undefined,
+        });
+
+        const body: any = await response.json();
+        if (!response.ok) {
+            return { error: body?.details?.[0]?.description || body?.message || `PayPal responded with ${response.status}` };
+        }
+        return body;
+    }
+
+    async charge(request: GatewayChargeRequest): Promise<GatewayResult> {
+        const order = await this.request('/v2/checkout/orders', {
+            intent: 'CAPTURE',
+            purchase_units: [
+                {
+                    reference_id: request.paymentId,
+                    description: request.description,
+                    amount: {
+                        currency_code: request.currency.toUpperCase(),
+                        value: request.amount.toFixed(2),
+                    },
+                },
+            ],
+            application_context: {
+                return_url: request.returnUrl,
+                cancel_url: request.cancelUrl,
+                user_action: 'PAY_NOW',
+            },
+        });
+
+        if (order.error) {
+            return { status: 'failed', failureReason: order.error };
+        }
+
+        const approveLink = order.links?.find((link: any) => link.rel === 'approve' || link.rel === 'payer-action');
+
+        return {
+            status: 'requires_action',
+            reference: order.id,
+            redirectUrl: approveLink?.href,
+        };
+    }
+
+    async confirm(reference: string): Promise<GatewayResult> {
+        const capture = await this.request(`/v2/checkout/orders/${encodeURIComponent(reference)}/capture`);
+
+        if (capture.error) {
+            return { status: 'failed', reference, failureReason: capture.error };
+        }
+
+        return capture.status === 'COMPLETED'
+            ? { status: 'succeeded', reference }
+            : { status: 'failed', reference, failureReason: `PayPal order ${capture.status}` };
+    }
+
+    async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+        // Payments store the order id; the refund has to target its capture
+        const order = await this.request(`/v2/checkout/orders/${encodeURIComponent(request.reference)}`, undefined, 'GET');
+        if (order.error) {
+            return { status: 'failed', failureReason: order.error };
+        }
+
+        const captureId = order.purchase_units?.[0]?.payments?.captures?.[0]?.id;
+        if (!captureId) {
+            return { status: 'failed', failureReason: 'PayPal order has no capture to refund' };
+        }
+
+        const refund = await this.request(`/v2/payments/captures/${encodeURIComponent(captureId)}/refund`, {
+            amount: {
+                currency_code: request.currency.toUpperCase(),
+                value: request.amount.toFixed(2),
+            },
+            note_to_payer: request.reason,
+        });
+
+        if (refund.error) {
+            return { status: 'failed', failureReason: refund.error };
+        }
+
+        switch (refund.status) {
+            case 'COMPLETED':
+                return { status: 'succeeded', reference: refund.id };
+            case 'PENDING':
+                return { status: 'pending', reference: refund.id };
+            default:
+                return { status: 'failed', reference: refund.id, failureReason: `PayPal refund ${refund.status}` };
+        }
+    }
+}
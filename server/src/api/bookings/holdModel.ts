@@ -0,0 +1,43 @@
+import mongoose, { Schema } from 'mongoose';
+import { SeatHold } from './holdTypes';
+
+const seatHoldSchema = new Schema<SeatHold>(
+    {
+        bookings: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: 'Booking',
+                required: true,
+            },
+        ],
+        bookingReferences: [String],
+
+        status: {
+            type: String,
+            enum: ['active', 'converted', 'released', 'expired'],
+            default: 'active',
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        convertedAt: Date,
+        releasedAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Indexes
+seatHoldSchema.index({ status: 1, expiresAt: 1 });
+seatHoldSchema.index({ bookings: 1 });
+
+const SeatHoldModel = mongoose.model<SeatHold>('SeatHold', seatHoldSchema);
+
+export default SeatHoldModel;
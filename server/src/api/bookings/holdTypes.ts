@@ -0,0 +1,19 @@
+import mongoose, { Document } from 'mongoose';
+
+export type SeatHoldStatus = 'active' | 'converted' | 'released' | 'expired';
+
+export interface SeatHold extends Document {
+    // Pending bookings whose seats are kept while the traveler checks out
+    bookings: mongoose.Types.ObjectId[];
+    bookingReferences: string[];
+
+    status: SeatHoldStatus;
+    expiresAt: Date;
+
+    user?: mongoose.Types.ObjectId;
+    convertedAt?: Date;
+    releasedAt?: Date;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -0,0 +1,41 @@
+import mongoose, { Schema } from 'mongoose';
+import { DepartureInventory } from './inventoryTypes';
+
+const departureInventorySchema = new Schema<DepartureInventory>(
+    {
+        tour: {
+            type: Schema.Types.ObjectId,
+            ref: 'Tour',
+            required: true,
+        },
+        departureId: {
+            type: String,
+            required: true,
+        },
+        departureDate: {
+            type: Date,
+            required: true,
+        },
+        capacity: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        reserved: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One inventory record per departure occurrence
+departureInventorySchema.index({ tour: 1, departureId: 1, departureDate: 1 }, { unique: true });
+departureInventorySchema.index({ tour: 1, departureDate: 1 });
+
+const DepartureInventoryModel = mongoose.model<DepartureInventory>('DepartureInventory', departureInventorySchema);
+
+export default DepartureInventoryModel;
@@ -0,0 +1,22 @@
+import mongoose, { Document } from 'mongoose';
+
+export interface DepartureInventory extends Document {
+    tour: mongoose.Types.ObjectId;
+
+    // Departure definition id ('default' / 'flexible' for tours without departures)
+    departureId: string;
+    // Start of the departure day (UTC) - one record per occurrence of a recurring departure
+    departureDate: Date;
+
+    capacity: number;
+    reserved: number;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface SeatReservation {
+    inventoryId: mongoose.Types.ObjectId;
+    departureId: string;
+    seats: number;
+}
@@ -0,0 +1,97 @@
+import mongoose, { Schema } from 'mongoose';
+import { PaymentIntent } from './paymentTypes';
+
+const paymentIntentSchema = new Schema<PaymentIntent>(
+    {
+        // Bookings covered by this payment
+        allocations: [
+            {
+                booking: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'Booking',
+                    required: true,
+                },
+                bookingReference: {
+                    type: String,
+                    required: true,
+                },
+                amount: {
+                    type: Number,
+                    required: true,
+                    min: 0,
+                },
+                _id: false,
+            },
+        ],
+        amount: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        currency: {
+            type: String,
+            required: true,
+            default: 'USD',
+        },
+
+        // Gateway details
+        method: {
+            type: String,
+            enum: ['card', 'paypal'],
+            required: true,
+        },
+        gateway: {
+            type: String,
+            required: true,
+        },
+        gatewayReference: String,
+        redirectUrl: String,
+
+        status: {
+            type: String,
+            enum: ['processing', 'requires_action', 'succeeded', 'failed', 'cancelled'],
+            default: 'processing',
+        },
+        failureReason: String,
+
+        // Seat hold the checkout ran under
+        hold: {
+            type: Schema.Types.ObjectId,
+            ref: 'SeatHold',
+        },
+
+        // Payer information
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        contactInfo: {
+            firstName: String,
+            lastName: String,
+            email: String,
+            phone: String,
+        },
+        // Guest payers reach their payment with a token; only its hash is stored
+        accessTokenHash: {
+            type: String,
+            select: false,
+        },
+        // Only the last four digits are kept - card data is never stored
+        cardLast4: String,
+
+        succeededAt: Date,
+        failedAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Indexes
+paymentIntentSchema.index({ 'allocations.booking': 1 });
+paymentIntentSchema.index({ gateway: 1, gatewayReference: 1 });
+paymentIntentSchema.index({ status: 1 });
+
+const PaymentIntentModel = mongoose.model<PaymentIntent>('PaymentIntent', paymentIntentSchema);
+
+export default PaymentIntentModel;
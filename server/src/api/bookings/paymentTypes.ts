@@ -0,0 +1,55 @@
+import mongoose, { Document } from 'mongoose';
+
+export type PaymentMethod = 'card' | 'paypal';
+
+export type PaymentIntentStatus =
+    | 'processing'
+    | 'requires_action'
+    | 'succeeded'
+    | 'failed'
+    | 'cancelled';
+
+export interface PaymentAllocation {
+    booking: mongoose.Types.ObjectId;
+    bookingReference: string;
+    amount: number;
+}
+
+export interface PaymentContactInfo {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+}
+
+export interface PaymentIntent extends Document {
+    // Bookings covered by this payment and the amount applied to each
+    allocations: PaymentAllocation[];
+    amount: number;
+    currency: string;
+
+    // Gateway details
+    method: PaymentMethod;
+    gateway: string;
+    gatewayReference?: string;
+    redirectUrl?: string;
+
+    status: PaymentIntentStatus;
+    failureReason?: string;
+
+    // Seat hold the checkout ran under
+    hold?: mongoose.Types.ObjectId;
+
+    // Payer information
+    user?: mongoose.Types.ObjectId;
+    contactInfo: PaymentContactInfo;
+    // Guest payers reach their payment with a token; only its hash is stored
+    accessTokenHash?: string;
+    cardLast4?: string;
+
+    succeededAt?: Date;
+    failedAt?: Date;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
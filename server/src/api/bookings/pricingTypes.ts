@@ -0,0 +1,35 @@
+import { AddOnSelection, BookingAddOn, BookingParticipants, BookingPricing } from './bookingTypes';
+
+export type PriceLineItemType = 'traveler' | 'discount' | 'addOn' | 'promo' | 'tax';
+
+// One line of a price breakdown; discounts are negative
+export interface PriceLineItem {
+    type: PriceLineItemType;
+    // Traveler category ('adult', 'child', 'infant', 'group') or add-on category
+    category?: string;
+    label: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+}
+
+export interface PriceQuoteInput {
+    participants: BookingParticipants;
+    pricingOptionId?: string;
+    // Add-ons chosen by the traveler, priced from the tour
+    addOns?: AddOnSelection[];
+    // Add-ons already booked, kept at the price they were booked at
+    bookedAddOns?: BookingAddOn[];
+    // Currency to charge in; the tour's price currency when not given
+    currency?: string;
+    // Rate from the price currency to `currency`; today's rate when not given
+    exchangeRate?: number;
+    // Tax percentage; the configured rate when not given
+    taxRate?: number;
+}
+
+export interface PriceQuote {
+    pricing: BookingPricing;
+    addOns: BookingAddOn[];
+    lineItems: PriceLineItem[];
+}
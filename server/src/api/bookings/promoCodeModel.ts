@@ -0,0 +1,113 @@
+import mongoose, { Schema } from 'mongoose';
+import { PromoCode } from './promoCodeTypes';
+import { config } from '../../config/config';
+
+const promoCodeSchema = new Schema<PromoCode>(
+    {
+        code: {
+            type: String,
+            required: true,
+            uppercase: true,
+            trim: true,
+        },
+        description: String,
+
+        // Discount rules
+        discountType: {
+            type: String,
+            enum: ['percentage', 'fixed'],
+            required: true,
+        },
+        discountValue: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        maxDiscountAmount: {
+            type: Number,
+            min: 0,
+        },
+        minPurchaseAmount: {
+            type: Number,
+            min: 0,
+        },
+        // Currency of discountValue (fixed codes), maxDiscountAmount and minPurchaseAmount
+        currency: {
+            type: String,
+            uppercase: true,
+            trim: true,
+            match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code'],
+            default: () => config.payments.defaultCurrency,
+        },
+
+        // Validity window
+        startDate: {
+            type: Date,
+            required: true,
+        },
+        endDate: {
+            type: Date,
+            required: true,
+        },
+
+        // Usage limits
+        maxUses: {
+            type: Number,
+            min: 1,
+        },
+        currentUses: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+
+        // Applicability
+        scope: {
+            type: String,
+            enum: ['global', 'tour', 'seller'],
+            default: 'global',
+        },
+        applicableTours: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: 'Tour',
+            },
+        ],
+        seller: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Indexes
+promoCodeSchema.index({ code: 1 }, { unique: true });
+promoCodeSchema.index({ createdBy: 1 });
+promoCodeSchema.index({ isActive: 1, endDate: 1 });
+
+promoCodeSchema.pre('validate', function (next) {
+    if (this.discountType === 'percentage' && this.discountValue > 100) {
+        this.invalidate('discountValue', 'Percentage discount cannot exceed 100');
+    }
+    if (this.startDate && this.endDate && this.endDate < this.startDate) {
+        this.invalidate('endDate', 'End date must be after start date');
+    }
+    next();
+});
+
+const PromoCodeModel = mongoose.model<PromoCode>('PromoCode', promoCodeSchema);
+
+export default PromoCodeModel;
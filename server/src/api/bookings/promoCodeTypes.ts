@@ -0,0 +1,47 @@
+import mongoose, { Document } from 'mongoose';
+
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+// global: any tour, tour: only applicableTours, seller: any tour authored by seller
+export type PromoCodeScope = 'global' | 'tour' | 'seller';
+
+export interface PromoCode extends Document {
+    code: string;
+    description?: string;
+
+    // Discount rules
+    discountType: PromoDiscountType;
+    discountValue: number;
+    maxDiscountAmount?: number;
+    minPurchaseAmount?: number;
+    // ISO 4217 code the fixed amounts above are in; converted to the booking's currency when applied
+    currency: string;
+
+    // Validity window
+    startDate: Date;
+    endDate: Date;
+
+    // Usage limits (maxUses unset = unlimited)
+    maxUses?: number;
+    currentUses: number;
+    isActive: boolean;
+
+    // Applicability
+    scope: PromoCodeScope;
+    applicableTours: mongoose.Types.ObjectId[];
+    seller?: mongoose.Types.ObjectId;
+
+    createdBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface AppliedPromoCode {
+    promoCodeId: mongoose.Types.ObjectId;
+    code: string;
+    discountType: PromoDiscountType;
+    // For fixed discounts, in `currency` (the booking's currency when it was redeemed)
+    discountValue: number;
+    discountAmount: number;
+    currency?: string;
+}
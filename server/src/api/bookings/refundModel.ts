@@ -0,0 +1,82 @@
+import mongoose, { Schema } from 'mongoose';
+import { Refund } from './refundTypes';
+
+const refundSchema = new Schema<Refund>(
+    {
+        booking: {
+            type: Schema.Types.ObjectId,
+            ref: 'Booking',
+            required: true,
+        },
+        bookingReference: {
+            type: String,
+            required: true,
+        },
+        // Payment the money goes back to (absent for manual refunds)
+        payment: {
+            type: Schema.Types.ObjectId,
+            ref: 'PaymentIntent',
+        },
+
+        type: {
+            type: String,
+            enum: ['cancellation', 'amendment', 'late-payment'],
+            default: 'cancellation',
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        currency: {
+            type: String,
+            required: true,
+            default: 'USD',
+        },
+
+        // Policy terms a cancellation refund was calculated with
+        refundPercentage: {
+            type: Number,
+            min: 0,
+            max: 100,
+        },
+        daysBeforeDeparture: Number,
+        appliedTier: {
+            daysBeforeDeparture: Number,
+            refundPercentage: Number,
+        },
+
+        method: {
+            type: String,
+            enum: ['gateway', 'manual'],
+            required: true,
+        },
+        gateway: String,
+        gatewayReference: String,
+        status: {
+            type: String,
+            enum: ['pending', 'succeeded', 'failed'],
+            default: 'pending',
+        },
+        failureReason: String,
+
+        reason: String,
+        requestedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        processedAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Indexes
+refundSchema.index({ booking: 1 });
+refundSchema.index({ payment: 1 });
+refundSchema.index({ status: 1 });
+
+const RefundModel = mongoose.model<Refund>('Refund', refundSchema);
+
+export default RefundModel;
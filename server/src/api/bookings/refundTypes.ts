@@ -0,0 +1,55 @@
+import mongoose, { Document } from 'mongoose';
+import { CancellationTier } from '../tours/tourTypes';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+// `late-payment` returns a charge that completed after its booking had been cancelled
+export type RefundType = 'cancellation' | 'amendment' | 'late-payment';
+
+// `gateway` refunds go back through the payment provider, `manual` ones are settled by the operator
+export type RefundMethod = 'gateway' | 'manual';
+
+export interface RefundQuote {
+    bookingId: string;
+    bookingReference: string;
+    cancellable: boolean;
+    daysBeforeDeparture: number;
+    policy: {
+        tiers: CancellationTier[];
+        description?: string;
+        isDefault: boolean;
+    };
+    appliedTier: CancellationTier | null;
+    refundPercentage: number;
+    paidAmount: number;
+    refundAmount: number;
+    currency: string;
+}
+
+export interface Refund extends Document {
+    booking: mongoose.Types.ObjectId;
+    bookingReference: string;
+    payment?: mongoose.Types.ObjectId;
+
+    type: RefundType;
+    amount: number;
+    currency: string;
+
+    // Policy terms a cancellation refund was calculated with
+    refundPercentage?: number;
+    daysBeforeDeparture?: number;
+    appliedTier?: CancellationTier;
+
+    method: RefundMethod;
+    gateway?: string;
+    gatewayReference?: string;
+    status: RefundStatus;
+    failureReason?: string;
+
+    reason?: string;
+    requestedBy?: mongoose.Types.ObjectId;
+    processedAt?: Date;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -0,0 +1,322 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import BookingModel from '../bookingModel';
+import PromoCodeModel from '../promoCodeModel';
+import { AmendableField, Booking, BookingParticipants, TravelerInfo } from '../bookingTypes';
+import { PriceQuote } from '../pricingTypes';
+import { SeatReservation } from '../inventoryTypes';
+import { BaseService } from '../../../services/BaseService';
+import { normalizeDoc } from '../../../utils/normalizeDoc';
+import { logger } from '../../../utils/logger';
+import Tour from '../../tours/tourModel';
+import { getPriceCurrency } from '../../tours/utils/tourCurrency';
+import { CurrencyService } from '../../currencies/services/currencyService';
+import { Tour as TourDocument } from '../../tours/tourTypes';
+import { InventoryService } from './inventoryService';
+import { PricingService } from './pricingService';
+import { PromoCodeService } from './promoCodeService';
+import { RefundService } from './refundService';
+
+export interface AmendBookingInput {
+    departureDate?: string | Date;
+    participants?: Partial<BookingParticipants>;
+    travelers?: TravelerInfo[];
+    reason?: string;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const sameParticipants = (a: Partial<BookingParticipants>, b: Partial<BookingParticipants>) =>
+    (a.adults || 0) === (b.adults || 0)
+    && (a.children || 0) === (b.children || 0)
+    && (a.infants || 0) === (b.infants || 0);
+
+/**
+ * Booking Amendment Service
+ * Moves a booking to another date or party size (re-reserving seats and
+ * repricing it from the tour) and records every change on the booking.
+ */
+export class AmendmentService extends BaseService<Booking> {
+    private static instance: AmendmentService;
+
+    constructor() {
+        super(BookingModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): AmendmentService {
+        if (!AmendmentService.instance) {
+            AmendmentService.instance = new AmendmentService();
+        }
+        return AmendmentService.instance;
+    }
+
+    /**
+     * Exchange rate to reprice a booking with: the one locked when it was made
+     * Only if the tour has since moved to another price currency is today's rate used.
+     */
+    private async getBookingRate(tour: TourDocument, booking: Booking) {
+        const { currency, priceCurrency = currency, exchangeRate = 1, rateLockedAt } = booking.pricing;
+        const tourCurrency = getPriceCurrency(tour, booking.pricingOptionId);
+
+        if (tourCurrency === priceCurrency) {
+            return { priceCurrency, exchangeRate, rateLockedAt };
+        }
+        return {
+            priceCurrency: tourCurrency,
+            exchangeRate: await CurrencyService.getRate(tourCurrency, currency),
+            rateLockedAt: new Date(),
+        };
+    }
+
+    /**
+     * Re-apply the booking's promo code to a new quote
+     */
+    private async applyPromoCode(booking: Booking, quote: PriceQuote): Promise<PriceQuote> {
+        if (!booking.promoCode) {
+            return quote;
+        }
+
+        const promoCodes = PromoCodeService.getInstance();
+        const { currency } = quote.pricing;
+
+        // Use the code's current cap when it still exists
+        const promo = await PromoCodeModel.findById(booking.promoCode.promoCodeId).lean();
+        const cap = promo ? (await promoCodes.convertTerms(promo, currency)).maxDiscountAmount : undefined;
+
+        const applied = await promoCodes.convertTerms({
+            discountType: booking.promoCode.discountType,
+            discountValue: booking.promoCode.discountValue,
+            // Bookings from before codes had a currency kept the code's own value
+            currency: booking.promoCode.currency || promo?.currency,
+        }, currency);
+        const discountAmount = promoCodes.calculateDiscount({ ...applied, maxDiscountAmount: cap }, quote.pricing.subtotal || 0);
+
+        return PricingService.applyPromoDiscount(quote, booking.promoCode.code, discountAmount);
+    }
+
+    /**
+     * Check the requested changes and work out which fields actually change
+     */
+    private parseChanges(booking: Booking, input: AmendBookingInput) {
+        const changedFields: AmendableField[] = [];
+        let departureDate = booking.departureDate;
+        let participants: BookingParticipants = {
+            adults: booking.participants.adults,
+            children: booking.participants.children || 0,
+            infants: booking.participants.infants || 0,
+        };
+        let travelers = booking.travelers;
+
+        if (input.departureDate !== undefined) {
+            const date = new Date(input.departureDate);
+            if (isNaN(date.getTime())) {
+                throw createHttpError(400, 'Invalid departure date');
+            }
+            if (date <= new Date()) {
+                throw createHttpError(400, 'The new departure date must be in the future');
+            }
+            if (date.getTime() !== new Date(booking.departureDate).getTime()) {
+                departureDate = date;
+                changedFields.push('departureDate');
+            }
+        }
+
+        if (input.participants !== undefined) {
+            const requested = {
+                adults: Number(input.participants.adults ?? participants.adults),
+                children: Number(input.participants.children ?? participants.children),
+                infants: Number(input.participants.infants ?? participants.infants),
+            };
+            const counts = Object.values(requested);
+            if (counts.some(count => !Number.isInteger(count) || count < 0) || requested.adults < 1) {
+                throw createHttpError(400, 'Participants must be whole numbers with at least one adult');
+            }
+            if (!sameParticipants(requested, participants)) {
+                participants = requested;
+                changedFields.push('participants');
+            }
+        }
+
+        if (input.travelers !== undefined) {
+            if (!Array.isArray(input.travelers)) {
+                throw createHttpError(400, 'Travelers must be a list');
+            }
+            travelers = input.travelers;
+            changedFields.push('travelers');
+        }
+
+        if (changedFields.length === 0) {
+            throw createHttpError(400, 'No changes requested');
+        }
+
+        return { changedFields, departureDate, participants, travelers };
+    }
+
+    /**
+     * Change the date, party size or travelers of a booking
+     * Seats move to the new departure first, so a full departure rejects the
+     * amendment with a 409 and the booking stays as it was.
+     */
+    async amendBooking(bookingId: string, input: AmendBookingInput, amendedBy?: string) {
+        if (!mongoose.Types.ObjectId.isValid(bookingId)) {
+            throw createHttpError(400, 'Invalid booking ID');
+        }
+
+        const booking = await BookingModel.findById(bookingId);
+        if (!booking) {
+            throw createHttpError(404, 'Booking not found');
+        }
+
+        if (!['pending', 'confirmed'].includes(booking.status)) {
+            throw createHttpError(400, `A ${booking.status} booking cannot be changed`);
+        }
+        if (new Date(booking.departureDate) <= new Date()) {
+            throw createHttpError(400, 'A booking cannot be changed after departure');
+        }
+        if (booking.status === 'pending' && booking.expiresAt && booking.expiresAt <= new Date()) {
+            throw createHttpError(410, 'This booking has expired. Please book again.');
+        }
+
+        const { changedFields, departureDate, participants, travelers } = this.parseChanges(booking, input);
+        const repriced = changedFields.includes('departureDate') || changedFields.includes('participants');
+        const previousTotal = booking.pricing.totalPrice;
+
+        let reservation: SeatReservation | undefined;
+        let pricing = booking.pricing;
+
+        if (repriced) {
+            const tour = await Tour.findById(booking.tour);
+            if (!tour) {
+                throw createHttpError(404, 'Tour not found');
+            }
+
+            reservation = await InventoryService.moveReservation(
+                { inventoryId: booking.inventory, seats: booking.reservedSeats },
+                {
+                    tourId: booking.tour.toString(),
+                    departureDate,
+                    participants,
+                    pricingOptionId: booking.pricingOptionId,
+                }
+            );
+
+            // Reprice at the booking's locked rate and tax; booked add-ons keep the price they were booked at
+            const rate = await this.getBookingRate(tour, booking);
+            const quote = await this.applyPromoCode(booking, await PricingService.quote(tour, {
+                participants,
+                pricingOptionId: booking.pricingOptionId,
+                bookedAddOns: booking.addOns || [],
+                currency: booking.pricing.currency,
+                exchangeRate: rate.exchangeRate,
+                taxRate: booking.pricing.taxRate || 0,
+            }));
+            pricing = { ...quote.pricing, ...rate };
+        }
+
+        const newTotal = pricing.totalPrice;
+        const paidAmount = booking.paidAmount || 0;
+        const refundAmount = roundCurrency(Math.max(0, paidAmount - newTotal));
+        const remainingPaid = paidAmount - refundAmount;
+        const paymentStatus = remainingPaid <= 0
+            ? 'unpaid'
+            : remainingPaid >= newTotal ? 'paid' : 'partial';
+
+        const update: Record<string, any> = {
+            departureDate,
+            participants,
+            travelers,
+            pricing,
+            paidAmount: remainingPaid,
+            paymentStatus,
+        };
+        if (reservation) {
+            update.inventory = reservation.inventoryId;
+            update.departureId = reservation.departureId;
+            update.reservedSeats = reservation.seats;
+        }
+        if (booking.promoCode && pricing.discountAmount !== undefined) {
+            update['promoCode.discountAmount'] = pricing.discountAmount;
+        }
+
+        // Only apply on top of the version we priced, so concurrent changes can't interleave
+        let amended;
+        try {
+            amended = await BookingModel.findOneAndUpdate(
+                { _id: bookingId, status: booking.status, updatedAt: booking.updatedAt },
+                {
+                    $set: update,
+                    $push: {
+                        amendments: {
+                            changedFields,
+                            previous: {
+                                departureDate: booking.departureDate,
+                                participants: booking.participants,
+                                travelers: booking.travelers,
+                                totalPrice: previousTotal,
+                            },
+                            newTotal,
+                            priceDifference: roundCurrency(newTotal - previousTotal),
+                            reason: input.reason,
+                            amendedBy,
+                            amendedAt: new Date(),
+                        }
+                    }
+                },
+                { new: true, runValidators: true }
+            );
+        } catch (error: any) {
+            await this.restoreReservation(booking, reservation);
+            if (error.name === 'ValidationError') {
+                throw createHttpError(400, `Validation error: ${error.message}`);
+            }
+            throw error;
+        }
+
+        if (!amended) {
+            await this.restoreReservation(booking, reservation);
+            throw createHttpError(409, 'The booking was changed by someone else. Please reload and try again.');
+        }
+
+        if (refundAmount > 0) {
+            await RefundService.issueAmendmentRefund(booking, refundAmount, {
+                reason: input.reason || 'Booking amended',
+                requestedBy: amendedBy,
+            });
+        }
+
+        const result = await BookingModel.findById(bookingId).populate('tour', 'title code');
+        return normalizeDoc(result);
+    }
+
+    /**
+     * Put the seats back where they were after an amendment failed to save
+     */
+    private async restoreReservation(booking: Booking, reservation?: SeatReservation) {
+        if (!reservation) return;
+
+        try {
+            await InventoryService.moveReservation(
+                { inventoryId: reservation.inventoryId, seats: reservation.seats },
+                {
+                    tourId: booking.tour.toString(),
+                    departureDate: booking.departureDate,
+                    participants: booking.participants,
+                    pricingOptionId: booking.pricingOptionId,
+                }
+            );
+        } catch (error: any) {
+            logger.error('Could not restore seats after a failed amendment', {
+                bookingReference: booking.bookingReference,
+                error: error.message,
+            });
+        }
+    }
+
+    // Static accessors used by the controllers
+    static async amendBooking(bookingId: string, input: AmendBookingInput, amendedBy?: string) {
+        return AmendmentService.getInstance().amendBooking(bookingId, input, amendedBy);
+    }
+}
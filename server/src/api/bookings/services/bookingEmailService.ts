@@ -0,0 +1,174 @@
+import mongoose from 'mongoose';
+import BookingModel from '../bookingModel';
+import { Booking } from '../bookingTypes';
+import { config } from '../../../config/config';
+import { logger } from '../../../utils/logger';
+import {
+    BookingEmailData,
+    sendBookingConfirmationEmail,
+    sendBookingStatusEmail,
+    sendDepartureReminderEmail,
+    sendPaymentReceiptEmail,
+} from '../../../controller/bookingEmails';
+import { BookingService } from './bookingService';
+
+// Reminders sent per run so a backlog can't block the event loop
+const REMINDER_BATCH_SIZE = 100;
+
+const toEmailData = (booking: Booking): BookingEmailData => ({
+    id: String(booking._id),
+    bookingReference: booking.bookingReference,
+    tourTitle: booking.tourTitle,
+    departureDate: booking.departureDate,
+    participants: booking.participants,
+    contactName: booking.contactName,
+    contactEmail: booking.contactEmail,
+    status: booking.status,
+    paymentStatus: booking.paymentStatus,
+    pricing: booking.pricing,
+    paidAmount: booking.paidAmount,
+    refundedAmount: booking.refundedAmount,
+    transactionId: booking.transactionId,
+    cancellationReason: booking.cancellationReason,
+});
+
+/**
+ * Booking Email Service
+ * Emails the lead contact as a booking moves through its lifecycle.
+ * Sending is best effort: a failed email is logged and never fails the request.
+ */
+export class BookingEmailService {
+    private static instance: BookingEmailService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): BookingEmailService {
+        if (!BookingEmailService.instance) {
+            BookingEmailService.instance = new BookingEmailService();
+        }
+        return BookingEmailService.instance;
+    }
+
+    /**
+     * Load a booking and send one email for it, logging instead of throwing
+     */
+    private async deliver(
+        bookingId: string,
+        kind: string,
+        send: (booking: Booking) => Promise<unknown>
+    ): Promise<boolean> {
+        try {
+            const booking = await BookingModel.findById(bookingId);
+            if (!booking) {
+                logger.warn('Booking email skipped, booking not found', { kind, bookingId });
+                return false;
+            }
+
+            await send(booking);
+            return true;
+        } catch (error: any) {
+            logger.warn('Could not send booking email', { kind, bookingId, error: error.message });
+            return false;
+        }
+    }
+
+    /**
+     * Email the booking details with the voucher attached
+     */
+    async sendBookingConfirmation(bookingId: string) {
+        return this.deliver(bookingId, 'confirmation', async (booking) => {
+            const voucher = await BookingService.generateVoucher(bookingId);
+            await sendBookingConfirmationEmail(toEmailData(booking), voucher);
+        });
+    }
+
+    /**
+     * Email the traveler after the seller confirmed or cancelled their booking
+     */
+    async sendStatusChange(bookingId: string) {
+        return this.deliver(bookingId, 'status', async (booking) => {
+            if (booking.status !== 'confirmed' && booking.status !== 'cancelled') {
+                return;
+            }
+            await sendBookingStatusEmail(toEmailData(booking));
+        });
+    }
+
+    /**
+     * Email a receipt for the payment recorded on a booking
+     */
+    async sendPaymentReceipt(bookingId: string) {
+        return this.deliver(bookingId, 'receipt', async (booking) => {
+            await sendPaymentReceiptEmail(toEmailData(booking));
+        });
+    }
+
+    /**
+     * Remind travelers of confirmed bookings departing within the configured number of days
+     * Each booking is claimed before sending so it is only reminded once.
+     */
+    async sendDueReminders() {
+        const now = new Date();
+        const horizon = new Date(now.getTime() + config.mail.reminderDaysBeforeDeparture * 24 * 60 * 60 * 1000);
+        const dueFilter = {
+            status: 'confirmed',
+            departureDate: { $gte: now, $lte: horizon },
+            reminderSentAt: { $exists: false },
+        };
+
+        const candidates = await BookingModel.find(dueFilter)
+            .select('_id')
+            .sort({ departureDate: 1 })
+            .limit(REMINDER_BATCH_SIZE)
+            .lean();
+
+        let sent = 0;
+        for (const candidate of candidates) {
+            const booking = await BookingModel.findOneAndUpdate(
+                { _id: candidate._id, ...dueFilter },
+                { reminderSentAt: now },
+                { new: true }
+            );
+            if (!booking) continue;
+
+            try {
+                await sendDepartureReminderEmail(toEmailData(booking));
+                sent++;
+            } catch (error: any) {
+                // Release the claim so the next run tries again
+                await BookingModel.updateOne(
+                    { _id: booking._id as mongoose.Types.ObjectId },
+                    { $unset: { reminderSentAt: 1 } }
+                );
+                logger.warn('Could not send departure reminder', {
+                    bookingId: String(booking._id),
+                    error: error.message,
+                });
+            }
+        }
+
+        if (sent > 0) {
+            logger.info('Departure reminders sent', { sent });
+        }
+
+        return { sent };
+    }
+
+    // Static accessors used by the controllers and the reminder job
+    static async sendBookingConfirmation(bookingId: string) {
+        return BookingEmailService.getInstance().sendBookingConfirmation(bookingId);
+    }
+
+    static async sendStatusChange(bookingId: string) {
+        return BookingEmailService.getInstance().sendStatusChange(bookingId);
+    }
+
+    static async sendPaymentReceipt(bookingId: string) {
+        return BookingEmailService.getInstance().sendPaymentReceipt(bookingId);
+    }
+
+    static async sendDueReminders() {
+        return BookingEmailService.getInstance().sendDueReminders();
+    }
+}
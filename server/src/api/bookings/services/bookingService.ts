@@ -1,10 +1,17 @@
-import mongoose from 'mongoose';
+import mongoose, { FilterQuery } from 'mongoose';
 import BookingModel from '../bookingModel';
-import { Booking } from '../bookingTypes';
+import { AddOnSelection, Booking, BookingParticipants } from '../bookingTypes';
 import { PaginationParams, paginate } from '../../../utils/pagination';
 import { normalizeDoc } from '../../../utils/normalizeDoc';
 import createHttpError from 'http-errors';
 import { BaseService } from '../../../services/BaseService';
+import { config } from '../../../config/config';
+import { PromoCodeService } from './promoCodeService';
+import { InventoryService } from './inventoryService';
+import { PricingService, TOUR_PRICING_FIELDS } from './pricingService';
+import { RefundService } from './refundService';
+import { renderVoucherPdf, VoucherData, VoucherOperator } from './voucherPdf';
+import { AuthUser } from '../../../types/express';
 import Tour from '../../tours/tourModel';
 
 /**
@@ -32,85 +39,147 @@ export class BookingService extends BaseService<Booking> {
      * Check tour availability for a specific date
      */
     async checkAvailability(tourId: string, departureDate: Date): Promise<{ available: boolean; remainingCapacity: number }> {
+        return InventoryService.getAvailability(tourId, departureDate);
+    }
+
+    /**
+     * Create a new booking, reserving its seats on the departure inventory
+     * The booking is priced by the pricing engine, chosen add-ons included,
+     * and a supplied promo code is redeemed against its subtotal.
+     */
+    async createBooking(bookingData: Partial<Booking>, promoCode?: string, addOns?: AddOnSelection[]): Promise<Booking> {
+        // Validate required fields
+        if (!bookingData.tour || !bookingData.departureDate) {
+            throw createHttpError(400, 'Tour and departure date are required');
+        }
+
+        // Reserve seats first - this fails atomically when the departure is full
+        const reservation = await InventoryService.reserveSeats({
+            tourId: bookingData.tour.toString(),
+            departureDate: bookingData.departureDate,
+            participants: bookingData.participants as BookingParticipants,
+            pricingOptionId: bookingData.pricingOptionId,
+        });
+
+        bookingData.inventory = reservation.inventoryId;
+        bookingData.departureId = reservation.departureId;
+        bookingData.reservedSeats = reservation.seats;
+
         try {
-            // Get tour details
-            const tour = await Tour.findById(tourId);
+            // Generate booking reference if not provided
+            if (!bookingData.bookingReference) {
+                const timestamp = Date.now().toString(36).toUpperCase();
+                const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+                bookingData.bookingReference = `BK-${timestamp}-${random}`;
+            }
+
+            // The price always comes from the tour; the client only picks the currency to pay in
+            const tour = await Tour.findById(bookingData.tour).select(TOUR_PRICING_FIELDS).lean();
             if (!tour) {
                 throw createHttpError(404, 'Tour not found');
             }
 
-            // Get existing bookings for this tour and date
-            const existingBookings = await BookingModel.find({
-                tour: tourId,
-                departureDate: {
-                    $gte: new Date(departureDate.setHours(0, 0, 0, 0)),
-                    $lt: new Date(departureDate.setHours(23, 59, 59, 999))
-                },
-                status: { $in: ['pending', 'confirmed'] }
+            let quote = await PricingService.quote(tour, {
+                participants: bookingData.participants as BookingParticipants,
+                pricingOptionId: bookingData.pricingOptionId,
+                addOns,
+                currency: bookingData.pricing?.currency,
             });
 
-            // Calculate total booked participants
-            const totalBooked = existingBookings.reduce((sum, booking) => {
-                return sum + (booking.participants?.adults || 0) + (booking.participants?.children || 0);
-            }, 0);
+            // Redeem promo code against the booking subtotal
+            if (promoCode) {
+                const applied = await PromoCodeService.redeemPromoCode(promoCode, {
+                    tourId: bookingData.tour.toString(),
+                    amount: quote.pricing.subtotal as number,
+                    currency: quote.pricing.currency,
+                });
+
+                bookingData.promoCode = applied;
+                quote = PricingService.applyPromoDiscount(quote, applied.code, applied.discountAmount);
+            }
+
+            bookingData.pricing = quote.pricing;
+            bookingData.addOns = quote.addOns;
 
-            // Check against tour capacity
-            const maxCapacity = tour.maxSize || 10;
-            const remainingCapacity = maxCapacity - totalBooked;
+            // Unpaid bookings only keep their seats for a while
+            bookingData.expiresAt = new Date(Date.now() + config.holds.pendingBookingMinutes * 60 * 1000);
 
-            return {
-                available: remainingCapacity > 0,
-                remainingCapacity: Math.max(0, remainingCapacity)
-            };
+            return await this.create(bookingData);
         } catch (error: any) {
-            console.error('Error checking availability:', error);
+            // Hand back everything reserved for a booking that was never saved
+            await InventoryService.releaseSeats(reservation.inventoryId, reservation.seats);
+            if (bookingData.promoCode) {
+                await PromoCodeService.releasePromoCode(bookingData.promoCode.promoCodeId);
+            }
+            console.error('Error creating booking:', error);
             throw error;
         }
     }
 
     /**
-     * Create a new booking with availability check
+     * Tours a seller is one of the authors of
      */
-    async createBooking(bookingData: Partial<Booking>): Promise<Booking> {
-        try {
-            // Validate required fields
-            if (!bookingData.tour || !bookingData.departureDate) {
-                throw createHttpError(400, 'Tour and departure date are required');
-            }
+    async getSellerTourIds(sellerId: string): Promise<mongoose.Types.ObjectId[]> {
+        return Tour.find({ author: sellerId }).distinct('_id');
+    }
+
+    /**
+     * Restrict a booking query to what the actor may see
+     * Admins see every booking; sellers only bookings for tours they author.
+     */
+    async scopeBookingQuery(actor: AuthUser, query: FilterQuery<Booking> = {}): Promise<FilterQuery<Booking>> {
+        if (actor.roles.includes('admin')) {
+            return query;
+        }
 
-            // Check availability
-            const totalParticipants = (bookingData.participants?.adults || 0) + (bookingData.participants?.children || 0);
-            const availability = await this.checkAvailability(
-                bookingData.tour.toString(),
-                new Date(bookingData.departureDate)
-            );
+        const tourIds = await this.getSellerTourIds(actor.id);
+        return { $and: [query, { tour: { $in: tourIds } }] };
+    }
 
-            if (!availability.available || availability.remainingCapacity < totalParticipants) {
-                throw createHttpError(400, `Insufficient capacity. Only ${availability.remainingCapacity} spots remaining.`);
-            }
+    /**
+     * Whether the actor may manage a booking: admins, the seller of the
+     * booked tour, or the traveler who made it
+     */
+    async canManageBooking(booking: any, actor?: AuthUser): Promise<boolean> {
+        if (!actor) return false;
 
-            // Generate booking reference if not provided
-            if (!bookingData.bookingReference) {
-                const timestamp = Date.now().toString(36).toUpperCase();
-                const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-                bookingData.bookingReference = `BK-${timestamp}-${random}`;
-            }
+        const ownerId = booking.user?.id || booking.user?._id || booking.user;
+        if (ownerId && ownerId.toString() === actor.id) return true;
 
-            // Create booking
-            const booking = await this.create(bookingData);
+        return this.canOperateBooking(booking, actor);
+    }
 
-            return booking;
-        } catch (error: any) {
-            console.error('Error creating booking:', error);
-            throw error;
+    /**
+     * Whether the actor runs the booked tour: admins or the tour's seller.
+     * Travelers - sellers booking someone else's tour included - do not.
+     */
+    async canOperateBooking(booking: any, actor?: AuthUser): Promise<boolean> {
+        if (!actor) return false;
+        if (actor.roles.includes('admin')) return true;
+
+        if (actor.roles.includes('seller')) {
+            const tourId = booking.tour?.id || booking.tour?._id || booking.tour;
+            return (await Tour.exists({ _id: tourId, author: actor.id })) !== null;
         }
+
+        return false;
     }
 
     /**
-     * Get all bookings with filtering and pagination
+     * Get bookings the actor may see, with filtering and pagination
      */
-    async getAllBookings(filters: any = {}, paginationParams: PaginationParams) {
-        const result = await paginate(BookingModel, filters, paginationParams);
+    async getAllBookings(actor: AuthUser, filters: any = {}, paginationParams: PaginationParams) {
+        // The dashboard filters by `tourId`; bookings store it as `tour`
+        const { tourId, ...rest } = filters;
+        if (tourId) {
+            if (!mongoose.Types.ObjectId.isValid(tourId)) {
+                throw createHttpError(400, 'Invalid tour ID');
+            }
+            rest.tour = tourId;
+        }
+
+        const query = await this.scopeBookingQuery(actor, rest);
+        const result = await paginate(BookingModel, query, paginationParams);
 
         // Populate tour and user information
         if (result.items && result.items.length > 0) {
@@ -147,6 +216,32 @@ export class BookingService extends BaseService<Booking> {
         return normalizeDoc(booking);
     }
 
+    /**
+     * Load several bookings referenced by id or booking reference (cart items)
+     * Throws a 404 unless every item matches a booking.
+     */
+    async findBookingsByReferences(items: Array<{ id?: string; _id?: string; bookingReference?: string }>) {
+        const ids = items
+            .map(item => item.id || item._id)
+            .filter((id): id is string => !!id && mongoose.Types.ObjectId.isValid(id));
+        const references = items
+            .map(item => item.bookingReference)
+            .filter((reference): reference is string => !!reference);
+
+        const bookings = await BookingModel.find({
+            $or: [
+                { _id: { $in: ids } },
+                { bookingReference: { $in: references } }
+            ]
+        });
+
+        if (bookings.length !== items.length) {
+            throw createHttpError(404, 'One or more bookings could not be found');
+        }
+
+        return bookings;
+    }
+
     /**
      * Get booking by reference
      */
@@ -213,8 +308,20 @@ export class BookingService extends BaseService<Booking> {
 
     /**
      * Update booking status
+     * Cancelling goes through cancelBooking, so the cancellation policy and refunds apply.
      */
-    async updateBookingStatus(bookingId: string, status: string, notes?: string) {
+    async updateBookingStatus(bookingId: string, status: string, notes?: string, requestedBy?: string) {
+        if (status === 'cancelled') {
+            return this.cancelBooking(bookingId, notes, requestedBy);
+        }
+        return this.setStatus(bookingId, status, notes);
+    }
+
+    /**
+     * Write a status change
+     * Cancelling releases the booking's seats; cancelled bookings stay cancelled.
+     */
+    private async setStatus(bookingId: string, status: string, notes?: string) {
         if (!mongoose.Types.ObjectId.isValid(bookingId)) {
             throw createHttpError(400, 'Invalid booking ID');
         }
@@ -234,16 +341,27 @@ export class BookingService extends BaseService<Booking> {
             updateData.notes = notes;
         }
 
-        const booking = await BookingModel.findByIdAndUpdate(
-            bookingId,
+        // Only a booking that isn't cancelled yet can change, so seats are released exactly once
+        const previous = await BookingModel.findOneAndUpdate(
+            { _id: bookingId, status: { $ne: 'cancelled' } },
             updateData,
-            { new: true, runValidators: true }
-        ).populate('tour', 'title code');
+            { new: false, runValidators: true }
+        );
 
-        if (!booking) {
-            throw createHttpError(404, 'Booking not found');
+        if (!previous) {
+            const exists = await BookingModel.exists({ _id: bookingId });
+            if (!exists) {
+                throw createHttpError(404, 'Booking not found');
+            }
+            throw createHttpError(400, 'Booking is already cancelled');
+        }
+
+        if (status === 'cancelled' && previous.inventory) {
+            await InventoryService.releaseSeats(previous.inventory, previous.reservedSeats || 0);
         }
 
+        const booking = await BookingModel.findById(bookingId).populate('tour', 'title code');
+
         // Normalize the result
         return normalizeDoc(booking);
     }
@@ -286,9 +404,9 @@ export class BookingService extends BaseService<Booking> {
     }
 
     /**
-     * Cancel booking with 48-hour policy check
+     * Cancel a booking under its tour's cancellation policy and refund what the policy allows
      */
-    async cancelBooking(bookingId: string, reason?: string) {
+    async cancelBooking(bookingId: string, reason?: string, requestedBy?: string) {
         if (!mongoose.Types.ObjectId.isValid(bookingId)) {
             throw createHttpError(400, 'Invalid booking ID');
         }
@@ -303,74 +421,128 @@ export class BookingService extends BaseService<Booking> {
             throw createHttpError(400, 'Booking is already cancelled');
         }
 
-        // Check 48-hour cancellation policy
-        const departureDate = new Date(booking.departureDate);
-        const now = new Date();
-        const hoursUntilDeparture = (departureDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-        if (hoursUntilDeparture < 48) {
-            throw createHttpError(400, 'Cancellation not allowed within 48 hours of departure');
+        const quote = await RefundService.calculateRefund(booking);
+        if (!quote.cancellable) {
+            throw createHttpError(400, 'This booking can no longer be cancelled');
         }
 
-        return this.updateBookingStatus(bookingId, 'cancelled', reason);
+        // The status change is conditional, so only one request gets to issue the refund
+        await this.setStatus(bookingId, 'cancelled', reason);
+        const refunds = await RefundService.issueRefund(booking, quote, { reason, requestedBy });
+
+        const cancelled = await BookingModel.findById(bookingId).populate('tour', 'title code');
+
+        return {
+            ...normalizeDoc(cancelled),
+            refundQuote: quote,
+            refunds: normalizeDoc(refunds),
+        };
     }
 
     /**
-     * Generate booking voucher (placeholder for PDF generation)
+     * Generate booking voucher PDF
      */
-    async generateVoucher(bookingId: string): Promise<any> {
+    async generateVoucher(bookingId: string): Promise<{ fileName: string; pdf: Buffer }> {
         if (!mongoose.Types.ObjectId.isValid(bookingId)) {
             throw createHttpError(400, 'Invalid booking ID');
         }
 
         const booking = await BookingModel
             .findById(bookingId)
-            .populate('tour', 'title code coverImage price location')
-            .populate('user', 'name email phone')
+            .populate({
+                path: 'tour',
+                select: 'title code tourDates.days location author',
+                populate: { path: 'author', select: 'name email phone sellerInfo' }
+            })
             .lean();
 
         if (!booking) {
             throw createHttpError(404, 'Booking not found');
         }
 
-        // Return booking data for voucher generation
-        // In a real implementation, this would generate a PDF
-        const voucherData = {
+        if (booking.status === 'cancelled') {
+            throw createHttpError(400, 'Vouchers are not available for cancelled bookings');
+        }
+
+        const tour: any = booking.tour || {};
+        const location = tour.location;
+        const meetingPoint = location
+            ? [location.street, location.city, location.state, location.country].filter(Boolean).join(', ')
+            : undefined;
+
+        const voucherData: VoucherData = {
             bookingReference: booking.bookingReference,
-            tour: booking.tour,
-            customer: booking.user || booking.guestInfo,
+            status: booking.status,
+            paymentStatus: booking.paymentStatus,
+            issuedAt: new Date(),
+            tour: {
+                title: tour.title || booking.tourTitle,
+                code: tour.code || booking.tourCode,
+                days: tour.tourDates?.days,
+                meetingPoint: meetingPoint || undefined,
+            },
             departureDate: booking.departureDate,
             participants: booking.participants,
-            travelers: booking.travelers,
-            pricing: booking.pricing,
-            status: booking.status,
-            contactInfo: {
+            travelers: booking.travelers || [],
+            pricing: {
+                currency: booking.pricing?.currency || config.payments.defaultCurrency,
+                adultPrice: booking.pricing?.adultPrice,
+                childPrice: booking.pricing?.childPrice,
+                infantPrice: booking.pricing?.infantPrice,
+                addOns: booking.addOns,
+                subtotal: booking.pricing?.subtotal,
+                discountAmount: booking.pricing?.discountAmount,
+                promoCode: booking.promoCode?.code,
+                taxAmount: booking.pricing?.taxAmount,
+                taxRate: booking.pricing?.taxRate,
+                totalPrice: booking.pricing?.totalPrice || 0,
+                paidAmount: booking.paidAmount || 0,
+            },
+            leadContact: {
                 name: booking.contactName,
                 email: booking.contactEmail,
-                phone: booking.contactPhone
-            }
+                phone: booking.contactPhone,
+            },
+            specialRequests: booking.specialRequests,
+            operator: this.getVoucherOperator(tour.author),
         };
 
-        // Normalize the result
-        return normalizeDoc(voucherData);
+        return {
+            fileName: `voucher-${booking.bookingReference}.pdf`,
+            pdf: await renderVoucherPdf(voucherData),
+        };
     }
 
     /**
-     * Get booking statistics
+     * Pick the operator contact shown on vouchers from the tour authors
+     * Prefers an author with seller company details.
      */
-    async getBookingStats() {
-        const stats = await BookingModel.aggregate([
-            {
-                $group: {
-                    _id: '$status',
-                    count: { $sum: 1 },
-                    totalRevenue: { $sum: '$pricing.totalPrice' },
-                    paidRevenue: { $sum: '$paidAmount' }
-                }
-            }
-        ]);
+    private getVoucherOperator(authors: any): VoucherOperator | undefined {
+        const list = (Array.isArray(authors) ? authors : [authors]).filter(Boolean);
+        const seller = list.find(author => author.sellerInfo?.companyName) || list[0];
+        if (!seller) {
+            return undefined;
+        }
 
-        return stats;
+        const info = seller.sellerInfo || {};
+        const address = info.businessAddress
+            ? [
+                info.businessAddress.address,
+                info.businessAddress.city,
+                info.businessAddress.state,
+                info.businessAddress.postalCode,
+                info.businessAddress.country,
+            ].filter(Boolean).join(', ')
+            : undefined;
+
+        return {
+            name: info.companyName || seller.name,
+            contactPerson: info.contactPerson,
+            email: seller.email,
+            phone: info.phone || (seller.phone ? String(seller.phone) : undefined),
+            website: info.website || undefined,
+            address: address || undefined,
+        };
     }
 
     // Static methods for backward compatibility
@@ -378,18 +550,34 @@ export class BookingService extends BaseService<Booking> {
         return BookingService.getInstance().checkAvailability(tourId, departureDate);
     }
 
-    static async createBooking(bookingData: Partial<Booking>) {
-        return BookingService.getInstance().createBooking(bookingData);
+    static async createBooking(bookingData: Partial<Booking>, promoCode?: string, addOns?: AddOnSelection[]) {
+        return BookingService.getInstance().createBooking(bookingData, promoCode, addOns);
+    }
+
+    static async getAllBookings(actor: AuthUser, filters: any, paginationParams: PaginationParams) {
+        return BookingService.getInstance().getAllBookings(actor, filters, paginationParams);
+    }
+
+    static async getSellerTourIds(sellerId: string) {
+        return BookingService.getInstance().getSellerTourIds(sellerId);
     }
 
-    static async getAllBookings(filters: any, paginationParams: PaginationParams) {
-        return BookingService.getInstance().getAllBookings(filters, paginationParams);
+    static async canManageBooking(booking: any, actor?: AuthUser) {
+        return BookingService.getInstance().canManageBooking(booking, actor);
+    }
+
+    static async canOperateBooking(booking: any, actor?: AuthUser) {
+        return BookingService.getInstance().canOperateBooking(booking, actor);
     }
 
     static async getBookingById(bookingId: string) {
         return BookingService.getInstance().getBookingById(bookingId);
     }
 
+    static async findBookingsByReferences(items: Array<{ id?: string; _id?: string; bookingReference?: string }>) {
+        return BookingService.getInstance().findBookingsByReferences(items);
+    }
+
     static async getBookingByReference(reference: string) {
         return BookingService.getInstance().getBookingByReference(reference);
     }
@@ -402,8 +590,8 @@ export class BookingService extends BaseService<Booking> {
         return BookingService.getInstance().getTourBookings(tourId, paginationParams);
     }
 
-    static async updateBookingStatus(bookingId: string, status: string, notes?: string) {
-        return BookingService.getInstance().updateBookingStatus(bookingId, status, notes);
+    static async updateBookingStatus(bookingId: string, status: string, notes?: string, requestedBy?: string) {
+        return BookingService.getInstance().updateBookingStatus(bookingId, status, notes, requestedBy);
     }
 
     static async updatePaymentStatus(
@@ -415,15 +603,11 @@ export class BookingService extends BaseService<Booking> {
         return BookingService.getInstance().updatePaymentStatus(bookingId, paymentStatus, paidAmount, transactionId);
     }
 
-    static async cancelBooking(bookingId: string, reason?: string) {
-        return BookingService.getInstance().cancelBooking(bookingId, reason);
+    static async cancelBooking(bookingId: string, reason?: string, requestedBy?: string) {
+        return BookingService.getInstance().cancelBooking(bookingId, reason, requestedBy);
     }
 
     static async generateVoucher(bookingId: string) {
         return BookingService.getInstance().generateVoucher(bookingId);
     }
-
-    static async getBookingStats() {
-        return BookingService.getInstance().getBookingStats();
-    }
 }
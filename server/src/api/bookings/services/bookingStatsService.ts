@@ -0,0 +1,224 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import createHttpError from 'http-errors';
+import BookingModel from '../bookingModel';
+import DepartureInventoryModel from '../inventoryModel';
+import {
+    Booking,
+    BookingStats,
+    BookingStatsQuery,
+    BookingStatusBreakdown,
+    DepartureOccupancy,
+    MonthlyRevenue,
+} from '../bookingTypes';
+import { DepartureInventory } from '../inventoryTypes';
+import { AuthUser } from '../../../types/express';
+import { BookingService } from './bookingService';
+import { CurrencyService } from '../../currencies/services/currencyService';
+import { config } from '../../../config/config';
+
+// Occupancy is listed per departure, so keep the table to a readable size
+const MAX_OCCUPANCY_ROWS = 100;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Booking Statistics Service
+ * Dashboard figures (revenue by month, occupancy per departure and
+ * cancellation rate), scoped to the tours the actor is allowed to see.
+ */
+export class BookingStatsService {
+    private static instance: BookingStatsService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): BookingStatsService {
+        if (!BookingStatsService.instance) {
+            BookingStatsService.instance = new BookingStatsService();
+        }
+        return BookingStatsService.instance;
+    }
+
+    /**
+     * Work out which tours the statistics cover
+     * Returns undefined when every tour is included (admin without filters).
+     */
+    private async resolveTourScope(actor: AuthUser, query: BookingStatsQuery): Promise<mongoose.Types.ObjectId[] | undefined> {
+        const isAdmin = actor.roles.includes('admin');
+
+        if (query.sellerId && !mongoose.Types.ObjectId.isValid(query.sellerId)) {
+            throw createHttpError(400, 'Invalid seller ID');
+        }
+        if (query.tourId && !mongoose.Types.ObjectId.isValid(query.tourId)) {
+            throw createHttpError(400, 'Invalid tour ID');
+        }
+        if (!isAdmin && query.sellerId && query.sellerId !== actor.id) {
+            throw createHttpError(403, 'You can only view statistics for your own tours');
+        }
+
+        const sellerId = isAdmin ? query.sellerId : actor.id;
+        let tourIds = sellerId ? await BookingService.getSellerTourIds(sellerId) : undefined;
+
+        if (query.tourId) {
+            const tourId = new mongoose.Types.ObjectId(query.tourId);
+            if (tourIds && !tourIds.some(id => id.equals(tourId))) {
+                throw createHttpError(403, 'You do not have access to this tour');
+            }
+            tourIds = [tourId];
+        }
+
+        return tourIds;
+    }
+
+    /**
+     * Get booking statistics for the dashboard
+     */
+    async getBookingStats(actor: AuthUser, query: BookingStatsQuery = {}): Promise<BookingStats> {
+        if ((query.from && isNaN(query.from.getTime())) || (query.to && isNaN(query.to.getTime()))) {
+            throw createHttpError(400, 'Invalid date range');
+        }
+        if (query.from && query.to && query.to < query.from) {
+            throw createHttpError(400, 'The end of the date range must be after the start');
+        }
+
+        const tourIds = await this.resolveTourScope(actor, query);
+
+        const bookingMatch: FilterQuery<Booking> = {};
+        const inventoryMatch: FilterQuery<DepartureInventory> = {};
+        if (tourIds) {
+            bookingMatch.tour = { $in: tourIds };
+            inventoryMatch.tour = { $in: tourIds };
+        }
+        if (query.from || query.to) {
+            bookingMatch.createdAt = {
+                ...(query.from && { $gte: query.from }),
+                ...(query.to && { $lte: query.to }),
+            };
+            inventoryMatch.departureDate = {
+                ...(query.from && { $gte: query.from }),
+                ...(query.to && { $lte: query.to }),
+            };
+        } else {
+            // Without a range, occupancy is about the departures still to come
+            const today = new Date();
+            today.setUTCHours(0, 0, 0, 0);
+            inventoryMatch.departureDate = { $gte: today };
+        }
+
+        // Bookings are in different currencies, so amounts are summed in the base currency at today's rates
+        const { base, rates } = await CurrencyService.getRateTable();
+        const toBase = (field: string) => ({ $multiply: [{ $ifNull: [field, 0] }, '$toBaseRate'] });
+
+        const [facets] = await BookingModel.aggregate([
+            { $match: bookingMatch },
+            {
+                $addFields: {
+                    toBaseRate: {
+                        $switch: {
+                            branches: Object.entries(rates).map(([currency, rate]) => ({
+                                case: { $eq: [{ $ifNull: ['$pricing.currency', config.payments.defaultCurrency] }, currency] },
+                                then: 1 / rate,
+                            })),
+                            // Currencies without a rate are counted as they are
+                            default: 1
+                        }
+                    }
+                }
+            },
+            {
+                $facet: {
+                    byStatus: [
+                        {
+                            $group: {
+                                _id: '$status',
+                                count: { $sum: 1 },
+                                totalRevenue: { $sum: toBase('$pricing.totalPrice') },
+                                paidRevenue: { $sum: toBase('$paidAmount') }
+                            }
+                        },
+                        { $sort: { _id: 1 } }
+                    ],
+                    byMonth: [
+                        {
+                            $group: {
+                                _id: { $dateToString: { format: '%Y-%m', date: '$createdAt' } },
+                                bookings: { $sum: 1 },
+                                // Cancelled bookings are no longer worth anything
+                                bookedValue: {
+                                    $sum: { $cond: [{ $eq: ['$status', 'cancelled'] }, 0, toBase('$pricing.totalPrice')] }
+                                },
+                                collected: { $sum: toBase('$paidAmount') },
+                                refunded: { $sum: toBase('$refundedAmount') }
+                            }
+                        },
+                        { $sort: { _id: 1 } }
+                    ]
+                }
+            }
+        ]);
+
+        const byStatus: BookingStatusBreakdown[] = facets.byStatus.map((row: any) => ({
+            status: row._id,
+            count: row.count,
+            totalRevenue: roundCurrency(row.totalRevenue || 0),
+            paidRevenue: roundCurrency(row.paidRevenue || 0),
+        }));
+
+        const revenueByMonth: MonthlyRevenue[] = facets.byMonth.map((row: any) => ({
+            month: row._id,
+            bookings: row.bookings,
+            bookedValue: roundCurrency(row.bookedValue),
+            collected: roundCurrency(row.collected),
+            refunded: roundCurrency(row.refunded),
+            netRevenue: roundCurrency(row.collected - row.refunded),
+        }));
+
+        const totalBookings = byStatus.reduce((sum, row) => sum + row.count, 0);
+        const cancelled = byStatus.find(row => row.status === 'cancelled')?.count || 0;
+        const sum = (field: 'bookedValue' | 'collected' | 'refunded') =>
+            roundCurrency(revenueByMonth.reduce((total, row) => total + row[field], 0));
+        const collected = sum('collected');
+        const refunded = sum('refunded');
+
+        return {
+            currency: base,
+            totalBookings,
+            byStatus,
+            bookedValue: sum('bookedValue'),
+            collected,
+            refunded,
+            netRevenue: roundCurrency(collected - refunded),
+            cancellationRate: totalBookings > 0 ? roundCurrency(cancelled / totalBookings * 100) : 0,
+            revenueByMonth,
+            occupancy: await this.getOccupancy(inventoryMatch),
+        };
+    }
+
+    /**
+     * Seats sold against capacity for each departure
+     */
+    private async getOccupancy(match: FilterQuery<DepartureInventory>): Promise<DepartureOccupancy[]> {
+        const departures = await DepartureInventoryModel
+            .find(match)
+            .sort({ departureDate: 1 })
+            .limit(MAX_OCCUPANCY_ROWS)
+            .populate('tour', 'title')
+            .lean();
+
+        // Inventory can outlive its tour, which then populates as null
+        return departures.filter((departure: any) => departure.tour).map((departure: any) => ({
+            tourId: departure.tour._id.toString(),
+            tourTitle: departure.tour.title || '',
+            departureId: departure.departureId,
+            departureDate: departure.departureDate,
+            capacity: departure.capacity,
+            reserved: departure.reserved,
+            occupancyRate: departure.capacity > 0 ? roundCurrency(departure.reserved / departure.capacity * 100) : 0,
+        }));
+    }
+
+    // Static accessors used by the controllers
+    static async getBookingStats(actor: AuthUser, query?: BookingStatsQuery) {
+        return BookingStatsService.getInstance().getBookingStats(actor, query);
+    }
+}
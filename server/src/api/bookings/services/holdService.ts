@@ -0,0 +1,243 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import SeatHoldModel from '../holdModel';
+import BookingModel from '../bookingModel';
+import { SeatHold } from '../holdTypes';
+import { BaseService } from '../../../services/BaseService';
+import { normalizeDoc } from '../../../utils/normalizeDoc';
+import { config } from '../../../config/config';
+import { logger } from '../../../utils/logger';
+import { BookingService } from './bookingService';
+import { InventoryService } from './inventoryService';
+import { PromoCodeService } from './promoCodeService';
+
+export interface CreateHoldInput {
+    bookings: Array<{ id?: string; _id?: string; bookingReference?: string }>;
+    userId?: string;
+}
+
+// Bookings handled per sweep so a backlog can't block the event loop
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Seat Hold Service
+ * Keeps the seats of pending bookings reserved while the traveler checks out
+ * and gives them back once a hold or an unpaid booking expires.
+ */
+export class HoldService extends BaseService<SeatHold> {
+    private static instance: HoldService;
+
+    constructor() {
+        super(SeatHoldModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): HoldService {
+        if (!HoldService.instance) {
+            HoldService.instance = new HoldService();
+        }
+        return HoldService.instance;
+    }
+
+    private formatHold(hold: SeatHold | null) {
+        if (!hold) return hold;
+        const remainingSeconds = hold.status === 'active'
+            ? Math.max(0, Math.floor((new Date(hold.expiresAt).getTime() - Date.now()) / 1000))
+            : 0;
+        return { ...normalizeDoc(hold), remainingSeconds };
+    }
+
+    /**
+     * Start checkout: hold the seats of the cart's pending bookings
+     */
+    async createHold(input: CreateHoldInput) {
+        if (!Array.isArray(input.bookings) || input.bookings.length === 0) {
+            throw createHttpError(400, 'At least one booking is required');
+        }
+
+        const bookings = await BookingService.findBookingsByReferences(input.bookings);
+        const now = new Date();
+
+        for (const booking of bookings) {
+            if (booking.status !== 'pending' || booking.paymentStatus === 'paid' || booking.paymentStatus === 'refunded') {
+                throw createHttpError(400, `Booking ${booking.bookingReference} can no longer be checked out`);
+            }
+            if (booking.expiresAt && booking.expiresAt <= now) {
+                throw createHttpError(410, `Booking ${booking.bookingReference} has expired. Please book again.`);
+            }
+        }
+
+        const bookingIds = bookings.map(booking => booking._id as mongoose.Types.ObjectId);
+        const hold = await SeatHoldModel.create({
+            bookings: bookingIds,
+            bookingReferences: bookings.map(booking => booking.bookingReference),
+            expiresAt: new Date(now.getTime() + config.holds.checkoutMinutes * 60 * 1000),
+            user: input.userId,
+        });
+
+        // Extend the bookings (never shorten) - the sweeper may race us, so count what we kept
+        const result = await BookingModel.updateMany(
+            {
+                _id: { $in: bookingIds },
+                status: 'pending',
+                $or: [{ expiresAt: { $gt: now } }, { expiresAt: { $exists: false } }]
+            },
+            { $max: { expiresAt: hold.expiresAt }, $set: { hold: hold._id } }
+        );
+
+        if (result.matchedCount !== bookingIds.length) {
+            await this.releaseHold((hold._id as mongoose.Types.ObjectId).toString());
+            throw createHttpError(410, 'Some bookings in your cart have expired. Please book again.');
+        }
+
+        return this.formatHold(hold);
+    }
+
+    /**
+     * Get a hold with the seconds it has left
+     */
+    async getHold(holdId: string) {
+        if (!mongoose.Types.ObjectId.isValid(holdId)) {
+            throw createHttpError(400, 'Invalid hold ID');
+        }
+
+        const hold = await SeatHoldModel.findById(holdId);
+        if (!hold) {
+            throw createHttpError(404, 'Seat hold not found');
+        }
+
+        return this.formatHold(hold);
+    }
+
+    /**
+     * Give up a hold (e.g. the traveler went back to the cart)
+     * The bookings keep whatever time they had left of their own.
+     */
+    async releaseHold(holdId: string) {
+        if (!mongoose.Types.ObjectId.isValid(holdId)) {
+            throw createHttpError(400, 'Invalid hold ID');
+        }
+
+        const hold = await SeatHoldModel.findOneAndUpdate(
+            { _id: holdId, status: 'active' },
+            { status: 'released', releasedAt: new Date() },
+            { new: true }
+        );
+
+        return hold ? this.formatHold(hold) : this.getHold(holdId);
+    }
+
+    /**
+     * Make sure a hold is still running and covers the bookings being paid
+     */
+    async assertHoldActive(holdId: string, bookingIds: string[]) {
+        if (!mongoose.Types.ObjectId.isValid(holdId)) {
+            throw createHttpError(400, 'Invalid hold ID');
+        }
+
+        const hold = await SeatHoldModel.findById(holdId).lean();
+        if (!hold || hold.status !== 'active' || hold.expiresAt <= new Date()) {
+            throw createHttpError(410, 'Your seat hold has expired. Please return to the cart and try again.');
+        }
+
+        const covered = new Set(hold.bookings.map(id => id.toString()));
+        if (bookingIds.some(id => !covered.has(id))) {
+            throw createHttpError(400, 'Seat hold does not cover all bookings in this payment');
+        }
+    }
+
+    /**
+     * Mark a hold as used once its bookings are paid
+     */
+    async convertHold(holdId: string) {
+        await SeatHoldModel.updateOne(
+            { _id: holdId, status: 'active' },
+            { status: 'converted', convertedAt: new Date() }
+        );
+    }
+
+    /**
+     * Expire holds and cancel unpaid bookings whose time ran out, freeing their seats
+     */
+    async sweepExpired() {
+        const now = new Date();
+
+        const expiredHolds = await SeatHoldModel.updateMany(
+            { status: 'active', expiresAt: { $lte: now } },
+            { status: 'expired' }
+        );
+
+        // Only bookings that were given an expiry are swept; older bookings without one
+        // (made before holds existed, or arranged offline) are left for the operator
+        const expiredFilter = {
+            status: 'pending',
+            paymentStatus: 'unpaid',
+            expiresAt: { $lte: now }
+        };
+
+        const candidates = await BookingModel.find(expiredFilter)
+            .select('_id')
+            .limit(SWEEP_BATCH_SIZE)
+            .lean();
+
+        let abandoned = 0;
+        for (const candidate of candidates) {
+            // Conditional update so a payment landing right now wins over the sweeper
+            const booking = await BookingModel.findOneAndUpdate(
+                { _id: candidate._id, ...expiredFilter },
+                {
+                    status: 'cancelled',
+                    cancelledAt: now,
+                    abandonedAt: now,
+                    cancellationReason: 'Seat hold expired before payment',
+                },
+                { new: true }
+            );
+            if (!booking) continue;
+
+            abandoned++;
+            if (booking.inventory) {
+                await InventoryService.releaseSeats(booking.inventory, booking.reservedSeats || 0);
+            }
+            if (booking.promoCode?.promoCodeId) {
+                await PromoCodeService.releasePromoCode(booking.promoCode.promoCodeId);
+            }
+        }
+
+        if (expiredHolds.modifiedCount > 0 || abandoned > 0) {
+            logger.info('Seat hold sweep completed', {
+                expiredHolds: expiredHolds.modifiedCount,
+                abandonedBookings: abandoned,
+            });
+        }
+
+        return { expiredHolds: expiredHolds.modifiedCount, abandonedBookings: abandoned };
+    }
+
+    // Static accessors used by the controllers, payments and the sweeper job
+    static async createHold(input: CreateHoldInput) {
+        return HoldService.getInstance().createHold(input);
+    }
+
+    static async getHold(holdId: string) {
+        return HoldService.getInstance().getHold(holdId);
+    }
+
+    static async releaseHold(holdId: string) {
+        return HoldService.getInstance().releaseHold(holdId);
+    }
+
+    static async assertHoldActive(holdId: string, bookingIds: string[]) {
+        return HoldService.getInstance().assertHoldActive(holdId, bookingIds);
+    }
+
+    static async convertHold(holdId: string) {
+        return HoldService.getInstance().convertHold(holdId);
+    }
+
+    static async sweepExpired() {
+        return HoldService.getInstance().sweepExpired();
+    }
+}
@@ -0,0 +1,359 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import DepartureInventoryModel from '../inventoryModel';
+import BookingModel from '../bookingModel';
+import { DepartureInventory, SeatReservation } from '../inventoryTypes';
+import { BookingParticipants } from '../bookingTypes';
+import { BaseService } from '../../../services/BaseService';
+import { config } from '../../../config/config';
+import Tour from '../../tours/tourModel';
+import { DAY_MS, occursOn, startOfDay } from '../../tours/utils/departureDates';
+
+export interface ResolvedDeparture {
+    departureId: string;
+    departureDate: Date;
+    capacity: number;
+    pricingOptionIds: string[];
+}
+
+export interface ReserveSeatsInput {
+    tourId: string;
+    departureDate: Date | string;
+    participants: BookingParticipants;
+    pricingOptionId?: string;
+}
+
+const toOptionId = (option: any): string | undefined =>
+    typeof option === 'string' ? option : option?.id;
+
+/**
+ * Seat Inventory Service
+ * Keeps one inventory record per departure occurrence and reserves seats on it
+ * with conditional updates, so concurrent bookings can never oversell a departure.
+ */
+export class InventoryService extends BaseService<DepartureInventory> {
+    private static instance: InventoryService;
+
+    constructor() {
+        super(DepartureInventoryModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): InventoryService {
+        if (!InventoryService.instance) {
+            InventoryService.instance = new InventoryService();
+        }
+        return InventoryService.instance;
+    }
+
+    /**
+     * Number of seats a party occupies (children/infants rules come from config)
+     */
+    countSeats(participants?: Partial<BookingParticipants>): number {
+        const { countChildren, countInfants } = config.inventory;
+        return (participants?.adults || 0)
+            + (countChildren ? participants?.children || 0 : 0)
+            + (countInfants ? participants?.infants || 0 : 0);
+    }
+
+    /**
+     * Find the departure a date belongs to and the seats it offers
+     */
+    resolveDeparture(tour: any, date: Date | string): ResolvedDeparture {
+        const day = startOfDay(date);
+        if (isNaN(day.getTime())) {
+            throw createHttpError(400, 'Invalid departure date');
+        }
+
+        const tourCapacity = tour.maxSize || config.inventory.defaultCapacity;
+        const tourDates = tour.tourDates || {};
+        const departures: any[] = tourDates.departures || [];
+
+        for (const departure of departures) {
+            if (!departure?.dateRange?.from) continue;
+
+            const matches = occursOn(day, departure.dateRange.from, departure.isRecurring ? {
+                pattern: departure.recurrencePattern,
+                endDate: departure.recurrenceEndDate,
+            } : undefined);
+
+            if (matches) {
+                return {
+                    departureId: departure.id,
+                    departureDate: day,
+                    capacity: departure.capacity || tourCapacity,
+                    pricingOptionIds: (departure.selectedPricingOptions || [])
+                        .map(toOptionId)
+                        .filter((id: string | undefined): id is string => !!id),
+                };
+            }
+        }
+
+        const defaultRange = tourDates.defaultDateRange;
+        const isScheduled = departures.length > 0
+            || (tourDates.scheduleType && tourDates.scheduleType !== 'flexible');
+
+        // Fixed schedules without explicit departures use the default date range
+        if (tourDates.scheduleType === 'fixed' && departures.length === 0 && defaultRange?.from) {
+            const matches = occursOn(day, defaultRange.from, tourDates.isRecurring ? {
+                pattern: tourDates.recurrencePattern,
+                interval: tourDates.recurrenceInterval,
+                endDate: tourDates.recurrenceEndDate,
+            } : undefined);
+
+            if (matches) {
+                return { departureId: 'default', departureDate: day, capacity: tourCapacity, pricingOptionIds: [] };
+            }
+        }
+
+        if (isScheduled) {
+            throw createHttpError(400, 'The tour has no departure on the selected date');
+        }
+
+        // Flexible tours can start on any day within their date range
+        if (defaultRange?.from && defaultRange?.to
+            && (day < startOfDay(defaultRange.from) || day > startOfDay(defaultRange.to))) {
+            throw createHttpError(400, 'The selected date is outside the tour availability window');
+        }
+
+        return { departureId: 'flexible', departureDate: day, capacity: tourCapacity, pricingOptionIds: [] };
+    }
+
+    /**
+     * Make sure the party fits the chosen pricing option and departure
+     */
+    private assertPricingOption(tour: any, departure: ResolvedDeparture, pricingOptionId: string, seats: number) {
+        const option = (tour.pricingOptions || []).find((item: any) => item.id === pricingOptionId);
+        if (!option) {
+            throw createHttpError(400, 'Pricing option not found for this tour');
+        }
+
+        if (departure.pricingOptionIds.length > 0 && !departure.pricingOptionIds.includes(pricingOptionId)) {
+            throw createHttpError(400, `${option.name} is not offered on this departure`);
+        }
+
+        const minPax = option.minPax || option.paxRange?.minPax || 1;
+        const maxPax = option.maxPax || option.paxRange?.maxPax;
+        if (seats < minPax) {
+            throw createHttpError(400, `${option.name} requires at least ${minPax} travelers`);
+        }
+        if (maxPax && seats > maxPax) {
+            throw createHttpError(400, `${option.name} allows at most ${maxPax} travelers per booking`);
+        }
+    }
+
+    /**
+     * Seats already taken by bookings made before inventory tracking existed
+     */
+    private async countUntrackedSeats(tourId: string, departureDate: Date) {
+        const bookings = await BookingModel.find({
+            tour: tourId,
+            departureDate: { $gte: departureDate, $lt: new Date(departureDate.getTime() + DAY_MS) },
+            status: { $in: ['pending', 'confirmed'] },
+            inventory: { $exists: false },
+        }).select('participants').lean();
+
+        return bookings.reduce((sum, booking) => sum + this.countSeats(booking.participants), 0);
+    }
+
+    /**
+     * Load the inventory record for a departure occurrence, creating it on first use
+     */
+    private async getOrCreateInventory(tourId: string, departure: ResolvedDeparture) {
+        const key = {
+            tour: new mongoose.Types.ObjectId(tourId),
+            departureId: departure.departureId,
+            departureDate: departure.departureDate,
+        };
+
+        const existing = await DepartureInventoryModel.findOne(key);
+        if (existing) {
+            return existing;
+        }
+
+        const reserved = await this.countUntrackedSeats(tourId, departure.departureDate);
+        try {
+            return await DepartureInventoryModel.findOneAndUpdate(
+                key,
+                { $setOnInsert: { capacity: departure.capacity, reserved } },
+                { upsert: true, new: true }
+            );
+        } catch (error: any) {
+            // Another request created it first
+            if (error.code === 11000) {
+                return DepartureInventoryModel.findOne(key);
+            }
+            throw error;
+        }
+    }
+
+    private async loadTour(tourId: string) {
+        if (!mongoose.Types.ObjectId.isValid(tourId)) {
+            throw createHttpError(400, 'Invalid tour ID');
+        }
+
+        const tour = await Tour.findById(tourId).select('maxSize tourDates pricingOptions').lean();
+        if (!tour) {
+            throw createHttpError(404, 'Tour not found');
+        }
+        return tour;
+    }
+
+    /**
+     * Remaining seats on the departure for a date
+     */
+    async getAvailability(tourId: string, departureDate: Date | string) {
+        const tour = await this.loadTour(tourId);
+        const departure = this.resolveDeparture(tour, departureDate);
+
+        const inventory = await DepartureInventoryModel.findOne({
+            tour: tourId,
+            departureId: departure.departureId,
+            departureDate: departure.departureDate,
+        }).lean();
+
+        const reserved = inventory
+            ? inventory.reserved
+            : await this.countUntrackedSeats(tourId, departure.departureDate);
+        const remainingCapacity = Math.max(0, departure.capacity - reserved);
+
+        return {
+            available: remainingCapacity > 0,
+            remainingCapacity,
+            capacity: departure.capacity,
+            departureId: departure.departureId,
+        };
+    }
+
+    /**
+     * Atomically add seats to an inventory record
+     * The increment only applies while reserved + seats stays within capacity.
+     */
+    private async incrementReserved(inventoryId: mongoose.Types.ObjectId, seats: number, capacity: number) {
+        // Capacity follows the tour/departure settings at booking time
+        const updated = await DepartureInventoryModel.findOneAndUpdate(
+            {
+                _id: inventoryId,
+                $expr: { $lte: [{ $add: ['$reserved', seats] }, capacity] }
+            },
+            {
+                $inc: { reserved: seats },
+                $set: { capacity }
+            },
+            { new: true }
+        );
+
+        if (!updated) {
+            const current = await DepartureInventoryModel.findById(inventoryId).lean();
+            const remaining = Math.max(0, capacity - (current?.reserved || 0));
+            throw createHttpError(409, `Insufficient capacity. Only ${remaining} spots remaining.`);
+        }
+
+        return updated;
+    }
+
+    /**
+     * Resolve the departure and inventory record a reservation request targets
+     */
+    private async prepareReservation(input: ReserveSeatsInput) {
+        const seats = this.countSeats(input.participants);
+        if (seats < 1) {
+            throw createHttpError(400, 'At least one traveler is required');
+        }
+
+        const tour = await this.loadTour(input.tourId);
+        const departure = this.resolveDeparture(tour, input.departureDate);
+
+        if (input.pricingOptionId) {
+            this.assertPricingOption(tour, departure, input.pricingOptionId, seats);
+        }
+
+        const inventory = await this.getOrCreateInventory(input.tourId, departure);
+        if (!inventory) {
+            throw createHttpError(500, 'Could not load departure inventory');
+        }
+
+        return { seats, departure, inventoryId: inventory._id as mongoose.Types.ObjectId };
+    }
+
+    /**
+     * Atomically reserve seats on a departure
+     */
+    async reserveSeats(input: ReserveSeatsInput): Promise<SeatReservation> {
+        const { seats, departure, inventoryId } = await this.prepareReservation(input);
+        await this.incrementReserved(inventoryId, seats, departure.capacity);
+
+        return {
+            inventoryId,
+            departureId: departure.departureId,
+            seats,
+        };
+    }
+
+    /**
+     * Move an existing reservation to a new party size and/or departure
+     * On the same departure only the difference is reserved, so a party can grow
+     * into the last free seats; elsewhere the new seats are taken before the old ones are freed.
+     */
+    async moveReservation(
+        current: { inventoryId?: mongoose.Types.ObjectId | string; seats?: number },
+        input: ReserveSeatsInput
+    ): Promise<SeatReservation> {
+        const { seats, departure, inventoryId } = await this.prepareReservation(input);
+        const currentSeats = current.seats || 0;
+
+        if (current.inventoryId && inventoryId.equals(current.inventoryId)) {
+            const delta = seats - currentSeats;
+            if (delta > 0) {
+                await this.incrementReserved(inventoryId, delta, departure.capacity);
+            } else if (delta < 0) {
+                await this.releaseSeats(inventoryId, -delta);
+            }
+        } else {
+            await this.incrementReserved(inventoryId, seats, departure.capacity);
+            if (current.inventoryId) {
+                await this.releaseSeats(current.inventoryId, currentSeats);
+            }
+        }
+
+        return {
+            inventoryId,
+            departureId: departure.departureId,
+            seats,
+        };
+    }
+
+    /**
+     * Return seats to a departure (cancellation or failed booking)
+     */
+    async releaseSeats(inventoryId: mongoose.Types.ObjectId | string, seats: number) {
+        if (!inventoryId || !seats) return;
+
+        await DepartureInventoryModel.updateOne(
+            { _id: inventoryId },
+            [{ $set: { reserved: { $max: [0, { $subtract: ['$reserved', seats] }] } } }]
+        );
+    }
+
+    // Static accessors used by the booking service and controllers
+    static async getAvailability(tourId: string, departureDate: Date | string) {
+        return InventoryService.getInstance().getAvailability(tourId, departureDate);
+    }
+
+    static async reserveSeats(input: ReserveSeatsInput) {
+        return InventoryService.getInstance().reserveSeats(input);
+    }
+
+    static async moveReservation(
+        current: { inventoryId?: mongoose.Types.ObjectId | string; seats?: number },
+        input: ReserveSeatsInput
+    ) {
+        return InventoryService.getInstance().moveReservation(current, input);
+    }
+
+    static async releaseSeats(inventoryId: mongoose.Types.ObjectId | string, seats: number) {
+        return InventoryService.getInstance().releaseSeats(inventoryId, seats);
+    }
+}
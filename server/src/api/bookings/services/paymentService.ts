@@ -0,0 +1,400 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import BookingModel from '../bookingModel';
+import PaymentIntentModel from '../paymentModel';
+import { PaymentIntent, PaymentMethod, PaymentContactInfo } from '../paymentTypes';
+import { BaseService } from '../../../services/BaseService';
+import { normalizeDoc } from '../../../utils/normalizeDoc';
+import { config } from '../../../config/config';
+import { logger } from '../../../utils/logger';
+import { AuthUser } from '../../../types/express';
+import { CardDetails, GatewayResult, getPaymentGateway, getPaymentGatewayByName } from '../gateways';
+import { BookingService } from './bookingService';
+import { HoldService } from './holdService';
+import { RefundService } from './refundService';
+
+export interface ProcessPaymentInput {
+    bookings: Array<{ id?: string; _id?: string; bookingReference?: string }>;
+    paymentMethod: PaymentMethod;
+    contactInfo: PaymentContactInfo;
+    cardInfo?: CardDetails;
+    holdId?: string;
+    userId?: string;
+}
+
+// Who is looking at a payment: a signed-in user and/or a guest access token
+export interface PaymentViewer {
+    user?: AuthUser;
+    token?: string;
+}
+
+const SUPPORTED_METHODS: PaymentMethod[] = ['card', 'paypal'];
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Payment Service Layer
+ * Creates payment intents, drives the gateway adapters and applies
+ * successful payments to the linked bookings.
+ */
+export class PaymentService extends BaseService<PaymentIntent> {
+    private static instance: PaymentService;
+
+    constructor() {
+        super(PaymentIntentModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): PaymentService {
+        if (!PaymentService.instance) {
+            PaymentService.instance = new PaymentService();
+        }
+        return PaymentService.instance;
+    }
+
+    /**
+     * Make sure the viewer may see a payment: the payer, the owner of one of
+     * its bookings, or an admin
+     */
+    private async assertCanViewPayment(paymentId: string, viewer: PaymentViewer) {
+        if (!mongoose.Types.ObjectId.isValid(paymentId)) {
+            throw createHttpError(400, 'Invalid payment ID');
+        }
+
+        const intent = await PaymentIntentModel.findById(paymentId).select('+accessTokenHash').lean();
+        if (!intent) {
+            throw createHttpError(404, 'Payment not found');
+        }
+
+        const { user } = viewer;
+        if (user?.roles.includes('admin')) return;
+        if (user && intent.user?.toString() === user.id) return;
+        if (viewer.token && intent.accessTokenHash && intent.accessTokenHash === hashToken(viewer.token)) return;
+
+        if (user) {
+            const ownsBooking = await BookingModel.exists({
+                _id: { $in: intent.allocations.map(allocation => allocation.booking) },
+                user: user.id,
+            });
+            if (ownsBooking) return;
+        }
+
+        throw createHttpError(403, 'You do not have access to this payment');
+    }
+
+    /**
+     * Load the bookings referenced by the cart and make sure they can be paid
+     */
+    private async resolvePayableBookings(items: ProcessPaymentInput['bookings']) {
+        const bookings = await BookingService.findBookingsByReferences(items);
+
+        for (const booking of bookings) {
+            if (booking.status === 'cancelled') {
+                throw createHttpError(400, `Booking ${booking.bookingReference} has been cancelled`);
+            }
+            if (booking.paymentStatus === 'paid' || booking.paymentStatus === 'refunded') {
+                throw createHttpError(400, `Booking ${booking.bookingReference} is already ${booking.paymentStatus}`);
+            }
+            if (booking.status === 'pending' && booking.expiresAt && booking.expiresAt <= new Date()) {
+                throw createHttpError(410, `Booking ${booking.bookingReference} has expired. Please book again.`);
+            }
+        }
+
+        const currencies = new Set(bookings.map(booking => booking.pricing?.currency || config.payments.defaultCurrency));
+        if (currencies.size > 1) {
+            throw createHttpError(400, 'All bookings in a payment must use the same currency');
+        }
+
+        return { bookings, currency: [...currencies][0] };
+    }
+
+    /**
+     * Process a payment for one or more bookings
+     */
+    async processPayment(input: ProcessPaymentInput) {
+        const { bookings: items, paymentMethod, contactInfo, cardInfo, holdId, userId } = input;
+
+        if (!Array.isArray(items) || items.length === 0) {
+            throw createHttpError(400, 'At least one booking is required');
+        }
+        if (!SUPPORTED_METHODS.includes(paymentMethod)) {
+            throw createHttpError(400, `Unsupported payment method: ${paymentMethod}`);
+        }
+        if (!contactInfo?.email || !contactInfo.firstName || !contactInfo.lastName) {
+            throw createHttpError(400, 'Contact information is required');
+        }
+
+        if (paymentMethod === 'card') {
+            // Cards are tokenized in the browser; raw card data is refused, never forwarded
+            const { cardNumber, cvv } = (cardInfo || {}) as Record<string, unknown>;
+            if (cardNumber || cvv) {
+                throw createHttpError(400, 'Card details must be tokenized by the payment form, not sent directly');
+            }
+            if (typeof cardInfo?.token !== 'string' || !cardInfo.token) {
+                throw createHttpError(400, 'A card payment method token is required');
+            }
+        }
+
+        const { bookings, currency } = await this.resolvePayableBookings(items);
+
+        if (holdId) {
+            await HoldService.assertHoldActive(holdId, bookings.map(booking => (booking._id as mongoose.Types.ObjectId).toString()));
+        }
+
+        const allocations = bookings.map(booking => ({
+            booking: booking._id as mongoose.Types.ObjectId,
+            bookingReference: booking.bookingReference,
+            amount: Math.max(0, (booking.pricing?.totalPrice || 0) - (booking.paidAmount || 0)),
+        }));
+        const amount = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+        if (amount <= 0) {
+            throw createHttpError(400, 'Nothing to pay for the selected bookings');
+        }
+
+        const gateway = getPaymentGateway(paymentMethod);
+        // Signed-in payers are recognised by their session; guests get a token to come back with
+        const accessToken = userId ? undefined : crypto.randomBytes(32).toString('hex');
+
+        const intent = await PaymentIntentModel.create({
+            allocations,
+            amount,
+            currency,
+            method: paymentMethod,
+            gateway: gateway.name,
+            status: 'processing',
+            hold: holdId,
+            user: userId,
+            contactInfo,
+            accessTokenHash: accessToken ? hashToken(accessToken) : undefined,
+            cardLast4: paymentMethod === 'card' && /^\d{4}$/.test(cardInfo?.last4 || '') ? cardInfo?.last4 : undefined,
+        });
+
+        const paymentId = (intent._id as mongoose.Types.ObjectId).toString();
+        const returnBase = `${config.frontendDomain?.split(',')[0]?.trim() || ''}/confirmation?paymentId=${paymentId}`;
+
+        let result: GatewayResult;
+        try {
+            result = await gateway.charge({
+                paymentId,
+                amount,
+                currency,
+                description: `TourBNT booking ${allocations.map(allocation => allocation.bookingReference).join(', ')}`,
+                customer: {
+                    name: `${contactInfo.firstName} ${contactInfo.lastName}`,
+                    email: contactInfo.email,
+                },
+                card: paymentMethod === 'card' && cardInfo ? { token: cardInfo.token, last4: cardInfo.last4 } : undefined,
+                returnUrl: returnBase,
+                cancelUrl: `${returnBase}&cancelled=true`,
+            });
+        } catch (error: any) {
+            logger.error('Payment gateway error', { paymentId, gateway: gateway.name, error: error.message });
+            result = { status: 'failed', failureReason: 'Payment gateway is unavailable. Please try again.' };
+        }
+
+        const payment = await this.applyGatewayResult(paymentId, result);
+        return accessToken ? { ...payment, accessToken } : payment;
+    }
+
+    /**
+     * Complete a payment that required customer action (e.g. PayPal approval)
+     */
+    async confirmPayment(paymentId: string, viewer: PaymentViewer) {
+        await this.assertCanViewPayment(paymentId, viewer);
+
+        const intent = await PaymentIntentModel.findById(paymentId);
+        if (!intent) {
+            throw createHttpError(404, 'Payment not found');
+        }
+
+        // Confirming twice is harmless - return the settled state
+        if (intent.status !== 'requires_action') {
+            return normalizeDoc(intent);
+        }
+
+        if (!intent.gatewayReference) {
+            throw createHttpError(400, 'Payment has no gateway reference to confirm');
+        }
+
+        // Resolve the gateway before claiming, so a misconfigured gateway leaves the intent confirmable later
+        const gateway = getPaymentGatewayByName(intent.gateway, intent.method);
+
+        // Move out of requires_action first so concurrent confirmations don't capture twice
+        const claimed = await PaymentIntentModel.findOneAndUpdate(
+            { _id: paymentId, status: 'requires_action' },
+            { status: 'processing' },
+            { new: true }
+        );
+        if (!claimed) {
+            return this.findPayment(paymentId);
+        }
+
+        let result: GatewayResult;
+        try {
+            result = await gateway.confirm(intent.gatewayReference);
+        } catch (error: any) {
+            logger.error('Payment confirmation error', { paymentId, gateway: gateway.name, error: error.message });
+            result = { status: 'failed', failureReason: 'Payment gateway is unavailable. Please try again.' };
+        }
+
+        return this.applyGatewayResult(paymentId, result);
+    }
+
+    /**
+     * Get payment by ID
+     */
+    async getPayment(paymentId: string, viewer: PaymentViewer) {
+        await this.assertCanViewPayment(paymentId, viewer);
+        return this.findPayment(paymentId);
+    }
+
+    private async findPayment(paymentId: string) {
+        const intent = await PaymentIntentModel.findById(paymentId).lean();
+        if (!intent) {
+            throw createHttpError(404, 'Payment not found');
+        }
+
+        return normalizeDoc(intent);
+    }
+
+    /**
+     * Persist the gateway outcome on the intent and, on success, on every booking
+     */
+    private async applyGatewayResult(paymentId: string, result: GatewayResult) {
+        if (result.status === 'requires_action') {
+            const intent = await PaymentIntentModel.findOneAndUpdate(
+                { _id: paymentId, status: 'processing' },
+                {
+                    status: 'requires_action',
+                    gatewayReference: result.reference,
+                    redirectUrl: result.redirectUrl,
+                },
+                { new: true }
+            );
+
+            // Keep the seats while the customer approves the payment on the gateway's page
+            if (intent) {
+                await BookingModel.updateMany(
+                    { _id: { $in: intent.allocations.map(allocation => allocation.booking) }, status: 'pending' },
+                    { $max: { expiresAt: new Date(Date.now() + config.holds.checkoutMinutes * 60 * 1000) } }
+                );
+            }
+            return normalizeDoc(intent);
+        }
+
+        if (result.status === 'failed') {
+            const intent = await PaymentIntentModel.findOneAndUpdate(
+                { _id: paymentId, status: 'processing' },
+                {
+                    status: 'failed',
+                    gatewayReference: result.reference,
+                    failureReason: result.failureReason,
+                    failedAt: new Date(),
+                },
+                { new: true }
+            );
+            throw createHttpError(402, intent?.failureReason || result.failureReason || 'Payment failed');
+        }
+
+        // Only the request that moves the intent out of processing applies it to bookings
+        const intent = await PaymentIntentModel.findOneAndUpdate(
+            { _id: paymentId, status: 'processing' },
+            {
+                status: 'succeeded',
+                gatewayReference: result.reference,
+                succeededAt: new Date(),
+            },
+            { new: true }
+        );
+
+        if (!intent) {
+            return this.findPayment(paymentId);
+        }
+
+        for (const allocation of intent.allocations) {
+            await this.applyPaymentToBooking(intent, allocation.booking, allocation.amount);
+        }
+
+        if (intent.hold) {
+            await HoldService.convertHold(intent.hold.toString());
+        }
+
+        return normalizeDoc(intent);
+    }
+
+    /**
+     * Atomically add a payment to a booking and derive its payment status
+     */
+    private async applyPaymentToBooking(
+        intent: PaymentIntent,
+        bookingId: mongoose.Types.ObjectId,
+        amount: number
+    ) {
+        const paidAt = intent.succeededAt || new Date();
+        const isFullyPaid = { $gte: ['$paidAmount', '$pricing.totalPrice'] };
+
+        const booking = await BookingModel.findOneAndUpdate(
+            { _id: bookingId, status: { $ne: 'cancelled' } },
+            [
+                { $set: { paidAmount: { $add: [{ $ifNull: ['$paidAmount', 0] }, amount] } } },
+                {
+                    $set: {
+                        paymentStatus: { $cond: [isFullyPaid, 'paid', 'partial'] },
+                        status: {
+                            $cond: [{ $and: [isFullyPaid, { $eq: ['$status', 'pending'] }] }, 'confirmed', '$status']
+                        },
+                        confirmedAt: {
+                            $cond: [{ $and: [isFullyPaid, { $eq: ['$status', 'pending'] }] }, paidAt, '$confirmedAt']
+                        },
+                        paymentMethod: intent.method,
+                        transactionId: intent.gatewayReference,
+                        paymentDetails: {
+                            method: intent.method,
+                            transactionId: intent.gatewayReference,
+                            paidAt,
+                        },
+                    }
+                }
+            ],
+            { new: true }
+        );
+
+        if (!booking) {
+            // The booking was cancelled while the charge was in flight - send the money back
+            const paymentId = (intent._id as mongoose.Types.ObjectId).toString();
+            logger.warn('Payment captured for a cancelled booking', { paymentId, bookingId: bookingId.toString(), amount });
+
+            const cancelled = await BookingModel.findById(bookingId);
+            if (!cancelled) return;
+
+            try {
+                await RefundService.issueLatePaymentRefund(cancelled, amount, intent.currency, {
+                    reason: 'Booking was cancelled before the payment completed',
+                });
+            } catch (error: any) {
+                logger.error('Could not refund a payment captured for a cancelled booking', {
+                    paymentId,
+                    bookingId: bookingId.toString(),
+                    error: error.message,
+                });
+            }
+        }
+    }
+
+    // Static accessors used by the controllers
+    static async processPayment(input: ProcessPaymentInput) {
+        return PaymentService.getInstance().processPayment(input);
+    }
+
+    static async confirmPayment(paymentId: string, viewer: PaymentViewer) {
+        return PaymentService.getInstance().confirmPayment(paymentId, viewer);
+    }
+
+    static async getPayment(paymentId: string, viewer: PaymentViewer) {
+        return PaymentService.getInstance().getPayment(paymentId, viewer);
+    }
+}
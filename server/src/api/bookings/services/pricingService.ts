@@ -0,0 +1,365 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import { config } from '../../../config/config';
+import { AddOnSelection, BookingAddOn, BookingParticipants, BookingPricing } from '../bookingTypes';
+import { PriceLineItem, PriceQuote, PriceQuoteInput } from '../pricingTypes';
+import { AddOn, PaxTier } from '../../tours/tourTypes';
+import { getPriceCurrency } from '../../tours/utils/tourCurrency';
+import {
+    describePaxRange,
+    findPaxTier,
+    findPricingOption,
+    getDiscountAmount,
+    getPricingOptions,
+} from '../../tours/utils/pricing';
+import { CurrencyService, parseCurrency, roundCurrency } from '../../currencies/services/currencyService';
+
+// Tour fields the pricing engine reads
+export const TOUR_PRICING_FIELDS =
+    'price saleEnabled salePrice discountEnabled discount pricePerPerson groupSize paxTiers currency pricingOptions pricingGroups addOns';
+
+// What one traveler pays before and after the discount that applies to them
+interface UnitPrice {
+    label: string;
+    listPrice: number;
+    discount: number;
+    discountLabel: string;
+}
+
+const sumAmounts = (items: Array<{ amount?: number; totalPrice?: number }>) =>
+    roundCurrency(items.reduce((sum, item) => sum + (item.amount ?? item.totalPrice ?? 0), 0));
+
+/**
+ * Pricing Engine
+ * The one place booking prices are worked out. Quotes, new bookings and
+ * amendments all price the party from the tour here, in the tour's currency
+ * converted at a single rate, so prices sent by clients are never trusted.
+ */
+export class PricingService {
+    private static instance: PricingService;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): PricingService {
+        if (!PricingService.instance) {
+            PricingService.instance = new PricingService();
+        }
+        return PricingService.instance;
+    }
+
+    /**
+     * Check the party is something we can price
+     */
+    private parseParticipants(participants: Partial<BookingParticipants> = {}): Required<BookingParticipants> {
+        const parsed = {
+            adults: Number(participants.adults ?? 0),
+            children: Number(participants.children ?? 0),
+            infants: Number(participants.infants ?? 0),
+        };
+
+        if (!Number.isInteger(parsed.adults) || parsed.adults < 1) {
+            throw createHttpError(400, 'At least one adult is required');
+        }
+        if (!Number.isInteger(parsed.children) || parsed.children < 0
+            || !Number.isInteger(parsed.infants) || parsed.infants < 0) {
+            throw createHttpError(400, 'Children and infants must be whole numbers of zero or more');
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Party-size tier the party falls into, for tours priced by tier
+     * Infants travel free and don't count towards the party size.
+     */
+    private getPaxTier(tour: any, participants: Required<BookingParticipants>): PaxTier | undefined {
+        const tiers: PaxTier[] = tour.paxTiers || [];
+        if (tiers.length === 0) {
+            return undefined;
+        }
+
+        const pax = participants.adults + participants.children;
+        const tier = findPaxTier(tiers, pax);
+        if (!tier) {
+            throw createHttpError(400, `This tour has no price for a party of ${pax}`);
+        }
+        return tier;
+    }
+
+    /**
+     * Price of a traveler from a pricing option, the party's size tier, or the tour
+     * A tour's sale price takes precedence over its discount; tiers only take the discount.
+     */
+    private getUnitPrice(tour: any, option?: any, tier?: PaxTier): UnitPrice {
+        if (option) {
+            return {
+                label: option.name,
+                listPrice: option.price,
+                discount: getDiscountAmount(option.price, option.discountEnabled, option.discount),
+                discountLabel: option.discount?.description || `${option.name} discount`,
+            };
+        }
+
+        if (tier) {
+            return {
+                label: `Adult (${describePaxRange(tier)})`,
+                listPrice: tier.price,
+                discount: getDiscountAmount(tier.price, tour.discountEnabled, tour.discount),
+                discountLabel: tour.discount?.description || 'Discount',
+            };
+        }
+
+        const price = tour.price || 0;
+        if (tour.saleEnabled && tour.salePrice && tour.salePrice < price) {
+            return { label: 'Adult', listPrice: price, discount: price - tour.salePrice, discountLabel: 'Sale' };
+        }
+
+        return {
+            label: 'Adult',
+            listPrice: price,
+            discount: getDiscountAmount(price, tour.discountEnabled, tour.discount),
+            discountLabel: tour.discount?.description || 'Discount',
+        };
+    }
+
+    /**
+     * Line items for a number of travelers at one unit price, converted at the rate
+     * Returns the lines and what they come to.
+     */
+    private travelerLines(unit: UnitPrice, category: string, quantity: number, exchangeRate: number) {
+        const listPrice = roundCurrency(unit.listPrice * exchangeRate);
+        const discount = roundCurrency(unit.discount * exchangeRate);
+        const lines: PriceLineItem[] = [{
+            type: 'traveler',
+            category,
+            label: unit.label,
+            quantity,
+            unitPrice: listPrice,
+            amount: roundCurrency(listPrice * quantity),
+        }];
+
+        if (discount > 0) {
+            lines.push({
+                type: 'discount',
+                category,
+                label: unit.discountLabel,
+                quantity,
+                unitPrice: -discount,
+                amount: -roundCurrency(discount * quantity),
+            });
+        }
+
+        return { lines, unitPrice: roundCurrency(listPrice - discount), total: sumAmounts(lines) };
+    }
+
+    /**
+     * Price the add-ons chosen for a booking from the tour, converted at the rate
+     * Required add-ons are included even when not chosen.
+     */
+    priceAddOns(tourAddOns: AddOn[] = [], selections: AddOnSelection[] = [], exchangeRate = 1): BookingAddOn[] {
+        const available = tourAddOns.filter(addOn => addOn.isActive !== false);
+        const quantities = new Map<string, number>();
+
+        for (const selection of selections) {
+            const addOn = available.find(item => String(item._id) === String(selection.addOnId));
+            if (!addOn) {
+                throw createHttpError(400, 'Add-on is not available for this tour');
+            }
+
+            const id = String(addOn._id);
+            const quantity = Number(selection.quantity);
+            if (quantities.has(id)) {
+                throw createHttpError(400, `Add-on "${addOn.name}" was selected more than once`);
+            }
+            if (!Number.isInteger(quantity) || quantity < 0 || quantity > (addOn.maxQuantity || 1)) {
+                throw createHttpError(400, `Quantity for "${addOn.name}" must be between 0 and ${addOn.maxQuantity || 1}`);
+            }
+            quantities.set(id, quantity);
+        }
+
+        return available
+            .map(addOn => {
+                const id = String(addOn._id);
+                const quantity = Math.max(quantities.get(id) || 0, addOn.isRequired ? 1 : 0);
+                const price = addOn.isDiscounted && typeof addOn.discountPrice === 'number'
+                    ? addOn.discountPrice
+                    : addOn.price;
+                const unitPrice = roundCurrency(price * exchangeRate);
+
+                return {
+                    addOnId: addOn._id as mongoose.Types.ObjectId,
+                    name: addOn.name,
+                    category: addOn.category,
+                    quantity,
+                    unitPrice,
+                    totalPrice: roundCurrency(unitPrice * quantity),
+                };
+            })
+            .filter(addOn => addOn.quantity > 0);
+    }
+
+    /**
+     * Add the tax line and work out the total from the subtotal, promo discount and tax rate
+     */
+    private applyTax(pricing: BookingPricing, lineItems: PriceLineItem[]): Pick<PriceQuote, 'pricing' | 'lineItems'> {
+        const taxRate = pricing.taxRate || 0;
+        const taxable = roundCurrency((pricing.subtotal || 0) - (pricing.discountAmount || 0));
+        const taxAmount = roundCurrency(taxable * taxRate / 100);
+        const items = lineItems.filter(item => item.type !== 'tax');
+
+        if (taxAmount > 0) {
+            items.push({
+                type: 'tax',
+                label: `${config.pricing.taxName} (${taxRate}%)`,
+                quantity: 1,
+                unitPrice: taxAmount,
+                amount: taxAmount,
+            });
+        }
+
+        return {
+            pricing: { ...pricing, taxAmount, totalPrice: roundCurrency(taxable + taxAmount) },
+            lineItems: items,
+        };
+    }
+
+    /**
+     * Price a booking from the tour
+     * Amounts are in the charge currency: the selected price is converted at
+     * the given rate, or today's, which is returned so a booking can lock it.
+     * Lines in another currency (add-ons, a child option) use today's rate for theirs.
+     */
+    async quote(tour: any, input: PriceQuoteInput): Promise<PriceQuote> {
+        const participants = this.parseParticipants(input.participants);
+        const option = findPricingOption(tour, input.pricingOptionId);
+        if (input.pricingOptionId && !option) {
+            throw createHttpError(400, 'Pricing option not found for this tour');
+        }
+
+        const priceCurrency = getPriceCurrency(tour, input.pricingOptionId);
+        const currency = input.currency ? parseCurrency(input.currency) : priceCurrency;
+        const exchangeRate = input.exchangeRate ?? await CurrencyService.getRate(priceCurrency, currency);
+
+        // Add-ons are priced in the tour's currency and a child option may have its own,
+        // so lines not in the selected price currency convert at their own rate
+        const tourCurrency = tour.currency || config.payments.defaultCurrency;
+        const rateFrom = async (from: string) =>
+            from === priceCurrency ? exchangeRate : CurrencyService.getRate(from, currency);
+
+        // Party-size tiers replace the tour's base price; a chosen pricing option keeps its own
+        const tier = option ? undefined : this.getPaxTier(tour, participants);
+        const adultUnit = this.getUnitPrice(tour, option, tier);
+        const lineItems: PriceLineItem[] = [];
+        let party: Pick<BookingPricing, 'basePrice' | 'adultPrice' | 'childPrice' | 'infantPrice'>;
+
+        if (tier && !tier.pricePerPerson) {
+            // A private group pays one flat price for the whole party
+            const group = this.travelerLines(
+                { ...adultUnit, label: `Private group (${describePaxRange(tier)})` },
+                'group',
+                1,
+                exchangeRate
+            );
+            lineItems.push(...group.lines);
+            party = { basePrice: group.unitPrice, adultPrice: group.total, childPrice: 0, infantPrice: 0 };
+        } else if (!tier && tour.pricePerPerson === false) {
+            // Group pricing charges per started group instead of per traveler
+            const travelers = participants.adults + participants.children;
+            const groupSize = tour.groupSize || travelers;
+            const groups = this.travelerLines(
+                { ...adultUnit, label: `Group of up to ${groupSize}` },
+                'group',
+                Math.ceil(travelers / groupSize),
+                exchangeRate
+            );
+            lineItems.push(...groups.lines);
+            party = { basePrice: groups.unitPrice, adultPrice: groups.total, childPrice: 0, infantPrice: 0 };
+        } else {
+            // Children pay the tour's child option when there is one, otherwise the adult price
+            const childOption = getPricingOptions(tour).find(item => item.category === 'child');
+            const adults = this.travelerLines(adultUnit, 'adult', participants.adults, exchangeRate);
+            lineItems.push(...adults.lines);
+
+            let childPrice = 0;
+            if (participants.children > 0) {
+                const childUnit = childOption
+                    ? this.getUnitPrice(tour, childOption)
+                    : { ...adultUnit, label: tier ? `Child (${describePaxRange(tier)})` : 'Child' };
+                const childRate = childOption ? await rateFrom(childOption.currency || tourCurrency) : exchangeRate;
+                const children = this.travelerLines(childUnit, 'child', participants.children, childRate);
+                lineItems.push(...children.lines);
+                childPrice = children.total;
+            }
+
+            party = { basePrice: adults.unitPrice, adultPrice: adults.total, childPrice, infantPrice: 0 };
+        }
+
+        // Infants travel free
+        if (participants.infants > 0) {
+            lineItems.push({ type: 'traveler', category: 'infant', label: 'Infant', quantity: participants.infants, unitPrice: 0, amount: 0 });
+        }
+
+        const addOns = input.bookedAddOns ?? this.priceAddOns(tour.addOns, input.addOns, await rateFrom(tourCurrency));
+        for (const addOn of addOns) {
+            lineItems.push({
+                type: 'addOn',
+                category: addOn.category,
+                label: addOn.name,
+                quantity: addOn.quantity,
+                unitPrice: addOn.unitPrice,
+                amount: addOn.totalPrice,
+            });
+        }
+
+        const addOnsTotal = sumAmounts(addOns);
+        const subtotal = sumAmounts(lineItems);
+
+        return {
+            addOns,
+            ...this.applyTax({
+                ...party,
+                subtotal,
+                discountAmount: 0,
+                addOnsTotal,
+                taxRate: input.taxRate ?? config.pricing.taxRate,
+                totalPrice: subtotal,
+                currency,
+                priceCurrency,
+                exchangeRate,
+                rateLockedAt: new Date(),
+            }, lineItems),
+        };
+    }
+
+    /**
+     * Take a promo code's discount off a quote; tax is charged on what is left
+     */
+    applyPromoDiscount(quote: PriceQuote, code: string, discountAmount: number): PriceQuote {
+        const lineItems = quote.lineItems.filter(item => item.type !== 'promo');
+        if (discountAmount > 0) {
+            lineItems.push({
+                type: 'promo',
+                label: `Promo code ${code}`,
+                quantity: 1,
+                unitPrice: -discountAmount,
+                amount: -discountAmount,
+            });
+        }
+
+        return {
+            ...quote,
+            ...this.applyTax({ ...quote.pricing, discountAmount }, lineItems),
+        };
+    }
+
+    // Static accessors used by the controllers
+
+    static async quote(tour: any, input: PriceQuoteInput) {
+        return PricingService.getInstance().quote(tour, input);
+    }
+
+    static applyPromoDiscount(quote: PriceQuote, code: string, discountAmount: number) {
+        return PricingService.getInstance().applyPromoDiscount(quote, code, discountAmount);
+    }
+}
@@ -0,0 +1,379 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import createHttpError from 'http-errors';
+import PromoCodeModel from '../promoCodeModel';
+import { AppliedPromoCode, PromoCode } from '../promoCodeTypes';
+import { BaseService } from '../../../services/BaseService';
+import { PaginationParams, paginate } from '../../../utils/pagination';
+import { normalizeDoc } from '../../../utils/normalizeDoc';
+import { config } from '../../../config/config';
+import Tour from '../../tours/tourModel';
+import { CurrencyService } from '../../currencies/services/currencyService';
+
+export interface PromoCodeContext {
+    tourId?: string;
+    amount?: number;
+    // Currency of `amount`; the code's fixed amounts are converted into it
+    currency?: string;
+}
+
+// The parts of a promo code that depend on the currency they are expressed in
+export type PromoTerms = Pick<PromoCode, 'discountType' | 'discountValue' | 'maxDiscountAmount' | 'minPurchaseAmount'> & {
+    currency?: string;
+};
+
+export interface PromoCodeActor {
+    id: string;
+    roles: string[];
+}
+
+// Fields callers may never set directly
+const PROTECTED_FIELDS = ['currentUses', 'createdBy', '_id', 'id', 'createdAt', 'updatedAt'];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Promo Code Service Layer
+ * Manages promo codes and applies them to booking totals.
+ */
+export class PromoCodeService extends BaseService<PromoCode> {
+    private static instance: PromoCodeService;
+
+    constructor() {
+        super(PromoCodeModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): PromoCodeService {
+        if (!PromoCodeService.instance) {
+            PromoCodeService.instance = new PromoCodeService();
+        }
+        return PromoCodeService.instance;
+    }
+
+    /**
+     * Calculate the discount a promo code gives on an amount
+     */
+    calculateDiscount(promo: Pick<PromoCode, 'discountType' | 'discountValue' | 'maxDiscountAmount'>, amount: number): number {
+        let discount = promo.discountType === 'percentage'
+            ? amount * (promo.discountValue / 100)
+            : promo.discountValue;
+
+        if (promo.maxDiscountAmount !== undefined && promo.maxDiscountAmount !== null) {
+            discount = Math.min(discount, promo.maxDiscountAmount);
+        }
+
+        return roundCurrency(Math.max(0, Math.min(discount, amount)));
+    }
+
+    /**
+     * Express a code's fixed amounts in another currency
+     * Percentages are left alone; codes saved without a currency are in the default one.
+     */
+    async convertTerms(terms: Partial<PromoTerms> & Pick<PromoTerms, 'discountType' | 'discountValue'>, currency?: string) {
+        const from = (terms.currency || config.payments.defaultCurrency).toUpperCase();
+        const to = currency ? currency.toUpperCase() : from;
+        const rate = to === from ? 1 : await CurrencyService.getRate(from, to);
+        const convert = (value?: number) => (value === undefined || value === null ? undefined : roundCurrency(value * rate));
+
+        return {
+            discountType: terms.discountType,
+            discountValue: terms.discountType === 'fixed' ? roundCurrency(terms.discountValue * rate) : terms.discountValue,
+            maxDiscountAmount: convert(terms.maxDiscountAmount),
+            minPurchaseAmount: convert(terms.minPurchaseAmount),
+            currency: to,
+        };
+    }
+
+    /**
+     * Check whether a promo code can be used for a tour
+     */
+    private async isApplicableToTour(promo: PromoCode, tourId: string): Promise<boolean> {
+        if (promo.scope === 'global') {
+            return true;
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(tourId)) {
+            return false;
+        }
+
+        if (promo.scope === 'tour') {
+            return promo.applicableTours.some(id => id.toString() === tourId);
+        }
+
+        // Seller scope covers every tour the seller authors
+        return !!promo.seller && (await Tour.exists({ _id: tourId, author: promo.seller })) !== null;
+    }
+
+    /**
+     * Load a promo code and check it against the booking context
+     * Throws a 400 describing why the code cannot be used. The terms come back
+     * in the context's currency.
+     */
+    private async resolvePromoCode(code: string, context: PromoCodeContext) {
+        if (!code || typeof code !== 'string') {
+            throw createHttpError(400, 'Promo code is required');
+        }
+
+        const promo = await PromoCodeModel.findOne({ code: code.trim().toUpperCase() });
+        if (!promo || !promo.isActive) {
+            throw createHttpError(400, 'Invalid promo code');
+        }
+
+        const now = new Date();
+        if (promo.startDate > now) {
+            throw createHttpError(400, 'Promo code is not active yet');
+        }
+        if (promo.endDate < now) {
+            throw createHttpError(400, 'Promo code has expired');
+        }
+
+        if (promo.maxUses != null && promo.currentUses >= promo.maxUses) {
+            throw createHttpError(400, 'Promo code usage limit reached');
+        }
+
+        if (context.tourId && !(await this.isApplicableToTour(promo, context.tourId))) {
+            throw createHttpError(400, 'Promo code is not valid for this tour');
+        }
+
+        const terms = await this.convertTerms(promo, context.currency);
+        if (context.amount !== undefined && terms.minPurchaseAmount && context.amount < terms.minPurchaseAmount) {
+            throw createHttpError(400, `Promo code requires a minimum purchase of ${terms.minPurchaseAmount} ${terms.currency}`);
+        }
+
+        return { promo, terms };
+    }
+
+    /**
+     * Validate a promo code without redeeming it
+     * Tour and amount are optional; when omitted those checks run at booking time.
+     */
+    async validatePromoCode(code: string, context: PromoCodeContext = {}) {
+        const { promo, terms } = await this.resolvePromoCode(code, context);
+        const discountAmount = context.amount !== undefined
+            ? this.calculateDiscount(terms, context.amount)
+            : undefined;
+
+        return {
+            code: promo.code,
+            description: promo.description,
+            discountType: terms.discountType,
+            discountValue: terms.discountValue,
+            maxDiscountAmount: terms.maxDiscountAmount,
+            minPurchaseAmount: terms.minPurchaseAmount,
+            currency: terms.currency,
+            scope: promo.scope,
+            endDate: promo.endDate,
+            discountAmount,
+            finalAmount: discountAmount !== undefined ? roundCurrency(context.amount! - discountAmount) : undefined,
+        };
+    }
+
+    /**
+     * Redeem a promo code for a booking
+     * The usage counter is incremented with a conditional update so concurrent
+     * bookings can never push it past maxUses.
+     */
+    async redeemPromoCode(code: string, context: Required<PromoCodeContext>): Promise<AppliedPromoCode> {
+        const { promo, terms } = await this.resolvePromoCode(code, context);
+        const now = new Date();
+
+        const redeemed = await PromoCodeModel.findOneAndUpdate(
+            {
+                _id: promo._id,
+                isActive: true,
+                startDate: { $lte: now },
+                endDate: { $gte: now },
+                $or: [
+                    { maxUses: null },
+                    { $expr: { $lt: ['$currentUses', '$maxUses'] } }
+                ]
+            },
+            { $inc: { currentUses: 1 } },
+            { new: true }
+        );
+
+        if (!redeemed) {
+            throw createHttpError(400, 'Promo code usage limit reached');
+        }
+
+        return {
+            promoCodeId: redeemed._id as mongoose.Types.ObjectId,
+            code: redeemed.code,
+            discountType: terms.discountType,
+            discountValue: terms.discountValue,
+            discountAmount: this.calculateDiscount(terms, context.amount),
+            currency: terms.currency,
+        };
+    }
+
+    /**
+     * Give back a redemption (e.g. when the booking could not be saved)
+     */
+    async releasePromoCode(promoCodeId: mongoose.Types.ObjectId | string) {
+        await PromoCodeModel.updateOne(
+            { _id: promoCodeId, currentUses: { $gt: 0 } },
+            { $inc: { currentUses: -1 } }
+        );
+    }
+
+    /**
+     * Make sure a seller only attaches codes to their own tours
+     */
+    private async assertScopeAllowed(data: Partial<PromoCode>, actor: PromoCodeActor) {
+        const isAdmin = actor.roles.includes('admin');
+        const scope = data.scope || 'global';
+
+        if (scope === 'tour') {
+            if (!data.applicableTours || data.applicableTours.length === 0) {
+                throw createHttpError(400, 'Tour-scoped promo codes need at least one tour');
+            }
+            if (!isAdmin) {
+                const ownedTours = await Tour.countDocuments({ _id: { $in: data.applicableTours }, author: actor.id });
+                if (ownedTours !== data.applicableTours.length) {
+                    throw createHttpError(403, 'You can only create promo codes for your own tours');
+                }
+            }
+        }
+
+        if (scope === 'seller') {
+            if (!isAdmin) {
+                data.seller = new mongoose.Types.ObjectId(actor.id);
+            } else if (!data.seller) {
+                throw createHttpError(400, 'Seller-scoped promo codes need a seller');
+            }
+        } else if (!isAdmin) {
+            // Only seller-scoped codes name a seller, and sellers only ever name themselves
+            data.seller = undefined;
+        }
+
+        if (scope === 'global' && !isAdmin) {
+            throw createHttpError(403, 'Only admins can create global promo codes');
+        }
+    }
+
+    /**
+     * Load a promo code the actor is allowed to manage
+     */
+    private async getManageablePromoCode(promoId: string, actor: PromoCodeActor) {
+        if (!mongoose.Types.ObjectId.isValid(promoId)) {
+            throw createHttpError(400, 'Invalid promo code ID');
+        }
+
+        const promo = await PromoCodeModel.findById(promoId);
+        if (!promo) {
+            throw createHttpError(404, 'Promo code not found');
+        }
+
+        if (!actor.roles.includes('admin') && promo.createdBy.toString() !== actor.id) {
+            throw createHttpError(403, 'You do not have permission to manage this promo code');
+        }
+
+        return promo;
+    }
+
+    /**
+     * List promo codes (admins see all, sellers see their own)
+     */
+    async listPromoCodes(actor: PromoCodeActor, paginationParams: PaginationParams, filters: FilterQuery<PromoCode> = {}) {
+        const query: FilterQuery<PromoCode> = actor.roles.includes('admin')
+            ? filters
+            : { ...filters, createdBy: actor.id };
+
+        const result = await paginate(PromoCodeModel, query, paginationParams);
+        return this.normalizeResult(result);
+    }
+
+    /**
+     * Create a promo code
+     */
+    async createPromoCode(data: Partial<PromoCode>, actor: PromoCodeActor) {
+        PROTECTED_FIELDS.forEach(field => delete (data as any)[field]);
+        await this.assertScopeAllowed(data, actor);
+
+        const code = data.code?.trim().toUpperCase();
+        if (!code) {
+            throw createHttpError(400, 'Promo code is required');
+        }
+        if (await PromoCodeModel.exists({ code })) {
+            throw createHttpError(409, 'Promo code already exists');
+        }
+
+        return this.create({ ...data, code, createdBy: new mongoose.Types.ObjectId(actor.id) });
+    }
+
+    /**
+     * Update a promo code
+     */
+    async updatePromoCode(promoId: string, data: Partial<PromoCode>, actor: PromoCodeActor) {
+        const promo = await this.getManageablePromoCode(promoId, actor);
+        PROTECTED_FIELDS.forEach(field => delete (data as any)[field]);
+
+        if (data.scope || data.applicableTours || data.seller) {
+            const scope: Partial<PromoCode> = {
+                scope: data.scope || promo.scope,
+                applicableTours: data.applicableTours || promo.applicableTours,
+                seller: data.seller || promo.seller,
+            };
+            await this.assertScopeAllowed(scope, actor);
+
+            // Save what was checked - a seller's own id replaces any seller sent in the request
+            data.scope = scope.scope;
+            data.applicableTours = scope.applicableTours;
+            data.seller = scope.seller;
+        }
+
+        promo.set(data);
+        try {
+            await promo.save();
+        } catch (error: any) {
+            if (error.name === 'ValidationError') {
+                throw createHttpError(400, `Validation error: ${error.message}`);
+            }
+            if (error.code === 11000) {
+                throw createHttpError(409, 'Promo code already exists');
+            }
+            throw error;
+        }
+
+        return normalizeDoc(promo);
+    }
+
+    /**
+     * Delete a promo code
+     */
+    async deletePromoCode(promoId: string, actor: PromoCodeActor) {
+        await this.getManageablePromoCode(promoId, actor);
+        return this.delete(promoId);
+    }
+
+    // Static accessors used by the controllers and booking service
+    static async validatePromoCode(code: string, context?: PromoCodeContext) {
+        return PromoCodeService.getInstance().validatePromoCode(code, context);
+    }
+
+    static async redeemPromoCode(code: string, context: Required<PromoCodeContext>) {
+        return PromoCodeService.getInstance().redeemPromoCode(code, context);
+    }
+
+    static async releasePromoCode(promoCodeId: mongoose.Types.ObjectId | string) {
+        return PromoCodeService.getInstance().releasePromoCode(promoCodeId);
+    }
+
+    static async listPromoCodes(actor: PromoCodeActor, paginationParams: PaginationParams, filters?: FilterQuery<PromoCode>) {
+        return PromoCodeService.getInstance().listPromoCodes(actor, paginationParams, filters);
+    }
+
+    static async createPromoCode(data: Partial<PromoCode>, actor: PromoCodeActor) {
+        return PromoCodeService.getInstance().createPromoCode(data, actor);
+    }
+
+    static async updatePromoCode(promoId: string, data: Partial<PromoCode>, actor: PromoCodeActor) {
+        return PromoCodeService.getInstance().updatePromoCode(promoId, data, actor);
+    }
+
+    static async deletePromoCode(promoId: string, actor: PromoCodeActor) {
+        return PromoCodeService.getInstance().deletePromoCode(promoId, actor);
+    }
+}
@@ -0,0 +1,303 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import RefundModel from '../refundModel';
+import BookingModel from '../bookingModel';
+import PaymentIntentModel from '../paymentModel';
+import { Booking } from '../bookingTypes';
+import { Refund, RefundQuote } from '../refundTypes';
+import { BaseService } from '../../../services/BaseService';
+import { config } from '../../../config/config';
+import { logger } from '../../../utils/logger';
+import { getPaymentGatewayByName, GatewayRefundResult } from '../gateways';
+import Tour from '../../tours/tourModel';
+import { CancellationPolicy, CancellationTier } from '../../tours/tourTypes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export interface IssueRefundOptions {
+    reason?: string;
+    requestedBy?: string;
+}
+
+/**
+ * Refund Service
+ * Applies a tour's cancellation policy to a booking and sends refunds
+ * back through the gateways that took the payment, keeping a ledger entry
+ * for every movement of money.
+ */
+export class RefundService extends BaseService<Refund> {
+    private static instance: RefundService;
+
+    constructor() {
+        super(RefundModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): RefundService {
+        if (!RefundService.instance) {
+            RefundService.instance = new RefundService();
+        }
+        return RefundService.instance;
+    }
+
+    /**
+     * The tour's own policy, or the platform default when it has none
+     */
+    private resolvePolicy(policy?: CancellationPolicy | null): RefundQuote['policy'] {
+        if (policy?.tiers?.length) {
+            return {
+                tiers: [...policy.tiers].sort((a, b) => b.daysBeforeDeparture - a.daysBeforeDeparture),
+                description: policy.description,
+                isDefault: false,
+            };
+        }
+
+        const days = config.cancellation.defaultFreeCancellationDays;
+        return {
+            tiers: [{ daysBeforeDeparture: days, refundPercentage: 100 }],
+            description: `Free cancellation up to ${days} days before departure. No refund after that.`,
+            isDefault: true,
+        };
+    }
+
+    /**
+     * Work out what a booking would get back if it were cancelled now
+     */
+    async calculateRefund(booking: Booking): Promise<RefundQuote> {
+        const tour = await Tour.findById(booking.tour).select('cancellationPolicy').lean();
+        const policy = this.resolvePolicy(tour?.cancellationPolicy);
+
+        const msUntilDeparture = new Date(booking.departureDate).getTime() - Date.now();
+        const daysBeforeDeparture = msUntilDeparture / DAY_MS;
+
+        // Tiers are sorted latest-deadline-first, so the first one we are still ahead of applies
+        const appliedTier: CancellationTier | null = policy.tiers
+            .find(tier => daysBeforeDeparture >= tier.daysBeforeDeparture) || null;
+        const refundPercentage = appliedTier?.refundPercentage || 0;
+
+        const paidAmount = Math.max(0, (booking.paidAmount || 0) - (booking.refundedAmount || 0));
+        const cancellable = ['pending', 'confirmed'].includes(booking.status) && msUntilDeparture > 0;
+
+        return {
+            bookingId: (booking._id as mongoose.Types.ObjectId).toString(),
+            bookingReference: booking.bookingReference,
+            cancellable,
+            daysBeforeDeparture: Math.max(0, Math.floor(daysBeforeDeparture)),
+            policy,
+            appliedTier,
+            refundPercentage,
+            paidAmount,
+            refundAmount: cancellable ? roundCurrency(paidAmount * refundPercentage / 100) : 0,
+            currency: booking.pricing?.currency || config.payments.defaultCurrency,
+        };
+    }
+
+    /**
+     * Refund quote for a booking, shown to the customer before they cancel
+     */
+    async getRefundQuote(bookingId: string): Promise<RefundQuote> {
+        if (!mongoose.Types.ObjectId.isValid(bookingId)) {
+            throw createHttpError(400, 'Invalid booking ID');
+        }
+
+        const booking = await BookingModel.findById(bookingId);
+        if (!booking) {
+            throw createHttpError(404, 'Booking not found');
+        }
+
+        return this.calculateRefund(booking);
+    }
+
+    /**
+     * How much of each successful payment can still be refunded for a booking
+     */
+    private async getRefundablePayments(bookingId: mongoose.Types.ObjectId) {
+        const [payments, previous] = await Promise.all([
+            PaymentIntentModel
+                .find({ 'allocations.booking': bookingId, status: 'succeeded' })
+                .sort({ succeededAt: -1 }),
+            RefundModel.find({ booking: bookingId, payment: { $exists: true }, status: { $ne: 'failed' } }).lean(),
+        ]);
+
+        return payments.map(payment => {
+            const allocated = payment.allocations
+                .filter(allocation => allocation.booking.equals(bookingId))
+                .reduce((sum, allocation) => sum + allocation.amount, 0);
+            const refunded = previous
+                .filter(refund => refund.payment?.equals(payment._id as mongoose.Types.ObjectId))
+                .reduce((sum, refund) => sum + refund.amount, 0);
+
+            return { payment, refundable: roundCurrency(Math.max(0, allocated - refunded)) };
+        });
+    }
+
+    /**
+     * Send money back to the customer and record it in the ledger
+     * The amount is spread over the booking's successful payments (newest first);
+     * whatever was paid outside the gateways is recorded as a manual refund.
+     */
+    private async sendRefund(
+        booking: Booking,
+        amount: number,
+        entry: Pick<Refund, 'type' | 'currency'> & Partial<Pick<Refund, 'refundPercentage' | 'daysBeforeDeparture' | 'appliedTier'>>,
+        options: IssueRefundOptions
+    ) {
+        const bookingId = booking._id as mongoose.Types.ObjectId;
+        const ledgerEntry = {
+            ...entry,
+            booking: bookingId,
+            bookingReference: booking.bookingReference,
+            reason: options.reason,
+            requestedBy: options.requestedBy,
+        };
+
+        const refunds: Refund[] = [];
+        let remaining = amount;
+
+        for (const { payment, refundable } of await this.getRefundablePayments(bookingId)) {
+            if (remaining <= 0) break;
+
+            const paymentAmount = roundCurrency(Math.min(remaining, refundable));
+            if (paymentAmount <= 0 || !payment.gatewayReference) continue;
+
+            const refund = await RefundModel.create({
+                ...ledgerEntry,
+                payment: payment._id,
+                amount: paymentAmount,
+                method: 'gateway',
+                gateway: payment.gateway,
+                status: 'pending',
+            });
+
+            let result: GatewayRefundResult;
+            try {
+                const gateway = getPaymentGatewayByName(payment.gateway, payment.method);
+                result = await gateway.refund({
+                    reference: payment.gatewayReference,
+                    amount: paymentAmount,
+                    currency: payment.currency,
+                    reason: options.reason,
+                });
+            } catch (error: any) {
+                result = { status: 'failed', failureReason: error.message || 'Payment gateway is unavailable' };
+            }
+
+            refund.status = result.status;
+            refund.gatewayReference = result.reference;
+            refund.failureReason = result.failureReason;
+            refund.processedAt = result.status === 'succeeded' ? new Date() : undefined;
+            await refund.save();
+
+            if (result.status === 'failed') {
+                // The customer is still owed the money - leave it for the operator to settle
+                logger.error('Refund failed at the payment gateway', {
+                    refundId: (refund._id as mongoose.Types.ObjectId).toString(),
+                    bookingReference: booking.bookingReference,
+                    gateway: payment.gateway,
+                    amount: paymentAmount,
+                    error: result.failureReason,
+                });
+            }
+
+            refunds.push(refund);
+            remaining = roundCurrency(remaining - paymentAmount);
+        }
+
+        if (remaining > 0) {
+            refunds.push(await RefundModel.create({
+                ...ledgerEntry,
+                amount: remaining,
+                method: 'manual',
+                status: 'pending',
+            }));
+        }
+
+        return refunds;
+    }
+
+    /**
+     * Refund a cancelled booking according to its quote
+     */
+    async issueRefund(booking: Booking, quote: RefundQuote, options: IssueRefundOptions = {}) {
+        if (quote.refundAmount <= 0) {
+            return [];
+        }
+
+        const refunds = await this.sendRefund(booking, quote.refundAmount, {
+            type: 'cancellation',
+            currency: quote.currency,
+            refundPercentage: quote.refundPercentage,
+            daysBeforeDeparture: quote.daysBeforeDeparture,
+            appliedTier: quote.appliedTier || undefined,
+        }, options);
+
+        // Record what the customer is owed and derive the payment status from it
+        await BookingModel.updateOne(
+            { _id: booking._id },
+            [
+                { $set: { refundedAmount: { $add: [{ $ifNull: ['$refundedAmount', 0] }, quote.refundAmount] } } },
+                {
+                    $set: {
+                        paymentStatus: {
+                            $cond: [{ $gte: ['$refundedAmount', '$paidAmount'] }, 'refunded', 'partial']
+                        }
+                    }
+                }
+            ]
+        );
+
+        return refunds;
+    }
+
+    /**
+     * Give back an overpayment after an amendment made the booking cheaper
+     * The caller lowers the booking's paid amount.
+     */
+    async issueAmendmentRefund(booking: Booking, amount: number, options: IssueRefundOptions = {}) {
+        if (amount <= 0) {
+            return [];
+        }
+
+        return this.sendRefund(booking, roundCurrency(amount), {
+            type: 'amendment',
+            currency: booking.pricing?.currency || config.payments.defaultCurrency,
+        }, options);
+    }
+
+    /**
+     * Give back a payment that was captured after its booking had been cancelled
+     * The payment never counted towards the booking, so only the ledger changes.
+     */
+    async issueLatePaymentRefund(booking: Booking, amount: number, currency: string, options: IssueRefundOptions = {}) {
+        if (amount <= 0) {
+            return [];
+        }
+
+        return this.sendRefund(booking, roundCurrency(amount), { type: 'late-payment', currency }, options);
+    }
+
+    // Static accessors used by the booking service and controllers
+    static async calculateRefund(booking: Booking) {
+        return RefundService.getInstance().calculateRefund(booking);
+    }
+
+    static async getRefundQuote(bookingId: string) {
+        return RefundService.getInstance().getRefundQuote(bookingId);
+    }
+
+    static async issueRefund(booking: Booking, quote: RefundQuote, options?: IssueRefundOptions) {
+        return RefundService.getInstance().issueRefund(booking, quote, options);
+    }
+
+    static async issueAmendmentRefund(booking: Booking, amount: number, options?: IssueRefundOptions) {
+        return RefundService.getInstance().issueAmendmentRefund(booking, amount, options);
+    }
+
+    static async issueLatePaymentRefund(booking: Booking, amount: number, currency: string, options?: IssueRefundOptions) {
+        return RefundService.getInstance().issueLatePaymentRefund(booking, amount, currency, options);
+    }
+}
@@ -0,0 +1,241 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+
+export interface VoucherOperator {
+    name: string;
+    contactPerson?: string;
+    email?: string;
+    phone?: string;
+    website?: string;
+    address?: string;
+}
+
+export interface VoucherData {
+    bookingReference: string;
+    status: string;
+    paymentStatus: string;
+    issuedAt: Date;
+
+    tour: {
+        title: string;
+        code: string;
+        days?: number;
+        meetingPoint?: string;
+    };
+    departureDate: Date;
+
+    participants: {
+        adults: number;
+        children: number;
+        infants?: number;
+    };
+    travelers: Array<{
+        firstName: string;
+        lastName: string;
+        dateOfBirth?: Date;
+        passportNumber?: string;
+    }>;
+
+    pricing: {
+        currency: string;
+        adultPrice?: number;
+        childPrice?: number;
+        infantPrice?: number;
+        addOns?: Array<{ name: string; quantity: number; totalPrice: number }>;
+        subtotal?: number;
+        discountAmount?: number;
+        promoCode?: string;
+        taxAmount?: number;
+        taxRate?: number;
+        totalPrice: number;
+        paidAmount: number;
+    };
+
+    leadContact: {
+        name: string;
+        email: string;
+        phone: string;
+    };
+    specialRequests?: string;
+    operator?: VoucherOperator;
+}
+
+const PAGE_MARGIN = 50;
+const QR_SIZE = 110;
+const COLORS = {
+    primary: '#0f766e',
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#e5e7eb',
+};
+
+const formatMoney = (amount: number | undefined, currency: string) =>
+    `${currency} ${(amount || 0).toFixed(2)}`;
+
+const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-US', { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Render a printable booking voucher
+ * The QR code encodes the booking reference so staff can scan it at check-in.
+ */
+export const renderVoucherPdf = async (voucher: VoucherData): Promise<Buffer> => {
+    const qrCode = await QRCode.toBuffer(voucher.bookingReference, {
+        type: 'png',
+        errorCorrectionLevel: 'M',
+        margin: 1,
+        width: QR_SIZE * 2,
+    });
+
+    const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        info: {
+            Title: `Booking voucher ${voucher.bookingReference}`,
+            Author: voucher.operator?.name || 'TourBNT',
+            Subject: voucher.tour.title,
+        },
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const { currency } = voucher.pricing;
+
+    const sectionTitle = (title: string) => {
+        doc.moveDown(0.8);
+        doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.primary).text(title.toUpperCase(), PAGE_MARGIN);
+        const y = doc.y + 2;
+        doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + contentWidth, y).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+        doc.moveDown(0.5);
+    };
+
+    const row = (label: string, value: string, options: { bold?: boolean } = {}) => {
+        const y = doc.y;
+        doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text(label, PAGE_MARGIN, y, { width: 150 });
+        doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fillColor(COLORS.text)
+            .text(value, PAGE_MARGIN + 160, y, { width: contentWidth - 160 });
+        doc.moveDown(0.3);
+    };
+
+    const amountRow = (label: string, value: string, options: { bold?: boolean } = {}) => {
+        const y = doc.y;
+        doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(options.bold ? 11 : 10).fillColor(COLORS.text)
+            .text(label, PAGE_MARGIN, y, { width: contentWidth - 150 })
+            .text(value, PAGE_MARGIN + contentWidth - 150, y, { width: 150, align: 'right' });
+        doc.moveDown(0.3);
+    };
+
+    // Header
+    const headerTop = doc.y;
+    doc.font('Helvetica-Bold').fontSize(22).fillColor(COLORS.primary).text('Booking Voucher', PAGE_MARGIN, headerTop);
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+        .text(`Issued ${formatDate(voucher.issuedAt)}`)
+        .moveDown(0.8);
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text('Booking reference');
+    doc.font('Helvetica-Bold').fontSize(18).fillColor(COLORS.text).text(voucher.bookingReference);
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.text)
+        .text(`Status: ${capitalize(voucher.status)}  |  Payment: ${capitalize(voucher.paymentStatus)}`);
+
+    doc.image(qrCode, PAGE_MARGIN + contentWidth - QR_SIZE, headerTop, { width: QR_SIZE, height: QR_SIZE });
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted)
+        .text('Scan at check-in', PAGE_MARGIN + contentWidth - QR_SIZE, headerTop + QR_SIZE + 2, { width: QR_SIZE, align: 'center' });
+    doc.y = Math.max(doc.y, headerTop + QR_SIZE + 14);
+
+    // Tour
+    sectionTitle('Tour');
+    row('Tour', voucher.tour.title, { bold: true });
+    row('Tour code', voucher.tour.code);
+    row('Departure', formatDate(voucher.departureDate));
+    if (voucher.tour.days && voucher.tour.days > 1) {
+        const returnDate = new Date(voucher.departureDate);
+        returnDate.setUTCDate(returnDate.getUTCDate() + voucher.tour.days - 1);
+        row('Return', formatDate(returnDate));
+        row('Duration', `${voucher.tour.days} days`);
+    }
+    if (voucher.tour.meetingPoint) {
+        row('Meeting point', voucher.tour.meetingPoint);
+    }
+
+    // Travelers
+    sectionTitle('Travelers');
+    const { adults, children, infants } = voucher.participants;
+    const party = [`${adults} adult${adults === 1 ? '' : 's'}`];
+    if (children) party.push(`${children} child${children === 1 ? '' : 'ren'}`);
+    if (infants) party.push(`${infants} infant${infants === 1 ? '' : 's'}`);
+    row('Party', party.join(', '));
+    voucher.travelers.forEach((traveler, index) => {
+        const details = [
+            traveler.dateOfBirth ? `born ${formatDate(traveler.dateOfBirth)}` : undefined,
+            traveler.passportNumber ? `passport ${traveler.passportNumber}` : undefined,
+        ].filter(Boolean).join(', ');
+        row(`Traveler ${index + 1}`, `${traveler.firstName} ${traveler.lastName}${details ? ` (${details})` : ''}`);
+    });
+    row('Lead contact', `${voucher.leadContact.name}, ${voucher.leadContact.email}, ${voucher.leadContact.phone}`);
+
+    // Pricing
+    sectionTitle('Pricing');
+    if (voucher.pricing.adultPrice) {
+        amountRow(`Adults x ${adults}`, formatMoney(voucher.pricing.adultPrice, currency));
+    }
+    if (children && voucher.pricing.childPrice) {
+        amountRow(`Children x ${children}`, formatMoney(voucher.pricing.childPrice, currency));
+    }
+    if (infants && voucher.pricing.infantPrice) {
+        amountRow(`Infants x ${infants}`, formatMoney(voucher.pricing.infantPrice, currency));
+    }
+    for (const addOn of voucher.pricing.addOns || []) {
+        amountRow(`${addOn.name} x ${addOn.quantity}`, formatMoney(addOn.totalPrice, currency));
+    }
+    if (voucher.pricing.discountAmount) {
+        if (voucher.pricing.subtotal !== undefined) {
+            amountRow('Subtotal', formatMoney(voucher.pricing.subtotal, currency));
+        }
+        const label = voucher.pricing.promoCode ? `Discount (${voucher.pricing.promoCode})` : 'Discount';
+        amountRow(label, `-${formatMoney(voucher.pricing.discountAmount, currency)}`);
+    }
+    if (voucher.pricing.taxAmount) {
+        amountRow(`Tax (${voucher.pricing.taxRate || 0}%)`, formatMoney(voucher.pricing.taxAmount, currency));
+    }
+    amountRow('Total', formatMoney(voucher.pricing.totalPrice, currency), { bold: true });
+    amountRow('Paid', formatMoney(voucher.pricing.paidAmount, currency));
+    const balance = Math.max(0, voucher.pricing.totalPrice - voucher.pricing.paidAmount);
+    if (balance > 0) {
+        amountRow('Balance due', formatMoney(balance, currency), { bold: true });
+    }
+
+    if (voucher.specialRequests) {
+        sectionTitle('Special requests');
+        doc.font('Helvetica').fontSize(10).fillColor(COLORS.text).text(voucher.specialRequests, PAGE_MARGIN, doc.y, { width: contentWidth });
+    }
+
+    // Operator
+    if (voucher.operator) {
+        sectionTitle('Tour operator');
+        row('Operator', voucher.operator.name, { bold: true });
+        if (voucher.operator.contactPerson) row('Contact', voucher.operator.contactPerson);
+        if (voucher.operator.phone) row('Phone', voucher.operator.phone);
+        if (voucher.operator.email) row('Email', voucher.operator.email);
+        if (voucher.operator.website) row('Website', voucher.operator.website);
+        if (voucher.operator.address) row('Address', voucher.operator.address);
+    }
+
+    doc.moveDown(1.5);
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(
+        'Please present this voucher (printed or on your phone) together with a photo ID at check-in. ' +
+        'Contact the tour operator directly for questions about your itinerary.',
+        PAGE_MARGIN,
+        doc.y,
+        { width: contentWidth, align: 'center' }
+    );
+
+    doc.end();
+    return finished;
+};
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from 'express';
+import createHttpError from 'http-errors';
+import { CurrencyService, RATES_CACHE_SECONDS } from '../services/currencyService';
+import { sendSuccess } from '../../../utils/apiResponse';
+
+/**
+ * Get the exchange rate table
+ */
+export const getRates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const table = await CurrencyService.getRateTable();
+
+        res.set('Cache-Control', `public, max-age=${RATES_CACHE_SECONDS}`);
+        sendSuccess(res, table, 'Exchange rates retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Convert an amount between two currencies
+ */
+export const convertAmount = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { amount, from, to } = req.query;
+
+        if (amount === undefined || !from || !to) {
+            throw createHttpError(400, 'amount, from and to are required');
+        }
+
+        const result = await CurrencyService.convert(Number(amount), String(from), String(to));
+
+        sendSuccess(res, result, 'Amount converted successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Set a currency's exchange rate (admin)
+ */
+export const setRate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const table = await CurrencyService.setRate(req.params.currency, Number(req.body.rate), req.user!.id);
+
+        sendSuccess(res, table, 'Exchange rate saved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Import exchange rates from an uploaded CSV or JSON file (admin)
+ */
+export const importRates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (!req.file) {
+            throw createHttpError(400, 'A rates file is required');
+        }
+
+        const result = await CurrencyService.importRates(req.file.buffer.toString('utf8'), req.user!.id);
+
+        sendSuccess(res, result, `${result.imported} exchange rates imported successfully`);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Remove a currency's exchange rate (admin)
+ */
+export const deleteRate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const table = await CurrencyService.deleteRate(req.params.currency);
+
+        sendSuccess(res, table, 'Exchange rate removed successfully');
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,192 @@
+import express, { RequestHandler } from 'express';
+import { authenticate, authorizeRoles } from '../../middlewares/authenticate';
+import { uploadRatesFile } from '../../middlewares/multer';
+import { asyncAuthHandler } from '../../utils/routeWrapper';
+import {
+    getRates,
+    convertAmount,
+    setRate,
+    importRates,
+    deleteRate
+} from './controllers/currencyController';
+
+const currencyRouter = express.Router();
+
+// ============================================================================
+// PUBLIC ROUTES
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/currencies/rates:
+ *   get:
+ *     summary: Get exchange rates
+ *     description: Units of each currency per 1 unit of the base currency. Cached for a few minutes.
+ *     tags: [Currencies]
+ *     responses:
+ *       200:
+ *         description: Exchange rates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ExchangeRateTable'
+ */
+currencyRouter.get('/rates', getRates);
+
+/**
+ * @swagger
+ * /api/v1/currencies/convert:
+ *   get:
+ *     summary: Convert an amount
+ *     description: Convert an amount between two currencies at the current rates, for display
+ *     tags: [Currencies]
+ *     parameters:
+ *       - in: query
+ *         name: amount
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: NPR
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: AUD
+ *     responses:
+ *       200:
+ *         description: Amount converted successfully (includes the `rate` used)
+ *       400:
+ *         description: Invalid amount or currency, or no rate for a currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+currencyRouter.get('/convert', convertAmount);
+
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/currencies/rates/import:
+ *   post:
+ *     summary: Import exchange rates
+ *     description: |
+ *       Upload a CSV file of `currency,rate` lines (a header row is optional) or a JSON file
+ *       such as `{ "base": "USD", "rates": { "NPR": 133.2, "AUD": 1.52 } }`. Rates in the file
+ *       replace the saved ones; the whole file is rejected when any entry is invalid.
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Exchange rates imported successfully
+ *       400:
+ *         description: Missing or invalid rates file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+currencyRouter.post(
+    '/rates/import',
+    authenticate,
+    authorizeRoles('admin') as RequestHandler,
+    uploadRatesFile,
+    asyncAuthHandler(importRates)
+);
+
+/**
+ * @swagger
+ * /api/v1/currencies/rates/{currency}:
+ *   put:
+ *     summary: Set an exchange rate
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rate
+ *             properties:
+ *               rate:
+ *                 type: number
+ *                 description: Units of this currency per 1 unit of the base currency
+ *     responses:
+ *       200:
+ *         description: Exchange rate saved successfully
+ *       400:
+ *         description: Invalid currency or rate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Remove an exchange rate
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate removed successfully
+ *       404:
+ *         description: No rate for this currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+currencyRouter.put(
+    '/rates/:currency',
+    authenticate,
+    authorizeRoles('admin') as RequestHandler,
+    asyncAuthHandler(setRate)
+);
+currencyRouter.delete(
+    '/rates/:currency',
+    authenticate,
+    authorizeRoles('admin') as RequestHandler,
+    asyncAuthHandler(deleteRate)
+);
+
+export default currencyRouter;
@@ -0,0 +1,22 @@
+import mongoose, { Document } from 'mongoose';
+
+// Where a rate came from: typed in by an admin or read from an imported file
+export type ExchangeRateSource = 'manual' | 'import';
+
+export interface ExchangeRate extends Document {
+    // ISO 4217 code
+    currency: string;
+    // Units of this currency per 1 unit of the base currency
+    rate: number;
+    source: ExchangeRateSource;
+    updatedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface RateTable {
+    base: string;
+    // Includes the base currency itself at 1
+    rates: Record<string, number>;
+    updatedAt?: Date;
+}
@@ -0,0 +1,33 @@
+import mongoose, { Schema } from 'mongoose';
+import { ExchangeRate } from './currencyTypes';
+
+const exchangeRateSchema = new Schema<ExchangeRate>(
+    {
+        currency: {
+            type: String,
+            required: true,
+            unique: true,
+            uppercase: true,
+            match: /^[A-Z]{3}$/,
+        },
+        rate: {
+            type: Number,
+            required: true,
+            min: [0, 'Rate must be positive'],
+        },
+        source: {
+            type: String,
+            enum: ['manual', 'import'],
+            default: 'manual',
+        },
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    { timestamps: true }
+);
+
+const ExchangeRateModel = mongoose.model<ExchangeRate>('ExchangeRate', exchangeRateSchema);
+
+export default ExchangeRateModel;
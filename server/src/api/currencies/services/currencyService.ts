@@ -0,0 +1,250 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import ExchangeRateModel from '../exchangeRateModel';
+import { ExchangeRateSource, RateTable } from '../currencyTypes';
+import { config } from '../../../config/config';
+import { TtlCache } from '../../../utils/ttlCache';
+
+// How long the rate table is cached, on the server and by clients
+export const RATES_CACHE_SECONDS = 300;
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const RATES_CACHE_KEY = 'rates';
+// Parse errors listed in the import response
+const MAX_REPORTED_ERRORS = 10;
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Normalize a currency code, rejecting anything that isn't three letters
+ */
+export const parseCurrency = (value: unknown): string => {
+    const currency = String(value || '').trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(currency)) {
+        throw createHttpError(400, `Invalid currency code "${value}"`);
+    }
+    return currency;
+};
+
+const isValidRate = (rate: unknown): rate is number =>
+    typeof rate === 'number' && Number.isFinite(rate) && rate > 0;
+
+/**
+ * Read `currency -> rate` pairs from an uploaded file
+ * JSON files hold an object of rates (optionally under `rates`, with a `base`);
+ * anything else is read as CSV lines of `currency,rate`, with an optional header.
+ */
+const parseRatesFile = (content: string, base: string): Record<string, number> => {
+    const entries: Array<[string, unknown, string]> = [];
+    const text = content.replace(/^\uFEFF/, '').trim();
+
+    if (text.startsWith('{')) {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            throw createHttpError(400, 'Rates file is not valid JSON');
+        }
+        if (parsed.base && String(parsed.base).toUpperCase() !== base) {
+            throw createHttpError(400, `Rates must be relative to the base currency ${base}, not ${parsed.base}`);
+        }
+        const rates = parsed.rates && typeof parsed.rates === 'object' ? parsed.rates : parsed;
+        for (const [currency, rate] of Object.entries(rates)) {
+            if (currency === 'base') continue;
+            entries.push([currency, rate, currency]);
+        }
+    } else {
+        text.split(/\r?\n/).forEach((line, index) => {
+            const [currency, rate] = line.split(/[,;\t]/).map(cell => cell.trim());
+            // Skip blank lines, comments and a header row
+            if (!currency || currency.startsWith('#') || (index === 0 && isNaN(Number(rate)))) return;
+            entries.push([currency, rate === '' ? NaN : Number(rate), `line ${index + 1}`]);
+        });
+    }
+
+    const rates: Record<string, number> = {};
+    const errors: string[] = [];
+    for (const [currency, rate, where] of entries) {
+        const code = currency.toUpperCase();
+        if (!CURRENCY_PATTERN.test(code) || !isValidRate(rate)) {
+            errors.push(`${where}: expected a currency code and a positive rate`);
+        } else if (code === base && rate !== 1) {
+            errors.push(`${where}: the base currency ${base} always has a rate of 1`);
+        } else if (code !== base) {
+            rates[code] = rate;
+        }
+    }
+
+    if (errors.length > 0) {
+        throw createHttpError(400, `Rates file has ${errors.length} invalid entries: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`);
+    }
+    if (Object.keys(rates).length === 0) {
+        throw createHttpError(400, 'Rates file has no rates');
+    }
+    return rates;
+};
+
+/**
+ * Currency Service Layer
+ * Keeps the table of exchange rates (entered by admins or imported from a
+ * file) and converts amounts between currencies. Rates are stored relative
+ * to the base currency, so any pair converts through it.
+ */
+export class CurrencyService {
+    private static instance: CurrencyService;
+
+    private cache = new TtlCache<RateTable>(RATES_CACHE_SECONDS * 1000, 1);
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): CurrencyService {
+        if (!CurrencyService.instance) {
+            CurrencyService.instance = new CurrencyService();
+        }
+        return CurrencyService.instance;
+    }
+
+    /**
+     * Get every known rate relative to the base currency
+     */
+    async getRateTable(): Promise<RateTable> {
+        const cached = this.cache.get(RATES_CACHE_KEY);
+        if (cached) return cached;
+
+        const base = config.currencies.baseCurrency;
+        const saved = await ExchangeRateModel.find().sort({ currency: 1 }).lean();
+
+        const table: RateTable = {
+            base,
+            rates: { [base]: 1 },
+            updatedAt: saved.reduce<Date | undefined>(
+                (latest, rate) => (!latest || rate.updatedAt > latest ? rate.updatedAt : latest),
+                undefined
+            ),
+        };
+        for (const rate of saved) {
+            if (rate.currency !== base) {
+                table.rates[rate.currency] = rate.rate;
+            }
+        }
+
+        this.cache.set(RATES_CACHE_KEY, table);
+        return table;
+    }
+
+    /**
+     * Rate to multiply an amount in one currency by to get the other
+     */
+    async getRate(from: string, to: string): Promise<number> {
+        const source = parseCurrency(from);
+        const target = parseCurrency(to);
+        if (source === target) return 1;
+
+        const { rates } = await this.getRateTable();
+        for (const currency of [source, target]) {
+            if (!rates[currency]) {
+                throw createHttpError(400, `No exchange rate for ${currency}`);
+            }
+        }
+        return rates[target] / rates[source];
+    }
+
+    /**
+     * Convert an amount between currencies, rounded to cents
+     */
+    async convert(amount: number, from: string, to: string) {
+        if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+            throw createHttpError(400, 'Amount must be a number');
+        }
+
+        const rate = await this.getRate(from, to);
+        return {
+            amount: roundCurrency(amount * rate),
+            from: parseCurrency(from),
+            to: parseCurrency(to),
+            rate,
+        };
+    }
+
+    /**
+     * Save rates, replacing any existing rate for the same currency
+     */
+    private async saveRates(rates: Record<string, number>, source: ExchangeRateSource, userId: string) {
+        await ExchangeRateModel.bulkWrite(Object.entries(rates).map(([currency, rate]) => ({
+            updateOne: {
+                filter: { currency },
+                update: { $set: { rate, source, updatedBy: new mongoose.Types.ObjectId(userId) } },
+                upsert: true,
+            },
+        })));
+
+        this.cache.clear();
+        return this.getRateTable();
+    }
+
+    /**
+     * Set one currency's rate (admin)
+     */
+    async setRate(currency: string, rate: number, userId: string) {
+        const code = parseCurrency(currency);
+        if (code === config.currencies.baseCurrency) {
+            throw createHttpError(400, `The base currency ${code} always has a rate of 1`);
+        }
+        if (!isValidRate(rate)) {
+            throw createHttpError(400, 'Rate must be a positive number');
+        }
+
+        return this.saveRates({ [code]: rate }, 'manual', userId);
+    }
+
+    /**
+     * Import rates from a CSV or JSON file (admin)
+     * The whole file is rejected when any entry is invalid.
+     */
+    async importRates(content: string, userId: string) {
+        const rates = parseRatesFile(content, config.currencies.baseCurrency);
+        const table = await this.saveRates(rates, 'import', userId);
+
+        return { imported: Object.keys(rates).length, ...table };
+    }
+
+    /**
+     * Remove a currency's rate (admin)
+     */
+    async deleteRate(currency: string) {
+        const code = parseCurrency(currency);
+        const result = await ExchangeRateModel.deleteOne({ currency: code });
+        if (result.deletedCount === 0) {
+            throw createHttpError(404, `No exchange rate for ${code}`);
+        }
+
+        this.cache.clear();
+        return this.getRateTable();
+    }
+
+    // Static accessors used by the controllers and the booking services
+    static async getRateTable() {
+        return CurrencyService.getInstance().getRateTable();
+    }
+
+    static async getRate(from: string, to: string) {
+        return CurrencyService.getInstance().getRate(from, to);
+    }
+
+    static async convert(amount: number, from: string, to: string) {
+        return CurrencyService.getInstance().convert(amount, from, to);
+    }
+
+    static async setRate(currency: string, rate: number, userId: string) {
+        return CurrencyService.getInstance().setRate(currency, rate, userId);
+    }
+
+    static async importRates(content: string, userId: string) {
+        return CurrencyService.getInstance().importRates(content, userId);
+    }
+
+    static async deleteRate(currency: string) {
+        return CurrencyService.getInstance().deleteRate(currency);
+    }
+}
@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { EnquiryService, EnquiryViewer } from '../services/enquiryService';
+import { HTTP_STATUS, sendSuccess, sendPaginatedResponse } from '../../../utils/apiResponse';
+import createHttpError from 'http-errors';
+
+// Signed-in users are identified by their session, guests by the token they got when asking
+const getViewer = (req: Request): EnquiryViewer => ({
+    user: req.user,
+    token: (req.query.token as string) || req.body?.token,
+});
+
+/**
+ * Submit an enquiry about a tour (guests and signed-in users)
+ */
+export const createEnquiry = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { tourId, contactInfo, subject, message, preferredDates, participants } = req.body;
+
+        if (!tourId || !message || !contactInfo) {
+            throw createHttpError(400, 'Missing required enquiry information');
+        }
+
+        const enquiry = await EnquiryService.createEnquiry({
+            tourId,
+            contactName: contactInfo.fullName,
+            contactEmail: contactInfo.email,
+            contactPhone: contactInfo.phone,
+            subject,
+            message,
+            preferredDates,
+            participants,
+        }, req.user);
+
+        sendSuccess(res, enquiry, 'Enquiry sent successfully', HTTP_STATUS.CREATED);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get the signed-in user's enquiries
+ */
+export const getMyEnquiries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        if (!req.user) {
+            throw createHttpError(401, 'User not authenticated');
+        }
+
+        const { page, limit } = req.pagination || { page: 1, limit: 10 };
+        const filters: any = req.query.status ? { status: req.query.status } : {};
+
+        const result = await EnquiryService.getUserEnquiries(req.user.id, {
+            page,
+            limit,
+            sortBy: 'lastMessageAt',
+            sortOrder: 'desc'
+        }, filters);
+
+        sendPaginatedResponse(res, result.items, {
+            page: result.page,
+            limit: result.limit,
+            totalItems: result.totalItems,
+            totalPages: result.totalPages
+        }, 'Enquiries retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get the seller's enquiry inbox (admin sees all)
+ */
+export const getEnquiryInbox = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { page, limit } = req.pagination || { page: 1, limit: 10 };
+        const filters: any = req.filters || {};
+        const sortBy = req.sort?.field || 'lastMessageAt';
+        const sortOrder = req.sort?.order || 'desc';
+
+        const result = await EnquiryService.getInbox(req.user!, {
+            page,
+            limit,
+            sortBy,
+            sortOrder
+        }, filters);
+
+        sendPaginatedResponse(res, result.items, {
+            page: result.page,
+            limit: result.limit,
+            totalItems: result.totalItems,
+            totalPages: result.totalPages
+        }, 'Enquiries retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get an enquiry thread
+ */
+export const getEnquiry = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const enquiry = await EnquiryService.getEnquiry(req.params.enquiryId, getViewer(req));
+
+        sendSuccess(res, enquiry, 'Enquiry retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Reply to an enquiry thread
+ */
+export const replyToEnquiry = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const enquiry = await EnquiryService.addReply(req.params.enquiryId, getViewer(req), req.body.message);
+
+        sendSuccess(res, enquiry, 'Reply sent successfully', HTTP_STATUS.CREATED);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Close, reopen or convert an enquiry
+ */
+export const updateEnquiryStatus = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { status, bookingId } = req.body;
+
+        if (!status) {
+            throw createHttpError(400, 'Status is required');
+        }
+
+        const enquiry = await EnquiryService.updateStatus(req.params.enquiryId, getViewer(req), status, bookingId);
+
+        sendSuccess(res, enquiry, 'Enquiry status updated successfully');
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,128 @@
+import mongoose, { Schema } from 'mongoose';
+import { Enquiry } from './enquiryTypes';
+
+const enquirySchema = new Schema<Enquiry>(
+    {
+        // Tour the question is about, and the sellers (tour authors) who answer it
+        tour: {
+            type: Schema.Types.ObjectId,
+            ref: 'Tour',
+            required: true,
+        },
+        tourTitle: {
+            type: String,
+            required: true,
+        },
+        sellers: [{
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        }],
+
+        // Customer (registered user or guest)
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        isGuestEnquiry: {
+            type: Boolean,
+            default: false,
+        },
+        contactName: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        contactEmail: {
+            type: String,
+            required: true,
+            trim: true,
+            lowercase: true,
+        },
+        contactPhone: {
+            type: String,
+            trim: true,
+        },
+        accessTokenHash: {
+            type: String,
+            select: false,
+        },
+
+        subject: {
+            type: String,
+            trim: true,
+            maxlength: 200,
+        },
+        preferredDates: {
+            from: Date,
+            to: Date,
+            flexible: {
+                type: Boolean,
+                default: false,
+            },
+        },
+        participants: {
+            adults: {
+                type: Number,
+                min: 1,
+            },
+            children: {
+                type: Number,
+                default: 0,
+                min: 0,
+            },
+        },
+
+        // Conversation thread, oldest first
+        messages: [
+            {
+                sender: {
+                    type: String,
+                    enum: ['customer', 'seller', 'admin'],
+                    required: true,
+                },
+                author: {
+                    type: Schema.Types.ObjectId,
+                    ref: 'User',
+                },
+                body: {
+                    type: String,
+                    required: true,
+                    trim: true,
+                    maxlength: 5000,
+                },
+                createdAt: {
+                    type: Date,
+                    default: Date.now,
+                },
+            },
+        ],
+        lastMessageAt: {
+            type: Date,
+            default: Date.now,
+        },
+
+        status: {
+            type: String,
+            enum: ['open', 'answered', 'converted', 'closed'],
+            default: 'open',
+        },
+        booking: {
+            type: Schema.Types.ObjectId,
+            ref: 'Booking',
+        },
+        convertedAt: Date,
+        closedAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Indexes
+enquirySchema.index({ sellers: 1, status: 1, lastMessageAt: -1 });
+enquirySchema.index({ user: 1, lastMessageAt: -1 });
+enquirySchema.index({ tour: 1 });
+
+const EnquiryModel = mongoose.model<Enquiry>('Enquiry', enquirySchema);
+
+export default EnquiryModel;
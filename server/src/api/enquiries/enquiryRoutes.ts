@@ -0,0 +1,344 @@
+import express, { RequestHandler } from 'express';
+import { authenticate, authorizeRoles, optionalAuthenticate } from '../../middlewares/authenticate';
+import { paginationMiddleware } from '../../middlewares/pagination';
+import { filterSortMiddleware } from '../../middlewares/filterSort';
+import { asyncAuthHandler } from '../../utils/routeWrapper';
+import {
+    createEnquiry,
+    getMyEnquiries,
+    getEnquiryInbox,
+    getEnquiry,
+    replyToEnquiry,
+    updateEnquiryStatus
+} from './controllers/enquiryController';
+
+const enquiryRouter = express.Router();
+
+// ============================================================================
+// PUBLIC ROUTES (Guests allowed, signed-in users are recognised)
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/enquiries:
+ *   post:
+ *     summary: Submit an enquiry
+ *     description: Ask the tour's seller a question before booking. Guests receive an access token for following up on the thread.
+ *     tags: [Enquiries]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tourId
+ *               - contactInfo
+ *               - message
+ *             properties:
+ *               tourId:
+ *                 type: string
+ *               contactInfo:
+ *                 type: object
+ *                 properties:
+ *                   fullName:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                     format: email
+ *                   phone:
+ *                     type: string
+ *               subject:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *               preferredDates:
+ *                 type: object
+ *                 properties:
+ *                   from:
+ *                     type: string
+ *                     format: date
+ *                   to:
+ *                     type: string
+ *                     format: date
+ *                   flexible:
+ *                     type: boolean
+ *               participants:
+ *                 type: object
+ *                 properties:
+ *                   adults:
+ *                     type: number
+ *                   children:
+ *                     type: number
+ *     responses:
+ *       201:
+ *         description: Enquiry sent successfully (includes `accessToken` for guests)
+ *       400:
+ *         description: Invalid enquiry or the tour does not accept enquiries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Tour not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+enquiryRouter.post('/', optionalAuthenticate, asyncAuthHandler(createEnquiry));
+
+// ============================================================================
+// AUTHENTICATED ROUTES
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/enquiries/my-enquiries:
+ *   get:
+ *     summary: Get my enquiries
+ *     description: List the enquiries submitted by the signed-in user, most recent activity first
+ *     tags: [Enquiries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, answered, converted, closed]
+ *     responses:
+ *       200:
+ *         description: Enquiries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+enquiryRouter.get('/my-enquiries', authenticate, paginationMiddleware, asyncAuthHandler(getMyEnquiries));
+
+/**
+ * @swagger
+ * /api/v1/enquiries/inbox:
+ *   get:
+ *     summary: Get enquiry inbox (Admin/Seller)
+ *     description: Sellers see enquiries about their own tours; admins see every enquiry
+ *     tags: [Enquiries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, answered, converted, closed]
+ *       - in: query
+ *         name: tour
+ *         schema:
+ *           type: string
+ *         description: Tour ID
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [lastMessageAt, createdAt]
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *     responses:
+ *       200:
+ *         description: Enquiries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin/Seller access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+enquiryRouter.get(
+    '/inbox',
+    authenticate,
+    authorizeRoles('admin', 'seller') as RequestHandler,
+    paginationMiddleware,
+    filterSortMiddleware(['status', 'tour'], ['lastMessageAt', 'createdAt']),
+    asyncAuthHandler(getEnquiryInbox)
+);
+
+// ============================================================================
+// THREAD ROUTES (Customer, seller or admin; guests pass their access token)
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/enquiries/{enquiryId}:
+ *   get:
+ *     summary: Get enquiry thread
+ *     description: Get an enquiry with all of its messages. Guests pass the access token they received when asking.
+ *     tags: [Enquiries]
+ *     parameters:
+ *       - in: path
+ *         name: enquiryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Guest access token
+ *     responses:
+ *       200:
+ *         description: Enquiry retrieved successfully
+ *       403:
+ *         description: Forbidden - Not your enquiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Enquiry not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+enquiryRouter.get('/:enquiryId', optionalAuthenticate, asyncAuthHandler(getEnquiry));
+
+/**
+ * @swagger
+ * /api/v1/enquiries/{enquiryId}/replies:
+ *   post:
+ *     summary: Reply to an enquiry
+ *     description: Add a message to the thread. Seller replies mark the enquiry answered; customer replies reopen it.
+ *     tags: [Enquiries]
+ *     parameters:
+ *       - in: path
+ *         name: enquiryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Guest access token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *             properties:
+ *               message:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Reply sent successfully
+ *       400:
+ *         description: Empty reply
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Not your enquiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+enquiryRouter.post('/:enquiryId/replies', optionalAuthenticate, asyncAuthHandler(replyToEnquiry));
+
+/**
+ * @swagger
+ * /api/v1/enquiries/{enquiryId}/status:
+ *   patch:
+ *     summary: Update enquiry status
+ *     description: Customers can close or reopen their enquiry. Sellers and admins can also mark it converted by linking the resulting booking.
+ *     tags: [Enquiries]
+ *     parameters:
+ *       - in: path
+ *         name: enquiryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Guest access token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [open, answered, converted, closed]
+ *               bookingId:
+ *                 type: string
+ *                 description: Required when converting
+ *     responses:
+ *       200:
+ *         description: Enquiry status updated successfully
+ *       400:
+ *         description: Invalid status or booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+enquiryRouter.patch('/:enquiryId/status', optionalAuthenticate, asyncAuthHandler(updateEnquiryStatus));
+
+export default enquiryRouter;
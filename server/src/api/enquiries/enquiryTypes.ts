@@ -0,0 +1,54 @@
+import mongoose, { Document } from 'mongoose';
+
+export type EnquiryStatus = 'open' | 'answered' | 'converted' | 'closed';
+
+// Who wrote a message in the thread
+export type EnquirySender = 'customer' | 'seller' | 'admin';
+
+export interface EnquiryMessage {
+    _id?: mongoose.Types.ObjectId;
+    sender: EnquirySender;
+    author?: mongoose.Types.ObjectId;
+    body: string;
+    createdAt: Date;
+}
+
+export interface EnquiryPreferredDates {
+    from?: Date;
+    to?: Date;
+    flexible: boolean;
+}
+
+export interface Enquiry extends Document {
+    // Tour the question is about, and the sellers (tour authors) who answer it
+    tour: mongoose.Types.ObjectId;
+    tourTitle: string;
+    sellers: mongoose.Types.ObjectId[];
+
+    // Customer (registered user or guest)
+    user?: mongoose.Types.ObjectId;
+    isGuestEnquiry: boolean;
+    contactName: string;
+    contactEmail: string;
+    contactPhone?: string;
+    // Guests reach their thread with a token; only its hash is stored
+    accessTokenHash?: string;
+
+    subject?: string;
+    preferredDates?: EnquiryPreferredDates;
+    participants?: {
+        adults: number;
+        children: number;
+    };
+
+    messages: EnquiryMessage[];
+    lastMessageAt: Date;
+
+    status: EnquiryStatus;
+    booking?: mongoose.Types.ObjectId;
+    convertedAt?: Date;
+    closedAt?: Date;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import mongoose, { FilterQuery } from 'mongoose';
+import createHttpError from 'http-errors';
+import EnquiryModel from '../enquiryModel';
+import { Enquiry, EnquirySender, EnquiryStatus } from '../enquiryTypes';
+import { BaseService } from '../../../services/BaseService';
+import { PaginationParams, paginate } from '../../../utils/pagination';
+import { normalizeDoc } from '../../../utils/normalizeDoc';
+import { logger } from '../../../utils/logger';
+import { AuthUser } from '../../../types/express';
+import Tour from '../../tours/tourModel';
+import BookingModel from '../../bookings/bookingModel';
+import Notification from '../../notifications/notificationModel';
+
+export interface CreateEnquiryInput {
+    tourId: string;
+    contactName: string;
+    contactEmail: string;
+    contactPhone?: string;
+    subject?: string;
+    message: string;
+    preferredDates?: {
+        from?: string | Date;
+        to?: string | Date;
+        flexible?: boolean;
+    };
+    participants?: {
+        adults?: number;
+        children?: number;
+    };
+}
+
+// Who is looking at an enquiry: a signed-in user and/or a guest access token
+export interface EnquiryViewer {
+    user?: AuthUser;
+    token?: string;
+}
+
+const STATUSES: EnquiryStatus[] = ['open', 'answered', 'converted', 'closed'];
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Enquiry Service Layer
+ * Pre-booking questions about a tour: customers open a thread, the tour's
+ * seller answers it, and the thread is closed or converted into a booking.
+ */
+export class EnquiryService extends BaseService<Enquiry> {
+    private static instance: EnquiryService;
+
+    constructor() {
+        super(EnquiryModel);
+    }
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): EnquiryService {
+        if (!EnquiryService.instance) {
+            EnquiryService.instance = new EnquiryService();
+        }
+        return EnquiryService.instance;
+    }
+
+    /**
+     * Load an enquiry and work out the viewer's role in the thread
+     */
+    private async loadForViewer(enquiryId: string, viewer: EnquiryViewer) {
+        if (!mongoose.Types.ObjectId.isValid(enquiryId)) {
+            throw createHttpError(400, 'Invalid enquiry ID');
+        }
+
+        const enquiry = await EnquiryModel.findById(enquiryId).select('+accessTokenHash');
+        if (!enquiry) {
+            throw createHttpError(404, 'Enquiry not found');
+        }
+
+        let role: EnquirySender | undefined;
+        if (viewer.user?.roles.includes('admin')) {
+            role = 'admin';
+        } else if (viewer.user && enquiry.sellers.some(id => id.toString() === viewer.user!.id)) {
+            role = 'seller';
+        } else if (viewer.user && enquiry.user?.toString() === viewer.user.id) {
+            role = 'customer';
+        } else if (viewer.token && enquiry.accessTokenHash && enquiry.accessTokenHash === hashToken(viewer.token)) {
+            role = 'customer';
+        }
+
+        if (!role) {
+            throw createHttpError(403, 'You do not have access to this enquiry');
+        }
+
+        return { enquiry, role };
+    }
+
+    private async formatEnquiry(enquiryId: mongoose.Types.ObjectId | string) {
+        const enquiry = await EnquiryModel
+            .findById(enquiryId)
+            .populate('tour', 'title code coverImage')
+            .populate('messages.author', 'name avatar')
+            .lean();
+
+        return normalizeDoc(enquiry);
+    }
+
+    /**
+     * Let someone know about activity on an enquiry (best effort)
+     */
+    private async notify(
+        recipients: Array<mongoose.Types.ObjectId | undefined>,
+        type: 'enquiry_received' | 'enquiry_reply',
+        title: string,
+        message: string,
+        enquiry: Enquiry,
+        sender?: string
+    ) {
+        const notifications = recipients
+            .filter((recipient): recipient is mongoose.Types.ObjectId => !!recipient)
+            .map(recipient => ({
+                recipient,
+                sender,
+                type,
+                title,
+                message,
+                data: { enquiryId: enquiry._id },
+            }));
+        if (notifications.length === 0) return;
+
+        try {
+            await Notification.insertMany(notifications);
+        } catch (error: any) {
+            logger.warn('Could not create enquiry notification', { error: error.message });
+        }
+    }
+
+    /**
+     * Submit a new enquiry about a tour
+     * Guests get an access token back that unlocks the thread for them.
+     */
+    async createEnquiry(input: CreateEnquiryInput, user?: AuthUser) {
+        if (!input.tourId || !mongoose.Types.ObjectId.isValid(input.tourId)) {
+            throw createHttpError(400, 'A valid tour is required');
+        }
+        if (!input.contactName || !input.contactEmail) {
+            throw createHttpError(400, 'Name and email are required');
+        }
+        if (!input.message?.trim()) {
+            throw createHttpError(400, 'Message is required');
+        }
+
+        const tour = await Tour.findById(input.tourId).select('title author enquiry').lean();
+        if (!tour) {
+            throw createHttpError(404, 'Tour not found');
+        }
+        if (tour.enquiry === false) {
+            throw createHttpError(400, 'This tour does not accept enquiries');
+        }
+
+        const preferredFrom = input.preferredDates?.from ? new Date(input.preferredDates.from) : undefined;
+        const preferredTo = input.preferredDates?.to ? new Date(input.preferredDates.to) : undefined;
+        if ((preferredFrom && isNaN(preferredFrom.getTime())) || (preferredTo && isNaN(preferredTo.getTime()))) {
+            throw createHttpError(400, 'Invalid preferred dates');
+        }
+        if (preferredFrom && preferredTo && preferredTo < preferredFrom) {
+            throw createHttpError(400, 'Preferred end date must be after the start date');
+        }
+
+        // Every author of the tour can answer its enquiries
+        const authors: any = tour.author;
+        const sellers: mongoose.Types.ObjectId[] = (Array.isArray(authors) ? authors : [authors]).filter(Boolean);
+
+        const accessToken = user ? undefined : crypto.randomBytes(24).toString('hex');
+        const now = new Date();
+
+        let enquiry: Enquiry;
+        try {
+            enquiry = await EnquiryModel.create({
+                tour: tour._id,
+                tourTitle: tour.title,
+                sellers,
+                user: user?.id,
+                isGuestEnquiry: !user,
+                contactName: input.contactName,
+                contactEmail: input.contactEmail,
+                contactPhone: input.contactPhone,
+                accessTokenHash: accessToken ? hashToken(accessToken) : undefined,
+                subject: input.subject,
+                preferredDates: {
+                    from: preferredFrom,
+                    to: preferredTo,
+                    flexible: !!input.preferredDates?.flexible,
+                },
+                participants: input.participants?.adults ? {
+                    adults: Number(input.participants.adults),
+                    children: Number(input.participants.children) || 0,
+                } : undefined,
+                messages: [{ sender: 'customer', author: user?.id, body: input.message, createdAt: now }],
+                lastMessageAt: now,
+            });
+        } catch (error: any) {
+            if (error.name === 'ValidationError') {
+                throw createHttpError(400, `Validation error: ${error.message}`);
+            }
+            throw error;
+        }
+
+        await this.notify(
+            sellers,
+            'enquiry_received',
+            'New Enquiry',
+            `${input.contactName} asked about "${tour.title}"`,
+            enquiry,
+            user?.id
+        );
+
+        return {
+            ...(await this.formatEnquiry(enquiry._id as mongoose.Types.ObjectId)),
+            accessToken,
+        };
+    }
+
+    /**
+     * Get one enquiry thread
+     */
+    async getEnquiry(enquiryId: string, viewer: EnquiryViewer) {
+        const { enquiry } = await this.loadForViewer(enquiryId, viewer);
+        return this.formatEnquiry(enquiry._id as mongoose.Types.ObjectId);
+    }
+
+    /**
+     * Enquiries the signed-in customer has submitted
+     */
+    async getUserEnquiries(userId: string, paginationParams: PaginationParams, filters: FilterQuery<Enquiry> = {}) {
+        const result = await paginate(EnquiryModel, { ...filters, user: userId }, paginationParams);
+        return this.normalizeResult(result);
+    }
+
+    /**
+     * Seller inbox (admins see every enquiry)
+     */
+    async getInbox(actor: AuthUser, paginationParams: PaginationParams, filters: FilterQuery<Enquiry> = {}) {
+        if (filters.tour && !mongoose.Types.ObjectId.isValid(filters.tour)) {
+            throw createHttpError(400, 'Invalid tour ID');
+        }
+
+        const query: FilterQuery<Enquiry> = actor.roles.includes('admin')
+            ? filters
+            : { ...filters, sellers: actor.id };
+
+        const result = await paginate(EnquiryModel, query, paginationParams);
+
+        if (result.items && result.items.length > 0) {
+            result.items = await EnquiryModel.populate(result.items, { path: 'tour', select: 'title code coverImage' });
+        }
+
+        return this.normalizeResult(result);
+    }
+
+    /**
+     * Add a reply to the thread and move the status along
+     * Staff replies mark the enquiry answered; customer replies reopen it.
+     */
+    async addReply(enquiryId: string, viewer: EnquiryViewer, body: string) {
+        if (!body?.trim()) {
+            throw createHttpError(400, 'Reply cannot be empty');
+        }
+
+        const { enquiry, role } = await this.loadForViewer(enquiryId, viewer);
+        const now = new Date();
+
+        const nextStatus: EnquiryStatus = enquiry.status === 'converted'
+            ? 'converted'
+            : role === 'customer' ? 'open' : 'answered';
+
+        const updated = await EnquiryModel.findByIdAndUpdate(
+            enquiry._id,
+            {
+                $push: { messages: { sender: role, author: viewer.user?.id, body, createdAt: now } },
+                $set: { lastMessageAt: now, status: nextStatus },
+                // A reply always brings a closed thread back to life
+                $unset: { closedAt: 1 },
+            },
+            { new: true, runValidators: true }
+        );
+        if (!updated) {
+            throw createHttpError(404, 'Enquiry not found');
+        }
+
+        if (role === 'customer') {
+            await this.notify(enquiry.sellers, 'enquiry_reply', 'Enquiry Reply',
+                `${enquiry.contactName} replied about "${enquiry.tourTitle}"`, enquiry, viewer.user?.id);
+        } else {
+            await this.notify([enquiry.user], 'enquiry_reply', 'Enquiry Answered',
+                `You have a new reply about "${enquiry.tourTitle}"`, enquiry, viewer.user?.id);
+        }
+
+        return this.formatEnquiry(enquiry._id as mongoose.Types.ObjectId);
+    }
+
+    /**
+     * Change the status of an enquiry
+     * Customers can only close or reopen their own thread; converting needs the resulting booking.
+     */
+    async updateStatus(enquiryId: string, viewer: EnquiryViewer, status: EnquiryStatus, bookingId?: string) {
+        if (!STATUSES.includes(status)) {
+            throw createHttpError(400, `Status must be one of: ${STATUSES.join(', ')}`);
+        }
+
+        const { enquiry, role } = await this.loadForViewer(enquiryId, viewer);
+
+        if (role === 'customer' && !['open', 'closed'].includes(status)) {
+            throw createHttpError(403, 'You can only close or reopen your enquiry');
+        }
+
+        const update: Record<string, any> = { status };
+        if (status === 'closed') {
+            update.closedAt = new Date();
+        }
+
+        if (status === 'converted') {
+            if (!bookingId || !mongoose.Types.ObjectId.isValid(bookingId)) {
+                throw createHttpError(400, 'A booking is required to convert an enquiry');
+            }
+            const booking = await BookingModel.findById(bookingId).select('tour').lean();
+            if (!booking) {
+                throw createHttpError(404, 'Booking not found');
+            }
+            if (booking.tour.toString() !== enquiry.tour.toString()) {
+                throw createHttpError(400, 'The booking is for a different tour');
+            }
+            update.booking = booking._id;
+            update.convertedAt = new Date();
+        }
+
+        await EnquiryModel.updateOne(
+            { _id: enquiry._id },
+            status === 'closed' ? { $set: update } : { $set: update, $unset: { closedAt: 1 } }
+        );
+        return this.formatEnquiry(enquiry._id as mongoose.Types.ObjectId);
+    }
+
+    // Static accessors used by the controllers
+    static async createEnquiry(input: CreateEnquiryInput, user?: AuthUser) {
+        return EnquiryService.getInstance().createEnquiry(input, user);
+    }
+
+    static async getEnquiry(enquiryId: string, viewer: EnquiryViewer) {
+        return EnquiryService.getInstance().getEnquiry(enquiryId, viewer);
+    }
+
+    static async getUserEnquiries(userId: string, paginationParams: PaginationParams, filters?: FilterQuery<Enquiry>) {
+        return EnquiryService.getInstance().getUserEnquiries(userId, paginationParams, filters);
+    }
+
+    static async getInbox(actor: AuthUser, paginationParams: PaginationParams, filters?: FilterQuery<Enquiry>) {
+        return EnquiryService.getInstance().getInbox(actor, paginationParams, filters);
+    }
+
+    static async addReply(enquiryId: string, viewer: EnquiryViewer, body: string) {
+        return EnquiryService.getInstance().addReply(enquiryId, viewer, body);
+    }
+
+    static async updateStatus(enquiryId: string, viewer: EnquiryViewer, status: EnquiryStatus, bookingId?: string) {
+        return EnquiryService.getInstance().updateStatus(enquiryId, viewer, status, bookingId);
+    }
+}
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document } from "mongoose";
+import geoPointSchema from "../../tours/schemas/geoPointSchema";
+import { GeoPoint, toGeoPoint } from "../../../utils/geo";
 
 // Define Global Destination interface
 export interface IGlobalDestination extends Document {
@@ -12,6 +14,7 @@ export interface IGlobalDestination extends Document {
     latitude: number;
     longitude: number;
   };
+  point?: GeoPoint;
   isActive: boolean;
   isApproved: boolean;
   approvalStatus: 'pending' | 'approved' | 'rejected';
@@ -82,6 +85,11 @@ const globalDestinationSchema = new Schema<IGlobalDestination>(
         max: 180,
       },
     },
+    // Kept in sync with coordinates for geospatial queries
+    point: {
+      type: geoPointSchema,
+      default: undefined,
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -192,6 +200,7 @@ globalDestinationSchema.index({ isActive: 1, isApproved: 1 });
 globalDestinationSchema.index({ createdBy: 1 });
 globalDestinationSchema.index({ name: 'text', description: 'text', country: 'text' });
 globalDestinationSchema.index({ 'coordinates.latitude': 1, 'coordinates.longitude': 1 });
+globalDestinationSchema.index({ point: '2dsphere' });
 
 // Virtual for checking if destination is available for use
 globalDestinationSchema.virtual('isAvailable').get(function() {
@@ -204,6 +213,12 @@ globalDestinationSchema.virtual('fullLocation').get(function() {
   return parts.join(', ');
 });
 
+// Keep the GeoJSON point in sync with the coordinates
+globalDestinationSchema.pre('validate', function(next) {
+  this.point = toGeoPoint(this.coordinates?.latitude, this.coordinates?.longitude);
+  next();
+});
+
 // Static method to find approved destinations
 globalDestinationSchema.statics.findApproved = function() {
   return this.find({ 
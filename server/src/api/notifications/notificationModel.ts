@@ -3,13 +3,14 @@ import mongoose, { Schema, Document } from 'mongoose';
 export interface INotification extends Document {
   recipient: mongoose.Schema.Types.ObjectId;
   sender?: mongoose.Schema.Types.ObjectId;
-  type: 'destination_rejected' | 'destination_approved' | 'destination_deleted' | 'general';
+  type: 'destination_rejected' | 'destination_approved' | 'destination_deleted' | 'enquiry_received' | 'enquiry_reply' | 'security_alert' | 'general';
   title: string;
   message: string;
   data?: {
     destinationId?: mongoose.Schema.Types.ObjectId;
     destinationName?: string;
     rejectionReason?: string;
+    enquiryId?: mongoose.Schema.Types.ObjectId;
     [key: string]: any;
   };
   isRead: boolean;
@@ -31,7 +32,7 @@ const notificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['destination_rejected', 'destination_approved', 'destination_deleted', 'general'],
+      enum: ['destination_rejected', 'destination_approved', 'destination_deleted', 'enquiry_received', 'enquiry_reply', 'security_alert', 'general'],
       required: true,
     },
     title: {
@@ -59,6 +60,10 @@ const notificationSchema = new Schema<INotification>(
         type: String,
         trim: true,
       },
+      enquiryId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Enquiry',
+      },
     },
     isRead: {
       type: Boolean,
@@ -1,38 +1,53 @@
 import { Request, Response } from 'express';
 import Tour from '../tours/tourModel';
 import mongoose from 'mongoose';
-import { Review } from './reviewModel';
+import { Review, updateTourRatings } from './reviewModel';
+import { AspectRatings, MAX_REVIEW_PHOTOS, REVIEW_ASPECTS, ReviewAspect, ReviewPhoto } from './reviewTypes';
+import BookingModel from '../bookings/bookingModel';
+import Gallery from '../gallery/galleryModel';
 import { sendSuccess, sendError, sendPaginatedResponse } from '../../utils/apiResponse';
 
+// Rating fields returned alongside review changes
+const TOUR_RATING_FIELDS = 'averageRating aspectRatings reviewCount approvedReviewCount';
+
+// Flatten a review and its populated tour into the shape the review lists return
+const withTourInfo = (review: any) => {
+    const tour = review.tour && review.tour._id ? review.tour : null;
+    return {
+        ...review,
+        tour: tour ? tour._id : review.tour,
+        tourId: tour ? tour._id : review.tour,
+        tourTitle: tour?.title,
+        tourSlug: tour?.slug,
+        tourImage: tour?.images && tour.images.length > 0 ? tour.images[0] : null
+    };
+};
+
+// Tours a seller can moderate reviews for (undefined for admins, who see every tour)
+const getModeratedTourIds = async (req: Request) => {
+    const isAdmin = req.user?.roles.includes('admin') || false;
+    return isAdmin ? undefined : Tour.find({ author: req.user?.id }).distinct('_id');
+};
+
 // Get average rating for a tour
 export const getTourRating = async (req: Request, res: Response) => {
     try {
         const { tourId } = req.params;
 
-        const stats = await Review.aggregate([
-            {
-                $match: { tour: new mongoose.Types.ObjectId(tourId) }
-            },
-            {
-                $group: {
-                    _id: '$tour',
-                    averageRating: { $avg: '$rating' },
-                    numberOfReviews: { $sum: 1 }
-                }
-            }
-        ]);
+        if (!mongoose.Types.ObjectId.isValid(tourId)) {
+            return res.status(400).json({ message: 'Invalid tour ID' });
+        }
 
-        if (stats.length === 0) {
-            const ratingData = {
-                averageRating: 0,
-                numberOfReviews: 0
-            };
-            return sendSuccess(res, ratingData, 'Tour rating retrieved successfully');
+        // The tour keeps its rating in sync with its approved reviews
+        const tour = await Tour.findById(tourId).select('averageRating approvedReviewCount aspectRatings').lean();
+        if (!tour) {
+            return res.status(404).json({ message: 'Tour not found' });
         }
 
         const ratingData = {
-            averageRating: stats[0].averageRating,
-            numberOfReviews: stats[0].numberOfReviews
+            averageRating: tour.averageRating || 0,
+            numberOfReviews: tour.approvedReviewCount || 0,
+            aspectRatings: tour.aspectRatings || {}
         };
 
         return sendSuccess(res, ratingData, 'Tour rating retrieved successfully');
@@ -43,7 +58,6 @@ export const getTourRating = async (req: Request, res: Response) => {
 
 // Get all approved reviews (public endpoint for guest users)
 export const getAllApprovedReviews = async (req: Request, res: Response) => {
-    console.log("getAllApprovedReviews")
     try {
         // Get pagination params from middleware
         const { page, limit, skip } = req.pagination || { page: 1, limit: 10, skip: 0 };
@@ -52,83 +66,31 @@ export const getAllApprovedReviews = async (req: Request, res: Response) => {
         const filters = req.filters || {};
         const sort = req.sort;
 
-        // Import the Tour model here to avoid circular dependencies
-        const Tour = require('../tours/tourModel').default;
-
-        // Build query for filtering
-        const statusFilter = filters.status || 'approved';
-
-        // Find tours with reviews matching the status filter
-        const tours = await Tour.find({ [`reviews.status`]: statusFilter })
-            .select('title slug images reviews')
-            .populate({
-                path: 'reviews.user',
-                select: 'name email profileImage'
-            })
-            .populate({
-                path: 'reviews.replies.user',
-                select: 'name email profileImage'
-            })
-            .setOptions({ strictPopulate: false }) // Added to fix StrictPopulateError
-            .lean();
-
-        // Extract all reviews matching the status filter from all tours
-        let allReviews: Array<any> = [];
-
-        for (const tour of tours) {
-            const filteredReviews = tour.reviews
-                .filter((review: any) => review.status === statusFilter)
-                .map((review: any) => ({
-                    ...review,
-                    tourId: tour._id,
-                    tourTitle: tour.title,
-                    tourSlug: tour.slug,
-                    tourImage: tour.images && tour.images.length > 0 ? tour.images[0] : null
-                }));
-
-            allReviews = [...allReviews, ...filteredReviews];
-        }
-
-        // Apply sorting
-        if (sort) {
-            allReviews.sort((a: any, b: any) => {
-                const aValue = a[sort.field];
-                const bValue = b[sort.field];
-
-                if (sort.field === 'createdAt') {
-                    const aTime = new Date(aValue).getTime();
-                    const bTime = new Date(bValue).getTime();
-                    return sort.order === 'asc' ? aTime - bTime : bTime - aTime;
-                } else if (sort.field === 'rating') {
-                    return sort.order === 'asc' ? aValue - bValue : bValue - aValue;
-                }
-                return 0;
-            });
-        } else {
-            // Default sort: by rating (highest first) and then by date (newest first)
-            allReviews.sort((a: any, b: any) => {
-                if (b.rating !== a.rating) {
-                    return b.rating - a.rating;
-                }
-                return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-            });
-        }
-
-        // Calculate total and pagination
-        const total = allReviews.length;
-        const totalPages = Math.ceil(total / Number(limit));
-
-        // Apply pagination
-        const paginatedReviews = allReviews.slice(skip, skip + Number(limit));
-
-        console.log(`Found ${total} reviews, returning page ${page} with ${paginatedReviews.length} reviews`);
+        const query = { status: filters.status || 'approved' };
+
+        // Default sort: by rating (highest first) and then by date (newest first)
+        const sortOrder: Record<string, 1 | -1> = sort
+            ? { [sort.field]: sort.order === 'asc' ? 1 : -1 }
+            : { rating: -1, createdAt: -1 };
+
+        const [reviews, total] = await Promise.all([
+            Review.find(query)
+                .sort(sortOrder)
+                .skip(skip)
+                .limit(Number(limit))
+                .populate({ path: 'user', select: 'name email profileImage' })
+                .populate({ path: 'replies.user', select: 'name email profileImage' })
+                .populate({ path: 'tour', select: 'title slug images', options: { strictPopulate: false } })
+                .lean(),
+            Review.countDocuments(query)
+        ]);
 
         res.json({
-            reviews: paginatedReviews,
+            reviews: reviews.map(withTourInfo),
             total,
             page,
             limit,
-            totalPages
+            totalPages: Math.ceil(total / Number(limit))
         });
     } catch (error) {
         console.error("Error fetching reviews:", error);
@@ -144,11 +106,68 @@ export const getAllApprovedReviews = async (req: Request, res: Response) => {
     }
 };
 
-// Add a review to a tour (using embedded reviews in tour model)
+// Validate the optional per-aspect ratings, rounding each to the nearest 0.5
+// Returns an error message when an aspect or value is invalid
+const parseAspectRatings = (input: unknown): { aspectRatings?: AspectRatings; error?: string } => {
+    if (input === undefined || input === null) {
+        return {};
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        return { error: 'Aspect ratings must be an object' };
+    }
+
+    const aspectRatings: AspectRatings = {};
+    for (const [aspect, value] of Object.entries(input)) {
+        if (!REVIEW_ASPECTS.includes(aspect as ReviewAspect)) {
+            return { error: `Unknown rating aspect "${aspect}". Use one of: ${REVIEW_ASPECTS.join(', ')}` };
+        }
+        if (value === undefined || value === null) {
+            continue;
+        }
+        const rating = Number(value);
+        if (isNaN(rating) || rating < 0.5 || rating > 5) {
+            return { error: `The ${aspect} rating must be between 0.5 and 5` };
+        }
+        aspectRatings[aspect as ReviewAspect] = Math.round(rating * 2) / 2;
+    }
+
+    return { aspectRatings: Object.keys(aspectRatings).length > 0 ? aspectRatings : undefined };
+};
+
+// Resolve gallery image IDs to photos, making sure they are in the reviewer's own gallery
+// Returns an error message when an image is missing or someone else's
+const resolveReviewPhotos = async (userId: string, input: unknown): Promise<{ photos?: ReviewPhoto[]; error?: string }> => {
+    if (input === undefined || input === null) {
+        return {};
+    }
+    if (!Array.isArray(input)) {
+        return { error: 'Photos must be a list of gallery image IDs' };
+    }
+    if (input.length > MAX_REVIEW_PHOTOS) {
+        return { error: `A review can have at most ${MAX_REVIEW_PHOTOS} photos` };
+    }
+    if (input.length === 0) {
+        return { photos: [] };
+    }
+
+    const gallery = await Gallery.findOne({ user: userId }).select('images').lean();
+    const photos: ReviewPhoto[] = [];
+    for (const imageId of input) {
+        const image = gallery?.images.find(item => item._id.toString() === String(imageId));
+        if (!image) {
+            return { error: 'Photos must be images from your gallery' };
+        }
+        photos.push({ imageId: image._id, url: image.secure_url || image.url });
+    }
+
+    return { photos };
+};
+
+// Add or update the current user's review of a tour
 export const addReview = async (req: Request, res: Response) => {
     try {
         const { tourId } = req.params;
-        const { rating, comment } = req.body;
+        const { rating, comment, aspectRatings: aspectRatingsInput, photos: photosInput } = req.body;
         const userId = (req as Request
         ).user?.id;
 
@@ -169,51 +188,68 @@ export const addReview = async (req: Request, res: Response) => {
         // Round rating to nearest 0.5
         const roundedRating = Math.round(rating * 2) / 2;
 
-        const tour = await Tour.findById(tourId);
-        if (!tour) {
+        const { aspectRatings, error: aspectError } = parseAspectRatings(aspectRatingsInput);
+        if (aspectError) {
+            return res.status(400).json({ message: aspectError });
+        }
+
+        if (!(await Tour.exists({ _id: tourId }))) {
             return res.status(404).json({ message: 'Tour not found' });
         }
 
-        // Check if user has already reviewed this tour
-        const existingReviewIndex = tour.reviews.findIndex(
-            (review: any) => review.user.toString() === userId
-        );
+        // Only travelers who completed a booking for this tour can review it
+        const completedBooking = await BookingModel.findOne({ tour: tourId, user: userId, status: 'completed' })
+            .sort({ departureDate: -1 })
+            .select('_id')
+            .lean();
+        if (!completedBooking) {
+            return res.status(403).json({ message: 'Only travelers with a completed booking for this tour can review it' });
+        }
 
-        if (existingReviewIndex !== -1) {
-            // Update existing review
-            tour.reviews[existingReviewIndex].rating = roundedRating;
-            tour.reviews[existingReviewIndex].comment = comment;
-            tour.reviews[existingReviewIndex].status = 'pending'; // Reset to pending when updated
-            tour.reviews[existingReviewIndex].createdAt = new Date();
-        } else {
-            // Add new review
-            tour.reviews.push({
-                user: new mongoose.Types.ObjectId(userId),
-                tour: new mongoose.Types.ObjectId(tourId), // Add the tour reference to satisfy validation
-                rating: roundedRating,
-                comment,
-                status: 'pending', // All new reviews start as pending
-                likes: 0,
-                views: 0,
-                replies: [],
-                createdAt: new Date()
-            });
+        const { photos, error: photoError } = await resolveReviewPhotos(userId, photosInput);
+        if (photoError) {
+            return res.status(400).json({ message: photoError });
+        }
+
+        // One review per user per tour - resubmitting updates it
+        const existingReview = await Review.findOne({ tour: tourId, user: userId });
+        const review = existingReview || new Review({
+            user: userId,
+            tour: tourId,
+            likes: 0,
+            views: 0,
+            replies: []
+        });
+
+        review.rating = roundedRating;
+        review.aspectRatings = aspectRatings;
+        review.comment = comment;
+        // Keep the current photos unless new ones were sent
+        if (photos || !existingReview) {
+            review.photos = photos || [];
         }
+        review.verified = true;
+        review.booking = completedBooking._id as mongoose.Types.ObjectId;
+        review.status = 'pending'; // New and edited reviews wait for approval
+        review.createdAt = new Date();
+        await review.save();
 
-        // Save the tour - the pre-save hook will handle recalculating ratings
-        await tour.save();
+        await updateTourRatings(tourId);
 
         // Increment the view counter for the tour
-        await Tour.findByIdAndUpdate(tourId, { $inc: { views: 1 } });
+        const tour = await Tour.findByIdAndUpdate(tourId, { $inc: { views: 1 } }, { new: true })
+            .select(TOUR_RATING_FIELDS)
+            .lean();
 
         res.status(200).json({
             success: true,
-            message: existingReviewIndex !== -1 ? 'Review updated successfully' : 'Review added successfully. It will be visible after approval.',
+            message: existingReview ? 'Review updated successfully' : 'Review added successfully. It will be visible after approval.',
             data: {
-                review: existingReviewIndex !== -1 ? tour.reviews[existingReviewIndex] : tour.reviews[tour.reviews.length - 1],
-                averageRating: tour.averageRating,
-                reviewCount: tour.reviewCount,
-                approvedReviewCount: tour.approvedReviewCount || 0
+                review,
+                averageRating: tour?.averageRating,
+                aspectRatings: tour?.aspectRatings,
+                reviewCount: tour?.reviewCount,
+                approvedReviewCount: tour?.approvedReviewCount || 0
             }
         });
     } catch (error) {
@@ -222,9 +258,8 @@ export const addReview = async (req: Request, res: Response) => {
     }
 };
 
-// Get reviews for a tour (using embedded reviews in tour model)
+// Get reviews for a tour
 export const getTourReviews = async (req: Request, res: Response) => {
-    console.log("Getting reviews for tour:", req.params.tourId);
     try {
         const { tourId } = req.params;
         const page = parseInt(req.query.page as string) || 1;
@@ -236,50 +271,46 @@ export const getTourReviews = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Invalid tour ID' });
         }
 
-        // Find the tour with populated user info but handle replies more carefully
-        const tour = await Tour.findById(tourId)
-            .populate({
-                path: 'reviews.user',
-                select: 'name email profileImage roles'
-            })
-        // Removed the problematic populate for replies.user since it's not in the schema;
-
+        const tour = await Tour.findById(tourId).select(TOUR_RATING_FIELDS).lean();
         if (!tour) {
             return res.status(404).json({ message: 'Tour not found' });
         }
 
         // Filter reviews by status if specified
-        let filteredReviews = tour.reviews;
+        const query: Record<string, unknown> = { tour: tourId };
         if (status !== 'all') {
-            filteredReviews = tour.reviews.filter((review: any) => review.status === status);
-        }
-
-        // Sort reviews by date (newest first) and apply pagination
-        const sortedReviews = filteredReviews.sort((a: any, b: any) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-
-        const paginatedReviews = sortedReviews.slice(skip, skip + limit);
+            query.status = status;
+        }
+
+        // Newest first
+        const [reviews, totalItems] = await Promise.all([
+            Review.find(query)
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .populate({ path: 'user', select: 'name email profileImage roles' })
+                .lean(),
+            Review.countDocuments(query)
+        ]);
 
         // Increment view counter for each review being viewed
-        for (const review of paginatedReviews) {
-            await Tour.updateOne(
-                { _id: tourId, "reviews._id": review._id },
-                { $inc: { "reviews.$.views": 1 } }
-            );
-        }
+        await Review.updateMany(
+            { _id: { $in: reviews.map(review => review._id) } },
+            { $inc: { views: 1 } }
+        );
 
         res.status(200).json({
             success: true,
             data: {
-                reviews: paginatedReviews,
+                reviews,
                 pagination: {
                     currentPage: page,
-                    totalPages: Math.ceil(filteredReviews.length / limit),
-                    totalItems: filteredReviews.length,
+                    totalPages: Math.ceil(totalItems / limit),
+                    totalItems,
                     itemsPerPage: limit
                 },
                 averageRating: tour.averageRating,
+                aspectRatings: tour.aspectRatings,
                 reviewCount: tour.reviewCount,
                 approvedReviewCount: tour.approvedReviewCount || 0
             }
@@ -290,7 +321,7 @@ export const getTourReviews = async (req: Request, res: Response) => {
     }
 };
 
-// Get pending reviews for a seller's tours (using embedded reviews in tour model)
+// Get pending reviews for a seller's tours
 export const getPendingReviews = async (req: Request, res: Response) => {
     try {
         const authReq = req as Request
@@ -313,54 +344,30 @@ export const getPendingReviews = async (req: Request, res: Response) => {
         const limit = parseInt(req.query.limit as string) || 10;
         const skip = (page - 1) * limit;
 
-        // Check if user is admin
-        const isAdmin = authReq.user?.roles.includes('admin') || false;
-
-        // Find all tours with pending reviews (admin sees all, sellers see only their own)
-        const query = isAdmin
-            ? { 'reviews.status': 'pending' }
-            : { author: userId, 'reviews.status': 'pending' };
-
-        const tours = await Tour.find(query).populate({
-            path: 'reviews.user',
-            select: 'name email profileImage roles'
-        });
-
-        if (!tours || tours.length === 0) {
-            return res.status(200).json({
-                reviews: [],
-                total: 0,
-                page,
-                limit,
-                totalPages: 0
-            });
-        }
-
-        // Extract all pending reviews from all tours
-        const pendingReviews = tours.flatMap(tour => {
-            const tourReviews = tour.reviews.filter((review: any) => review.status === 'pending');
-            return tourReviews.map((review: any) => ({
-                ...review.toObject(),
-                tourId: tour._id,
-                tourTitle: tour.title
-            }));
-        });
-
-        // Sort reviews by date (newest first) and apply pagination
-        const sortedReviews = pendingReviews.sort((a: any, b: any) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-
-        const total = sortedReviews.length;
-        const totalPages = Math.ceil(total / limit);
-        const paginatedReviews = sortedReviews.slice(skip, skip + limit);
+        // Admin sees all pending reviews, sellers only those on their own tours
+        const tourIds = await getModeratedTourIds(authReq);
+        const query = tourIds
+            ? { status: 'pending', tour: { $in: tourIds } }
+            : { status: 'pending' };
+
+        // Newest first
+        const [reviews, total] = await Promise.all([
+            Review.find(query)
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .populate({ path: 'user', select: 'name email profileImage roles' })
+                .populate({ path: 'tour', select: 'title' })
+                .lean(),
+            Review.countDocuments(query)
+        ]);
 
         res.status(200).json({
-            reviews: paginatedReviews,
+            reviews: reviews.map(withTourInfo),
             total,
             page,
             limit,
-            totalPages
+            totalPages: Math.ceil(total / limit)
         });
     } catch (error) {
         console.error('Error in getPendingReviews:', error);
@@ -376,7 +383,7 @@ export const getPendingReviews = async (req: Request, res: Response) => {
     }
 };
 
-// Get all reviews for a seller (regardless of status) (using embedded reviews in tour model)
+// Get all reviews for a seller (regardless of status)
 export const getAllReviews = async (req: Request, res: Response) => {
     try {
         const authReq = req as Request
@@ -392,85 +399,32 @@ export const getAllReviews = async (req: Request, res: Response) => {
         const limit = parseInt(req.query.limit as string) || 50; // Increased limit to show more reviews
         const skip = (page - 1) * limit;
 
-        // Check if the user is an admin
-        const isAdmin = authReq.user?.roles.includes('admin') || false;
-
-        let tours;
-        if (isAdmin) {
-            // Admins can see all tours with reviews
-            tours = await Tour.find({}).populate({
-                path: 'reviews.user',
-                select: 'name email profileImage roles'
-            }).populate({
-                path: 'reviews.replies.user',
-                select: 'name email profileImage roles'
-            });
-        } else {
-            // Regular sellers can only see their own tours with reviews
-            tours = await Tour.find({
-                author: userId
-            }).populate({
-                path: 'reviews.user',
-                select: 'name email profileImage roles'
-            }).populate({
-                path: 'reviews.replies.user',
-                select: 'name email profileImage roles'
-            });
-        }
-
-        if (!tours || tours.length === 0) {
-            return res.status(200).json({
-                success: true,
-                message: 'No reviews found',
-                data: {
-                    reviews: [],
-                    pagination: {
-                        currentPage: page,
-                        totalPages: 0,
-                        totalItems: 0,
-                        itemsPerPage: limit
-                    }
-                }
-            });
-        }
-
-        // Extract all reviews from all tours
-        const allReviews: Array<any> = [];
-
-        // Loop through each tour and extract its reviews
-        for (const tour of tours) {
-            if (tour.reviews && tour.reviews.length > 0) {
-                // Map each review to include the tour information
-                const tourReviews = tour.reviews.map((review: any) => {
-                    const reviewObj = review.toObject ? review.toObject() : review;
-                    return {
-                        ...reviewObj,
-                        tourId: tour._id,
-                        tourTitle: tour.title
-                    };
-                });
-
-                // Add these reviews to our collection
-                allReviews.push(...tourReviews);
-            }
-        }
-
-        // Sort reviews by date (newest first) and apply pagination
-        const sortedReviews = allReviews.sort((a: any, b: any) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-
-        const paginatedReviews = sortedReviews.slice(skip, skip + limit);
-        console.log('Returning paginated reviews:', paginatedReviews.length);
+        // Admins can see reviews on all tours, sellers only on their own
+        const tourIds = await getModeratedTourIds(authReq);
+        const query = tourIds ? { tour: { $in: tourIds } } : {};
+
+        // Newest first
+        const [reviews, totalItems] = await Promise.all([
+            Review.find(query)
+                .sort({ createdAt: -1 })
+                .skip(skip)
+                .limit(limit)
+                .populate({ path: 'user', select: 'name email profileImage roles' })
+                .populate({ path: 'replies.user', select: 'name email profileImage roles' })
+                .populate({ path: 'tour', select: 'title' })
+                .lean(),
+            Review.countDocuments(query)
+        ]);
 
         res.status(200).json({
             success: true,
+            message: totalItems === 0 ? 'No reviews found' : 'Reviews retrieved successfully',
             data: {
-                reviews: paginatedReviews,
+                reviews: reviews.map(withTourInfo),
                 pagination: {
                     currentPage: page,
-                    totalPages: Math.ceil(allReviews.length / limit),
-                    totalItems: allReviews.length,
+                    totalPages: Math.ceil(totalItems / limit),
+                    totalItems,
                     itemsPerPage: limit
                 }
             }
@@ -481,7 +435,7 @@ export const getAllReviews = async (req: Request, res: Response) => {
     }
 };
 
-// Approve or reject a review (using embedded reviews in tour model) - UPDATED for RESTful pattern
+// Approve or reject a review
 export const updateReviewStatus = async (req: Request, res: Response) => {
     try {
         const { reviewId } = req.params;
@@ -516,10 +470,9 @@ export const updateReviewStatus = async (req: Request, res: Response) => {
         // Check if user is admin
         const isAdmin = authReq.user?.roles.includes('admin') || false;
 
-        // Find the tour containing this review
-        const tour = await Tour.findOne({ 'reviews._id': reviewId });
+        const review = await Review.findById(reviewId);
 
-        if (!tour) {
+        if (!review) {
             return res.status(404).json({
                 error: {
                     code: 'REVIEW_NOT_FOUND',
@@ -531,7 +484,7 @@ export const updateReviewStatus = async (req: Request, res: Response) => {
         }
 
         // Check authorization: admin can update any review, sellers can only update reviews on their tours
-        if (!isAdmin && tour.author.toString() !== userId) {
+        if (!isAdmin && !(await Tour.exists({ _id: review.tour, author: userId }))) {
             return res.status(403).json({
                 error: {
                     code: 'FORBIDDEN',
@@ -542,33 +495,19 @@ export const updateReviewStatus = async (req: Request, res: Response) => {
             });
         }
 
-        // Find the review
-        const reviewIndex = tour.reviews.findIndex(
-            (review: any) => review._id.toString() === reviewId
-        );
-
-        if (reviewIndex === -1) {
-            return res.status(404).json({
-                error: {
-                    code: 'REVIEW_NOT_FOUND',
-                    message: 'Review not found',
-                    timestamp: new Date().toISOString(),
-                    path: req.path
-                }
-            });
-        }
-
-        // Update the review status
-        tour.reviews[reviewIndex].status = status;
+        // Update the review status and the tour's rating with it
+        review.status = status;
+        await review.save();
+        await updateTourRatings(review.tour);
 
-        // Save the tour - the pre-save hook will handle recalculating ratings
-        await tour.save();
+        const tour = await Tour.findById(review.tour).select(TOUR_RATING_FIELDS).lean();
 
         res.status(200).json({
-            review: tour.reviews[reviewIndex],
-            averageRating: tour.averageRating,
-            reviewCount: tour.reviewCount,
-            approvedReviewCount: tour.approvedReviewCount || 0
+            review,
+            averageRating: tour?.averageRating,
+            aspectRatings: tour?.aspectRatings,
+            reviewCount: tour?.reviewCount,
+            approvedReviewCount: tour?.approvedReviewCount || 0
         });
     } catch (error) {
         console.error('Error in updateReviewStatus:', error);
@@ -584,7 +523,7 @@ export const updateReviewStatus = async (req: Request, res: Response) => {
     }
 };
 
-// Add a reply to a review (using embedded reviews in tour model) - UPDATED for RESTful pattern
+// Add a reply to a review
 export const addReviewReply = async (req: Request, res: Response) => {
     try {
         const { reviewId } = req.params;
@@ -626,25 +565,8 @@ export const addReviewReply = async (req: Request, res: Response) => {
             });
         }
 
-        // Find the tour containing this review
-        const tour = await Tour.findOne({ 'reviews._id': reviewId });
-        if (!tour) {
-            return res.status(404).json({
-                error: {
-                    code: 'REVIEW_NOT_FOUND',
-                    message: 'Review not found',
-                    timestamp: new Date().toISOString(),
-                    path: req.path
-                }
-            });
-        }
-
-        // Find the review
-        const reviewIndex = tour.reviews.findIndex(
-            (review: any) => review._id.toString() === reviewId
-        );
-
-        if (reviewIndex === -1) {
+        const review = await Review.findById(reviewId);
+        if (!review) {
             return res.status(404).json({
                 error: {
                     code: 'REVIEW_NOT_FOUND',
@@ -656,31 +578,23 @@ export const addReviewReply = async (req: Request, res: Response) => {
         }
 
         // Add the reply
-        const newReply = {
+        review.replies.push({
             user: new mongoose.Types.ObjectId(userId),
             comment,
             createdAt: new Date(),
             likes: 0,
             views: 0
-        };
-
-        tour.reviews[reviewIndex].replies.push(newReply);
-
-        // Save the tour
-        await tour.save();
+        });
+        await review.save();
 
         // Populate the user data for the new reply
-        const populatedTour = await Tour.findOne({ 'reviews._id': reviewId })
-            .populate({
-                path: 'reviews.replies.user',
-                select: 'name email profileImage roles'
-            });
-
-        const updatedReview = populatedTour?.reviews[reviewIndex];
-        const newReplyWithUser = updatedReview?.replies[updatedReview.replies.length - 1];
+        await review.populate({
+            path: 'replies.user',
+            select: 'name email profileImage roles'
+        });
 
         res.status(201).json({
-            reply: newReplyWithUser
+            reply: review.replies[review.replies.length - 1]
         });
     } catch (error) {
         console.error('Error in addReviewReply:', error);
@@ -696,7 +610,7 @@ export const addReviewReply = async (req: Request, res: Response) => {
     }
 };
 
-// Like a review (using embedded reviews in tour model) - UPDATED for RESTful pattern
+// Like a review
 export const likeReview = async (req: Request, res: Response) => {
     try {
         const { reviewId } = req.params;
@@ -727,9 +641,9 @@ export const likeReview = async (req: Request, res: Response) => {
         }
 
         // Update the review's likes count
-        const result = await Tour.updateOne(
-            { "reviews._id": reviewId },
-            { $inc: { "reviews.$.likes": 1 } }
+        const result = await Review.updateOne(
+            { _id: reviewId },
+            { $inc: { likes: 1 } }
         );
 
         if (result.matchedCount === 0) {
@@ -760,7 +674,7 @@ export const likeReview = async (req: Request, res: Response) => {
     }
 };
 
-// Like a review reply (using embedded reviews in tour model)
+// Like a review reply
 export const likeReviewReply = async (req: Request, res: Response) => {
     try {
         const { tourId, reviewId, replyId } = req.params;
@@ -778,36 +692,16 @@ export const likeReviewReply = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Invalid IDs provided' });
         }
 
-        // Find the tour
-        const tour = await Tour.findById(tourId);
-        if (!tour) {
-            return res.status(404).json({ message: 'Tour not found' });
-        }
-
-        // Find the review
-        const reviewIndex = tour.reviews.findIndex(
-            (review: any) => review._id.toString() === reviewId
-        );
-
-        if (reviewIndex === -1) {
-            return res.status(404).json({ message: 'Review not found' });
-        }
-
-        // Find the reply
-        const replyIndex = tour.reviews[reviewIndex].replies.findIndex(
-            (reply: any) => reply._id.toString() === replyId
+        // Increment the likes count
+        const result = await Review.updateOne(
+            { _id: reviewId, tour: tourId, 'replies._id': replyId },
+            { $inc: { 'replies.$.likes': 1 } }
         );
 
-        if (replyIndex === -1) {
-            return res.status(404).json({ message: 'Reply not found' });
+        if (result.matchedCount === 0) {
+            return res.status(404).json({ message: 'Review or reply not found' });
         }
 
-        // Increment the likes count
-        tour.reviews[reviewIndex].replies[replyIndex].likes += 1;
-
-        // Save the tour
-        await tour.save();
-
         res.status(200).json({
             success: true,
             message: 'Reply liked successfully'
@@ -818,7 +712,7 @@ export const likeReviewReply = async (req: Request, res: Response) => {
     }
 };
 
-// Increment view count for a review (using embedded reviews in tour model)
+// Increment view count for a review
 export const incrementReviewView = async (req: Request, res: Response) => {
     try {
         const { tourId, reviewId } = req.params;
@@ -828,9 +722,9 @@ export const incrementReviewView = async (req: Request, res: Response) => {
         }
 
         // Update the review's view count
-        const result = await Tour.updateOne(
-            { _id: tourId, "reviews._id": reviewId },
-            { $inc: { "reviews.$.views": 1 } }
+        const result = await Review.updateOne(
+            { _id: reviewId, tour: tourId },
+            { $inc: { views: 1 } }
         );
 
         if (result.matchedCount === 0) {
@@ -847,7 +741,7 @@ export const incrementReviewView = async (req: Request, res: Response) => {
     }
 };
 
-// Increment view count for a reply (using embedded reviews in tour model)
+// Increment view count for a reply
 export const incrementReplyView = async (req: Request, res: Response) => {
     try {
         const { tourId, reviewId, replyId } = req.params;
@@ -858,36 +752,16 @@ export const incrementReplyView = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Invalid IDs provided' });
         }
 
-        // Find the tour
-        const tour = await Tour.findById(tourId);
-        if (!tour) {
-            return res.status(404).json({ message: 'Tour not found' });
-        }
-
-        // Find the review
-        const reviewIndex = tour.reviews.findIndex(
-            (review: any) => review._id.toString() === reviewId
-        );
-
-        if (reviewIndex === -1) {
-            return res.status(404).json({ message: 'Review not found' });
-        }
-
-        // Find the reply
-        const replyIndex = tour.reviews[reviewIndex].replies.findIndex(
-            (reply: any) => reply._id.toString() === replyId
+        // Increment the views count
+        const result = await Review.updateOne(
+            { _id: reviewId, tour: tourId, 'replies._id': replyId },
+            { $inc: { 'replies.$.views': 1 } }
         );
 
-        if (replyIndex === -1) {
-            return res.status(404).json({ message: 'Reply not found' });
+        if (result.matchedCount === 0) {
+            return res.status(404).json({ message: 'Review or reply not found' });
         }
 
-        // Increment the views count
-        tour.reviews[reviewIndex].replies[replyIndex].views += 1;
-
-        // Save the tour
-        await tour.save();
-
         res.status(200).json({
             success: true,
             message: 'Reply view count incremented'
@@ -915,32 +789,11 @@ export const getReviewById = async (req: Request, res: Response) => {
             });
         }
 
-        // Find the tour containing this review
-        const tour = await Tour.findOne({ 'reviews._id': reviewId })
-            .select('title slug images reviews')
-            .populate({
-                path: 'reviews.user',
-                select: 'name email profileImage'
-            })
-            .populate({
-                path: 'reviews.replies.user',
-                select: 'name email profileImage'
-            })
-            .setOptions({ strictPopulate: false });
-
-        if (!tour) {
-            return res.status(404).json({
-                error: {
-                    code: 'REVIEW_NOT_FOUND',
-                    message: 'Review not found',
-                    timestamp: new Date().toISOString(),
-                    path: req.path
-                }
-            });
-        }
-
-        // Find the specific review
-        const review = tour.reviews.find((r: any) => r._id.toString() === reviewId);
+        const review = await Review.findById(reviewId)
+            .populate({ path: 'user', select: 'name email profileImage' })
+            .populate({ path: 'replies.user', select: 'name email profileImage' })
+            .populate({ path: 'tour', select: 'title slug images', options: { strictPopulate: false } })
+            .lean();
 
         if (!review) {
             return res.status(404).json({
@@ -954,16 +807,7 @@ export const getReviewById = async (req: Request, res: Response) => {
         }
 
         // Add tour information to the review
-        const reviewObj = (review as any).toObject ? (review as any).toObject() : review;
-        const reviewWithTour = {
-            ...reviewObj,
-            tourId: tour._id,
-            tourTitle: (tour as any).title,
-            tourSlug: (tour as any).slug,
-            tourImage: (tour as any).images && (tour as any).images.length > 0 ? (tour as any).images[0] : null
-        };
-
-        res.json(reviewWithTour);
+        res.json(withTourInfo(review));
     } catch (error) {
         console.error('Error in getReviewById:', error);
         res.status(500).json({
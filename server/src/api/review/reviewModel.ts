@@ -1,6 +1,34 @@
 import mongoose, { Schema } from 'mongoose';
-import { IReview, IReviewModel } from './reviewTypes';
+import { AspectRatings, IReview, MAX_REVIEW_PHOTOS, REVIEW_ASPECTS } from './reviewTypes';
 
+// Rating on a 0.5-5 scale, rounded to the nearest half star
+const halfStarRating = {
+    type: Number,
+    min: 0.5,
+    max: 5,
+    get: (v?: number) => v == null ? v : Math.round(v * 2) / 2,
+    set: (v?: number) => v == null ? v : Math.round(v * 2) / 2,
+};
+
+// Each aspect is optional - travelers rate what applied to their trip
+const aspectRatingsSchema = new Schema({
+    guide: halfStarRating,
+    value: halfStarRating,
+    accommodation: halfStarRating,
+    transport: halfStarRating,
+    itinerary: halfStarRating,
+}, { _id: false });
+
+const reviewPhotoSchema = new Schema({
+    imageId: {
+        type: mongoose.Schema.Types.ObjectId,
+        required: true,
+    },
+    url: {
+        type: String,
+        required: true,
+    },
+}, { _id: false });
 
 const reviewSchema = new Schema({
     user: {
@@ -21,10 +49,31 @@ const reviewSchema = new Schema({
         get: (v: number) => Math.round(v * 2) / 2, // Round to nearest 0.5
         set: (v: number) => Math.round(v * 2) / 2, // Round to nearest 0.5
     },
+    aspectRatings: {
+        type: aspectRatingsSchema,
+        default: undefined,
+    },
     comment: {
         type: String,
         required: true,
     },
+    photos: {
+        type: [reviewPhotoSchema],
+        default: [],
+        validate: {
+            validator: (photos: unknown[]) => photos.length <= MAX_REVIEW_PHOTOS,
+            message: `A review can have at most ${MAX_REVIEW_PHOTOS} photos`,
+        },
+    },
+    // "Verified traveler" - the reviewer completed a booking for this tour
+    verified: {
+        type: Boolean,
+        default: false,
+    },
+    booking: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Booking',
+    },
     status: {
         type: String,
         enum: ['pending', 'approved', 'rejected'],
@@ -72,74 +121,54 @@ const reviewSchema = new Schema({
 
 // Compound index to ensure one review per user per tour
 reviewSchema.index({ user: 1, tour: 1 }, { unique: true });
+// Listing a tour's reviews and the moderation queues
+reviewSchema.index({ tour: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ status: 1, createdAt: -1 });
 
-// Static method to calculate average rating for a tour
-reviewSchema.statics.calculateAverageRating = async function(tourId) {
-    // Use the model directly instead of 'this'
-    const Review = mongoose.model('Review');
-    const stats = await Review.aggregate([
-        {
-            $match: { tour: tourId }
-        },
+export const Review = mongoose.model<IReview>('Review', reviewSchema);
+
+/**
+ * Recalculate a tour's rating fields from its reviews
+ * The average, approved count and aspect averages only count approved reviews;
+ * reviewCount covers every review regardless of status. Call after any change
+ * to a review's rating or status.
+ */
+export const updateTourRatings = async (tourId: mongoose.Types.ObjectId | string) => {
+    const tour = new mongoose.Types.ObjectId(tourId.toString());
+
+    const [stats] = await Review.aggregate([
+        { $match: { tour } },
         {
-            $group: {
-                _id: '$tour',
-                averageRating: { $avg: '$rating' },
-                numberOfReviews: { $sum: 1 }
+            $facet: {
+                approved: [
+                    { $match: { status: 'approved' } },
+                    {
+                        $group: {
+                            _id: null,
+                            averageRating: { $avg: '$rating' },
+                            count: { $sum: 1 },
+                            // $avg skips reviews that didn't rate an aspect
+                            ...Object.fromEntries(REVIEW_ASPECTS.map(aspect => [aspect, { $avg: `$aspectRatings.${aspect}` }])),
+                        }
+                    }
+                ],
+                total: [{ $count: 'count' }]
             }
         }
     ]);
 
-    if (stats.length > 0) {
-        await mongoose.model('Tour').findByIdAndUpdate(tourId, {
-            averageRating: stats[0].averageRating,
-            numberOfReviews: stats[0].numberOfReviews
-        });
-    }
-};
-
-// Create a simpler implementation for calculating average ratings directly
-// This will avoid the complex mongoose hooks and static methods
-export const calculateAverageRating = async (tourId: mongoose.Types.ObjectId | string) => {
-    try {
-        const aggregateResult = await mongoose.model('Review').aggregate([
-            {
-                $match: { tour: new mongoose.Types.ObjectId(tourId.toString()) }
-            },
-            {
-                $group: {
-                    _id: '$tour',
-                    averageRating: { $avg: '$rating' },
-                    numberOfReviews: { $sum: 1 }
-                }
-            }
-        ]);
-
-        if (aggregateResult && aggregateResult.length > 0) {
-            await mongoose.model('Tour').findByIdAndUpdate(tourId, {
-                averageRating: aggregateResult[0].averageRating,
-                numberOfReviews: aggregateResult[0].numberOfReviews
-            });
+    const approved = stats?.approved[0];
+    const aspectRatings: AspectRatings = {};
+    REVIEW_ASPECTS.forEach(aspect => {
+        if (typeof approved?.[aspect] === 'number') {
+            aspectRatings[aspect] = approved[aspect];
         }
-    } catch (error) {
-        console.error('Error calculating average rating:', error);
-    }
-};
-
-// Export the schema so it can be used by other models
-export { reviewSchema };
-
-// Create the model
-export const Review = mongoose.model<IReview>('Review', reviewSchema);
-
-// Call calculateAverageRating after save
-reviewSchema.post('save', async function() {
-    // @ts-ignore
-    await calculateAverageRating(this.tour);
-});
+    });
 
-// Call calculateAverageRating before findOneAndDelete
-reviewSchema.pre('findOneAndDelete', async function() {
-    // @ts-ignore
-    await calculateAverageRating(this.tour);
-});
\ No newline at end of file
+    await mongoose.model('Tour').updateOne({ _id: tour }, {
+        averageRating: approved?.averageRating || 0,
+        approvedReviewCount: approved?.count || 0,
+        reviewCount: stats?.total[0]?.count || 0,
+        aspectRatings
+    });
+};
@@ -3,7 +3,7 @@ import { authenticate, authorizeRoles } from '../../middlewares/authenticate';
 import { paginationMiddleware } from '../../middlewares/pagination';
 import { filterSortMiddleware } from '../../middlewares/filterSort';
 import { simpleViewTracking } from '../../middlewares/viewTracking';
-import Tour from '../tours/tourModel';
+import { Review } from './reviewModel';
 import {
     getAllApprovedReviews,
     getPendingReviews,
@@ -135,9 +135,9 @@ router.get('/pending', authenticate, authorizeRoles('admin', 'seller'), getPendi
 router.get('/:reviewId',
     simpleViewTracking('review', 'reviewId', async (reviewId) => {
         // Auto-increment view count for the review
-        await Tour.updateOne(
-            { "reviews._id": reviewId },
-            { $inc: { "reviews.$.views": 1 } }
+        await Review.updateOne(
+            { _id: reviewId },
+            { $inc: { views: 1 } }
         );
     }),
     getReviewById
@@ -1,15 +1,28 @@
-import mongoose, { Document, Model } from 'mongoose';
+import mongoose, { Document } from 'mongoose';
 
-// Interface for Review static methods
-export interface IReviewModel extends Model<IReview> {
-    calculateAverageRating(tourId: mongoose.Types.ObjectId | string): Promise<void>;
+// Parts of a trip travelers can rate on their own, next to the overall rating
+export const REVIEW_ASPECTS = ['guide', 'value', 'accommodation', 'transport', 'itinerary'] as const;
+export type ReviewAspect = typeof REVIEW_ASPECTS[number];
+export type AspectRatings = Partial<Record<ReviewAspect, number>>;
+
+// Photos attached to a review, picked from the traveler's gallery
+export const MAX_REVIEW_PHOTOS = 6;
+
+export interface ReviewPhoto {
+    imageId: mongoose.Types.ObjectId;
+    url: string;
 }
 
 export interface IReview extends Document {
     user: mongoose.Types.ObjectId;
     tour: mongoose.Types.ObjectId;
     rating: number;
+    aspectRatings?: AspectRatings;
     comment: string;
+    photos: ReviewPhoto[];
+    // Set when the reviewer holds a completed booking for the tour
+    verified: boolean;
+    booking?: mongoose.Types.ObjectId;
     status: 'pending' | 'approved' | 'rejected';
     createdAt: Date;
     updatedAt: Date;
@@ -22,4 +35,4 @@ export interface IReview extends Document {
         likes: number;
         views: number;
     }[];
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { SettingsService, SETTINGS_CACHE_SECONDS } from '../services/settingsService';
+import { sendSuccess } from '../../../utils/apiResponse';
+
+// Public settings change rarely, so let browsers and CDNs reuse them
+const setPublicCache = (res: Response) => {
+    res.set('Cache-Control', `public, max-age=${SETTINGS_CACHE_SECONDS}`);
+};
+
+/**
+ * Get the public site settings (branding, contact, footer and social links)
+ */
+export const getSiteSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const settings = await SettingsService.getSiteSettings();
+
+        setPublicCache(res);
+        sendSuccess(res, settings, 'Site settings retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Update the site settings (admin)
+ */
+export const updateSiteSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const settings = await SettingsService.updateSiteSettings(req.body || {}, req.user!.id);
+
+        sendSuccess(res, settings, 'Site settings updated successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get a seller's public storefront
+ */
+export const getStorefront = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const storefront = await SettingsService.getStorefront(req.params.sellerId);
+
+        setPublicCache(res);
+        sendSuccess(res, storefront, 'Storefront retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get the signed-in seller's storefront settings
+ */
+export const getMyStorefront = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const storefront = await SettingsService.getMyStorefront(req.user!.id);
+
+        sendSuccess(res, storefront, 'Storefront settings retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Update the signed-in seller's storefront settings
+ */
+export const updateMyStorefront = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const storefront = await SettingsService.updateMyStorefront(req.user!.id, req.body || {});
+
+        sendSuccess(res, storefront, 'Storefront settings updated successfully');
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,401 @@
+import mongoose from 'mongoose';
+import createHttpError from 'http-errors';
+import SiteSettingsModel, { SITE_SETTINGS_KEY } from '../siteSettingsModel';
+import {
+    SellerStorefront,
+    SettingsLink,
+    SiteBranding,
+    SiteContact,
+    SiteFooterLinks,
+    SocialLink,
+    StorefrontSettings,
+} from '../settingsTypes';
+import { config } from '../../../config/config';
+import { TtlCache } from '../../../utils/ttlCache';
+import User from '../../user/userModel';
+import Tour from '../../tours/tourModel';
+
+// How long public settings and storefronts are cached, on the server and by clients
+export const SETTINGS_CACHE_SECONDS = 300;
+
+// Published tours listed on a storefront
+const STOREFRONT_TOUR_LIMIT = 12;
+const MAX_LINKS = 20;
+
+const STOREFRONT_TOUR_FIELDS = 'title code coverImage price averageRating reviewCount location.city location.country';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type PublicSiteSettings = {
+    branding: SiteBranding;
+    contact: SiteContact;
+    footerLinks: SiteFooterLinks;
+    socialLinks: SocialLink[];
+    defaultCurrency: string;
+    supportedLanguages: string[];
+    updatedAt?: Date;
+};
+
+export type SiteSettingsInput = Partial<{
+    branding: Partial<SiteBranding>;
+    contact: Partial<SiteContact>;
+    footerLinks: Partial<SiteFooterLinks>;
+    socialLinks: SocialLink[];
+    defaultCurrency: string;
+    supportedLanguages: string[];
+}>;
+
+export type StorefrontInput = Partial<StorefrontSettings> & {
+    businessDescription?: string;
+    website?: string;
+};
+
+// Settings served before an admin has saved any
+const getDefaultSettings = (): PublicSiteSettings => ({
+    branding: { siteName: 'TourBNT' },
+    contact: { email: config.mail.supportEmail },
+    footerLinks: { resources: [], quickLinks: [] },
+    socialLinks: [],
+    defaultCurrency: config.payments.defaultCurrency,
+    supportedLanguages: ['en'],
+});
+
+const isHttpUrl = (value: string) => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+// Footer links may also point at pages of the site itself
+const isLinkTarget = (value: string) => (value.startsWith('/') && !value.startsWith('//')) || isHttpUrl(value);
+
+const optionalString = (value: unknown, field: string, check?: (value: string) => boolean) => {
+    if (value === undefined || value === null || value === '') return '';
+    if (typeof value !== 'string' || (check && !check(value.trim()))) {
+        throw createHttpError(400, `Invalid ${field}`);
+    }
+    return value.trim();
+};
+
+const parseLinks = (value: unknown, field: string): SettingsLink[] => {
+    if (!Array.isArray(value) || value.length > MAX_LINKS) {
+        throw createHttpError(400, `${field} must be a list of at most ${MAX_LINKS} links`);
+    }
+    return value.map(link => {
+        if (!link?.title || typeof link.title !== 'string' || typeof link.url !== 'string' || !isLinkTarget(link.url.trim())) {
+            throw createHttpError(400, `Each of ${field} needs a title and a valid url`);
+        }
+        return { title: link.title.trim(), url: link.url.trim() };
+    });
+};
+
+const parseSocialLinks = (value: unknown): SocialLink[] => {
+    if (!Array.isArray(value) || value.length > MAX_LINKS) {
+        throw createHttpError(400, `socialLinks must be a list of at most ${MAX_LINKS} links`);
+    }
+    return value.map(link => {
+        if (!link?.platform || typeof link.platform !== 'string' || typeof link.url !== 'string' || !isHttpUrl(link.url.trim())) {
+            throw createHttpError(400, 'Each social link needs a platform and an http(s) url');
+        }
+        return { platform: link.platform.trim().toLowerCase(), url: link.url.trim() };
+    });
+};
+
+/**
+ * Settings Service Layer
+ * Platform-wide site settings edited by admins, and the public storefront
+ * profiles of approved sellers. Both are read on every page, so public
+ * reads are cached in memory and invalidated on write.
+ */
+export class SettingsService {
+    private static instance: SettingsService;
+
+    private siteCache = new TtlCache<PublicSiteSettings>(SETTINGS_CACHE_SECONDS * 1000, 1);
+    private storefrontCache = new TtlCache<SellerStorefront>(SETTINGS_CACHE_SECONDS * 1000);
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): SettingsService {
+        if (!SettingsService.instance) {
+            SettingsService.instance = new SettingsService();
+        }
+        return SettingsService.instance;
+    }
+
+    /**
+     * Get the public site settings, falling back to defaults for anything not saved yet
+     */
+    async getSiteSettings(): Promise<PublicSiteSettings> {
+        const cached = this.siteCache.get(SITE_SETTINGS_KEY);
+        if (cached) return cached;
+
+        const defaults = getDefaultSettings();
+        const saved: any = await SiteSettingsModel.findOne({ key: SITE_SETTINGS_KEY }).lean();
+
+        const settings: PublicSiteSettings = saved ? {
+            branding: { ...defaults.branding, ...saved.branding },
+            contact: { ...defaults.contact, ...saved.contact },
+            footerLinks: {
+                resources: saved.footerLinks?.resources || [],
+                quickLinks: saved.footerLinks?.quickLinks || [],
+            },
+            socialLinks: saved.socialLinks || [],
+            defaultCurrency: saved.defaultCurrency || defaults.defaultCurrency,
+            supportedLanguages: saved.supportedLanguages?.length ? saved.supportedLanguages : defaults.supportedLanguages,
+            updatedAt: saved.updatedAt,
+        } : defaults;
+
+        this.siteCache.set(SITE_SETTINGS_KEY, settings);
+        return settings;
+    }
+
+    /**
+     * Update the site settings (admin)
+     * Only the sections and fields sent are changed; link lists are replaced as a whole.
+     */
+    async updateSiteSettings(input: SiteSettingsInput, userId: string): Promise<PublicSiteSettings> {
+        const update: Record<string, unknown> = {};
+
+        if (input.branding) {
+            const { siteName, tagline, description, logoUrl, faviconUrl, primaryColor } = input.branding;
+            if (siteName !== undefined) {
+                if (typeof siteName !== 'string' || !siteName.trim()) {
+                    throw createHttpError(400, 'Site name cannot be empty');
+                }
+                update['branding.siteName'] = siteName.trim();
+            }
+            if (tagline !== undefined) update['branding.tagline'] = optionalString(tagline, 'tagline');
+            if (description !== undefined) update['branding.description'] = optionalString(description, 'description');
+            if (logoUrl !== undefined) update['branding.logoUrl'] = optionalString(logoUrl, 'logo URL', isHttpUrl);
+            if (faviconUrl !== undefined) update['branding.faviconUrl'] = optionalString(faviconUrl, 'favicon URL', isHttpUrl);
+            if (primaryColor !== undefined) {
+                update['branding.primaryColor'] = optionalString(primaryColor, 'primary color', value => COLOR_PATTERN.test(value));
+            }
+        }
+
+        if (input.contact) {
+            const { email, phone, address } = input.contact;
+            if (email !== undefined) update['contact.email'] = optionalString(email, 'contact email', value => EMAIL_PATTERN.test(value));
+            if (phone !== undefined) update['contact.phone'] = optionalString(phone, 'contact phone');
+            if (address !== undefined) update['contact.address'] = optionalString(address, 'contact address');
+        }
+
+        if (input.footerLinks) {
+            if (input.footerLinks.resources !== undefined) {
+                update['footerLinks.resources'] = parseLinks(input.footerLinks.resources, 'resources');
+            }
+            if (input.footerLinks.quickLinks !== undefined) {
+                update['footerLinks.quickLinks'] = parseLinks(input.footerLinks.quickLinks, 'quickLinks');
+            }
+        }
+
+        if (input.socialLinks !== undefined) {
+            update.socialLinks = parseSocialLinks(input.socialLinks);
+        }
+
+        if (input.defaultCurrency !== undefined) {
+            const currency = String(input.defaultCurrency).trim().toUpperCase();
+            if (!CURRENCY_PATTERN.test(currency)) {
+                throw createHttpError(400, 'Default currency must be a 3-letter ISO 4217 code');
+            }
+            update.defaultCurrency = currency;
+        }
+
+        if (input.supportedLanguages !== undefined) {
+            const languages = Array.isArray(input.supportedLanguages)
+                ? [...new Set(input.supportedLanguages.map(language => String(language).trim()))]
+                : [];
+            if (languages.length === 0 || languages.some(language => !LANGUAGE_PATTERN.test(language))) {
+                throw createHttpError(400, 'Supported languages must be a non-empty list of language codes such as "en" or "pt-BR"');
+            }
+            update.supportedLanguages = languages;
+        }
+
+        if (Object.keys(update).length === 0) {
+            throw createHttpError(400, 'No settings to update');
+        }
+
+        await SiteSettingsModel.findOneAndUpdate(
+            { key: SITE_SETTINGS_KEY },
+            { $set: { ...update, updatedBy: userId } },
+            // A first save starts from the defaults for the fields it doesn't send
+            { upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        this.siteCache.clear();
+        return this.getSiteSettings();
+    }
+
+    /**
+     * Get the public storefront of an approved seller
+     */
+    async getStorefront(sellerId: string): Promise<SellerStorefront> {
+        if (!mongoose.Types.ObjectId.isValid(sellerId)) {
+            throw createHttpError(400, 'Invalid seller ID');
+        }
+
+        const cached = this.storefrontCache.get(sellerId);
+        if (cached) return cached;
+
+        const seller: any = await User.findOne({ _id: sellerId, 'sellerInfo.isApproved': true })
+            .select('name avatar createdAt sellerInfo')
+            .lean();
+        if (!seller) {
+            throw createHttpError(404, 'Seller not found');
+        }
+
+        const publishedFilter = { author: seller._id, tourStatus: 'Published' };
+        const [tours, totals] = await Promise.all([
+            Tour.find(publishedFilter)
+                .select(STOREFRONT_TOUR_FIELDS)
+                .sort({ averageRating: -1, views: -1 })
+                .limit(STOREFRONT_TOUR_LIMIT)
+                .lean(),
+            Tour.aggregate([
+                { $match: publishedFilter },
+                {
+                    $group: {
+                        _id: null,
+                        tourCount: { $sum: 1 },
+                        reviewCount: { $sum: { $ifNull: ['$approvedReviewCount', 0] } },
+                        // Weight each tour's rating by its number of reviews
+                        ratingTotal: {
+                            $sum: {
+                                $multiply: [{ $ifNull: ['$averageRating', 0] }, { $ifNull: ['$approvedReviewCount', 0] }]
+                            }
+                        }
+                    }
+                }
+            ]),
+        ]);
+
+        const info = seller.sellerInfo;
+        const storefront = info.storefront || {};
+        const address = info.businessAddress || {};
+        const { tourCount = 0, reviewCount = 0, ratingTotal = 0 } = totals[0] || {};
+
+        const result: SellerStorefront = {
+            sellerId: String(seller._id),
+            companyName: info.companyName || seller.name,
+            description: info.businessDescription,
+            sellerType: info.sellerType,
+            website: info.website || undefined,
+            avatar: seller.avatar,
+            storefront: {
+                tagline: storefront.tagline,
+                logoUrl: storefront.logoUrl,
+                coverImageUrl: storefront.coverImageUrl,
+                publicEmail: storefront.publicEmail,
+                publicPhone: storefront.publicPhone,
+                socialLinks: storefront.socialLinks || [],
+                showAddress: !!storefront.showAddress,
+            },
+            location: {
+                address: storefront.showAddress ? address.address : undefined,
+                city: address.city,
+                state: address.state,
+                country: address.country,
+            },
+            destinations: (info.destination || [])
+                .filter((item: any) => item.isActive && item.isApproved)
+                .map((item: any) => item.destinationName),
+            categories: (info.category || [])
+                .filter((item: any) => item.isActive && item.isApproved)
+                .map((item: any) => item.categoryName),
+            stats: {
+                tourCount,
+                reviewCount,
+                averageRating: reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 10) / 10 : 0,
+            },
+            tours: tours as any,
+            memberSince: seller.createdAt,
+        };
+
+        this.storefrontCache.set(sellerId, result);
+        return result;
+    }
+
+    /**
+     * Get the storefront settings of the signed-in seller, for editing
+     */
+    async getMyStorefront(userId: string) {
+        const seller: any = await User.findById(userId).select('sellerInfo').lean();
+        if (!seller?.sellerInfo) {
+            throw createHttpError(403, 'Only sellers have a storefront');
+        }
+
+        const { storefront = {}, businessDescription, website, isApproved } = seller.sellerInfo;
+        return {
+            ...storefront,
+            socialLinks: storefront.socialLinks || [],
+            showAddress: !!storefront.showAddress,
+            businessDescription,
+            website,
+            // Storefronts are public once the seller application is approved
+            isPublic: !!isApproved,
+        };
+    }
+
+    /**
+     * Update the signed-in seller's storefront
+     */
+    async updateMyStorefront(userId: string, input: StorefrontInput) {
+        const update: Record<string, unknown> = {};
+
+        if (input.tagline !== undefined) update['sellerInfo.storefront.tagline'] = optionalString(input.tagline, 'tagline');
+        if (input.logoUrl !== undefined) update['sellerInfo.storefront.logoUrl'] = optionalString(input.logoUrl, 'logo URL', isHttpUrl);
+        if (input.coverImageUrl !== undefined) {
+            update['sellerInfo.storefront.coverImageUrl'] = optionalString(input.coverImageUrl, 'cover image URL', isHttpUrl);
+        }
+        if (input.publicEmail !== undefined) {
+            update['sellerInfo.storefront.publicEmail'] = optionalString(input.publicEmail, 'public email', value => EMAIL_PATTERN.test(value));
+        }
+        if (input.publicPhone !== undefined) update['sellerInfo.storefront.publicPhone'] = optionalString(input.publicPhone, 'public phone');
+        if (input.socialLinks !== undefined) update['sellerInfo.storefront.socialLinks'] = parseSocialLinks(input.socialLinks);
+        if (input.showAddress !== undefined) update['sellerInfo.storefront.showAddress'] = !!input.showAddress;
+        if (input.businessDescription !== undefined) {
+            update['sellerInfo.businessDescription'] = optionalString(input.businessDescription, 'business description');
+        }
+        if (input.website !== undefined) update['sellerInfo.website'] = optionalString(input.website, 'website', isHttpUrl);
+
+        if (Object.keys(update).length === 0) {
+            throw createHttpError(400, 'No storefront details to update');
+        }
+
+        const result = await User.updateOne({ _id: userId, sellerInfo: { $exists: true } }, { $set: update });
+        if (result.matchedCount === 0) {
+            throw createHttpError(403, 'Only sellers have a storefront');
+        }
+
+        this.storefrontCache.delete(userId);
+        return this.getMyStorefront(userId);
+    }
+
+    // Static accessors used by the controllers
+    static async getSiteSettings() {
+        return SettingsService.getInstance().getSiteSettings();
+    }
+
+    static async updateSiteSettings(input: SiteSettingsInput, userId: string) {
+        return SettingsService.getInstance().updateSiteSettings(input, userId);
+    }
+
+    static async getStorefront(sellerId: string) {
+        return SettingsService.getInstance().getStorefront(sellerId);
+    }
+
+    static async getMyStorefront(userId: string) {
+        return SettingsService.getInstance().getMyStorefront(userId);
+    }
+
+    static async updateMyStorefront(userId: string, input: StorefrontInput) {
+        return SettingsService.getInstance().updateMyStorefront(userId, input);
+    }
+}
@@ -0,0 +1,186 @@
+import express, { RequestHandler } from 'express';
+import { authenticate, authorizeRoles } from '../../middlewares/authenticate';
+import { asyncAuthHandler } from '../../utils/routeWrapper';
+import {
+    getSiteSettings,
+    updateSiteSettings,
+    getStorefront,
+    getMyStorefront,
+    updateMyStorefront
+} from './controllers/settingsController';
+
+const settingsRouter = express.Router();
+
+// ============================================================================
+// PUBLIC ROUTES (Cached for a few minutes)
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/settings/site:
+ *   get:
+ *     summary: Get site settings
+ *     description: Branding, contact details, footer and social links, default currency and supported languages. Defaults are returned until an admin saves settings.
+ *     tags: [Settings]
+ *     responses:
+ *       200:
+ *         description: Site settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/SiteSettings'
+ */
+settingsRouter.get('/site', getSiteSettings);
+
+/**
+ * @swagger
+ * /api/v1/settings/storefronts/{sellerId}:
+ *   get:
+ *     summary: Get a seller's storefront
+ *     description: Public profile of an approved seller with their top published tours
+ *     tags: [Settings]
+ *     parameters:
+ *       - in: path
+ *         name: sellerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Storefront retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/SellerStorefront'
+ *       404:
+ *         description: No approved seller with this ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+settingsRouter.get('/storefronts/:sellerId', getStorefront);
+
+// ============================================================================
+// SELLER ROUTES
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/settings/storefront:
+ *   get:
+ *     summary: Get my storefront settings
+ *     description: The signed-in seller's storefront details, business description and website, for editing
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Storefront settings retrieved successfully
+ *       403:
+ *         description: Not a seller
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   patch:
+ *     summary: Update my storefront settings
+ *     description: Only the fields sent are changed. Changes show on the public storefront once the seller is approved.
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/StorefrontSettings'
+ *               - type: object
+ *                 properties:
+ *                   businessDescription:
+ *                     type: string
+ *                   website:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Storefront settings updated successfully
+ *       400:
+ *         description: Invalid storefront details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not a seller
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+settingsRouter.get(
+    '/storefront',
+    authenticate,
+    authorizeRoles('seller') as RequestHandler,
+    asyncAuthHandler(getMyStorefront)
+);
+settingsRouter.patch(
+    '/storefront',
+    authenticate,
+    authorizeRoles('seller') as RequestHandler,
+    asyncAuthHandler(updateMyStorefront)
+);
+
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/v1/settings/site:
+ *   patch:
+ *     summary: Update site settings
+ *     description: Only the sections and fields sent are changed; link lists are replaced as a whole.
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SiteSettings'
+ *     responses:
+ *       200:
+ *         description: Site settings updated successfully
+ *       400:
+ *         description: Invalid settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+settingsRouter.patch(
+    '/site',
+    authenticate,
+    authorizeRoles('admin') as RequestHandler,
+    asyncAuthHandler(updateSiteSettings)
+);
+
+export default settingsRouter;
@@ -0,0 +1,100 @@
+import mongoose, { Document } from 'mongoose';
+
+export interface SettingsLink {
+    title: string;
+    url: string;
+}
+
+export interface SocialLink {
+    // e.g. facebook, instagram, x, linkedin, youtube, tiktok
+    platform: string;
+    url: string;
+}
+
+export interface SiteBranding {
+    siteName: string;
+    tagline?: string;
+    description?: string;
+    logoUrl?: string;
+    faviconUrl?: string;
+    primaryColor?: string;
+}
+
+export interface SiteContact {
+    email?: string;
+    phone?: string;
+    address?: string;
+}
+
+export interface SiteFooterLinks {
+    resources: SettingsLink[];
+    quickLinks: SettingsLink[];
+}
+
+export interface SiteSettings extends Document {
+    // There is a single settings document, stored under this key
+    key: string;
+    branding: SiteBranding;
+    contact: SiteContact;
+    footerLinks: SiteFooterLinks;
+    socialLinks: SocialLink[];
+    // ISO 4217 currency code
+    defaultCurrency: string;
+    // ISO 639-1 language codes; the first one is the default
+    supportedLanguages: string[];
+    updatedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Public storefront details a seller manages themselves (stored on `sellerInfo.storefront`)
+export interface StorefrontSettings {
+    tagline?: string;
+    logoUrl?: string;
+    coverImageUrl?: string;
+    publicEmail?: string;
+    publicPhone?: string;
+    socialLinks: SocialLink[];
+    // Show the street address, not only the city and country
+    showAddress: boolean;
+}
+
+export interface StorefrontTour {
+    _id: mongoose.Types.ObjectId;
+    title: string;
+    code: string;
+    coverImage?: string;
+    price?: number;
+    averageRating?: number;
+    reviewCount?: number;
+    location?: {
+        city?: string;
+        country?: string;
+    };
+}
+
+// Public profile of an approved seller. Never includes bank, tax or registration details.
+export interface SellerStorefront {
+    sellerId: string;
+    companyName: string;
+    description?: string;
+    sellerType?: string;
+    website?: string;
+    avatar?: string;
+    storefront: StorefrontSettings;
+    location: {
+        address?: string;
+        city?: string;
+        state?: string;
+        country?: string;
+    };
+    destinations: string[];
+    categories: string[];
+    stats: {
+        tourCount: number;
+        averageRating: number;
+        reviewCount: number;
+    };
+    tours: StorefrontTour[];
+    memberSince: Date;
+}
@@ -0,0 +1,101 @@
+import mongoose, { Schema } from 'mongoose';
+import { SiteSettings } from './settingsTypes';
+import { config } from '../../config/config';
+
+export const SITE_SETTINGS_KEY = 'site';
+
+const linkSchema = new Schema(
+    {
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        url: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+    },
+    { _id: false }
+);
+
+const socialLinkSchema = new Schema(
+    {
+        platform: {
+            type: String,
+            required: true,
+            trim: true,
+            lowercase: true,
+        },
+        url: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+    },
+    { _id: false }
+);
+
+const siteSettingsSchema = new Schema<SiteSettings>(
+    {
+        key: {
+            type: String,
+            required: true,
+            unique: true,
+            default: SITE_SETTINGS_KEY,
+        },
+        branding: {
+            siteName: {
+                type: String,
+                required: true,
+                trim: true,
+                default: 'TourBNT',
+            },
+            tagline: { type: String, trim: true },
+            description: { type: String, trim: true },
+            logoUrl: { type: String, trim: true },
+            faviconUrl: { type: String, trim: true },
+            primaryColor: { type: String, trim: true },
+        },
+        contact: {
+            email: { type: String, trim: true, lowercase: true },
+            phone: { type: String, trim: true },
+            address: { type: String, trim: true },
+        },
+        footerLinks: {
+            resources: {
+                type: [linkSchema],
+                default: [],
+            },
+            quickLinks: {
+                type: [linkSchema],
+                default: [],
+            },
+        },
+        socialLinks: {
+            type: [socialLinkSchema],
+            default: [],
+        },
+        defaultCurrency: {
+            type: String,
+            required: true,
+            uppercase: true,
+            match: /^[A-Z]{3}$/,
+            default: () => config.payments.defaultCurrency,
+        },
+        supportedLanguages: {
+            type: [String],
+            default: ['en'],
+        },
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    { timestamps: true }
+);
+
+const SiteSettingsModel = mongoose.model<SiteSettings>('SiteSettings', siteSettingsSchema);
+
+export default SiteSettingsModel;
@@ -3,7 +3,13 @@ import { TourService } from '../services/tourService';
 import { extractTourFields } from '../utils/dataProcessors';
 import { sendSuccess, sendError, sendPaginatedResponse, HTTP_STATUS } from '../../../utils/apiResponse';
 import { asyncAuthHandler } from '../../../utils/routeWrapper';
-import { RESPONSE_MESSAGES } from '../utils/constants';
+import {
+  DEFAULT_NEARBY_RADIUS_KM,
+  DURATION_BUCKETS,
+  MAX_MAP_MARKERS,
+  RESPONSE_MESSAGES
+} from '../utils/constants';
+import { TourSearchParams } from '../tourTypes';
 import { generateUniqueCode } from '../utils/codeGenerator';
 import TourModel from '../tourModel';
 import { hybridPagination, PaginationParams } from '../../../utils/paginationUtils';
@@ -208,20 +214,41 @@ export const deleteTour = asyncAuthHandler(async (req: Request, res: Response) =
 });
 
 /**
- * Search tours
+ * Turn a duration filter ("4-7" bucket key or an exact number of days) into a day range
+ */
+const parseDuration = (duration?: string) => {
+  if (!duration) return {};
+
+  const bucket = DURATION_BUCKETS.find(item => item.key === duration);
+  if (bucket) {
+    return { minDays: bucket.min, maxDays: 'max' in bucket ? bucket.max : undefined };
+  }
+
+  const days = parseInt(duration);
+  return { minDays: days, maxDays: days };
+};
+
+/**
+ * Faceted tour search
  */
 export const searchTours = asyncAuthHandler(async (req: Request, res: Response) => {
-  const { keyword, destination, minPrice, maxPrice, rating, category } = req.query;
+  const { keyword, q, destination, minPrice, maxPrice, rating, category, type, duration, startDate, endDate } = req.query;
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 10;
 
-  const searchParams = {
-    keyword: keyword as string,
+  // The home search form calls the category "type"
+  const categories = ((category || type) as string | undefined)?.split(',').map(value => value.trim()).filter(Boolean);
+
+  const searchParams: TourSearchParams = {
+    keyword: (keyword || q) as string,
     destination: destination as string,
+    categories,
     minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
     maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
     rating: rating ? parseFloat(rating as string) : undefined,
-    category: category as string
+    ...parseDuration(duration as string),
+    startDate: startDate ? new Date(startDate as string) : undefined,
+    endDate: endDate ? new Date(endDate as string) : undefined
   };
 
   const result = await TourService.searchTours(searchParams, { page, limit });
@@ -230,7 +257,60 @@ export const searchTours = asyncAuthHandler(async (req: Request, res: Response)
     limit: result.limit,
     totalItems: result.totalItems,
     totalPages: result.totalPages
-  }, 'Tours retrieved successfully');
+  }, 'Tours retrieved successfully', { facets: result.facets });
+});
+
+/**
+ * Search-as-you-type suggestions
+ */
+export const suggestTours = asyncAuthHandler(async (req: Request, res: Response) => {
+  const keyword = ((req.query.q || req.query.keyword || '') as string).trim();
+  const limit = Math.min(parseInt(req.query.limit as string) || 8, 20);
+
+  // Too short to suggest anything useful
+  if (keyword.length < 2) {
+    return sendSuccess(res, [], RESPONSE_MESSAGES.TOURS_RETRIEVED);
+  }
+
+  const tours = await TourService.suggestTours(keyword, { category: req.query.category as string, limit });
+  sendSuccess(res, tours, RESPONSE_MESSAGES.TOURS_RETRIEVED);
+});
+
+/**
+ * Published tours near a point ("tours near me")
+ */
+export const getToursNearby = asyncAuthHandler(async (req: Request, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+
+  const result = await TourService.getToursNearby({
+    lat: Number(req.query.lat),
+    lng: Number(req.query.lng),
+    radiusKm: req.query.radiusKm ? Number(req.query.radiusKm) : DEFAULT_NEARBY_RADIUS_KM
+  }, { page, limit });
+
+  return sendPaginatedResponse(res, result.items, {
+    page: result.page,
+    limit: result.limit,
+    totalItems: result.totalItems,
+    totalPages: result.totalPages
+  }, RESPONSE_MESSAGES.TOURS_RETRIEVED);
+});
+
+/**
+ * Published tours inside a map viewport
+ */
+export const getToursInBounds = asyncAuthHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || MAX_MAP_MARKERS, MAX_MAP_MARKERS);
+
+  const tours = await TourService.getToursInBounds({
+    south: Number(req.query.south),
+    west: Number(req.query.west),
+    north: Number(req.query.north),
+    east: Number(req.query.east)
+  }, limit);
+
+  sendSuccess(res, tours, RESPONSE_MESSAGES.TOURS_RETRIEVED);
 });
 
 /**
@@ -425,3 +505,38 @@ export const checkTourAvailability = asyncAuthHandler(async (req: Request, res:
 
   return sendSuccess(res, availability, 'Tour availability checked successfully');
 });
+
+/**
+ * Quote the price of a booking with a line-item breakdown
+ * Uses the same pricing engine bookings are priced with.
+ */
+export const getTourQuote = asyncAuthHandler(async (req: Request, res: Response) => {
+  const { tourId } = req.params;
+  const { participants, pricingOptionId, addOns, currency, promoCode } = req.body;
+
+  if (!participants) {
+    return sendError(res, 'Participants are required', HTTP_STATUS.BAD_REQUEST);
+  }
+  if (addOns !== undefined && !Array.isArray(addOns)) {
+    return sendError(res, 'addOns must be an array', HTTP_STATUS.BAD_REQUEST);
+  }
+
+  // Import booking services dynamically to avoid circular dependencies
+  const { PricingService, TOUR_PRICING_FIELDS } = await import('../../bookings/services/pricingService');
+  const { PromoCodeService } = await import('../../bookings/services/promoCodeService');
+
+  const tour = await TourModel.findById(tourId).select(TOUR_PRICING_FIELDS).lean();
+  if (!tour) {
+    return sendError(res, RESPONSE_MESSAGES.TOUR_NOT_FOUND, HTTP_STATUS.NOT_FOUND);
+  }
+
+  let quote = await PricingService.quote(tour, { participants, pricingOptionId, addOns, currency });
+
+  // Promo codes are only checked here; they are redeemed when the booking is made
+  if (promoCode) {
+    const promo = await PromoCodeService.validatePromoCode(promoCode, { tourId, amount: quote.pricing.subtotal });
+    quote = PricingService.applyPromoDiscount(quote, promo.code, promo.discountAmount || 0);
+  }
+
+  return sendSuccess(res, quote, 'Price quoted successfully');
+});
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { HTTP_STATUS, sendValidationError } from '../../../utils/apiResponse';
 import createHttpError from 'http-errors';
+import { DURATION_BUCKETS, MAX_NEARBY_RADIUS_KM } from '../utils/constants';
+import { isValidBounds } from '../../../utils/geo';
 
 /**
  * Validation middleware for tour operations
@@ -91,7 +93,7 @@ export const validatePagination = (req: Request, res: Response, next: NextFuncti
  * Validate search parameters
  */
 export const validateSearchParams = (req: Request, res: Response, next: NextFunction) => {
-  const { minPrice, maxPrice, rating } = req.query;
+  const { minPrice, maxPrice, rating, duration, startDate, endDate } = req.query;
 
   const errors: Array<{ field: string; message: string }> = [];
 
@@ -111,6 +113,83 @@ export const validateSearchParams = (req: Request, res: Response, next: NextFunc
     errors.push({ field: 'rating', message: 'Rating must be between 0 and 5' });
   }
 
+  if (duration && !DURATION_BUCKETS.some(bucket => bucket.key === duration) && !/^\d+$/.test(duration as string)) {
+    errors.push({ field: 'duration', message: `Duration must be a number of days or one of ${DURATION_BUCKETS.map(bucket => bucket.key).join(', ')}` });
+  }
+
+  if (startDate && isNaN(new Date(startDate as string).getTime())) {
+    errors.push({ field: 'startDate', message: 'Start date must be a valid date' });
+  }
+
+  if (endDate && isNaN(new Date(endDate as string).getTime())) {
+    errors.push({ field: 'endDate', message: 'End date must be a valid date' });
+  }
+
+  if (startDate && endDate && new Date(endDate as string) < new Date(startDate as string)) {
+    errors.push({ field: 'dateRange', message: 'End date cannot be before start date' });
+  }
+
+  if (errors.length > 0) {
+    const error = createHttpError(HTTP_STATUS.BAD_REQUEST, 'Validation failed');
+    (error as any).details = errors;
+    return next(error);
+  }
+
+  next();
+};
+
+/**
+ * Validate the point and radius for a nearby search
+ */
+export const validateNearbyParams = (req: Request, res: Response, next: NextFunction) => {
+  const { lat, lng, radiusKm } = req.query;
+
+  const errors: Array<{ field: string; message: string }> = [];
+
+  if (!lat || isNaN(Number(lat)) || Math.abs(Number(lat)) > 90) {
+    errors.push({ field: 'lat', message: 'Latitude must be between -90 and 90' });
+  }
+
+  if (!lng || isNaN(Number(lng)) || Math.abs(Number(lng)) > 180) {
+    errors.push({ field: 'lng', message: 'Longitude must be between -180 and 180' });
+  }
+
+  if (radiusKm && (isNaN(Number(radiusKm)) || Number(radiusKm) <= 0 || Number(radiusKm) > MAX_NEARBY_RADIUS_KM)) {
+    errors.push({ field: 'radiusKm', message: `Radius must be between 0 and ${MAX_NEARBY_RADIUS_KM} km` });
+  }
+
+  if (errors.length > 0) {
+    const error = createHttpError(HTTP_STATUS.BAD_REQUEST, 'Validation failed');
+    (error as any).details = errors;
+    return next(error);
+  }
+
+  next();
+};
+
+/**
+ * Validate a map bounding box
+ */
+export const validateBoundsParams = (req: Request, res: Response, next: NextFunction) => {
+  const { south, west, north, east } = req.query;
+
+  const errors: Array<{ field: string; message: string }> = [];
+
+  Object.entries({ south, west, north, east }).forEach(([field, value]) => {
+    if (!value || isNaN(Number(value))) {
+      errors.push({ field, message: `${field} must be a number` });
+    }
+  });
+
+  if (errors.length === 0 && !isValidBounds({
+    south: Number(south),
+    west: Number(west),
+    north: Number(north),
+    east: Number(east)
+  })) {
+    errors.push({ field: 'bounds', message: 'Bounds must be valid coordinates with south below north' });
+  }
+
   if (errors.length > 0) {
     const error = createHttpError(HTTP_STATUS.BAD_REQUEST, 'Validation failed');
     (error as any).details = errors;
@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+
+// Subschema for an optional extra travelers can add to a booking, e.g. airport pickup
+const addOnSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  category: {
+    type: String,
+    enum: ['transportation', 'accommodation', 'activity', 'meal', 'equipment', 'insurance', 'guide', 'other'],
+    default: 'other'
+  },
+  customCategory: {
+    type: String,
+    trim: true
+  },
+  // Price per unit, in the tour's currency
+  price: {
+    type: Number,
+    required: true,
+    min: [0, 'Price must be a positive number']
+  },
+  isDiscounted: {
+    type: Boolean,
+    default: false
+  },
+  discountPrice: {
+    type: Number,
+    min: [0, 'Discount price must be a positive number'],
+    validate: {
+      validator: function(this: any, value: number): boolean {
+        return value === undefined || value === null || value <= this.price;
+      },
+      message: 'Discount price cannot be higher than the price'
+    }
+  },
+  // Required add-ons are always included, once per booking at least
+  isRequired: {
+    type: Boolean,
+    default: false
+  },
+  maxQuantity: {
+    type: Number,
+    default: 1,
+    min: [1, 'Maximum quantity must be at least 1']
+  },
+  image: {
+    type: String,
+    trim: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, { timestamps: true });
+
+export default addOnSchema;
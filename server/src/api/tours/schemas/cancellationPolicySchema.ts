@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+
+// One refund window, e.g. "30+ days before departure: 100% refund"
+const cancellationTierSchema = new mongoose.Schema({
+  daysBeforeDeparture: {
+    type: Number,
+    required: true,
+    min: [0, 'Days before departure cannot be negative']
+  },
+  refundPercentage: {
+    type: Number,
+    required: true,
+    min: [0, 'Refund percentage cannot be negative'],
+    max: [100, 'Refund percentage cannot exceed 100']
+  }
+}, { _id: false });
+
+// Subschema for a tour's cancellation and refund policy
+const cancellationPolicySchema = new mongoose.Schema({
+  tiers: {
+    type: [cancellationTierSchema],
+    default: []
+  },
+  description: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+// Keep tiers ordered from the earliest window to the latest
+cancellationPolicySchema.pre('validate', function(next) {
+  const tiers = this.get('tiers') as Array<{ daysBeforeDeparture: number }>;
+  const days = tiers.map(tier => tier.daysBeforeDeparture);
+
+  if (new Set(days).size !== days.length) {
+    return next(new Error('Cancellation policy tiers must have distinct days before departure'));
+  }
+
+  this.set('tiers', [...tiers].sort((a, b) => b.daysBeforeDeparture - a.daysBeforeDeparture));
+  next();
+});
+
+export default cancellationPolicySchema;
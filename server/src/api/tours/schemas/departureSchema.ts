@@ -41,6 +41,11 @@ const departureSchema = new mongoose.Schema({
       message: 'Recurrence end date must be after the start date and is required when isRecurring is true'
     }
   },
+  // Seats available on each occurrence (falls back to the tour maxSize)
+  capacity: {
+    type: Number,
+    min: [1, 'Capacity must be at least 1']
+  },
   selectedPricingOptions: {
     type: [mongoose.Schema.Types.Mixed],  // Accept both strings and objects
     default: []
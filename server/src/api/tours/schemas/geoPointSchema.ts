@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+
+// GeoJSON point - coordinates are [longitude, latitude]
+const geoPointSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['Point'],
+    required: true
+  },
+  coordinates: {
+    type: [Number],
+    required: true,
+    validate: {
+      validator: function(value: number[]): boolean {
+        return value.length === 2
+          && value[0] >= -180 && value[0] <= 180
+          && value[1] >= -90 && value[1] <= 90;
+      },
+      message: 'Coordinates must be [longitude, latitude]'
+    }
+  }
+}, { _id: false });
+
+export default geoPointSchema;
@@ -1,13 +1,16 @@
 // Export all schemas for easy importing
+export { default as addOnSchema } from './addOnSchema';
+export { default as cancellationPolicySchema } from './cancellationPolicySchema';
 export { default as dateRangeSchema } from './dateRangeSchema';
 export { default as departureSchema } from './departureSchema';
 export { default as discountSchema } from './discountSchema';
 export { default as faqSchema } from './faqSchema';
 export { default as factSchema } from './factSchema';
 export { default as gallerySchema } from './gallerySchema';
+export { default as geoPointSchema } from './geoPointSchema';
 export { default as itinerarySchema } from './itinerarySchema';
 export { default as locationSchema } from './locationSchema';
+export { default as paxTierSchema } from './paxTierSchema';
 export { default as pricingGroupSchema } from './pricingGroupSchema';
 export { default as pricingOptionSchema } from './pricingOptionSchema';
-export { default as reviewSchema } from './reviewSchema';
 export { default as tourDatesSchema } from './tourDatesSchema';
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import geoPointSchema from './geoPointSchema';
 
 const locationSchema = new mongoose.Schema({
   map: {
@@ -44,6 +45,11 @@ const locationSchema = new mongoose.Schema({
       },
       message: 'Longitude must be between -180 and 180'
     }
+  },
+  // Kept in sync with lat/lng for geospatial queries (2dsphere index on the tour)
+  point: {
+    type: geoPointSchema,
+    default: undefined
   }
 }, { 
   _id: false,
@@ -0,0 +1,32 @@
+import mongoose from 'mongoose';
+
+// Subschema for a party-size price tier, e.g. "2-3 travelers: $950 each"
+const paxTierSchema = new mongoose.Schema({
+  minPax: {
+    type: Number,
+    required: true,
+    min: [1, 'Minimum travelers must be at least 1']
+  },
+  // Open-ended when not set, e.g. "4+ travelers"
+  maxPax: {
+    type: Number,
+    validate: {
+      validator: function(this: any, value: number): boolean {
+        return value === undefined || value === null || value >= this.minPax;
+      },
+      message: 'Maximum travelers must be greater than or equal to minimum travelers'
+    }
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: [0, 'Price must be a positive number']
+  },
+  // Charged per traveler, or once for the whole party (private group)
+  pricePerPerson: {
+    type: Boolean,
+    default: true
+  }
+}, { _id: false });
+
+export default paxTierSchema;
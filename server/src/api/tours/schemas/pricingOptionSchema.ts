@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import discountSchema from './discountSchema';
 import paxSchema from './paxSchema';
+import { getDiscountAmount, isDiscountActive } from '../utils/pricing';
 
 // Subschema for Pricing Option
 const pricingOptionSchema = new mongoose.Schema({
@@ -33,6 +34,13 @@ const pricingOptionSchema = new mongoose.Schema({
     required: true,
     min: [0, 'Price must be a positive number']
   },
+  // Falls back to the tour's currency when not set
+  currency: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code']
+  },
   discountEnabled: {
     type: Boolean,
     default: false
@@ -73,48 +81,12 @@ const pricingOptionSchema = new mongoose.Schema({
 
 // Add virtual for effective price (considering discounts)
 pricingOptionSchema.virtual('effectivePrice').get(function(this: any) {
-  if (!this.discountEnabled || !this.discount) {
-    return this.price;
-  }
-  
-  // Check if discount is currently active
-  const now = new Date();
-  const discountStart = this.discount.discountDateRange?.from;
-  const discountEnd = this.discount.discountDateRange?.to;
-  
-  if (!discountStart || !discountEnd || now < discountStart || now > discountEnd) {
-    return this.price;
-  }
-  
-  // Calculate discounted price
-  if (this.discount.percentageOrPrice) {
-    // Percentage-based discount
-    const percentage = this.discount.discountPercentage || 0;
-    let discountAmount = (this.price * percentage) / 100;
-    
-    // Apply maximum discount cap if specified
-    if (this.discount.maxDiscountAmount && discountAmount > this.discount.maxDiscountAmount) {
-      discountAmount = this.discount.maxDiscountAmount;
-    }
-    
-    return this.price - discountAmount;
-  } else {
-    // Fixed price discount
-    return Math.max(0, this.price - (this.discount.discountPrice || 0));
-  }
+  return this.price - getDiscountAmount(this.price, this.discountEnabled, this.discount);
 });
 
 // Add custom method to check if discount is active
 pricingOptionSchema.methods.hasActiveDiscount = function(this: any): boolean {
-  if (!this.discountEnabled || !this.discount) {
-    return false;
-  }
-  
-  const now = new Date();
-  const discountStart = this.discount.discountDateRange?.from;
-  const discountEnd = this.discount.discountDateRange?.to;
-  
-  return !!(discountStart && discountEnd && now >= discountStart && now <= discountEnd);
+  return isDiscountActive(this.discountEnabled, this.discount);
 };
 
 export default pricingOptionSchema;
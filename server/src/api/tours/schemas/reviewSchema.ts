@@ -1,5 +0,0 @@
-// Import the complete review schema from the review model
-import { reviewSchema } from '../../review/reviewModel';
-
-// Export the complete review schema that includes replies
-export default reviewSchema;
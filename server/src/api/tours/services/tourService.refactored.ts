@@ -109,7 +109,6 @@ export class TourService extends BaseService<Tour> {
         const tour = await TourModel
             .findById(tourId)
             .populate('author', 'name email roles')
-            .populate('reviews.user', 'name email roles')
             .populate({
                 path: 'category',
                 select: 'name description',
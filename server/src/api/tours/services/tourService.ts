@@ -1,11 +1,42 @@
 import mongoose from 'mongoose';
 import TourModel from '../tourModel';
-import { Tour, PricingOption, DateRange } from '../tourTypes';
+import {
+  Tour,
+  PricingOption,
+  DateRange,
+  TourSearchParams,
+  TourSearchFacets,
+  TourSearchFacetValue,
+  TourSearchFacetBucket
+} from '../tourTypes';
 import { PaginationParams, paginate } from '../../../utils/pagination';
 import { normalizeDoc } from '../../../utils/normalizeDoc';
 import createHttpError from 'http-errors';
 import { BaseService } from '../../../services/BaseService';
 import FactsModel from '../../user/facts/factsModel';
+import GlobalDestination from '../../global/destination/globalDestinationModel';
+import GlobalCategory from '../../global/category/globalCategoryModel';
+import { DURATION_BUCKETS, MAX_FACET_VALUES, PRICE_BUCKETS } from '../utils/constants';
+import { DAY_MS, departsBetween } from '../utils/departureDates';
+import { FUZZY_CANDIDATE_LIMIT, escapeRegex, fuzzyScore, relevanceStage, tokenize } from '../utils/searchRanking';
+import { GeoBounds, boundsFilter } from '../../../utils/geo';
+import { Review } from '../../review/reviewModel';
+
+// Open-ended date searches look this far ahead
+const DEFAULT_SEARCH_WINDOW_DAYS = 365;
+
+// Fields a map marker needs
+const MAP_MARKER_FIELDS = {
+  title: 1,
+  code: 1,
+  coverImage: 1,
+  price: 1,
+  averageRating: 1,
+  'location.city': 1,
+  'location.country': 1,
+  'location.lat': 1,
+  'location.lng': 1
+};
 
 /**
  * Tour Service Layer
@@ -51,8 +82,8 @@ export class TourService extends BaseService<Tour> {
     }
 
     // Category filter
-    if (searchParams.category) {
-      query['category.categoryName'] = { $regex: searchParams.category, $options: 'i' };
+    if (searchParams.category && mongoose.Types.ObjectId.isValid(searchParams.category)) {
+      query.category = searchParams.category;
     }
 
     return query;
@@ -123,7 +154,6 @@ export class TourService extends BaseService<Tour> {
     const tour = await TourModel
       .findById(tourId)
       .populate('author', 'name email roles')
-      .populate('reviews.user', 'name email roles')
       .populate({
         path: 'category',
         select: 'name description',
@@ -250,35 +280,112 @@ export class TourService extends BaseService<Tour> {
       throw createHttpError(404, 'Tour not found or unauthorized');
     }
 
+    // Reviews belong to the tour
+    await Review.deleteMany({ tour: deletedTour._id });
+
     // Normalize the result
     return normalizeDoc(deletedTour);
   }
 
   /**
-   * Search tours with multiple criteria
+   * Resolve destination / category filters to ids
+   * The home search form sends names, API clients send ids.
    */
-  static async searchTours(searchParams: {
-    keyword?: string;
-    destination?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    rating?: number;
-    category?: string;
-  }, paginationParams: PaginationParams) {
-    const query: any = { tourStatus: 'Published' };
+  private static async resolveReferenceIds(model: mongoose.Model<any>, values: string[]) {
+    const ids = values.filter(value => mongoose.Types.ObjectId.isValid(value));
+    const names = values.filter(value => !mongoose.Types.ObjectId.isValid(value));
+
+    if (names.length > 0) {
+      const matches = await model.find({
+        $or: names.map(name => ({ name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' } }))
+      }).select('_id').lean();
+      ids.push(...matches.map((match: any) => match._id.toString()));
+    }
 
-    // Keyword search across multiple fields
-    if (searchParams.keyword) {
-      query.$or = [
-        { title: { $regex: searchParams.keyword, $options: 'i' } },
-        { description: { $regex: searchParams.keyword, $options: 'i' } },
-        { outline: { $regex: searchParams.keyword, $options: 'i' } }
-      ];
+    return ids.map(id => new mongoose.Types.ObjectId(id));
+  }
+
+  /**
+   * Count results per bucket, in bucket order (empty buckets included)
+   */
+  private static bucketStage(field: string, buckets: ReadonlyArray<{ key: string; min: number }>) {
+    return {
+      $group: {
+        _id: {
+          $switch: {
+            branches: buckets.map((bucket, index) => {
+              const next = buckets[index + 1];
+              return {
+                case: {
+                  $and: [
+                    { $gte: [field, bucket.min] },
+                    ...(next ? [{ $lt: [field, next.min] }] : [])
+                  ]
+                },
+                then: bucket.key
+              };
+            }),
+            default: null
+          }
+        },
+        count: { $sum: 1 }
+      }
+    };
+  }
+
+  /**
+   * Match tours against a keyword and return the stage that scores them
+   * Uses the weighted text index; when it finds nothing (partial words, typos)
+   * tour titles are matched fuzzily instead. Narrows `query` in place.
+   */
+  private static async matchKeyword(keyword: string, query: any) {
+    const textQuery = { ...query, $text: { $search: keyword } };
+    if (await TourModel.exists(textQuery)) {
+      query.$text = textQuery.$text;
+      return { $addFields: { textScore: { $meta: 'textScore' } } };
     }
 
+    // Only titles with a word starting like one of the query words are scored
+    const words = tokenize(keyword);
+    const candidates = words.length > 0
+      ? await TourModel.find({
+        ...query,
+        $or: words.map(word => ({ title: { $regex: `(^|\\W)${escapeRegex(word.slice(0, 2))}`, $options: 'i' } }))
+      }).select('title').limit(FUZZY_CANDIDATE_LIMIT).lean()
+      : [];
+
+    const matches = candidates
+      .map(candidate => ({ id: candidate._id, score: fuzzyScore(words, candidate.title) }))
+      .filter(match => match.score > 0);
+
+    query._id = { $in: matches.map(match => match.id) };
+    return {
+      $addFields: {
+        textScore: {
+          $arrayElemAt: [matches.map(match => match.score), { $indexOfArray: [matches.map(match => match.id), '$_id'] }]
+        }
+      }
+    };
+  }
+
+  /**
+   * Faceted tour search
+   * Returns a page of results plus counts per destination, category, price range
+   * and duration for everything that matched the filters.
+   */
+  static async searchTours(searchParams: TourSearchParams, paginationParams: { page: number; limit: number }) {
+    const query: any = { tourStatus: 'Published' };
+
     // Filter by destination
     if (searchParams.destination) {
-      query.destination = searchParams.destination;
+      const destinationIds = await TourService.resolveReferenceIds(GlobalDestination, [searchParams.destination]);
+      query.destination = { $in: destinationIds };
+    }
+
+    // Filter by category (tours match any of the given categories)
+    if (searchParams.categories?.length) {
+      const categoryIds = await TourService.resolveReferenceIds(GlobalCategory, searchParams.categories);
+      query.category = { $in: categoryIds };
     }
 
     // Price range filtering
@@ -293,21 +400,188 @@ export class TourService extends BaseService<Tour> {
       query.averageRating = { $gte: searchParams.rating };
     }
 
-    // Category filter
-    if (searchParams.category) {
-      query['category.categoryName'] = { $regex: searchParams.category, $options: 'i' };
+    // Duration filter
+    if (searchParams.minDays !== undefined || searchParams.maxDays !== undefined) {
+      query['tourDates.days'] = {};
+      if (searchParams.minDays !== undefined) query['tourDates.days'].$gte = searchParams.minDays;
+      if (searchParams.maxDays !== undefined) query['tourDates.days'].$lte = searchParams.maxDays;
     }
 
-    const tourQuery = TourModel.find(query)
-      .populate("author", "name roles")
-      .populate({
-        path: "category",
-        select: "name description",
-        options: { strictPopulate: false }
-      })
-      .sort({ createdAt: -1 });
+    // Keyword search, ranked by relevance (runs after the other filters so fuzzy matching only scores eligible tours)
+    const scoreStage = searchParams.keyword
+      ? await TourService.matchKeyword(searchParams.keyword, query)
+      : undefined;
+
+    // Departure window - recurring departures have to be expanded, so this runs in memory
+    if (searchParams.startDate || searchParams.endDate) {
+      const from = searchParams.startDate || new Date();
+      const to = searchParams.endDate || new Date(from.getTime() + DEFAULT_SEARCH_WINDOW_DAYS * DAY_MS);
+
+      const candidates = await TourModel.find(query).select('tourDates').lean();
+      query._id = {
+        $in: candidates
+          .filter(candidate => departsBetween(candidate.tourDates, from, to))
+          .map(candidate => candidate._id)
+      };
+    }
+
+    const { page, limit } = paginationParams;
+
+    const [result] = await TourModel.aggregate([
+      { $match: query },
+      ...(scoreStage ? [scoreStage, relevanceStage()] : []),
+      {
+        $facet: {
+          items: [
+            { $sort: scoreStage ? { relevance: -1, createdAt: -1 } : { createdAt: -1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit }
+          ],
+          total: [{ $count: 'count' }],
+          destinations: [
+            { $match: { destination: { $ne: null } } },
+            { $group: { _id: '$destination', count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            { $limit: MAX_FACET_VALUES }
+          ],
+          categories: [
+            { $unwind: '$category' },
+            { $group: { _id: '$category', count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            { $limit: MAX_FACET_VALUES }
+          ],
+          priceRanges: [TourService.bucketStage('$price', PRICE_BUCKETS)],
+          durations: [TourService.bucketStage('$tourDates.days', DURATION_BUCKETS)]
+        }
+      }
+    ]);
+
+    const [items, destinations, categories] = await Promise.all([
+      TourModel.populate(result.items, [
+        { path: 'author', select: 'name roles' },
+        { path: 'category', select: 'name description', options: { strictPopulate: false } }
+      ]),
+      GlobalDestination.find({ _id: { $in: result.destinations.map((row: any) => row._id) } }).select('name').lean(),
+      GlobalCategory.find({ _id: { $in: result.categories.map((row: any) => row._id) } }).select('name').lean()
+    ]);
+
+    const withNames = (rows: any[], docs: any[]): TourSearchFacetValue[] => rows.map(row => ({
+      id: row._id.toString(),
+      name: docs.find(doc => doc._id.equals(row._id))?.name || '',
+      count: row.count
+    }));
+    const withCounts = (rows: any[], buckets: ReadonlyArray<{ key: string; min: number; max?: number }>): TourSearchFacetBucket[] =>
+      buckets.map(bucket => ({
+        key: bucket.key,
+        min: bucket.min,
+        max: bucket.max,
+        count: rows.find(row => row._id === bucket.key)?.count || 0
+      }));
+
+    const facets: TourSearchFacets = {
+      destinations: withNames(result.destinations, destinations),
+      categories: withNames(result.categories, categories),
+      priceRanges: withCounts(result.priceRanges, PRICE_BUCKETS),
+      durations: withCounts(result.durations, DURATION_BUCKETS)
+    };
+
+    const totalItems = result.total[0]?.count || 0;
+
+    return {
+      items: normalizeDoc(items),
+      page,
+      limit,
+      totalItems,
+      totalPages: Math.ceil(totalItems / limit),
+      facets
+    };
+  }
+
+  /**
+   * Autocomplete suggestions for the search bar
+   * Matches partial words and typos, ranked like the full search.
+   */
+  static async suggestTours(keyword: string, options: { category?: string; limit: number }) {
+    const query: any = { tourStatus: 'Published' };
+    if (options.category) {
+      if (!mongoose.Types.ObjectId.isValid(options.category)) {
+        throw createHttpError(400, 'Invalid category ID');
+      }
+      query.category = new mongoose.Types.ObjectId(options.category);
+    }
 
-    return paginate(tourQuery, paginationParams);
+    const scoreStage = await TourService.matchKeyword(keyword, query);
+    const tours = await TourModel.aggregate([
+      { $match: query },
+      scoreStage,
+      relevanceStage(),
+      { $sort: { relevance: -1, createdAt: -1 } },
+      { $limit: options.limit },
+      { $project: { title: 1, code: 1, coverImage: 1, price: 1, averageRating: 1, updatedAt: 1 } }
+    ]);
+
+    return normalizeDoc(tours);
+  }
+
+  /**
+   * Published tours within a radius of a point, nearest first
+   * Each tour gets a `distance` in kilometres.
+   */
+  static async getToursNearby(
+    point: { lat: number; lng: number; radiusKm: number },
+    paginationParams: { page: number; limit: number }
+  ) {
+    const { page, limit } = paginationParams;
+
+    const [result] = await TourModel.aggregate([
+      {
+        $geoNear: {
+          near: { type: 'Point', coordinates: [point.lng, point.lat] },
+          key: 'location.point',
+          distanceField: 'distance',
+          maxDistance: point.radiusKm * 1000,
+          spherical: true,
+          query: { tourStatus: 'Published' }
+        }
+      },
+      {
+        $facet: {
+          items: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            { $addFields: { distance: { $round: [{ $divide: ['$distance', 1000] }, 1] } } }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    const items = await TourModel.populate(result.items, [
+      { path: 'author', select: 'name roles' },
+      { path: 'category', select: 'name description', options: { strictPopulate: false } }
+    ]);
+    const totalItems = result.total[0]?.count || 0;
+
+    return {
+      items: normalizeDoc(items),
+      page,
+      limit,
+      totalItems,
+      totalPages: Math.ceil(totalItems / limit)
+    };
+  }
+
+  /**
+   * Published tours inside a map viewport, as lightweight markers
+   */
+  static async getToursInBounds(bounds: GeoBounds, limit: number) {
+    const tours = await TourModel.find({ tourStatus: 'Published', ...boundsFilter('location.point', bounds) })
+      .select(MAP_MARKER_FIELDS)
+      .sort({ averageRating: -1, views: -1 })
+      .limit(limit)
+      .lean();
+
+    return normalizeDoc(tours);
   }
 
   /**
@@ -1,8 +1,13 @@
 import mongoose from 'mongoose';
 import {Tour} from "./tourTypes";
 import paxSchema from "./schemas/paxSchema";
+import { toLocationPoint } from "./utils/dataProcessors";
+import { config } from "../../config/config";
+import { getDiscountAmount, isDiscountActive, paxTiersOverlap } from "./utils/pricing";
 // Import all schemas from the schemas directory
 import {
+  addOnSchema,
+  cancellationPolicySchema,
   dateRangeSchema,
   departureSchema,
   discountSchema,
@@ -11,9 +16,9 @@ import {
   gallerySchema,
   itinerarySchema,
   locationSchema,
+  paxTierSchema,
   pricingGroupSchema,
   pricingOptionSchema,
-  reviewSchema,
   tourDatesSchema as TourDatesSchema
 } from './schemas';
 
@@ -98,6 +103,7 @@ const tourSchema = new mongoose.Schema<Tour>(
       default: true,
       required: true,
     },
+    // Rating fields are kept up to date from the Review collection (updateTourRatings)
     averageRating: {
       type: Number,
       default: 0,
@@ -108,6 +114,14 @@ const tourSchema = new mongoose.Schema<Tour>(
       type: Number,
       default: 0
     },
+    // Average of each aspect rating across approved reviews that rated it
+    aspectRatings: {
+      guide: Number,
+      value: Number,
+      accommodation: Number,
+      transport: Number,
+      itinerary: Number
+    },
     reviewCount: {
       type: Number,
       default: 0
@@ -121,7 +135,10 @@ const tourSchema = new mongoose.Schema<Tour>(
       type: Number,
       default: 0
     },
-    reviews: [reviewSchema],
+    bookingCount: {
+      type: Number,
+      default: 0
+    },
     fixedDepartures: [{
       type: mongoose.Schema.Types.Mixed
     }],
@@ -129,6 +146,14 @@ const tourSchema = new mongoose.Schema<Tour>(
     price: {
       type: Number,
     },
+    // ISO 4217 code all of the tour's prices are in, unless a pricing option sets its own
+    currency: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code'],
+      default: () => config.payments.defaultCurrency,
+    },
     pricePerPerson: {
       type: Boolean,
       default: true,
@@ -188,6 +213,17 @@ const tourSchema = new mongoose.Schema<Tour>(
       },
     },
     
+    // Price tiers by party size, e.g. 1 pax $1200, 2-3 pax $950 each, 4+ pax $800 each
+    // When set they replace the base price for bookings without a pricing option
+    paxTiers: {
+      type: [paxTierSchema],
+      default: [],
+      validate: {
+        validator: (tiers: any[]) => !paxTiersOverlap(tiers),
+        message: 'Party size tiers must not overlap'
+      }
+    },
+    
     // Advanced pricing options
     pricingOptionsEnabled: {
       type: Boolean,
@@ -204,6 +240,17 @@ const tourSchema = new mongoose.Schema<Tour>(
       },
     },
   
+    // Cancellation and refund policy (falls back to the platform default when empty)
+    cancellationPolicy: {
+      type: cancellationPolicySchema,
+    },
+
+    // Optional extras travelers can add when booking
+    addOns: {
+      type: [addOnSchema],
+      default: []
+    },
+
     // Tour dates-related fields 
     fixedDeparture: {
       type: Boolean,
@@ -233,7 +280,8 @@ tourSchema.index({ tourStatus: 1, destination: 1 });
 tourSchema.index({ tourStatus: 1, category: 1 });
 tourSchema.index({ tourStatus: 1, isSpecialOffer: 1 });
 
-// Index removed - already defined in reviewSchema to avoid duplication
+// Geospatial index for "near me" and map-bounds searches
+tourSchema.index({ 'location.point': '2dsphere' });
 
 // Text index for full-text search
 tourSchema.index(
@@ -266,25 +314,7 @@ tourSchema.virtual('discountPercentage').get(function(this: any) {
 
 // Method to get the effective price considering discounts
 tourSchema.methods.getDiscountedPrice = function(this: any): number {
-  if (!this.hasActiveDiscount()) {
-    return this.price;
-  }
-  
-  // If using percentage discount
-  if (this.discount?.percentageOrPrice) {
-    const percentage = this.discount.discountPercentage || 0;
-    let discountAmount = (this.price * percentage) / 100;
-    
-    // Apply maximum discount cap if specified
-    if (this.discount.maxDiscountAmount && discountAmount > this.discount.maxDiscountAmount) {
-      discountAmount = this.discount.maxDiscountAmount;
-    }
-    
-    return this.price - discountAmount;
-  } else {
-    // Using fixed price discount
-    return Math.max(0, this.price - (this.discount?.discountPrice || 0));
-  }
+  return this.price - this.getDiscountAmount();
 };
 
 // Method to get discount percentage
@@ -298,55 +328,21 @@ tourSchema.methods.getDiscountPercentage = function(this: any): number {
     return this.discount.discountPercentage || 0;
   } else {
     // Calculate percentage based on fixed price discount
-    const discountAmount = this.discount?.discountPrice || 0;
+    const discountAmount = this.getDiscountAmount();
     return this.price > 0 ? Math.min(100, Math.round((discountAmount / this.price) * 100)) : 0;
   }
 };
 
 // Method to get discount amount
 tourSchema.methods.getDiscountAmount = function(this: any): number {
-  if (!this.hasActiveDiscount()) {
-    return 0;
-  }
-  
-  // If using percentage discount
-  if (this.discount?.percentageOrPrice) {
-    const percentage = this.discount.discountPercentage || 0;
-    let discountAmount = (this.price * percentage) / 100;
-    
-    // Apply maximum discount cap if specified
-    if (this.discount.maxDiscountAmount && discountAmount > this.discount.maxDiscountAmount) {
-      discountAmount = this.discount.maxDiscountAmount;
-    }
-    
-    return discountAmount;
-  } else {
-    // Using fixed price discount
-    return this.discount?.discountPrice || 0;
-  }
+  return getDiscountAmount(this.price, this.discountEnabled, this.discount);
 };
 
 // Check if discount is currently active
 tourSchema.methods.hasActiveDiscount = function(this: any): boolean {
-  if (!this.discountEnabled || !this.discount) {
-    return false;
-  }
-  
-  const now = new Date();
-  const discountStart = this.discount.discountDateRange?.from;
-  const discountEnd = this.discount.discountDateRange?.to;
-  
-  return !!(discountStart && discountEnd && now >= discountStart && now <= discountEnd);
+  return isDiscountActive(this.discountEnabled, this.discount);
 };
 
-// Define interface for the document in pre-save middleware
-interface TourDocument extends Document {
-  reviews?: Array<{ rating: number; status: string; [key: string]: any }>;
-  averageRating?: number;
-  approvedReviewCount?: number;
-  reviewCount?: number;
-}
-
 // Pre-validate middleware to validate minSize and maxSize relationship
 tourSchema.pre('validate', function(next) {
   // Set default values if undefined
@@ -367,27 +363,17 @@ tourSchema.pre('validate', function(next) {
   next();
 });
 
-// Pre-save middleware to ensure data consistency
-tourSchema.pre('save', function(next) {
-  // Additional pre-save operations if needed
+// Keep the GeoJSON point in sync with the location's lat/lng
+tourSchema.pre('validate', function(next) {
+  if (this.location) {
+    this.location.point = toLocationPoint(this.location.lat, this.location.lng);
+  }
   next();
 });
 
-// Pre-save middleware to calculate average rating
-tourSchema.pre('save', function(this: TourDocument, next) {
-  // Calculate average rating if reviews exist
-  if (this.reviews && this.reviews.length > 0) {
-    const approvedReviews = this.reviews.filter((review) => review.status === 'approved');
-    
-    if (approvedReviews.length > 0) {
-      const totalRating = approvedReviews.reduce((sum: number, review) => sum + review.rating, 0);
-      this.averageRating = totalRating / approvedReviews.length;
-      this.approvedReviewCount = approvedReviews.length;
-    }
-    
-    // Total review count includes all reviews regardless of status
-    this.reviewCount = this.reviews.length;
-  }
+// Pre-save middleware to ensure data consistency
+tourSchema.pre('save', function(next) {
+  // Additional pre-save operations if needed
   next();
 });
 
@@ -11,6 +11,9 @@ import {
   updateTour,
   deleteTour,
   searchTours,
+  suggestTours,
+  getToursNearby,
+  getToursInBounds,
   getLatestTours,
   getToursByRating,
   getDiscountedTours,
@@ -18,13 +21,16 @@ import {
   getUserToursTitle,
   getMyTours,
   incrementTourBookings,
-  checkTourAvailability
+  checkTourAvailability,
+  getTourQuote
 } from './controllers/tourController';
 import {
   validateObjectId,
   validateTourCreation,
   validatePagination,
-  validateSearchParams
+  validateSearchParams,
+  validateNearbyParams,
+  validateBoundsParams
 } from './middleware/validation';
 import { TourService } from './services/tourService';
 // Import review controller functions for nested routes
@@ -131,24 +137,47 @@ router.get('/',
  * /api/v1/tours/search:
  *   get:
  *     summary: Search tours
- *     description: Search tours with filters and pagination
+ *     description: Faceted tour search. Returns a page of tours plus facet counts (destination, category, price range, duration) for all matches.
  *     tags: [Tours]
  *     parameters:
  *       - in: query
- *         name: q
+ *         name: keyword
  *         schema:
  *           type: string
- *         description: Search query
+ *         description: Search query (also accepted as `q`). Results are ranked by text relevance blended with rating, views and bookings; partial words and small typos in titles still match.
  *       - in: query
  *         name: category
  *         schema:
  *           type: string
- *         description: Category ID
+ *         description: Category IDs or names, comma separated
  *       - in: query
  *         name: destination
  *         schema:
  *           type: string
- *         description: Destination ID
+ *         description: Destination ID or name
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Alias for category (the home search form sends category names)
+ *       - in: query
+ *         name: duration
+ *         schema:
+ *           type: string
+ *           example: 4-7
+ *         description: Duration bucket (1-3, 4-7, 8-14, 15+) or an exact number of days
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only tours with a departure starting on or after this date (recurring departures included)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only tours with a departure starting on or before this date
  *       - in: query
  *         name: minPrice
  *         schema:
@@ -175,10 +204,222 @@ router.get('/',
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/PaginatedResponse'
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PaginatedResponse'
+ *                 - type: object
+ *                   properties:
+ *                     facets:
+ *                       $ref: '#/components/schemas/TourSearchFacets'
+ *       400:
+ *         description: Invalid search parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.get('/search', validateSearchParams, validatePagination, searchTours);
 
+/**
+ * @swagger
+ * /api/v1/tours/suggest:
+ *   get:
+ *     summary: Tour search suggestions
+ *     description: Autocomplete for the search bar. Matches partial words and small typos in tour titles, ranked by relevance, rating, views and bookings.
+ *     tags: [Tours]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *         description: What the user has typed so far
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Category ID to limit suggestions to
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 8
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Suggestions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       title:
+ *                         type: string
+ *                       code:
+ *                         type: string
+ *                       coverImage:
+ *                         type: string
+ *                       price:
+ *                         type: number
+ *                       averageRating:
+ *                         type: number
+ *                       updatedAt:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Invalid category ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/suggest', suggestTours);
+
+/**
+ * @swagger
+ * /api/v1/tours/nearby:
+ *   get:
+ *     summary: Tours near a point
+ *     description: Published tours within a radius of a point, nearest first. Each tour includes its distance in kilometres.
+ *     tags: [Tours]
+ *     parameters:
+ *       - in: query
+ *         name: lat
+ *         required: true
+ *         schema:
+ *           type: number
+ *           minimum: -90
+ *           maximum: 90
+ *       - in: query
+ *         name: lng
+ *         required: true
+ *         schema:
+ *           type: number
+ *           minimum: -180
+ *           maximum: 180
+ *       - in: query
+ *         name: radiusKm
+ *         schema:
+ *           type: number
+ *           default: 50
+ *           maximum: 1000
+ *         description: Search radius in kilometres
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Nearby tours retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ *       400:
+ *         description: Invalid coordinates or radius
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/nearby', validateNearbyParams, validatePagination, getToursNearby);
+
+/**
+ * @swagger
+ * /api/v1/tours/within-bounds:
+ *   get:
+ *     summary: Tours inside a map viewport
+ *     description: Published tours located inside a bounding box, as map markers. Boxes crossing the antimeridian (west greater than east) are supported.
+ *     tags: [Tours]
+ *     parameters:
+ *       - in: query
+ *         name: south
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: west
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: north
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: east
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 200
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Tours retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       title:
+ *                         type: string
+ *                       code:
+ *                         type: string
+ *                       coverImage:
+ *                         type: string
+ *                       price:
+ *                         type: number
+ *                       averageRating:
+ *                         type: number
+ *                       location:
+ *                         type: object
+ *                         properties:
+ *                           city:
+ *                             type: string
+ *                           country:
+ *                             type: string
+ *                           lat:
+ *                             type: number
+ *                           lng:
+ *                             type: number
+ *       400:
+ *         description: Invalid bounding box
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/within-bounds', validateBoundsParams, getToursInBounds);
+
 /**
  * @swagger
  * /api/v1/tours/latest:
@@ -414,6 +655,78 @@ router.get('/:tourId',
  */
 router.get('/:tourId/availability', validateObjectId(), checkTourAvailability);
 
+/**
+ * @swagger
+ * /api/v1/tours/{tourId}/quote:
+ *   post:
+ *     summary: Quote a booking price
+ *     description: |
+ *       Price a party, its add-ons and an optional promo code with the same engine bookings
+ *       are priced with, returning a line-item breakdown by traveler category, discounts,
+ *       add-ons and tax.
+ *     tags: [Tours]
+ *     parameters:
+ *       - in: path
+ *         name: tourId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tour ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - participants
+ *             properties:
+ *               participants:
+ *                 $ref: '#/components/schemas/Participants'
+ *               pricingOptionId:
+ *                 type: string
+ *               addOns:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     addOnId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *               currency:
+ *                 type: string
+ *                 description: Currency to quote in; the tour's currency when omitted
+ *               promoCode:
+ *                 type: string
+ *                 description: Promo code to check; it is not redeemed
+ *     responses:
+ *       200:
+ *         description: Price quoted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/StandardResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/PriceQuote'
+ *       400:
+ *         description: Invalid party, pricing option, add-on or promo code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Tour not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:tourId/quote', validateObjectId(), getTourQuote);
+
 // Nested resource routes for tours
 
 /**
@@ -463,7 +776,7 @@ router.get('/:tourId/reviews', validateObjectId(), paginationMiddleware, getTour
  * /api/v1/tours/{tourId}/reviews:
  *   post:
  *     summary: Add review to tour
- *     description: Submit a new review for a tour (requires authentication)
+ *     description: Submit or update a review for a tour. Only travelers with a completed booking for the tour can review it; their reviews are marked as verified.
  *     tags: [Tours, Reviews]
  *     security:
  *       - bearerAuth: []
@@ -488,8 +801,16 @@ router.get('/:tourId/reviews', validateObjectId(), paginationMiddleware, getTour
  *                 type: number
  *                 minimum: 0.5
  *                 maximum: 5
+ *               aspectRatings:
+ *                 $ref: '#/components/schemas/ReviewAspectRatings'
  *               comment:
  *                 type: string
+ *               photos:
+ *                 type: array
+ *                 maxItems: 6
+ *                 description: IDs of images in the reviewer's gallery
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
  *         description: Review added successfully
@@ -497,12 +818,24 @@ router.get('/:tourId/reviews', validateObjectId(), paginationMiddleware, getTour
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Review'
+ *       400:
+ *         description: Invalid rating, aspect rating or photo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       401:
  *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: No completed booking for this tour
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.post('/:tourId/reviews', authenticate, validateObjectId(), addReview);
 
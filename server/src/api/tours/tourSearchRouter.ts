@@ -1,6 +1,7 @@
 import express from 'express';
 import { getLatestTours, searchTours } from './controllers/tourController';
 import { sendError } from '../../utils/apiResponse';
+import { validateSearchParams } from './middleware/validation';
 
 const tourSearchRouter = express.Router();
 
@@ -54,24 +55,47 @@ tourSearchRouter.get('/latest', (req, res, next) => {
  * /api/v1/tour-search:
  *   get:
  *     summary: Advanced tour search
- *     description: Search tours with advanced filters including category, destination, price range, and text search
+ *     description: Faceted tour search by category, destination, price, duration, departure dates and text, with facet counts for all matches
  *     tags: [Tour Search]
  *     parameters:
  *       - in: query
  *         name: q
  *         schema:
  *           type: string
- *         description: Search query for title and description
+ *         description: Search query, ranked by text relevance blended with rating, views and bookings (also accepted as `keyword`)
  *       - in: query
  *         name: category
  *         schema:
  *           type: string
- *         description: Category ID to filter by
+ *         description: Category IDs or names to filter by, comma separated
  *       - in: query
  *         name: destination
  *         schema:
  *           type: string
- *         description: Destination ID to filter by
+ *         description: Destination ID or name to filter by
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Alias for category (the home search form sends category names)
+ *       - in: query
+ *         name: duration
+ *         schema:
+ *           type: string
+ *           example: 4-7
+ *         description: Duration bucket (1-3, 4-7, 8-14, 15+) or an exact number of days
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only tours with a departure starting on or after this date (recurring departures included)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only tours with a departure starting on or before this date
  *       - in: query
  *         name: minPrice
  *         schema:
@@ -124,7 +148,7 @@ tourSearchRouter.get('/latest', (req, res, next) => {
  *               properties:
  *                 success:
  *                   type: boolean
- *                 data:
+ *                 items:
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Tour'
@@ -135,10 +159,14 @@ tourSearchRouter.get('/latest', (req, res, next) => {
  *                       type: number
  *                     limit:
  *                       type: number
- *                     total:
+ *                     totalItems:
  *                       type: number
  *                     totalPages:
  *                       type: number
+ *                 facets:
+ *                   $ref: '#/components/schemas/TourSearchFacets'
+ *       400:
+ *         description: Invalid search parameters
  *       500:
  *         description: Server error
  *         content:
@@ -153,7 +181,7 @@ tourSearchRouter.get('/latest', (req, res, next) => {
  *                 error:
  *                   type: string
  */
-tourSearchRouter.get('/', (req, res, next) => {
+tourSearchRouter.get('/', validateSearchParams, (req, res, next) => {
   try {
     console.log('Search query:', req.query);
     searchTours(req, res, next);
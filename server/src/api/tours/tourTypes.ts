@@ -1,5 +1,7 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { User } from "../user/userTypes";
+import { GeoPoint } from "../../utils/geo";
+import { AspectRatings } from "../review/reviewTypes";
 
 // Define pricing option interface
 export interface PricingOption {
@@ -7,6 +9,8 @@ export interface PricingOption {
   category: string; // "adult", "child", "senior", "student", "custom"
   customCategory?: string;
   price: number;
+  // Falls back to the tour's currency when not set
+  currency?: string;
   discount: {
     discountEnabled: boolean;
     discountPrice?: number;
@@ -88,6 +92,15 @@ export interface AddOn {
   updatedAt: Date;
 }
 
+// Price for a range of party sizes; maxPax is open-ended when not set
+export interface PaxTier {
+  minPax: number;
+  maxPax?: number;
+  price: number;
+  // Per traveler, or one flat price for the whole party
+  pricePerPerson: boolean;
+}
+
 // Define PromoCode interface
 export interface PromoCode {
   _id?: mongoose.Types.ObjectId;
@@ -153,11 +166,14 @@ export interface Tour extends Document {
   code: string;
   // Old pricing (keeping for backward compatibility)
   price: number;
+  // ISO 4217 code the tour's prices are in
+  currency: string;
   originalPrice?: number;
   // New advanced pricing structure
   basePrice?: number;
   pricePerPerson?: boolean;
   groupSize?: number;
+  paxTiers?: PaxTier[];
   saleEnabled?: boolean;
   salePrice?: number;
   // Price lock settings
@@ -178,6 +194,7 @@ export interface Tour extends Document {
     category: string;
     customCategory?: string;
     price: number;
+    currency?: string;
     discountEnabled: boolean;
     discountPrice?: number;
     discountDateRange?: {
@@ -224,7 +241,6 @@ export interface Tour extends Document {
     question: string;
     answer: string;
   }[],
-  reviews: Review[];
   gallery: {
     id: mongoose.Types.ObjectId;
     image: string;
@@ -238,6 +254,7 @@ export interface Tour extends Document {
     country: string;
     lat: number;
     lng: number;
+    point?: GeoPoint;
   },
   enquiry: boolean;
   discount?: Discount;
@@ -246,12 +263,14 @@ export interface Tour extends Document {
   views?: number;
   bookingCount?: number;
   averageRating?: number;
+  aspectRatings?: AspectRatings;
   reviewCount?: number;
   approvedReviewCount?: number;
   hasDiscount?: boolean;
   discountPercentage?: number;
   discountAmount?: number;
   discountedPrice?: number;
+  cancellationPolicy?: CancellationPolicy;
   addOns?: AddOn[];
   promoCodes?: PromoCode[];
   fixedDepartures?: FixedDeparture[];
@@ -303,26 +322,14 @@ export interface Tour extends Document {
   getDiscountedPrice?: () => number;
 }
 
-export interface ReviewReply {
-  _id?: mongoose.Types.ObjectId;
-  user: mongoose.Types.ObjectId;
-  comment: string;
-  createdAt: Date;
-  likes: number;
-  views: number;
+export interface CancellationTier {
+  daysBeforeDeparture: number;
+  refundPercentage: number;
 }
 
-export interface Review {
-  _id?: mongoose.Types.ObjectId;
-  user: mongoose.Types.ObjectId;
-  tour: mongoose.Types.ObjectId; // Add the tour reference to match MongoDB validation
-  rating: number;
-  comment: string;
-  status: 'pending' | 'approved' | 'rejected';
-  likes: number;
-  views: number;
-  replies: ReviewReply[];
-  createdAt: Date;
+export interface CancellationPolicy {
+  tiers: CancellationTier[];
+  description?: string;
 }
 
 export interface Discount {
@@ -355,4 +362,40 @@ export interface Destination extends Document {
   userId: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
+
+// Filters accepted by the faceted tour search
+export interface TourSearchParams {
+  keyword?: string;
+  // Destination / category ids, or names from the home search form
+  destination?: string;
+  categories?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  rating?: number;
+  minDays?: number;
+  maxDays?: number;
+  // Only tours with a departure starting inside this window
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface TourSearchFacetValue {
+  id: string;
+  name: string;
+  count: number;
+}
+
+export interface TourSearchFacetBucket {
+  key: string;
+  min: number;
+  max?: number;
+  count: number;
+}
+
+export interface TourSearchFacets {
+  destinations: TourSearchFacetValue[];
+  categories: TourSearchFacetValue[];
+  priceRanges: TourSearchFacetBucket[];
+  durations: TourSearchFacetBucket[];
+}
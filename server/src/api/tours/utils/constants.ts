@@ -24,3 +24,29 @@ export const RESPONSE_MESSAGES = {
   FAILED_TO_SEARCH: 'Failed to search tours'
 } as const;
 
+/**
+ * Facet buckets for the tour search - each bucket runs up to the next one
+ * and the last is open-ended
+ */
+export const PRICE_BUCKETS = [
+  { key: '0-499', min: 0, max: 499 },
+  { key: '500-999', min: 500, max: 999 },
+  { key: '1000-2499', min: 1000, max: 2499 },
+  { key: '2500-4999', min: 2500, max: 4999 },
+  { key: '5000+', min: 5000 }
+] as const;
+
+export const DURATION_BUCKETS = [
+  { key: '1-3', min: 1, max: 3 },
+  { key: '4-7', min: 4, max: 7 },
+  { key: '8-14', min: 8, max: 14 },
+  { key: '15+', min: 15 }
+] as const;
+
+// Destinations / categories listed in the search facets
+export const MAX_FACET_VALUES = 20;
+
+// Map and "near me" searches
+export const DEFAULT_NEARBY_RADIUS_KM = 50;
+export const MAX_NEARBY_RADIUS_KM = 1000;
+export const MAX_MAP_MARKERS = 200;
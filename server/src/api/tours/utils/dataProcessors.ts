@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import { PricingOption, DateRange, FactValue } from '../tourTypes';
+import { toGeoPoint } from '../../../utils/geo';
 
 /**
  * Data Processing Utilities
@@ -125,6 +126,7 @@ export const processPricingOptions = (pricingOptionsData: any): PricingOption[]
         category: option.category || 'adult',
         customCategory: option.customCategory,
         price: safeToNumber(option.price || option.optionPrice),
+        currency: option.currency ? String(option.currency).trim().toUpperCase() : undefined,
         // Create nested discount object to match schema
         discount: {
           discountEnabled,
@@ -269,6 +271,90 @@ export const processFaqsData = (faqs: any) => {
   }
 };
 
+/**
+ * Process cancellation policy data
+ */
+export const processCancellationPolicyData = (cancellationPolicy: any) => {
+  try {
+    const parsed = parseJsonField(cancellationPolicy, {});
+    const tiers = Array.isArray(parsed?.tiers) ? parsed.tiers : [];
+
+    return {
+      tiers: tiers.map((tier: any) => ({
+        daysBeforeDeparture: safeToNumber(tier.daysBeforeDeparture, 0),
+        refundPercentage: safeToNumber(tier.refundPercentage, 0)
+      })),
+      description: parsed?.description || undefined
+    };
+  } catch (error) {
+    console.error("Error processing cancellation policy data:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Process party-size price tiers, ordered by party size
+ */
+export const processPaxTiersData = (paxTiers: any) => {
+  try {
+    const parsed = parseJsonField(paxTiers, []);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((tier: any) => tier && tier.price !== undefined && tier.price !== '')
+      .map((tier: any) => {
+        const maxPax = safeToNumber(tier.maxPax, 0);
+
+        return {
+          minPax: Math.max(1, safeToNumber(tier.minPax, 1)),
+          maxPax: maxPax > 0 ? maxPax : undefined,
+          price: safeToNumber(tier.price),
+          pricePerPerson: tier.pricePerPerson === undefined ? true : convertToBoolean(tier.pricePerPerson)
+        };
+      })
+      .sort((a: any, b: any) => a.minPax - b.minPax);
+  } catch (error) {
+    console.error("Error processing pax tiers data:", error);
+    return [];
+  }
+};
+
+/**
+ * Process add-ons data
+ * Existing add-ons keep their _id so bookings can still refer to them.
+ */
+export const processAddOnsData = (addOns: any) => {
+  try {
+    const parsed = parseJsonField(addOns, []);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((addOn: any) => addOn?.name && String(addOn.name).trim())
+      .map((addOn: any) => {
+        const id = addOn._id || addOn.id;
+        const isDiscounted = convertToBoolean(addOn.isDiscounted);
+
+        return {
+          ...(id && mongoose.Types.ObjectId.isValid(id) ? { _id: id } : {}),
+          name: String(addOn.name).trim(),
+          description: addOn.description || '',
+          category: addOn.category || 'other',
+          customCategory: addOn.customCategory || undefined,
+          price: safeToNumber(addOn.price),
+          isDiscounted,
+          discountPrice: isDiscounted ? safeToNumber(addOn.discountPrice) : undefined,
+          isRequired: convertToBoolean(addOn.isRequired),
+          maxQuantity: Math.max(1, safeToNumber(addOn.maxQuantity, 1)),
+          image: addOn.image || undefined,
+          isActive: addOn.isActive === undefined ? true : convertToBoolean(addOn.isActive)
+        };
+      });
+  } catch (error) {
+    console.error("Error processing add-ons data:", error);
+    return [];
+  }
+};
+
 /**
  * Process gallery data
  */
@@ -289,6 +375,13 @@ export const processGalleryData = (gallery: any) => {
   }
 };
 
+/**
+ * GeoJSON point for a tour location
+ * Tours saved without coordinates have lat/lng 0, which is treated as no location.
+ */
+export const toLocationPoint = (lat?: number, lng?: number) =>
+  !lat && !lng ? undefined : toGeoPoint(lat, lng);
+
 /**
  * Process location data
  */
@@ -313,6 +406,8 @@ export const processLocationData = (location: any) => {
       country: String(parsed.country || ''),
       lat: safeToNumber(parsed.lat),
       lng: safeToNumber(parsed.lng),
+      // Updates skip the model's validate hook, so the point is built here too
+      point: toLocationPoint(safeToNumber(parsed.lat), safeToNumber(parsed.lng)),
       map: String(parsed.map || ''),
       zip: String(parsed.zip || '')
     };
@@ -422,12 +517,12 @@ export const processTourDatesData = (tourDates: any) => {
 export const extractTourFields = (req: any) => {
   const {
     title, code, excerpt, description, coverImage, file, tourStatus,
-    price, originalPrice, basePrice, discountEnabled, discountDateRange, discountPrice,
+    price, currency, originalPrice, basePrice, discountEnabled, discountDateRange, discountPrice,
     pricePerType, minSize, maxSize, pricingOptionsEnabled, pricingOptions,
     fixedDeparture, multipleDates, tourDates, fixedDate, dateRanges,
     category, outline, itinerary, include, exclude, facts, faqs,
     gallery, map, location, author, enquiry, isSpecialOffer,
-    destination, groupSize, pricing, dates, priceLockDate, ...rest
+    destination, groupSize, pricing, dates, priceLockDate, cancellationPolicy, addOns, paxTiers, ...rest
   } = req.body;
 
   // Check if pricing is per person or per group
@@ -459,18 +554,24 @@ export const extractTourFields = (req: any) => {
 
   const finalPricingOptionsEnabled = pricingOptionsEnabled !== undefined ? pricingOptionsEnabled : nestedPricing.pricingOptionsEnabled;
 
+  const finalCurrency = nestedPricing.currency || currency;
+
+  const finalPaxTiers = paxTiers || nestedPricing.paxTiers;
+
   const result = {
     // Basic fields
     title, code, excerpt, description, coverImage, file, tourStatus,
 
     // Pricing fields (flat structure to match database schema)
     price: safeToNumber(price),
+    currency: finalCurrency ? String(finalCurrency).trim().toUpperCase() : undefined,
     originalPrice: safeToNumber(originalPrice),
     basePrice: safeToNumber(basePrice),
     pricePerPerson: isPerPerson,
     minSize: safeToNumber(minSize),
     maxSize: safeToNumber(maxSize),
     pricingOptionsEnabled: finalPricingOptionsEnabled,
+    paxTiers: finalPaxTiers ? processPaxTiersData(finalPaxTiers) : undefined,
 
     // Discount data (flat structure)
     discount: {
@@ -522,6 +623,8 @@ export const extractTourFields = (req: any) => {
     faqs: faqs ? processFaqsData(faqs) : undefined,
     gallery: gallery ? processGalleryData(gallery) : undefined,
     location: location ? processLocationData(location) : undefined,
+    cancellationPolicy: cancellationPolicy ? processCancellationPolicyData(cancellationPolicy) : undefined,
+    addOns: addOns ? processAddOnsData(addOns) : undefined,
 
     // Other fields
     author,
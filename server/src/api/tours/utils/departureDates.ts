@@ -0,0 +1,126 @@
+/**
+ * Departure Date Utilities
+ * Walks (possibly recurring) departure schedules. All dates are compared
+ * by UTC day, matching how bookings store their departure date.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound when walking a recurrence so a bad pattern can't loop forever
+const MAX_OCCURRENCES = 5000;
+
+export interface Recurrence {
+  pattern?: string;
+  interval?: number;
+  endDate?: Date;
+}
+
+/**
+ * Start of the given day in UTC
+ */
+export const startOfDay = (date: Date | string) => {
+  const value = new Date(date);
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+};
+
+export const addInterval = (date: Date, pattern: string, interval = 1) => {
+  const next = new Date(date);
+  switch (pattern) {
+    case 'daily':
+      next.setUTCDate(next.getUTCDate() + interval);
+      break;
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + 7 * interval);
+      break;
+    case 'biweekly':
+      next.setUTCDate(next.getUTCDate() + 14 * interval);
+      break;
+    case 'monthly':
+      next.setUTCMonth(next.getUTCMonth() + interval);
+      break;
+    case 'quarterly':
+      next.setUTCMonth(next.getUTCMonth() + 3 * interval);
+      break;
+    case 'yearly':
+      next.setUTCFullYear(next.getUTCFullYear() + interval);
+      break;
+    default:
+      return null;
+  }
+  return next;
+};
+
+/**
+ * Find the first occurrence of a schedule on or after a day
+ * Returns null when the schedule has ended before that day.
+ */
+const firstOccurrenceFrom = (day: Date, start: Date, recurrence?: Recurrence) => {
+  let occurrence: Date | null = startOfDay(start);
+  if (!recurrence?.pattern) {
+    return occurrence >= day ? occurrence : null;
+  }
+
+  const end = recurrence.endDate ? startOfDay(recurrence.endDate) : null;
+  for (let i = 0; occurrence && i < MAX_OCCURRENCES; i++) {
+    if (end && occurrence > end) return null;
+    if (occurrence >= day) return occurrence;
+    occurrence = addInterval(occurrence, recurrence.pattern, recurrence.interval || 1);
+  }
+  return null;
+};
+
+/**
+ * Check whether a (possibly recurring) schedule has an occurrence on a day
+ */
+export const occursOn = (day: Date, start: Date, recurrence?: Recurrence) =>
+  firstOccurrenceFrom(day, start, recurrence)?.getTime() === day.getTime();
+
+/**
+ * Check whether a (possibly recurring) schedule starts an occurrence between two days (inclusive)
+ */
+export const occursBetween = (from: Date, to: Date, start: Date, recurrence?: Recurrence) => {
+  const occurrence = firstOccurrenceFrom(startOfDay(from), start, recurrence);
+  return !!occurrence && occurrence <= startOfDay(to);
+};
+
+/**
+ * Check whether a tour has a departure starting inside a date window
+ * Covers explicit departures (including recurring ones), fixed schedules
+ * that only use the default date range, and flexible tours that can
+ * start on any day of their availability window.
+ */
+export const departsBetween = (tourDates: any, from: Date, to: Date) => {
+  const departures: any[] = tourDates?.departures || [];
+
+  if (departures.length > 0) {
+    return departures.some(departure => departure?.dateRange?.from && occursBetween(
+      from,
+      to,
+      departure.dateRange.from,
+      departure.isRecurring ? {
+        pattern: departure.recurrencePattern,
+        endDate: departure.recurrenceEndDate,
+      } : undefined
+    ));
+  }
+
+  const defaultRange = tourDates?.defaultDateRange;
+
+  if (tourDates?.scheduleType && tourDates.scheduleType !== 'flexible') {
+    return tourDates.scheduleType === 'fixed' && !!defaultRange?.from && occursBetween(
+      from,
+      to,
+      defaultRange.from,
+      tourDates.isRecurring ? {
+        pattern: tourDates.recurrencePattern,
+        interval: tourDates.recurrenceInterval,
+        endDate: tourDates.recurrenceEndDate,
+      } : undefined
+    );
+  }
+
+  // Flexible tours without a window can start any day
+  if (!defaultRange?.from || !defaultRange?.to) {
+    return true;
+  }
+  return startOfDay(defaultRange.from) <= startOfDay(to) && startOfDay(defaultRange.to) >= startOfDay(from);
+};
@@ -0,0 +1,81 @@
+/**
+ * Price rules shared by the tour model, its pricing options and the pricing engine
+ * Works on hydrated and lean tours alike.
+ */
+
+// Every pricing option of a tour, flat or inside pricing groups
+export const getPricingOptions = (tour: any): any[] => [
+  ...(tour.pricingOptions || []),
+  ...(tour.pricingGroups || []).flatMap((group: any) => group.options || []),
+];
+
+export const findPricingOption = (tour: any, pricingOptionId?: string): any | undefined =>
+  pricingOptionId ? getPricingOptions(tour).find(option => option.id === pricingOptionId) : undefined;
+
+export interface PaxRange {
+  minPax: number;
+  maxPax?: number | null;
+}
+
+// Tier whose party-size range includes the party
+export const findPaxTier = <T extends PaxRange>(tiers: T[] = [], pax: number): T | undefined =>
+  tiers.find(tier => pax >= tier.minPax && (tier.maxPax === undefined || tier.maxPax === null || pax <= tier.maxPax));
+
+// Whether any party size falls into more than one tier
+export const paxTiersOverlap = (tiers: PaxRange[] = []): boolean => {
+  const sorted = [...tiers].sort((a, b) => a.minPax - b.minPax);
+
+  return sorted.some((tier, index) => {
+    const previous = sorted[index - 1];
+    return !!previous && (previous.maxPax === undefined || previous.maxPax === null || previous.maxPax >= tier.minPax);
+  });
+};
+
+// Label for a tier's range, e.g. "1 traveler", "2-3 travelers", "4+ travelers"
+export const describePaxRange = ({ minPax, maxPax }: PaxRange): string => {
+  if (maxPax === undefined || maxPax === null) {
+    return `${minPax}+ travelers`;
+  }
+  if (maxPax === minPax) {
+    return `${minPax} traveler${minPax === 1 ? '' : 's'}`;
+  }
+  return `${minPax}-${maxPax} travelers`;
+};
+
+// A discount applies only while enabled and inside its date range
+export const isDiscountActive = (discountEnabled: boolean | undefined, discount: any, at: Date = new Date()): boolean => {
+  if (!discountEnabled || !discount) {
+    return false;
+  }
+
+  const discountStart = discount.discountDateRange?.from;
+  const discountEnd = discount.discountDateRange?.to;
+
+  return !!(discountStart && discountEnd && at >= new Date(discountStart) && at <= new Date(discountEnd));
+};
+
+/**
+ * Amount a discount takes off a price
+ * Percentage discounts are capped by maxDiscountAmount; a fixed discount's
+ * discountPrice is the amount taken off, never the final price.
+ */
+export const getDiscountAmount = (
+  price: number,
+  discountEnabled: boolean | undefined,
+  discount: any,
+  at: Date = new Date()
+): number => {
+  if (!isDiscountActive(discountEnabled, discount, at)) {
+    return 0;
+  }
+
+  let discountAmount = discount.percentageOrPrice
+    ? (price * (discount.discountPercentage || 0)) / 100
+    : discount.discountPrice || 0;
+
+  if (discount.percentageOrPrice && discount.maxDiscountAmount && discountAmount > discount.maxDiscountAmount) {
+    discountAmount = discount.maxDiscountAmount;
+  }
+
+  return Math.min(price, Math.max(0, discountAmount));
+};
@@ -0,0 +1,91 @@
+/**
+ * Search Ranking Utilities
+ * Relevance for keyword searches: the text index score blended with
+ * popularity, plus a fuzzy title matcher for partial words and typos
+ * that the text index can't match.
+ */
+
+// How much each popularity signal adds on top of the text score
+const RATING_WEIGHT = 1;
+const VIEWS_WEIGHT = 0.5;
+const BOOKINGS_WEIGHT = 1;
+
+// Fuzzy matches are scored 0-1; scale them like a title hit in the text index
+const FUZZY_SCORE_SCALE = 10;
+// A query word must be at least this similar to a title word to match
+const MIN_WORD_SIMILARITY = 0.6;
+// Titles scored per fuzzy search
+export const FUZZY_CANDIDATE_LIMIT = 500;
+
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Lower-case words of at least two characters
+ */
+export const tokenize = (value: string) =>
+  value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 2);
+
+/**
+ * Edit distance between two words (insertions, deletions, substitutions and swaps)
+ */
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+/**
+ * Similarity (0-1) of a typed word to a title word
+ * The typed word may be the start of the title word, so "himal" matches "himalaya".
+ */
+const wordSimilarity = (typed: string, word: string) => {
+  if (word.startsWith(typed)) return 1;
+
+  const whole = 1 - editDistance(typed, word) / Math.max(typed.length, word.length);
+  const prefix = 1 - editDistance(typed, word.slice(0, typed.length)) / typed.length;
+  return Math.max(whole, prefix);
+};
+
+/**
+ * Score a title against the query words
+ * Every query word has to match some title word; returns 0 when one doesn't.
+ */
+export const fuzzyScore = (queryWords: string[], title: string) => {
+  const titleWords = tokenize(title);
+  if (queryWords.length === 0 || titleWords.length === 0) return 0;
+
+  let total = 0;
+  for (const typed of queryWords) {
+    const best = Math.max(...titleWords.map(word => wordSimilarity(typed, word)));
+    if (best < MIN_WORD_SIMILARITY) return 0;
+    total += best;
+  }
+  return (total / queryWords.length) * FUZZY_SCORE_SCALE;
+};
+
+/**
+ * Pipeline stage adding `relevance`: the `textScore` field blended with rating, views and bookings
+ * Views and bookings are log-scaled so a popular tour can't bury a better match.
+ */
+export const relevanceStage = () => ({
+  $addFields: {
+    relevance: {
+      $add: [
+        { $ifNull: ['$textScore', 0] },
+        { $multiply: [RATING_WEIGHT, { $ifNull: ['$averageRating', 0] }] },
+        { $multiply: [VIEWS_WEIGHT, { $log10: { $add: [{ $ifNull: ['$views', 0] }, 1] } }] },
+        { $multiply: [BOOKINGS_WEIGHT, { $log10: { $add: [{ $ifNull: ['$bookingCount', 0] }, 1] } }] }
+      ]
+    }
+  }
+});
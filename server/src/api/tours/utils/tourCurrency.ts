@@ -0,0 +1,12 @@
+import { config } from '../../../config/config';
+import { findPricingOption } from './pricing';
+
+/**
+ * Currency a tour is priced in for a booking
+ * A selected pricing option may have its own currency; otherwise the tour's applies.
+ */
+export const getPriceCurrency = (tour: any, pricingOptionId?: string): string => {
+  const option = findPricingOption(tour, pricingOptionId);
+
+  return option?.currency || tour.currency || config.payments.defaultCurrency;
+};
@@ -2,16 +2,32 @@ import { NextFunction, Request, Response } from "express";
 import createHttpError from "http-errors";
 import bcrypt from "bcrypt";
 import userModel from "./userModel";
-import jwt from "jsonwebtoken";
-import { sign } from "jsonwebtoken";
+import { User } from "./userTypes";
+import { JwtPayload, verify } from "jsonwebtoken";
 import { validationResult } from "express-validator";
 import { config } from "../../config/config";
 import { sendResetPasswordEmail as sendResetPasswordEmailMaileroo, sendVerificationEmail as sendVerificationEmailMaileroo } from "../../controller/maileroo";
 import { uploadSellerDocuments } from "../../services/sellerDocumentService";
 import { hybridPagination } from "../../utils/paginationUtils";
 import { HTTP_STATUS } from "../../utils/apiResponse";
-import { getAuthCookieOptions, getClearCookieOptions, COOKIE_NAMES, COOKIE_DURATIONS } from "../../utils/cookieUtils";
-import { sendSuccess, sendPaginatedResponse } from "../../utils/apiResponse";
+import { getClearCookieOptions, COOKIE_NAMES } from "../../utils/cookieUtils";
+import { sendSuccess, sendError, sendPaginatedResponse } from "../../utils/apiResponse";
+import { OneTimeTokenService } from "../auth/services/oneTimeTokenService";
+import { SessionService, getSessionClient } from "../auth/services/sessionService";
+import { LoginProtectionService, LoginBlock } from "../auth/services/loginProtectionService";
+import { TwoFactorService } from "../auth/services/twoFactorService";
+import { setSessionCookie, startSession } from "../auth/sessionCookie";
+
+const newPasswordFields = async (password: string) => ({
+  password: await bcrypt.hash(password, 10),
+});
+
+// A new password voids outstanding reset links and signs out every session
+// except the one that made the change
+const afterPasswordChange = async (userId: any, currentSessionId?: string) => {
+  await OneTimeTokenService.revokeAll(userId, 'password-reset');
+  await SessionService.revokeAll(userId, 'password-change', currentSessionId);
+};
 
 // create user
 export const createUser = async (req: Request, res: Response, next: NextFunction) => {
@@ -58,10 +74,7 @@ export const createUser = async (req: Request, res: Response, next: NextFunction
 
     // Send verification email in production
     try {
-      const verificationToken = jwt.sign({ sub: newUser._id }, config.jwtSecret, {
-        expiresIn: '1h', // 1 hour
-        algorithm: 'HS256',
-      });
+      const verificationToken = await OneTimeTokenService.issue(newUser._id, 'email-verification');
       await sendVerificationEmailMaileroo(email, name, verificationToken);
       return sendSuccess(res, null, 'Verification email sent. Please check your inbox.', HTTP_STATUS.CREATED);
     } catch (emailError) {
@@ -76,6 +89,40 @@ export const createUser = async (req: Request, res: Response, next: NextFunction
   }
 };
 
+const INVALID_CREDENTIALS = "Invalid email or password";
+
+// Hash to check passwords against when the email has no account
+let dummyPasswordHash: Promise<string> | undefined;
+const getDummyPasswordHash = () => {
+  dummyPasswordHash = dummyPasswordHash || bcrypt.hash("not-a-real-password", 10);
+  return dummyPasswordHash;
+};
+
+// Sign-in refused until the backoff or lockout for the email has passed
+export const sendLoginBlocked = (res: Response, block: LoginBlock) => {
+  res.set("Retry-After", String(block.retryAfterSeconds));
+  return sendError(
+    res,
+    block.locked
+      ? "Too many failed sign-in attempts. Sign-in is temporarily locked, please try again later."
+      : "Too many failed sign-in attempts. Please wait a moment before trying again.",
+    HTTP_STATUS.TOO_MANY_REQUESTS,
+    "RATE_LIMIT_ERROR",
+    { retryAfter: block.retryAfterSeconds }
+  );
+};
+
+// User info returned on sign-in, never the token
+export const toLoginUser = (user: User) => ({
+  id: user._id.toString(), // Convert MongoDB ObjectId to string
+  roles: user.roles,
+  email: user.email,
+  name: user.name,
+  phone: user.phone,
+  verified: user.verified,
+  avatar: user.avatar,
+});
+
 // Login a user
 export const loginUser = async (req: Request, res: Response, next: NextFunction) => {
   const { email, password, keepMeSignedIn = false } = req.body;
@@ -84,47 +131,36 @@ export const loginUser = async (req: Request, res: Response, next: NextFunction)
   }
 
   try {
-    const user = await userModel.findOne({ email });
-    if (!user) {
-      return next(createHttpError(404, "User not found."));
+    const client = getSessionClient(req);
+    const block = await LoginProtectionService.getBlock(email);
+    if (block) {
+      return sendLoginBlocked(res, block);
     }
 
-    const isMatch = await bcrypt.compare(password, user.password);
-    if (!isMatch) {
-      return next(createHttpError(400, "Username or password incorrect!"));
+    // Unknown emails and wrong passwords get the same answer, in about the same time
+    const user = await userModel.findOne({ email });
+    const isMatch = await bcrypt.compare(password, user?.password || await getDummyPasswordHash());
+    if (!user || !isMatch) {
+      await LoginProtectionService.recordFailure(email, client, user?._id);
+      return next(createHttpError(401, INVALID_CREDENTIALS));
+    }
+    await LoginProtectionService.recordSuccess(email, client, user._id);
+
+    // Two-factor accounts only get the cookie once the code is verified; admins
+    // without two-factor have to set it up before they can sign in
+    const challenge = await TwoFactorService.createLoginChallenge(user);
+    if (challenge) {
+      return sendSuccess(
+        res,
+        challenge,
+        challenge.twoFactorRequired ? 'Enter your authentication code' : 'Set up two-factor authentication to continue'
+      );
     }
 
-    const expiresIn = keepMeSignedIn ? '30d' : '2h';
-
-    // Create JWT token with user ID, roles, and keepMeSignedIn flag
-    const token = sign(
-      {
-        sub: user._id.toString(),
-        roles: user.roles || [], // Ensure roles is an array
-        keepMeSignedIn: keepMeSignedIn, // Store in JWT to preserve during sliding session
-      },
-      config.jwtSecret,
-      { expiresIn }
-    );
-
     // Set token as HTTP-only cookie with proper configuration for dev/prod
-    const maxAge = keepMeSignedIn ? COOKIE_DURATIONS.LONG_SESSION : COOKIE_DURATIONS.SHORT_SESSION;
-    const cookieOptions = getAuthCookieOptions(maxAge);
+    await startSession(req, res, user, keepMeSignedIn);
 
-    res.cookie(COOKIE_NAMES.AUTH_TOKEN, token, cookieOptions);
-
-    // Return only user info, not token
-    const userResponse = {
-      id: user._id.toString(), // Convert MongoDB ObjectId to string
-      roles: user.roles,
-      email: user.email,
-      name: user.name,
-      phone: user.phone,
-      verified: user.verified,
-      avatar: user.avatar,
-    };
-
-    return sendSuccess(res, { user: userResponse }, 'Login successful');
+    return sendSuccess(res, { user: toLoginUser(user) }, 'Login successful');
 
   } catch (err) {
     console.error('Error while logging in user:', err);
@@ -132,9 +168,22 @@ export const loginUser = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
-export const logoutUser = (req: Request, res: Response) => {
+export const logoutUser = async (req: Request, res: Response) => {
   const cookieOptions = getClearCookieOptions();
 
+  // End the server-side session so the token can't be reused
+  const token = req.cookies?.[COOKIE_NAMES.AUTH_TOKEN];
+  if (token) {
+    try {
+      const decoded = verify(token, config.jwtSecret, { ignoreExpiration: true }) as JwtPayload;
+      if (decoded.sub && typeof decoded.sid === 'string') {
+        await SessionService.revoke(decoded.sub, decoded.sid, 'logout');
+      }
+    } catch (err) {
+      // Invalid token or session already ended; clearing the cookie is enough
+    }
+  }
+
   res.clearCookie(COOKIE_NAMES.AUTH_TOKEN, cookieOptions);
   res.clearCookie(COOKIE_NAMES.REFRESH_TOKEN, cookieOptions);
   res.json({ message: 'Logged out successfully' });
@@ -158,23 +207,9 @@ export const getCurrentUser = async (req: Request
     // This keeps users logged in as long as they're active
     // Preserve the original "keep me signed in" preference from JWT
     const keepMeSignedIn = req.user?.keepMeSignedIn === true;
-    const expiresIn = keepMeSignedIn ? '30d' : '2h';
-    const maxAge = keepMeSignedIn ? COOKIE_DURATIONS.LONG_SESSION : COOKIE_DURATIONS.SHORT_SESSION;
-
-    // Create a new token with extended expiration (preserving keepMeSignedIn preference)
-    const newToken = sign(
-      {
-        sub: user._id.toString(),
-        roles: user.roles || [],
-        keepMeSignedIn: keepMeSignedIn, // Preserve the original preference
-      },
-      config.jwtSecret,
-      { expiresIn }
-    );
-
-    // Set the new token with extended expiration (respecting original preference)
-    const cookieOptions = getAuthCookieOptions(maxAge);
-    res.cookie(COOKIE_NAMES.AUTH_TOKEN, newToken, cookieOptions);
+    const sessionId = req.user.sessionId as string;
+    await SessionService.extend(sessionId, keepMeSignedIn);
+    setSessionCookie(res, user, keepMeSignedIn, sessionId);
 
     // Compute seller status from sellerInfo
     let sellerStatus = 'none';
@@ -403,8 +438,7 @@ export const updateUser = async (req: Request, res: Response, next: NextFunction
       };
 
       if (password) {
-        const salt = await bcrypt.genSalt(10);
-        updateData.password = await bcrypt.hash(password, salt);
+        Object.assign(updateData, await newPasswordFields(password));
       }
 
       const updatedUser = await userModel.findOneAndUpdate(
@@ -412,6 +446,10 @@ export const updateUser = async (req: Request, res: Response, next: NextFunction
         updateData,
         { new: true }
       );
+
+      if (password) {
+        await afterPasswordChange(user._id, req.user?.sessionId);
+      }
       return sendSuccess(res, updatedUser, 'User updated successfully');
     }
   } catch (err) {
@@ -644,6 +682,9 @@ export const changeUserRole = async (req: Request, res: Response, next: NextFunc
 
     targetUser.roles = newRoles;
     const updatedUser = await targetUser.save();
+
+    // Sessions carry the roles they were signed in with
+    await SessionService.revokeAll(targetUser._id, 'role-change');
     res.json(updatedUser);
   } catch (err) {
     return next(createHttpError(500, "Error while changing user role"));
@@ -659,8 +700,8 @@ export const verifyUser = async (req: Request, res: Response, next: NextFunction
   }
 
   try {
-    const decoded = jwt.verify(token as string, config.jwtSecret) as { sub: string };
-    const user = await userModel.findById(decoded.sub);
+    const { user: userId } = await OneTimeTokenService.consume(token, 'email-verification');
+    const user = await userModel.findById(userId);
 
     if (!user) {
       return next(createHttpError(400, "Invalid token"));
@@ -693,14 +734,8 @@ export const forgotPassword = async (req: Request, res: Response, next: NextFunc
 
     console.log('User found for password reset:', user.email);
 
-    if (!config.jwtSecret) {
-      throw new Error('JWT Secret is not defined');
-    }
-
-    const resetToken = jwt.sign({ sub: user._id }, config.jwtSecret, {
-      expiresIn: '1h', // Reset token expires in 1 hour
-      algorithm: 'HS256',
-    });
+    // Single use and valid for an hour; replaces any earlier reset link
+    const resetToken = await OneTimeTokenService.issue(user._id, 'password-reset');
 
     // Skip email sending in development mode
     const isDevMode = config.env === 'development';
@@ -743,16 +778,17 @@ export const resetPassword = async (req: Request, res: Response, next: NextFunct
   }
 
   try {
-    const decoded = jwt.verify(token, config.jwtSecret) as { sub: string };
-    const user = await userModel.findById(decoded.sub);
+    const { user: userId } = await OneTimeTokenService.consume(token, 'password-reset');
+    const user = await userModel.findById(userId);
 
     if (!user) {
       return next(createHttpError(404, 'User not found'));
     }
-    const hashedPassword = await bcrypt.hash(password, 10);
-    user.password = hashedPassword; // Assuming you are hashing passwords before saving
+    user.set(await newPasswordFields(password));
     await user.save();
 
+    await afterPasswordChange(user._id);
+
     res.status(HTTP_STATUS.OK).json({ message: 'Password reset successful' });
   } catch (err) {
     return next(createHttpError(400, 'Invalid or expired token'));
@@ -888,12 +924,9 @@ export const changeMyPassword = async (req: Request
       return next(createHttpError(400, "Current password is incorrect"));
     }
 
-    // Hash new password
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(newPassword, salt);
-
-    // Update password
-    await userModel.findByIdAndUpdate(userId, { password: hashedPassword });
+    // Update password, signing out every other session
+    await userModel.findByIdAndUpdate(userId, await newPasswordFields(newPassword));
+    await afterPasswordChange(user._id, req.user?.sessionId);
 
     res.json({ message: "Password changed successfully" });
   } catch (err) {
@@ -932,8 +965,7 @@ export const updateUserById = async (req: Request
     };
 
     if (password) {
-      const salt = await bcrypt.genSalt(10);
-      updateData.password = await bcrypt.hash(password, salt);
+      Object.assign(updateData, await newPasswordFields(password));
     }
 
     const updatedUser = await userModel.findOneAndUpdate(
@@ -941,6 +973,13 @@ export const updateUserById = async (req: Request
       updateData,
       { new: true }
     );
+
+    if (password) {
+      await afterPasswordChange(user._id);
+    } else if (roles && roles !== user.roles) {
+      // Sessions carry the roles they were signed in with
+      await SessionService.revokeAll(user._id, 'role-change');
+    }
     res.json(updatedUser);
   } catch (err) {
     console.error('Error while updating user:', err);
@@ -148,6 +148,46 @@ const sellerInfoSchema = new mongoose.Schema({
   },
   alternatePhone: {
     type: String
+  },
+  // Public storefront details the seller manages themselves
+  storefront: {
+    tagline: {
+      type: String,
+      trim: true
+    },
+    logoUrl: {
+      type: String,
+      trim: true
+    },
+    coverImageUrl: {
+      type: String,
+      trim: true
+    },
+    publicEmail: {
+      type: String,
+      trim: true,
+      lowercase: true
+    },
+    publicPhone: {
+      type: String,
+      trim: true
+    },
+    socialLinks: [{
+      _id: false,
+      platform: {
+        type: String,
+        lowercase: true,
+        trim: true
+      },
+      url: {
+        type: String,
+        trim: true
+      }
+    }],
+    showAddress: {
+      type: Boolean,
+      default: false
+    }
   }
 });
 
@@ -195,9 +235,51 @@ const userSchema = new mongoose.Schema<User>({
         type: Boolean,
         default: false
       },
+      // TOTP two-factor authentication; secrets and recovery codes are never returned by default
+      twoFactor: {
+        enabled: {
+          type: Boolean,
+          default: false
+        },
+        secret: {
+          type: String,
+          select: false
+        },
+        pendingSecret: {
+          type: String,
+          select: false
+        },
+        recoveryCodes: {
+          type: [String],
+          select: false
+        },
+        lastUsedStep: {
+          type: Number,
+          select: false
+        },
+        enabledAt: {
+          type: Date
+        }
+      },
+      // Outside accounts (e.g. Google) the user signs in with
+      identities: [
+        {
+          provider: { type: String, required: true },
+          subject: { type: String, required: true },
+          email: { type: String },
+          linkedAt: { type: Date, default: Date.now },
+          _id: false
+        }
+      ],
       sellerInfo: sellerInfoSchema // Add seller information schema
 },
     {timestamps: true},
 );
 
+// One user per outside account
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
   export default mongoose.model<User>("User", userSchema);
\ No newline at end of file
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import createHttpError, { HttpError } from 'http-errors';
+import { sign, verify } from 'jsonwebtoken';
+import { config } from '../../config/config';
+import { generateCodeVerifier, getCodeChallenge, getIdentityProvider } from '../auth/providers';
+import { SocialLoginService } from '../auth/services/socialLoginService';
+import { TwoFactorService } from '../auth/services/twoFactorService';
+import { startSession } from '../auth/sessionCookie';
+import { COOKIE_DURATIONS, COOKIE_NAMES, getOAuthStateCookieOptions, getTwoFactorChallengeCookieOptions } from '../../utils/cookieUtils';
+import { logger } from '../../utils/logger';
+
+// Kept in a signed cookie between sending the browser to the provider and its return
+interface OAuthState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  keepMeSignedIn: boolean;
+}
+
+const randomToken = () => crypto.randomBytes(16).toString('base64url');
+
+// The frontend login page finishes the sign-in from the query parameters
+const loginPageUrl = (params: Record<string, string>) =>
+  `${config.frontendDomain?.split(',')[0]?.trim() || ''}/auth/login?${new URLSearchParams(params).toString()}`;
+
+// Both steps are browser navigations, so errors go back to the login page rather than as JSON
+const redirectWithError = (res: Response, err: unknown) => {
+  const expose = err instanceof HttpError && err.expose;
+  if (!expose) {
+    logger.error('Social sign-in failed', { error: err instanceof Error ? err.message : String(err) });
+  }
+  return res.redirect(loginPageUrl({ oauthError: expose ? err.message : 'Sign-in failed, please try again' }));
+};
+
+// Send the browser to the provider's sign-in page
+export const startOAuthSignIn = async (req: Request, res: Response, _next: NextFunction) => {
+  try {
+    const provider = getIdentityProvider(req.params.provider);
+    const saved: OAuthState = {
+      provider: provider.name,
+      state: randomToken(),
+      nonce: randomToken(),
+      codeVerifier: generateCodeVerifier(),
+      keepMeSignedIn: req.query.keepMeSignedIn === 'true',
+    };
+
+    const authorizationUrl = await provider.getAuthorizationUrl({
+      state: saved.state,
+      nonce: saved.nonce,
+      codeChallenge: getCodeChallenge(saved.codeVerifier),
+    });
+
+    res.cookie(
+      COOKIE_NAMES.OAUTH_STATE,
+      sign(saved, config.socialLogin.stateSecret, { expiresIn: COOKIE_DURATIONS.OAUTH_STATE / 1000 }),
+      getOAuthStateCookieOptions(COOKIE_DURATIONS.OAUTH_STATE)
+    );
+    return res.redirect(authorizationUrl);
+  } catch (err) {
+    return redirectWithError(res, err);
+  }
+};
+
+// The provider sends the browser back here with an authorization code
+export const oauthCallback = async (req: Request, res: Response, _next: NextFunction) => {
+  const stateCookie = req.cookies?.[COOKIE_NAMES.OAUTH_STATE];
+  res.clearCookie(COOKIE_NAMES.OAUTH_STATE, getOAuthStateCookieOptions());
+
+  try {
+    if (req.query.error) {
+      throw createHttpError(401, 'Sign-in was cancelled');
+    }
+
+    let saved: OAuthState;
+    try {
+      saved = verify(stateCookie, config.socialLogin.stateSecret) as OAuthState;
+    } catch {
+      throw createHttpError(400, 'Sign-in expired, please try again');
+    }
+
+    const { code, state } = req.query;
+    if (saved.provider !== req.params.provider || state !== saved.state || !code || typeof code !== 'string') {
+      throw createHttpError(400, 'Sign-in expired, please try again');
+    }
+
+    const provider = getIdentityProvider(saved.provider);
+    const claims = await provider.exchangeCode({ code, codeVerifier: saved.codeVerifier, nonce: saved.nonce });
+    const user = await SocialLoginService.findOrCreateUser(provider.name, claims);
+
+    // Same second step as signing in with a password; the challenge goes in a
+    // cookie so it never shows up in the URL
+    const challenge = await TwoFactorService.createLoginChallenge(user);
+    if (challenge) {
+      res.cookie(
+        COOKIE_NAMES.TWO_FACTOR_CHALLENGE,
+        challenge.challengeToken,
+        getTwoFactorChallengeCookieOptions(COOKIE_DURATIONS.TWO_FACTOR_CHALLENGE)
+      );
+      return res.redirect(loginPageUrl({
+        twoFactor: challenge.twoFactorRequired ? 'required' : 'setup',
+        keepMeSignedIn: String(saved.keepMeSignedIn),
+      }));
+    }
+
+    await startSession(req, res, user, saved.keepMeSignedIn);
+    return res.redirect(loginPageUrl({ oauth: provider.name }));
+  } catch (err) {
+    return redirectWithError(res, err);
+  }
+};
@@ -17,6 +17,8 @@ import {
   getCurrentUser
 } from "./userController";
 import { uploadAvatar, getUserAvatar } from './userAvatarController';
+import { getMySessions, revokeMySession, revokeAllMySessions } from './userSessionController';
+import { getMyTwoFactor, setupMyTwoFactor, enableMyTwoFactor, regenerateMyRecoveryCodes, disableMyTwoFactor } from './userTwoFactorController';
 import { body, param } from 'express-validator';
 import { authenticate, authorizeRoles, requireOwnerOrAdmin } from "../../middlewares/authenticate";
 import { paginationMiddleware } from "../../middlewares/pagination";
@@ -199,6 +201,306 @@ userRouter.patch('/me/password', authenticate, changeMyPassword);
 userRouter.post('/me/avatar', authenticate, uploadAvatarMiddleware, uploadAvatar);
 userRouter.get('/me/avatar', authenticate, getUserAvatar);
 
+/**
+ * @swagger
+ * /api/v1/users/me/sessions:
+ *   get:
+ *     summary: List current user sessions
+ *     description: Devices the authenticated user is signed in on, most recently used first
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/StandardResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/UserSession'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Sign out of all sessions
+ *     description: |
+ *       Revokes every session of the authenticated user, including this one.
+ *       With keepCurrent=true the current session stays signed in.
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: keepCurrent
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Sessions revoked; data.revoked is how many
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+userRouter.get('/me/sessions', authenticate, getMySessions);
+userRouter.delete('/me/sessions', authenticate, revokeAllMySessions);
+
+/**
+ * @swagger
+ * /api/v1/users/me/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out of one session
+ *     description: Revokes one of the authenticated user's sessions; revoking the current one also clears the cookie
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+userRouter.delete('/me/sessions/:sessionId', [param('sessionId').isMongoId(), authenticate], revokeMySession);
+
+/**
+ * @swagger
+ * /api/v1/users/me/2fa:
+ *   get:
+ *     summary: Get two-factor status
+ *     description: Whether two-factor authentication is on, required for the user's role, and how many recovery codes are left
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/StandardResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TwoFactorStatus'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     summary: Disable two-factor authentication
+ *     description: Needs a current authenticator or recovery code. Not allowed for admins.
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid authentication code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Two-factor authentication is required for the user's role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+userRouter.get('/me/2fa', authenticate, getMyTwoFactor);
+userRouter.delete('/me/2fa', authLimiter, authenticate, disableMyTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/users/me/2fa/setup:
+ *   post:
+ *     summary: Start two-factor setup
+ *     description: |
+ *       Creates a new secret for the authenticated user and returns it with its otpauth link
+ *       and a QR code. Two-factor stays off until a code is confirmed at /me/2fa/enable.
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/StandardResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TwoFactorSetup'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+userRouter.post('/me/2fa/setup', authenticate, setupMyTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/users/me/2fa/enable:
+ *   post:
+ *     summary: Enable two-factor authentication
+ *     description: Confirms the secret from /me/2fa/setup with a code and returns the recovery codes, shown only this once
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/StandardResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       400:
+ *         description: Invalid authentication code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+userRouter.post('/me/2fa/enable', authLimiter, authenticate, enableMyTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/users/me/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes after checking a current code
+ *     tags: [Users]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/StandardResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       400:
+ *         description: Invalid authentication code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+userRouter.post('/me/2fa/recovery-codes', authLimiter, authenticate, regenerateMyRecoveryCodes);
+
 /**
  * @swagger
  * /api/v1/users/me/settings:
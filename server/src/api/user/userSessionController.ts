@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import createHttpError from 'http-errors';
+import { SessionService } from '../auth/services/sessionService';
+import { sendSuccess } from '../../utils/apiResponse';
+import { COOKIE_NAMES, getClearCookieOptions } from '../../utils/cookieUtils';
+
+// List the current user's signed-in devices
+export const getMySessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const sessions = await SessionService.listActive(req.user.id);
+    const data = sessions.map(session => ({
+      id: session._id.toString(),
+      device: session.device,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session._id.toString() === req.user?.sessionId,
+    }));
+
+    return sendSuccess(res, data, 'Sessions retrieved successfully');
+  } catch (err) {
+    return next(createHttpError(500, 'Error while getting sessions'));
+  }
+};
+
+// Sign out one device; signing out the current one also clears its cookie
+export const revokeMySession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const { sessionId } = req.params;
+    await SessionService.revoke(req.user.id, sessionId);
+
+    if (sessionId === req.user.sessionId) {
+      res.clearCookie(COOKIE_NAMES.AUTH_TOKEN, getClearCookieOptions());
+    }
+    return sendSuccess(res, null, 'Session signed out');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Sign out everywhere, or everywhere else with ?keepCurrent=true
+export const revokeAllMySessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const keepCurrent = req.query.keepCurrent === 'true';
+    const revoked = await SessionService.revokeAll(req.user.id, 'revoked', keepCurrent ? req.user.sessionId : undefined);
+
+    if (!keepCurrent) {
+      res.clearCookie(COOKIE_NAMES.AUTH_TOKEN, getClearCookieOptions());
+    }
+    return sendSuccess(res, { revoked }, keepCurrent ? 'Signed out of all other sessions' : 'Signed out of all sessions');
+  } catch (err) {
+    return next(createHttpError(500, 'Error while signing out sessions'));
+  }
+};
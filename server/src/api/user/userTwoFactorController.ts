@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import createHttpError from 'http-errors';
+import userModel from './userModel';
+import { toLoginUser, sendLoginBlocked } from './userController';
+import { OneTimeTokenService } from '../auth/services/oneTimeTokenService';
+import { TwoFactorService } from '../auth/services/twoFactorService';
+import { LoginProtectionService } from '../auth/services/loginProtectionService';
+import { getSessionClient } from '../auth/services/sessionService';
+import { startSession } from '../auth/sessionCookie';
+import { sendSuccess } from '../../utils/apiResponse';
+import { COOKIE_NAMES, getTwoFactorChallengeCookieOptions } from '../../utils/cookieUtils';
+import { OneTimeTokenPurpose } from '../auth/authTypes';
+
+// Challenge from the password step in the body, or from the cookie set when
+// Google sign-in needs a two-factor step
+const getChallengeToken = (req: Request): string => {
+  const challengeToken = req.body.challengeToken || req.cookies?.[COOKIE_NAMES.TWO_FACTOR_CHALLENGE];
+  if (!challengeToken || typeof challengeToken !== 'string') {
+    throw createHttpError(400, 'Challenge token is required');
+  }
+  return challengeToken;
+};
+
+// Sign-in done, the challenge can't be used again
+const consumeChallenge = async (res: Response, challengeToken: string, purpose: OneTimeTokenPurpose) => {
+  await OneTimeTokenService.consume(challengeToken, purpose);
+  res.clearCookie(COOKIE_NAMES.TWO_FACTOR_CHALLENGE, getTwoFactorChallengeCookieOptions());
+};
+
+// User behind a sign-in challenge; the challenge stays valid until the step
+// succeeds, so a mistyped code can be retried
+const findChallengeUser = async (challengeToken: string, purpose: OneTimeTokenPurpose) => {
+  const challenge = await OneTimeTokenService.find(challengeToken, purpose);
+  const user = await userModel.findById(challenge.user);
+  if (!user) {
+    throw createHttpError(400, 'Invalid or expired token');
+  }
+  return user;
+};
+
+const requireCode = (code: unknown): string => {
+  if (!code || typeof code !== 'string') {
+    throw createHttpError(400, 'Authentication code is required');
+  }
+  return code;
+};
+
+// Second sign-in step: check the authenticator or recovery code and set the auth cookie
+export const verifyTwoFactorLogin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { keepMeSignedIn = false } = req.body;
+    const challengeToken = getChallengeToken(req);
+    const code = requireCode(req.body.code);
+    const user = await findChallengeUser(challengeToken, 'two-factor-login');
+
+    // Wrong codes count towards the same per-account lockout as wrong passwords
+    const block = await LoginProtectionService.getBlock(user.email);
+    if (block) {
+      return sendLoginBlocked(res, block);
+    }
+    try {
+      await TwoFactorService.verify(user._id, code);
+    } catch (err) {
+      await LoginProtectionService.recordFailure(user.email, getSessionClient(req), user._id);
+      throw err;
+    }
+    await consumeChallenge(res, challengeToken, 'two-factor-login');
+    await startSession(req, res, user, keepMeSignedIn);
+
+    return sendSuccess(res, { user: toLoginUser(user) }, 'Login successful');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Sign-in for accounts that must set up two-factor first: get the secret to scan
+export const startTwoFactorLoginSetup = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await findChallengeUser(getChallengeToken(req), 'two-factor-setup');
+    const enrollment = await TwoFactorService.startEnrollment(user._id);
+
+    return sendSuccess(res, enrollment, 'Scan the code with your authenticator app');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Finish the forced setup with a code, then sign in
+export const confirmTwoFactorLoginSetup = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { keepMeSignedIn = false } = req.body;
+    const challengeToken = getChallengeToken(req);
+    const code = requireCode(req.body.code);
+    const user = await findChallengeUser(challengeToken, 'two-factor-setup');
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user._id, code);
+    await consumeChallenge(res, challengeToken, 'two-factor-setup');
+    await startSession(req, res, user, keepMeSignedIn);
+
+    return sendSuccess(res, { user: toLoginUser(user), recoveryCodes }, 'Two-factor authentication enabled');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Two-factor status of the current user
+export const getMyTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const status = await TwoFactorService.getStatus(req.user.id);
+    return sendSuccess(res, status, 'Two-factor status retrieved successfully');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Start enrolling the current user
+export const setupMyTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const enrollment = await TwoFactorService.startEnrollment(req.user.id);
+    return sendSuccess(res, enrollment, 'Scan the code with your authenticator app');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Turn two-factor on with a code from the new secret
+export const enableMyTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user.id, requireCode(req.body.code));
+    return sendSuccess(res, { recoveryCodes }, 'Two-factor authentication enabled');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Replace the recovery codes
+export const regenerateMyRecoveryCodes = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user.id, requireCode(req.body.code));
+    return sendSuccess(res, { recoveryCodes }, 'Recovery codes regenerated');
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Turn two-factor off; not allowed for roles that require it
+export const disableMyTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(createHttpError(401, 'Not authenticated'));
+    }
+
+    await TwoFactorService.disable(req.user.id, requireCode(req.body.code));
+    return sendSuccess(res, null, 'Two-factor authentication disabled');
+  } catch (err) {
+    next(err);
+  }
+};
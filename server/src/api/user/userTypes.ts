@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { StorefrontSettings } from '../settings/settingsTypes';
 
 // Interface for seller information
 export interface SellerInfo {
@@ -49,6 +50,30 @@ export interface SellerInfo {
   contactPerson?: string;
   phone?: string;
   alternatePhone?: string;
+  storefront?: StorefrontSettings;
+}
+
+// TOTP two-factor authentication
+export interface TwoFactorSettings {
+  enabled: boolean;
+  // Encrypted TOTP secret
+  secret?: string;
+  // Encrypted secret waiting for its first code during enrollment
+  pendingSecret?: string;
+  // SHA-256 hashes of the recovery codes not used yet
+  recoveryCodes?: string[];
+  // Time step of the last accepted authenticator code; a code works only once
+  lastUsedStep?: number;
+  enabledAt?: Date;
+}
+
+// An outside account the user can sign in with, e.g. Google
+export interface LinkedIdentity {
+  provider: string;
+  // The provider's id for the user (the OpenID Connect `sub` claim)
+  subject: string;
+  email?: string;
+  linkedAt: Date;
 }
 
 export interface User{
@@ -65,6 +90,8 @@ export interface User{
   reviews: string[];
   payment_methods: string[];
   sellerInfo?: SellerInfo;
+  twoFactor?: TwoFactorSettings;
+  identities?: LinkedIdentity[];
   createdAt: Date;
   updatedAt: Date;
 }
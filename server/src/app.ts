@@ -15,8 +15,11 @@ import commentRouter from "./api/comment/commentRouter";
 import reviewRoutes from "./api/review/reviewRoutes";
 import globalRoutes from "./api/global";
 import bookingRouter from "./api/bookings/bookingRoutes";
+import enquiryRouter from "./api/enquiries/enquiryRoutes";
 import notificationRouter from "./api/notifications/notificationRoutes";
 import monitoringRouter from "./api/monitoring/monitoringRoutes";
+import settingsRouter from "./api/settings/settingsRoutes";
+import currencyRouter from "./api/currencies/currencyRoutes";
 import cors from "cors";
 import { config } from "./config/config";
 import breadcrumbsMiddleware from "./middlewares/breadcrumbsMiddleware";
@@ -103,8 +106,11 @@ app.use('/api/v1/faqs', faqsRouter);
 app.use('/api/v1/reviews', reviewRoutes);
 app.use('/api/v1/global', globalRoutes);
 app.use('/api/v1/bookings', bookingRouter);
+app.use('/api/v1/enquiries', enquiryRouter);
 app.use('/api/v1/notifications', notificationRouter);
 app.use('/api/v1/monitoring', monitoringRouter);
+app.use('/api/v1/settings', settingsRouter);
+app.use('/api/v1/currencies', currencyRouter);
 
 // API v2 routes - selective endpoint upgrades
 app.use('/api/v2/tours', tourRouterV2);
@@ -1,4 +1,5 @@
 import { config as conf } from "dotenv";
+import { randomBytes } from "crypto";
 conf();
 
 // Required environment variables
@@ -85,6 +86,106 @@ const _config = {
     },
     fromEmail: process.env.MAILEROO_FROM_EMAIL || 'info@tourbnt.com'
   },
+
+  // Outgoing email - `maileroo` in production; locally either a plain SMTP
+  // catcher (e.g. Mailpit on port 1025) or `file`, which writes .eml files
+  mail: {
+    transport: process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'maileroo' : 'file'),
+    smtp: {
+      host: process.env.EMAIL_SMTP_HOST || 'localhost',
+      port: parseInt(process.env.EMAIL_SMTP_PORT || '1025')
+    },
+    outputDir: process.env.EMAIL_OUTPUT_DIR || 'tmp/emails',
+    supportEmail: process.env.EMAIL_SUPPORT_ADDRESS || 'support@tourbnt.com',
+    reminderDaysBeforeDeparture: Number(process.env.BOOKING_REMINDER_DAYS) || 3,
+    reminderIntervalMinutes: Number(process.env.BOOKING_REMINDER_INTERVAL_MINUTES) || 60
+  },
+
+  // Payment gateway configuration
+  // PAYMENT_GATEWAY=mock routes every payment method through the local mock gateway.
+  // It has to be set explicitly - any other value, or none, charges through the real gateways
+  payments: {
+    gateway: process.env.PAYMENT_GATEWAY === 'mock' ? 'mock' : 'live',
+    defaultCurrency: process.env.PAYMENT_DEFAULT_CURRENCY || 'USD',
+    stripe: {
+      secretKey: process.env.STRIPE_SECRET_KEY,
+      apiBase: process.env.STRIPE_API_BASE || 'https://api.stripe.com/v1'
+    },
+    paypal: {
+      clientId: process.env.PAYPAL_CLIENT_ID,
+      clientSecret: process.env.PAYPAL_CLIENT_SECRET,
+      apiBase: process.env.PAYPAL_API_BASE || 'https://api-m.sandbox.paypal.com'
+    }
+  },
+
+  // Exchange rates are stored as units of each currency per 1 unit of this base
+  currencies: {
+    baseCurrency: (process.env.EXCHANGE_RATE_BASE || 'USD').toUpperCase()
+  },
+
+  // Tax added to booking totals, as a percentage of the amount after discounts
+  pricing: {
+    taxRate: Number(process.env.PRICING_TAX_RATE) || 0,
+    taxName: process.env.PRICING_TAX_NAME || 'Tax'
+  },
+
+  // Two-factor authentication - the issuer name authenticator apps show next to the code
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'TourBNT'
+  },
+
+  // Social sign-in over OpenID Connect. Endpoints and keys are discovered from
+  // <issuer>/.well-known/openid-configuration, so the issuer can be a local fake
+  socialLogin: {
+    // Signs the short-lived state cookie of the sign-in redirect; its own secret, never
+    // the session one. Without it each process makes up its own, which only suits a single instance
+    stateSecret: process.env.OAUTH_STATE_SECRET || randomBytes(32).toString('hex'),
+    google: {
+      issuer: process.env.GOOGLE_OIDC_ISSUER || 'https://accounts.google.com',
+      clientId: process.env.GOOGLE_OAUTH_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_OAUTH_CLIENT_SECRET,
+      // Defaults to <BASE_URL>/api/v1/auth/oauth/google/callback
+      redirectUri: process.env.GOOGLE_OAUTH_REDIRECT_URI
+    }
+  },
+
+  // Login protection - failed sign-ins per email slow down after a few tries,
+  // then lock the account for a while; repeated lockouts last longer
+  loginProtection: {
+    backoffAfterAttempts: Number(process.env.LOGIN_BACKOFF_AFTER_ATTEMPTS) || 3,
+    backoffBaseSeconds: Number(process.env.LOGIN_BACKOFF_BASE_SECONDS) || 5,
+    maxFailedAttempts: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 10,
+    lockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+    maxLockoutMinutes: Number(process.env.LOGIN_MAX_LOCKOUT_MINUTES) || 24 * 60,
+    // Failed attempts are forgotten this long after the last one
+    attemptWindowMinutes: Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES) || 60
+  },
+
+  // Per-IP limit on the auth endpoints
+  authRateLimit: {
+    windowMinutes: Number(process.env.AUTH_RATE_LIMIT_WINDOW_MINUTES) || 15,
+    max: Number(process.env.AUTH_RATE_LIMIT_MAX) || (process.env.NODE_ENV === 'development' ? 100 : 10)
+  },
+
+  // Seat inventory - which participant types take up a seat on a departure
+  inventory: {
+    countChildren: process.env.INVENTORY_COUNT_CHILDREN !== 'false',
+    countInfants: process.env.INVENTORY_COUNT_INFANTS === 'true',
+    defaultCapacity: Number(process.env.INVENTORY_DEFAULT_CAPACITY) || 10
+  },
+
+  // Seat holds - how long unpaid bookings keep their seats
+  holds: {
+    checkoutMinutes: Number(process.env.HOLD_CHECKOUT_MINUTES) || 15,
+    pendingBookingMinutes: Number(process.env.HOLD_PENDING_BOOKING_MINUTES) || 60,
+    sweepIntervalSeconds: Number(process.env.HOLD_SWEEP_INTERVAL_SECONDS) || 60
+  },
+
+  // Cancellation policy for tours that don't define their own:
+  // full refund up to this many days before departure, nothing after
+  cancellation: {
+    defaultFreeCancellationDays: Number(process.env.CANCELLATION_FREE_DAYS) || 2
+  },
 } as const;
 
 export const config = Object.freeze(_config);
\ No newline at end of file
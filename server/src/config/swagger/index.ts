@@ -208,6 +208,10 @@ No explicit view tracking calls are needed from clients.
             name: 'Bookings',
             description: 'Booking creation, management, and payment processing. Supports guest bookings.',
         },
+        {
+            name: 'Enquiries',
+            description: 'Pre-booking questions about tours, seller inbox and threaded replies',
+        },
         {
             name: 'Gallery',
             description: 'Media gallery management for images and videos',
@@ -236,6 +240,14 @@ No explicit view tracking calls are needed from clients.
             name: 'Global',
             description: 'Global resources: categories, destinations, and seller applications',
         },
+        {
+            name: 'Currencies',
+            description: 'Exchange rates and currency conversion',
+        },
+        {
+            name: 'Settings',
+            description: 'Site settings and public seller storefronts',
+        },
         {
             name: 'AI Generation',
             description: 'AI-powered content generation for tours',
@@ -445,6 +457,7 @@ const options: swaggerJsdoc.Options = {
         './src/api/user/faq/*.ts',
         './src/api/tours/*.ts',
         './src/api/bookings/*.ts',
+        './src/api/enquiries/*.ts',
         './src/api/gallery/*.ts',
         './src/api/post/*.ts',
         './src/api/review/*.ts',
@@ -452,6 +465,8 @@ const options: swaggerJsdoc.Options = {
         './src/api/global/**/*.ts',
         './src/api/generate/*.ts',
         './src/api/comment/*.ts',
+        './src/api/settings/*.ts',
+        './src/api/currencies/*.ts',
         './src/config/swagger/schemas.ts',
     ],
 };
@@ -285,6 +285,57 @@
  *           type: string
  *           format: date-time
  *
+ *     UserSession:
+ *       type: object
+ *       description: A device the user is signed in on
+ *       properties:
+ *         id:
+ *           type: string
+ *         device:
+ *           type: string
+ *           example: Chrome on Windows
+ *         userAgent:
+ *           type: string
+ *         ip:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         lastSeenAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         current:
+ *           type: boolean
+ *           description: Whether this is the session making the request
+ *
+ *     TwoFactorStatus:
+ *       type: object
+ *       properties:
+ *         enabled:
+ *           type: boolean
+ *         required:
+ *           type: boolean
+ *           description: Whether the user's role has to use two-factor authentication
+ *         recoveryCodesRemaining:
+ *           type: integer
+ *
+ *     TwoFactorSetup:
+ *       type: object
+ *       description: A new TOTP secret to add to an authenticator app
+ *       properties:
+ *         secret:
+ *           type: string
+ *           description: Base32 secret for manual entry
+ *         otpauthUrl:
+ *           type: string
+ *           example: otpauth://totp/TourBNT%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=TourBNT&algorithm=SHA1&digits=6&period=30
+ *         qrCode:
+ *           type: string
+ *           description: PNG data URL of the otpauth link
+ *
  *     UserRegistration:
  *       type: object
  *       required:
@@ -450,9 +501,112 @@
  *           type: string
  *         price:
  *           type: number
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 code; falls back to the tour's currency
  *         duration:
  *           type: number
  *
+ *     AddOn:
+ *       type: object
+ *       description: Optional extra travelers can add to a booking
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         category:
+ *           type: string
+ *           enum: [transportation, accommodation, activity, meal, equipment, insurance, guide, other]
+ *         price:
+ *           type: number
+ *           description: Price per unit, in the tour's currency
+ *         isDiscounted:
+ *           type: boolean
+ *         discountPrice:
+ *           type: number
+ *         isRequired:
+ *           type: boolean
+ *           description: Always included, at least once per booking
+ *         maxQuantity:
+ *           type: number
+ *         image:
+ *           type: string
+ *         isActive:
+ *           type: boolean
+ *
+ *     PaxTier:
+ *       type: object
+ *       description: Price for a range of party sizes (adults and children)
+ *       required: [minPax, price]
+ *       properties:
+ *         minPax:
+ *           type: number
+ *           example: 2
+ *         maxPax:
+ *           type: number
+ *           description: Omitted for an open-ended tier, e.g. 4+ travelers
+ *           example: 3
+ *         price:
+ *           type: number
+ *           description: In the tour's currency
+ *           example: 950
+ *         pricePerPerson:
+ *           type: boolean
+ *           description: When false, price is a flat private-group rate for the whole party
+ *
+ *     BookingAddOn:
+ *       type: object
+ *       properties:
+ *         addOnId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         category:
+ *           type: string
+ *         quantity:
+ *           type: number
+ *         unitPrice:
+ *           type: number
+ *           description: Price per unit when booked, in the booking currency
+ *         totalPrice:
+ *           type: number
+ *
+ *     PriceLineItem:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [traveler, discount, addOn, promo, tax]
+ *         category:
+ *           type: string
+ *           description: Traveler category (adult, child, infant, group) or add-on category
+ *         label:
+ *           type: string
+ *         quantity:
+ *           type: number
+ *         unitPrice:
+ *           type: number
+ *         amount:
+ *           type: number
+ *           description: Negative for discounts
+ *
+ *     PriceQuote:
+ *       type: object
+ *       properties:
+ *         pricing:
+ *           $ref: '#/components/schemas/BookingPricing'
+ *         addOns:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BookingAddOn'
+ *         lineItems:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PriceLineItem'
+ *
  *     TourDates:
  *       type: object
  *       properties:
@@ -518,16 +672,31 @@
  *           type: string
  *         price:
  *           type: number
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 code the tour's prices are in
+ *           example: NPR
  *         pricePerPerson:
  *           type: boolean
+ *         paxTiers:
+ *           type: array
+ *           description: Party-size price tiers; override price when the party matches one
+ *           items:
+ *             $ref: '#/components/schemas/PaxTier'
  *         minSize:
  *           type: number
  *         maxSize:
  *           type: number
  *         averageRating:
  *           type: number
+ *           description: Average rating of approved reviews
+ *         aspectRatings:
+ *           $ref: '#/components/schemas/ReviewAspectRatings'
+ *         approvedReviewCount:
+ *           type: number
  *         reviewCount:
  *           type: number
+ *           description: All reviews, including pending and rejected
  *         views:
  *           type: number
  *         isSpecialOffer:
@@ -558,6 +727,10 @@
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/PricingOption'
+ *         addOns:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/AddOn'
  *         tourDates:
  *           $ref: '#/components/schemas/TourDates'
  *         createdAt:
@@ -628,11 +801,36 @@
  *           type: number
  *         infantPrice:
  *           type: number
+ *         subtotal:
+ *           type: number
+ *           description: Travelers after tour discounts plus add-ons, before promo codes and tax
+ *         discountAmount:
+ *           type: number
+ *           description: Promo code discount
+ *         addOnsTotal:
+ *           type: number
+ *           description: Total of the booking's add-ons, included in `totalPrice`
+ *         taxAmount:
+ *           type: number
+ *           description: Tax charged on the subtotal less the promo discount
+ *         taxRate:
+ *           type: number
+ *           description: Tax percentage the booking was priced with
  *         totalPrice:
  *           type: number
  *         currency:
  *           type: string
+ *           description: Currency the booking is charged in
  *           default: USD
+ *         priceCurrency:
+ *           type: string
+ *           description: Currency of the tour prices the booking was priced from
+ *         exchangeRate:
+ *           type: number
+ *           description: Rate from `priceCurrency` to `currency`, locked when the booking was created
+ *         rateLockedAt:
+ *           type: string
+ *           format: date-time
  *
  *     Booking:
  *       type: object
@@ -664,6 +862,10 @@
  *             $ref: '#/components/schemas/Traveler'
  *         pricing:
  *           $ref: '#/components/schemas/BookingPricing'
+ *         addOns:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BookingAddOn'
  *         contactName:
  *           type: string
  *         contactEmail:
@@ -706,8 +908,25 @@
  *           type: number
  *           minimum: 1
  *           maximum: 5
+ *         aspectRatings:
+ *           $ref: '#/components/schemas/ReviewAspectRatings'
  *         comment:
  *           type: string
+ *         photos:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               imageId:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *         verified:
+ *           type: boolean
+ *           description: The reviewer completed a booking for this tour
+ *         booking:
+ *           type: string
+ *           description: Completed booking the review is based on
  *         status:
  *           type: string
  *           enum: [pending, approved, rejected]
@@ -715,6 +934,21 @@
  *           type: string
  *           format: date-time
  *
+ *     ReviewAspectRatings:
+ *       type: object
+ *       description: Optional 0.5-5 ratings for parts of the trip. On a tour, the average across approved reviews.
+ *       properties:
+ *         guide:
+ *           type: number
+ *         value:
+ *           type: number
+ *         accommodation:
+ *           type: number
+ *         transport:
+ *           type: number
+ *         itinerary:
+ *           type: number
+ *
  *     Post:
  *       type: object
  *       properties:
@@ -902,6 +1136,230 @@
  *           type: string
  *           format: date-time
  *           description: When the notification was last updated
+ *
+ *     TourSearchFacetValue:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *         name:
+ *           type: string
+ *           example: "Nepal"
+ *         count:
+ *           type: number
+ *           example: 12
+ *
+ *     TourSearchFacetBucket:
+ *       type: object
+ *       properties:
+ *         key:
+ *           type: string
+ *           description: Value to send back as the filter (e.g. `duration=4-7`)
+ *           example: "4-7"
+ *         min:
+ *           type: number
+ *           example: 4
+ *         max:
+ *           type: number
+ *           description: Missing for the open-ended last bucket
+ *           example: 7
+ *         count:
+ *           type: number
+ *           example: 5
+ *
+ *     TourSearchFacets:
+ *       type: object
+ *       description: Counts for every tour matching the search, not just the current page
+ *       properties:
+ *         destinations:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TourSearchFacetValue'
+ *         categories:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TourSearchFacetValue'
+ *         priceRanges:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TourSearchFacetBucket'
+ *         durations:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TourSearchFacetBucket'
+ *
+ *     ExchangeRateTable:
+ *       type: object
+ *       properties:
+ *         base:
+ *           type: string
+ *           example: USD
+ *         rates:
+ *           type: object
+ *           description: Units of each currency per 1 unit of the base currency (the base itself is 1)
+ *           additionalProperties:
+ *             type: number
+ *           example:
+ *             USD: 1
+ *             NPR: 133.2
+ *             AUD: 1.52
+ *             EUR: 0.92
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     SettingsLink:
+ *       type: object
+ *       properties:
+ *         title:
+ *           type: string
+ *           example: "About Us"
+ *         url:
+ *           type: string
+ *           description: Site path or http(s) URL
+ *           example: "/about"
+ *
+ *     SocialLink:
+ *       type: object
+ *       properties:
+ *         platform:
+ *           type: string
+ *           example: "instagram"
+ *         url:
+ *           type: string
+ *           example: "https://instagram.com/TourBNT"
+ *
+ *     SiteSettings:
+ *       type: object
+ *       properties:
+ *         branding:
+ *           type: object
+ *           properties:
+ *             siteName:
+ *               type: string
+ *               example: "TourBNT"
+ *             tagline:
+ *               type: string
+ *             description:
+ *               type: string
+ *             logoUrl:
+ *               type: string
+ *             faviconUrl:
+ *               type: string
+ *             primaryColor:
+ *               type: string
+ *               example: "#667eea"
+ *         contact:
+ *           type: object
+ *           properties:
+ *             email:
+ *               type: string
+ *             phone:
+ *               type: string
+ *             address:
+ *               type: string
+ *         footerLinks:
+ *           type: object
+ *           properties:
+ *             resources:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SettingsLink'
+ *             quickLinks:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SettingsLink'
+ *         socialLinks:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SocialLink'
+ *         defaultCurrency:
+ *           type: string
+ *           description: ISO 4217 currency code
+ *           example: "USD"
+ *         supportedLanguages:
+ *           type: array
+ *           description: Language codes; the first one is the default
+ *           items:
+ *             type: string
+ *           example: ["en", "ne"]
+ *
+ *     StorefrontSettings:
+ *       type: object
+ *       properties:
+ *         tagline:
+ *           type: string
+ *         logoUrl:
+ *           type: string
+ *         coverImageUrl:
+ *           type: string
+ *         publicEmail:
+ *           type: string
+ *         publicPhone:
+ *           type: string
+ *         socialLinks:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SocialLink'
+ *         showAddress:
+ *           type: boolean
+ *           description: Show the street address, not only the city and country
+ *
+ *     SellerStorefront:
+ *       type: object
+ *       description: Public profile of an approved seller. Bank, tax and registration details are never included.
+ *       properties:
+ *         sellerId:
+ *           type: string
+ *         companyName:
+ *           type: string
+ *         description:
+ *           type: string
+ *         sellerType:
+ *           type: string
+ *         website:
+ *           type: string
+ *         avatar:
+ *           type: string
+ *         storefront:
+ *           $ref: '#/components/schemas/StorefrontSettings'
+ *         location:
+ *           type: object
+ *           properties:
+ *             address:
+ *               type: string
+ *             city:
+ *               type: string
+ *             state:
+ *               type: string
+ *             country:
+ *               type: string
+ *         destinations:
+ *           type: array
+ *           items:
+ *             type: string
+ *         categories:
+ *           type: array
+ *           items:
+ *             type: string
+ *         stats:
+ *           type: object
+ *           properties:
+ *             tourCount:
+ *               type: number
+ *             averageRating:
+ *               type: number
+ *             reviewCount:
+ *               type: number
+ *         tours:
+ *           type: array
+ *           description: Top published tours
+ *           items:
+ *             type: object
+ *         memberSince:
+ *           type: string
+ *           format: date-time
  */
 
 // This file only contains JSDoc comments for schema definitions
@@ -0,0 +1,314 @@
+import Mail from 'nodemailer/lib/mailer';
+import { config } from "../config/config";
+import { sendMail } from './mailTransport';
+import { logger } from '../utils/logger';
+
+/**
+ * Booking details the booking emails need
+ */
+export interface BookingEmailData {
+    id: string;
+    bookingReference: string;
+    tourTitle: string;
+    departureDate: Date;
+    participants: { adults: number; children: number; infants?: number };
+    contactName: string;
+    contactEmail: string;
+    status: string;
+    paymentStatus: string;
+    pricing: { totalPrice: number; currency: string };
+    paidAmount: number;
+    refundedAmount?: number;
+    transactionId?: string;
+    cancellationReason?: string;
+}
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: Date) => new Date(date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+});
+
+const formatMoney = (amount: number, currency: string) => `${currency} ${(amount || 0).toFixed(2)}`;
+
+const formatParticipants = ({ adults, children, infants }: BookingEmailData['participants']) => [
+    `${adults} adult${adults === 1 ? '' : 's'}`,
+    children ? `${children} child${children === 1 ? '' : 'ren'}` : '',
+    infants ? `${infants} infant${infants === 1 ? '' : 's'}` : '',
+].filter(Boolean).join(', ');
+
+// frontendDomain may list several origins, links use the first
+const getBookingUrl = (booking: BookingEmailData) =>
+    `${config.frontendDomain?.split(',')[0]?.trim() || ''}/booking/${booking.id}`;
+
+/**
+ * Shared layout for booking emails (same look as the account emails)
+ */
+const renderLayout = (title: string, heading: string, content: string): string => `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+    </head>
+    <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+      <table role="presentation" style="width: 100%; border-collapse: collapse;">
+        <tr>
+          <td align="center" style="padding: 40px 0;">
+            <table role="presentation" style="width: 600px; border-collapse: collapse; background-color: #ffffff; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+              <!-- Header -->
+              <tr>
+                <td style="padding: 40px 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); text-align: center;">
+                  <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">${heading}</h1>
+                </td>
+              </tr>
+
+              <!-- Content -->
+              <tr>
+                <td style="padding: 40px 30px;">
+                  ${content}
+                </td>
+              </tr>
+
+              <!-- Footer -->
+              <tr>
+                <td style="padding: 30px; background-color: #f8f9fa; text-align: center; border-top: 1px solid #e9ecef;">
+                  <p style="margin: 0 0 10px 0; color: #999999; font-size: 14px;">
+                    Need help? Contact us at <a href="mailto:${config.mail.supportEmail}" style="color: #667eea; text-decoration: none;">${config.mail.supportEmail}</a>
+                  </p>
+                  <p style="margin: 0; color: #999999; font-size: 12px;">
+                    © ${new Date().getFullYear()} TourBNT. All rights reserved.
+                  </p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `;
+
+const renderParagraph = (text: string) =>
+    `<p style="margin: 0 0 20px 0; color: #666666; font-size: 16px; line-height: 1.6;">${text}</p>`;
+
+/**
+ * Two-column table of booking details
+ */
+const renderDetails = (rows: Array<[string, string]>) => `
+    <table role="presentation" style="width: 100%; margin: 0 0 30px 0; border-collapse: collapse; background-color: #f8f9fa; border-left: 4px solid #667eea;">
+      ${rows.map(([label, value]) => `
+      <tr>
+        <td style="padding: 10px 20px; color: #999999; font-size: 14px;">${label}</td>
+        <td style="padding: 10px 20px; color: #333333; font-size: 14px; font-weight: bold; text-align: right;">${escapeHtml(value)}</td>
+      </tr>`).join('')}
+    </table>
+  `;
+
+const renderButton = (url: string, label: string) => `
+    <table role="presentation" style="margin: 0 auto;">
+      <tr>
+        <td style="border-radius: 4px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);">
+          <a href="${url}" target="_blank" style="display: inline-block; padding: 16px 40px; color: #ffffff; text-decoration: none; font-size: 16px; font-weight: bold; border-radius: 4px;">
+            ${label}
+          </a>
+        </td>
+      </tr>
+    </table>
+  `;
+
+const renderText = (heading: string, paragraphs: string[], rows: Array<[string, string]>, url: string) => `
+${heading}
+
+${paragraphs.join('\n\n')}
+
+${rows.map(([label, value]) => `${label}: ${value}`).join('\n')}
+
+View your booking: ${url}
+
+Need help? Contact us at ${config.mail.supportEmail}
+
+© ${new Date().getFullYear()} TourBNT. All rights reserved.
+  `.trim();
+
+/**
+ * Build an email from its parts, escaping the customer's name
+ */
+const buildEmail = (
+    booking: BookingEmailData,
+    title: string,
+    heading: string,
+    paragraphs: string[],
+    rows: Array<[string, string]>,
+    buttonLabel = 'View Booking'
+): { html: string; text: string } => {
+    const url = getBookingUrl(booking);
+    const greeting = `Hello ${booking.contactName}!`;
+
+    const html = renderLayout(title, heading, `
+                  <h2 style="margin: 0 0 20px 0; color: #333333; font-size: 24px;">${escapeHtml(greeting)}</h2>
+                  ${paragraphs.map(paragraph => renderParagraph(escapeHtml(paragraph))).join('')}
+                  ${renderDetails(rows)}
+                  ${renderButton(url, buttonLabel)}
+    `);
+
+    return { html, text: renderText(`${heading}\n\n${greeting}`, paragraphs, rows, url) };
+};
+
+const getTripRows = (booking: BookingEmailData): Array<[string, string]> => [
+    ['Booking reference', booking.bookingReference],
+    ['Tour', booking.tourTitle],
+    ['Departure', formatDate(booking.departureDate)],
+    ['Travelers', formatParticipants(booking.participants)],
+];
+
+/**
+ * Email template for a new booking
+ */
+const getBookingConfirmationTemplate = (booking: BookingEmailData) => {
+    const { totalPrice, currency } = booking.pricing;
+    const paragraphs = [
+        booking.status === 'confirmed'
+            ? `Your booking for ${booking.tourTitle} is confirmed. We can't wait to have you along!`
+            : `Thank you for booking ${booking.tourTitle}. We've received your booking and will let you know as soon as it is confirmed.`,
+        'Your voucher is attached to this email. Please bring it with you on the day of departure.',
+    ];
+
+    return buildEmail(booking, 'Booking Received - TourBNT', 'Thank You for Booking!', paragraphs, [
+        ...getTripRows(booking),
+        ['Total', formatMoney(totalPrice, currency)],
+        ['Paid', formatMoney(booking.paidAmount, currency)],
+    ]);
+};
+
+/**
+ * Email template for a booking confirmed or cancelled by the seller
+ */
+const getBookingStatusTemplate = (booking: BookingEmailData) => {
+    if (booking.status === 'cancelled') {
+        const paragraphs = [`Your booking for ${booking.tourTitle} has been cancelled.`];
+        if (booking.cancellationReason) {
+            paragraphs.push(`Reason: ${booking.cancellationReason}`);
+        }
+        if (booking.refundedAmount) {
+            paragraphs.push(
+                `A refund of ${formatMoney(booking.refundedAmount, booking.pricing.currency)} is on its way to your original payment method.`
+            );
+        }
+
+        return buildEmail(booking, 'Booking Cancelled - TourBNT', 'Booking Cancelled', paragraphs, getTripRows(booking));
+    }
+
+    const paragraphs = [
+        `Great news! The tour operator has confirmed your booking for ${booking.tourTitle}.`,
+        'You can download your voucher at any time from your booking page.',
+    ];
+
+    return buildEmail(booking, 'Booking Confirmed - TourBNT', 'Your Booking is Confirmed!', paragraphs, getTripRows(booking));
+};
+
+/**
+ * Email template for a payment receipt
+ */
+const getPaymentReceiptTemplate = (booking: BookingEmailData) => {
+    const { totalPrice, currency } = booking.pricing;
+    const balance = Math.max(0, totalPrice - (booking.paidAmount || 0));
+    const paragraphs = [
+        balance > 0
+            ? `We've received your payment for ${booking.tourTitle}. The remaining balance is ${formatMoney(balance, currency)}.`
+            : `We've received your payment for ${booking.tourTitle}. Your booking is fully paid.`,
+    ];
+
+    const rows: Array<[string, string]> = [
+        ['Booking reference', booking.bookingReference],
+        ['Tour', booking.tourTitle],
+        ['Total', formatMoney(totalPrice, currency)],
+        ['Paid', formatMoney(booking.paidAmount, currency)],
+        ['Payment status', booking.paymentStatus],
+    ];
+    if (booking.transactionId) {
+        rows.push(['Transaction ID', booking.transactionId]);
+    }
+
+    return buildEmail(booking, 'Payment Receipt - TourBNT', 'Payment Received', paragraphs, rows);
+};
+
+/**
+ * Email template for the reminder sent before departure
+ */
+const getDepartureReminderTemplate = (booking: BookingEmailData) => {
+    const paragraphs = [
+        `Your trip ${booking.tourTitle} departs on ${formatDate(booking.departureDate)}.`,
+        "Don't forget to bring your voucher and a valid ID. Check your booking page for the meeting point and operator contact details.",
+    ];
+
+    return buildEmail(booking, 'Your Trip is Coming Up - TourBNT', 'Your Trip is Almost Here!', paragraphs, getTripRows(booking));
+};
+
+const send = async (booking: BookingEmailData, subject: string, template: { html: string; text: string }, attachments?: Mail.Attachment[]) => {
+    const messageId = await sendMail({
+        to: booking.contactEmail,
+        subject,
+        text: template.text,
+        html: template.html,
+        attachments,
+    });
+
+    logger.info('Booking email sent', { subject, bookingReference: booking.bookingReference, messageId });
+    return messageId;
+};
+
+/**
+ * Send the booking confirmation email with the voucher attached
+ * @returns Promise<string> - Message ID of sent email
+ */
+export const sendBookingConfirmationEmail = async (
+    booking: BookingEmailData,
+    voucher?: { fileName: string; pdf: Buffer }
+): Promise<string> => {
+    const attachments = voucher
+        ? [{ filename: voucher.fileName, content: voucher.pdf, contentType: 'application/pdf' }]
+        : undefined;
+
+    return send(
+        booking,
+        `Booking ${booking.bookingReference} - ${booking.tourTitle}`,
+        getBookingConfirmationTemplate(booking),
+        attachments
+    );
+};
+
+/**
+ * Send the email for a booking the seller confirmed or cancelled
+ * @returns Promise<string> - Message ID of sent email
+ */
+export const sendBookingStatusEmail = async (booking: BookingEmailData): Promise<string> => {
+    const subject = booking.status === 'cancelled'
+        ? `Booking ${booking.bookingReference} cancelled`
+        : `Booking ${booking.bookingReference} confirmed`;
+
+    return send(booking, subject, getBookingStatusTemplate(booking));
+};
+
+/**
+ * Send a payment receipt
+ * @returns Promise<string> - Message ID of sent email
+ */
+export const sendPaymentReceiptEmail = async (booking: BookingEmailData): Promise<string> =>
+    send(booking, `Payment receipt for booking ${booking.bookingReference}`, getPaymentReceiptTemplate(booking));
+
+/**
+ * Send the pre-departure reminder
+ * @returns Promise<string> - Message ID of sent email
+ */
+export const sendDepartureReminderEmail = async (booking: BookingEmailData): Promise<string> =>
+    send(booking, `Reminder: ${booking.tourTitle} departs soon`, getDepartureReminderTemplate(booking));
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import Mail from 'nodemailer/lib/mailer';
+import { config } from "../config/config";
+import { logger } from '../utils/logger';
+
+/**
+ * Create the transporter for the configured EMAIL_TRANSPORT
+ */
+const createTransporter = () => {
+    switch (config.mail.transport) {
+        case 'smtp':
+            // Local SMTP catcher - no auth, no TLS
+            return nodemailer.createTransport({
+                host: config.mail.smtp.host,
+                port: config.mail.smtp.port,
+                secure: false,
+                ignoreTLS: true,
+            });
+        case 'file':
+            // Build the raw message so it can be written to disk
+            return nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+        case 'maileroo': {
+            const { host, port, user, pass } = config.maileroo.smtp;
+            if (!user || !pass) {
+                throw new Error("MAILEROO_SMTP_USER and MAILEROO_SMTP_PASS must be defined in environment variables");
+            }
+
+            return nodemailer.createTransport({
+                host,
+                port,
+                secure: false, // true for 465, false for other ports (587 uses STARTTLS)
+                auth: {
+                    user,
+                    pass,
+                },
+            });
+        }
+        default:
+            throw new Error(`Unknown EMAIL_TRANSPORT "${config.mail.transport}"`);
+    }
+};
+
+/**
+ * Sender address for every outgoing email
+ */
+export const getFromAddress = () => {
+    const fromEmail = process.env.MAILEROO_FROM_EMAIL || config.maileroo.smtp.user || config.maileroo.fromEmail;
+    return `"TourBNT" <${fromEmail}>`;
+};
+
+/**
+ * Send an email through the configured transport
+ * With the file transport the message is saved as an .eml file instead.
+ * @returns Promise<string> - Message ID of sent email
+ */
+export const sendMail = async (mail: Mail.Options): Promise<string> => {
+    const transporter = createTransporter();
+    const info = await transporter.sendMail({ from: getFromAddress(), ...mail });
+
+    if (config.mail.transport === 'file') {
+        const slug = String(mail.subject || 'email').toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 60);
+        const filePath = path.resolve(config.mail.outputDir, `${Date.now()}-${slug}.eml`);
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        // streamTransport with buffer: true hands back the raw message
+        await fs.writeFile(filePath, (info as unknown as { message: Buffer }).message);
+        logger.info('Email written to file', { to: mail.to, subject: mail.subject, file: filePath });
+    }
+
+    return info.messageId;
+};
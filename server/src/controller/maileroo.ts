@@ -1,29 +1,6 @@
-import nodemailer from 'nodemailer';
 import { config } from "../config/config";
-
-/**
- * Create Maileroo SMTP transporter
- */
-const createMailerooTransporter = () => {
-    const host = process.env.MAILEROO_SMTP_HOST || 'smtp.maileroo.com';
-    const port = parseInt(process.env.MAILEROO_SMTP_PORT || '587');
-    const user = process.env.MAILEROO_SMTP_USER;
-    const pass = process.env.MAILEROO_SMTP_PASS;
-
-    if (!user || !pass) {
-        throw new Error("MAILEROO_SMTP_USER and MAILEROO_SMTP_PASS must be defined in environment variables");
-    }
-
-    return nodemailer.createTransport({
-        host,
-        port,
-        secure: false, // true for 465, false for other ports (587 uses STARTTLS)
-        auth: {
-            user,
-            pass,
-        },
-    });
-};
+import { sendMail } from './mailTransport';
+import { logger } from '../utils/logger';
 
 /**
  * Email template for welcome/verification email
@@ -250,24 +227,20 @@ export const sendVerificationEmail = async (
     token: string
 ): Promise<string> => {
     try {
-        const transporter = createMailerooTransporter();
         const verificationUrl = `${config.frontendDomain}/auth/login?token=${token}`;
         const { html, text } = getWelcomeEmailTemplate(userName, verificationUrl);
 
-        const fromEmail = process.env.MAILEROO_FROM_EMAIL || process.env.MAILEROO_SMTP_USER || "info@tourbnt.com";
-
-        const info = await transporter.sendMail({
-            from: `"TourBNT" <${fromEmail}>`,
+        const messageId = await sendMail({
             to: email,
             subject: "Welcome to TourBNT - Verify Your Email",
             text,
             html,
         });
 
-        console.log(`✅ Verification email sent to ${email} with message ID:`, info.messageId);
-        return info.messageId;
-    } catch (error) {
-        console.error("❌ Error sending verification email:", error);
+        logger.info('Verification email sent', { messageId });
+        return messageId;
+    } catch (error: any) {
+        logger.error('Could not send verification email', { error: error.message });
         throw new Error("Failed to send verification email");
     }
 };
@@ -285,24 +258,20 @@ export const sendResetPasswordEmail = async (
     token: string
 ): Promise<string> => {
     try {
-        const transporter = createMailerooTransporter();
         const resetUrl = `${config.frontendDomain}/auth/login?forgottoken=${token}`;
         const { html, text } = getPasswordResetTemplate(userName, resetUrl);
 
-        const fromEmail = process.env.MAILEROO_FROM_EMAIL || process.env.MAILEROO_SMTP_USER || "info@tourbnt.com";
-
-        const info = await transporter.sendMail({
-            from: `"TourBNT" <${fromEmail}>`,
+        const messageId = await sendMail({
             to: email,
             subject: "Reset Your Password - TourBNT",
             text,
             html,
         });
 
-        console.log(`✅ Password reset email sent to ${email} with message ID:`, info.messageId);
-        return info.messageId;
-    } catch (error) {
-        console.error("❌ Error sending password reset email:", error);
+        logger.info('Password reset email sent', { messageId });
+        return messageId;
+    } catch (error: any) {
+        logger.error('Could not send password reset email', { error: error.message });
         throw new Error("Failed to send password reset email");
     }
 };
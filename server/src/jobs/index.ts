@@ -0,0 +1,56 @@
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { HoldService } from '../api/bookings/services/holdService';
+import { BookingEmailService } from '../api/bookings/services/bookingEmailService';
+
+interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+}
+
+const jobs: ScheduledJob[] = [
+    {
+        name: 'seat-hold-sweeper',
+        intervalMs: config.holds.sweepIntervalSeconds * 1000,
+        run: () => HoldService.sweepExpired(),
+    },
+    {
+        name: 'booking-departure-reminders',
+        intervalMs: config.mail.reminderIntervalMinutes * 60 * 1000,
+        run: () => BookingEmailService.sendDueReminders(),
+    },
+];
+
+/**
+ * Run a job on an interval, skipping a tick while the previous run is still busy
+ */
+const schedule = (job: ScheduledJob) => {
+    let running = false;
+
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await job.run();
+        } catch (error: any) {
+            logger.error('Background job failed', { job: job.name, error: error.message });
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(tick, job.intervalMs);
+    // Don't keep the process alive just for background jobs
+    timer.unref();
+    return timer;
+};
+
+/**
+ * Start all background jobs (call once the database is connected)
+ */
+export const startBackgroundJobs = () => {
+    const timers = jobs.map(schedule);
+    logger.info('Background jobs started', { jobs: jobs.map(job => job.name) });
+    return timers;
+};
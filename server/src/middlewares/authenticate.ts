@@ -5,14 +5,16 @@ import { config } from "../config/config";
 import { HTTP_STATUS } from "../utils/apiResponse";
 import { AuthUser } from "../types/express";
 import { COOKIE_NAMES, COOKIE_DURATIONS, getAuthCookieOptions } from "../utils/cookieUtils";
+import { SessionService, getSessionClient } from "../api/auth/services/sessionService";
 
 /**
  * Authentication middleware with sliding session
  * Verifies JWT token and attaches normalized user information to request
  * Automatically extends session tokens for active users
  * Handles expired tokens with grace period for active users
+ * Rejects tokens whose server-side session was revoked (logout, password or role change)
  */
-const authenticate = (req: Request, res: Response, next: NextFunction) => {
+const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   const token = req.cookies?.[COOKIE_NAMES.AUTH_TOKEN]; // <-- Read HTTP-only cookie
   if (!token) {
     return next(createHttpError(401, 'Authorization token is required.'));
@@ -65,6 +67,12 @@ const authenticate = (req: Request, res: Response, next: NextFunction) => {
     
     const timeUntilExpiry = expirationTime - currentTime; // Seconds until expiry (negative if expired)
 
+    // The token is only valid while the session it names is active
+    const session = typeof decoded.sid === 'string' ? await SessionService.findActive(decoded.sid, decoded.sub) : null;
+    if (!session) {
+      return next(createHttpError(401, 'Session expired or signed out. Please log in again.'));
+    }
+
     // Grace period for expired tokens: allow refresh if expired within last 5 minutes (for active users)
     const GRACE_PERIOD_SECONDS = 5 * 60; // 5 minutes
     const isWithinGracePeriod = isExpired && timeUntilExpiry >= -GRACE_PERIOD_SECONDS;
@@ -89,6 +97,7 @@ const authenticate = (req: Request, res: Response, next: NextFunction) => {
       const newToken = sign(
         {
           sub: decoded.sub,
+          sid: decoded.sid,
           roles: decoded.roles || [],
           keepMeSignedIn: keepMeSignedIn,
         },
@@ -104,11 +113,14 @@ const authenticate = (req: Request, res: Response, next: NextFunction) => {
       return next(createHttpError(401, 'Token expired. Please log in again.'));
     }
 
+    await SessionService.touch(session, getSessionClient(req), shouldExtend);
+
     // Attach user info to request
     req.user = {
       id: decoded.sub as string,
       roles: Array.isArray(decoded.roles) ? decoded.roles : [decoded.roles as string],
       keepMeSignedIn: keepMeSignedIn, // Preserve keepMeSignedIn from JWT
+      sessionId: decoded.sid,
     };
 
     next();
@@ -119,7 +131,27 @@ const authenticate = (req: Request, res: Response, next: NextFunction) => {
 };
 
 
-export const authorizeRoles = (...allowedRoles: string[]) => {
+/**
+ * Optional authentication
+ * Attaches the user when a valid session cookie is present, otherwise
+ * lets the request through as a guest instead of rejecting it
+ */
+export const optionalAuthenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.cookies?.[COOKIE_NAMES.AUTH_TOKEN]) {
+    return next();
+  }
+
+  authenticate(req, res, (err?: any) => {
+    if (err && err.status === 401) {
+      req.user = undefined;
+      return next();
+    }
+    next(err);
+  });
+};
+
+
+export const authorizeRoles =(...allowedRoles: string[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) return next(createHttpError(401, 'Not authenticated'));
 
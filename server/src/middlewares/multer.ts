@@ -163,3 +163,19 @@ export const uploadSellerDocs = multer({
   { name: 'businessInsurance', maxCount: 5 },
   { name: 'businessLicense', maxCount: 5 }
 ]);
+
+// Exchange rate files are small and parsed straight away, so keep them in memory
+export const uploadRatesFile = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: function (req, file, cb) {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (['.csv', '.json', '.txt'].includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only CSV and JSON rate files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 // 1MB
+  }
+}).single('file');
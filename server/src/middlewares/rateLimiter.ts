@@ -1,6 +1,7 @@
 import rateLimit from 'express-rate-limit';
 import { HTTP_STATUS } from '../utils/apiResponse';
 import { metricsCollector } from '../utils/metrics';
+import { config } from '../config/config';
 
 /**
  * Get client IP address from request
@@ -14,15 +15,18 @@ function getClientIp(req: any): string {
     );
 }
 
+const AUTH_WINDOW_MS = config.authRateLimit.windowMinutes * 60 * 1000;
+
 /**
  * Rate limiter for authentication endpoints
- * Development: 100 requests per 15 minutes per IP address
- * Production: 5 requests per 15 minutes per IP address
+ * Per IP address; window and limit come from AUTH_RATE_LIMIT_WINDOW_MINUTES and
+ * AUTH_RATE_LIMIT_MAX (default 10 per 15 minutes, 100 in development).
+ * Failed logins are also limited per account (see LoginProtectionService).
  * Applied to: /api/auth/* endpoints
  */
 export const authLimiter = rateLimit({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: process.env.NODE_ENV === 'development' ? 100 : 10, // More lenient in development
+    windowMs: AUTH_WINDOW_MS,
+    max: config.authRateLimit.max,
     message: 'Too many authentication attempts, please try again later',
     standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
     legacyHeaders: false, // Disable `X-RateLimit-*` headers
@@ -32,8 +36,8 @@ export const authLimiter = rateLimit({
             endpoint: req.path,
             clientIp: getClientIp(req),
             timestamp: new Date().toISOString(),
-            limit: 5,
-            windowMs: 900000
+            limit: config.authRateLimit.max,
+            windowMs: AUTH_WINDOW_MS
         });
 
         res.status(HTTP_STATUS.TOO_MANY_REQUESTS).json({
@@ -41,9 +45,9 @@ export const authLimiter = rateLimit({
                 code: 'RATE_LIMIT_EXCEEDED',
                 message: 'Too many authentication attempts, please try again later',
                 details: {
-                    retryAfter: 900, // 15 minutes in seconds
-                    limit: 5,
-                    windowMs: 900000
+                    retryAfter: AUTH_WINDOW_MS / 1000,
+                    limit: config.authRateLimit.max,
+                    windowMs: AUTH_WINDOW_MS
                 },
                 timestamp: new Date().toISOString(),
                 path: req.path
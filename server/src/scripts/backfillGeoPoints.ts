@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+import { config as dotenvConfig } from 'dotenv';
+import path from 'path';
+import TourModel from '../api/tours/tourModel';
+import GlobalDestination from '../api/global/destination/globalDestinationModel';
+import { toGeoPoint } from '../utils/geo';
+import { toLocationPoint } from '../api/tours/utils/dataProcessors';
+
+// Load environment variables based on NODE_ENV
+const env = process.env.NODE_ENV || 'development';
+const envFile = env === 'production' ? '.env.production' : '.env';
+dotenvConfig({ path: path.resolve(__dirname, '../../', envFile) });
+
+console.log(`🌍 Environment: ${env}`);
+console.log(`📁 Loading env from: ${envFile}`);
+
+const backfillGeoPoints = async () => {
+    try {
+        const dbUrl = process.env.MONGO_CONNECTION_STRING;
+
+        if (!dbUrl) {
+            throw new Error('MONGO_CONNECTION_STRING not found in environment variables');
+        }
+
+        // Connect to MongoDB
+        console.log(`🔗 Connecting to database...`);
+        await mongoose.connect(dbUrl);
+        console.log('✅ Connected to database');
+        console.log(`📊 Database: ${mongoose.connection.name}`);
+
+        // Build the 2dsphere indexes before filling them
+        await Promise.all([TourModel.syncIndexes(), GlobalDestination.syncIndexes()]);
+        console.log('✅ Geospatial indexes in place');
+
+        const tours = await TourModel.find({ 'location.point': { $exists: false } })
+            .select('location.lat location.lng')
+            .lean();
+
+        const tourUpdates = tours.flatMap(tour => {
+            const point = toLocationPoint(tour.location?.lat, tour.location?.lng);
+            return point ? [{ updateOne: { filter: { _id: tour._id }, update: { $set: { 'location.point': point } } } }] : [];
+        });
+
+        if (tourUpdates.length > 0) {
+            await TourModel.bulkWrite(tourUpdates);
+        }
+        console.log(`📍 Tours: ${tourUpdates.length} updated, ${tours.length - tourUpdates.length} without coordinates`);
+
+        const destinations = await GlobalDestination.find({ point: { $exists: false } })
+            .select('coordinates')
+            .lean();
+
+        const destinationUpdates = destinations.flatMap(destination => {
+            const point = toGeoPoint(destination.coordinates?.latitude, destination.coordinates?.longitude);
+            return point ? [{ updateOne: { filter: { _id: destination._id }, update: { $set: { point } } } }] : [];
+        });
+
+        if (destinationUpdates.length > 0) {
+            await GlobalDestination.bulkWrite(destinationUpdates);
+        }
+        console.log(`📍 Destinations: ${destinationUpdates.length} updated, ${destinations.length - destinationUpdates.length} without coordinates`);
+
+        process.exit(0);
+    } catch (error) {
+        console.error('Error backfilling geo points:', error);
+        process.exit(1);
+    }
+};
+
+backfillGeoPoints();
@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { config as dotenvConfig } from 'dotenv';
+import path from 'path';
+import TourModel from '../api/tours/tourModel';
+import { Review, updateTourRatings } from '../api/review/reviewModel';
+
+// Load environment variables based on NODE_ENV
+const env = process.env.NODE_ENV || 'development';
+const envFile = env === 'production' ? '.env.production' : '.env';
+dotenvConfig({ path: path.resolve(__dirname, '../../', envFile) });
+
+console.log(`🌍 Environment: ${env}`);
+console.log(`📁 Loading env from: ${envFile}`);
+
+/**
+ * Move reviews embedded in tours (Tour.reviews) into the Review collection
+ * Reviews keep their _id so existing links keep working. When a user has both
+ * an embedded and a standalone review for the same tour, the embedded one wins -
+ * that is the one the site has been showing. Safe to run more than once.
+ */
+const migrateEmbeddedReviews = async () => {
+    try {
+        const dbUrl = process.env.MONGO_CONNECTION_STRING;
+
+        if (!dbUrl) {
+            throw new Error('MONGO_CONNECTION_STRING not found in environment variables');
+        }
+
+        // Connect to MongoDB
+        console.log(`🔗 Connecting to database...`);
+        await mongoose.connect(dbUrl);
+        console.log('✅ Connected to database');
+        console.log(`📊 Database: ${mongoose.connection.name}`);
+
+        // Reviews are no longer in the tour schema, so read the raw documents
+        const tours = TourModel.collection.find(
+            { 'reviews.0': { $exists: true } },
+            { projection: { reviews: 1 } }
+        );
+
+        let toursMigrated = 0;
+        let reviewsMigrated = 0;
+
+        for await (const tour of tours) {
+            for (const embedded of tour.reviews) {
+                await Review.collection.deleteMany({ tour: tour._id, user: embedded.user, _id: { $ne: embedded._id } });
+                await Review.collection.replaceOne(
+                    { _id: embedded._id },
+                    {
+                        ...embedded,
+                        tour: tour._id,
+                        photos: embedded.photos || [],
+                        verified: embedded.verified || false,
+                        replies: embedded.replies || [],
+                        createdAt: embedded.createdAt || new Date(),
+                        updatedAt: embedded.updatedAt || embedded.createdAt || new Date(),
+                    },
+                    { upsert: true }
+                );
+                reviewsMigrated++;
+            }
+
+            await TourModel.collection.updateOne({ _id: tour._id }, { $unset: { reviews: '' } });
+            toursMigrated++;
+        }
+        console.log(`📝 Moved ${reviewsMigrated} reviews from ${toursMigrated} tours`);
+
+        await Review.createIndexes();
+        console.log('✅ Review indexes in place');
+
+        // Recalculate every tour so ratings only count approved reviews
+        const tourIds = await TourModel.find().distinct('_id');
+        for (const tourId of tourIds) {
+            await updateTourRatings(tourId);
+        }
+        console.log(`⭐ Recalculated ratings for ${tourIds.length} tours`);
+
+        process.exit(0);
+    } catch (error) {
+        console.error('Error migrating reviews:', error);
+        process.exit(1);
+    }
+};
+
+migrateEmbeddedReviews();
@@ -9,6 +9,7 @@ export interface AuthUser {
   id: string;
   roles: string[];
   keepMeSignedIn?: boolean; // Preserved from JWT to maintain session duration preference
+  sessionId?: string; // Server-side session the token belongs to
 }
 
 
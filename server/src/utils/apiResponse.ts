@@ -89,7 +89,7 @@ const normalizeNested = (obj: any): any => {
 /**
  * Get client IP address from request
  */
-function getClientIp(req: Request): string {
+export function getClientIp(req: Request): string {
     return (
         (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() ||
         (req.headers['x-real-ip'] as string) ||
@@ -123,12 +123,14 @@ export const sendSuccess = (
 /**
  * Send paginated response with automatic data normalization
  * Standard format: { success, items, pagination, message }
+ * Extra top-level fields (e.g. search facets) can be passed in `extra`.
  */
 export const sendPaginatedResponse = (
     res: Response,
     items: any[],
     pagination: PaginationMeta,
-    message: string = 'Success'
+    message: string = 'Success',
+    extra?: Record<string, unknown>
 ) => {
     const normalizedItems = normalizeDoc(items);
 
@@ -141,6 +143,7 @@ export const sendPaginatedResponse = (
             totalItems: pagination.totalItems,
             totalPages: pagination.totalPages
         },
+        ...extra,
         message
     });
 };
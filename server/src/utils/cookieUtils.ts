@@ -52,12 +52,38 @@ export const getClearCookieOptions = (): CookieOptions => {
     return options;
 };
 
+/**
+ * Get cookie options for the OAuth state cookie
+ * It has to come back on the provider's cross-site redirect, so it is always
+ * SameSite=Lax, and it is only sent to the OAuth routes.
+ * @param maxAge - Cookie max age in milliseconds
+ * @returns Cookie options object
+ */
+export const getOAuthStateCookieOptions = (maxAge?: number): CookieOptions => ({
+    ...getAuthCookieOptions(maxAge),
+    sameSite: 'lax',
+    path: '/api/v1/auth/oauth',
+});
+
+/**
+ * Get cookie options for the two-factor challenge left by social sign-in
+ * Keeps the challenge out of the redirect URL; only the auth routes read it.
+ * @param maxAge - Cookie max age in milliseconds
+ * @returns Cookie options object
+ */
+export const getTwoFactorChallengeCookieOptions = (maxAge?: number): CookieOptions => ({
+    ...getAuthCookieOptions(maxAge),
+    path: '/api/v1/auth',
+});
+
 /**
  * Cookie configuration constants
  */
 export const COOKIE_NAMES = {
     AUTH_TOKEN: 'token',
     REFRESH_TOKEN: 'refreshToken',
+    OAUTH_STATE: 'oauthState',
+    TWO_FACTOR_CHALLENGE: 'twoFactorChallenge',
 } as const;
 
 /**
@@ -66,4 +92,6 @@ export const COOKIE_NAMES = {
 export const COOKIE_DURATIONS = {
     SHORT_SESSION: 2 * 60 * 60 * 1000, // 2 hours
     LONG_SESSION: 30 * 24 * 60 * 60 * 1000, // 30 days
+    OAUTH_STATE: 10 * 60 * 1000, // 10 minutes to finish signing in with the provider
+    TWO_FACTOR_CHALLENGE: 5 * 60 * 1000, // Same as the two-factor-login token
 } as const;
\ No newline at end of file
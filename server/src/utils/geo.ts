@@ -0,0 +1,62 @@
+/**
+ * Geospatial helpers for GeoJSON points and map queries
+ */
+
+export interface GeoPoint {
+    type: 'Point';
+    // [longitude, latitude]
+    coordinates: [number, number];
+}
+
+export interface GeoBounds {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+/**
+ * Build a GeoJSON point from a latitude/longitude pair
+ * Returns undefined when either value is missing or out of range.
+ */
+export const toGeoPoint = (lat?: number | null, lng?: number | null): GeoPoint | undefined => {
+    if (!isCoordinate(lat, 90) || !isCoordinate(lng, 180)) {
+        return undefined;
+    }
+    return { type: 'Point', coordinates: [lng, lat] };
+};
+
+/**
+ * Check a map bounding box
+ */
+export const isValidBounds = ({ south, west, north, east }: GeoBounds) =>
+    isCoordinate(south, 90) && isCoordinate(north, 90) && south < north
+    && isCoordinate(west, 180) && isCoordinate(east, 180);
+
+/**
+ * $geoWithin filter for a map bounding box
+ * Boxes crossing the antimeridian (west > east) are split in two. Each box
+ * is its own polygon, so a box wider than 180 degrees is split as well -
+ * larger polygons would be read as the other side of the globe. Polygon
+ * edges are great circles, which is close enough for a map viewport.
+ */
+export const boundsFilter = (field: string, { south, west, north, east }: GeoBounds) => {
+    const spans: Array<[number, number]> = west <= east
+        ? [[west, east]]
+        : [[west, 180], [-180, east]];
+
+    const polygons = spans.flatMap(([from, to]) => {
+        if (to - from <= 180) return [[from, to]];
+        const middle = from + (to - from) / 2;
+        return [[from, middle], [middle, to]];
+    }).map(([from, to]) => ({
+        type: 'Polygon',
+        coordinates: [[[from, south], [to, south], [to, north], [from, north], [from, south]]]
+    }));
+
+    const filters = polygons.map(polygon => ({ [field]: { $geoWithin: { $geometry: polygon } } }));
+    return filters.length === 1 ? filters[0] : { $or: filters };
+};
@@ -23,6 +23,16 @@ export interface RateLimitViolation {
     windowMs: number;
 }
 
+export interface AccountLockout {
+    // Masked email, e.g. j***@example.com
+    account: string;
+    userId?: string;
+    clientIp: string;
+    timestamp: string;
+    failedAttempts: number;
+    lockoutMinutes: number;
+}
+
 export interface ErrorMetrics {
     endpoint: string;
     method: string;
@@ -37,6 +47,7 @@ class MetricsCollector {
     private requestMetrics: RequestMetrics[] = [];
     private rateLimitViolations: RateLimitViolation[] = [];
     private errorMetrics: ErrorMetrics[] = [];
+    private accountLockouts: AccountLockout[] = [];
 
     // Thresholds for alerts
     private readonly RATE_LIMIT_ALERT_THRESHOLD = 10; // Alert after 10 violations in window
@@ -90,6 +101,21 @@ class MetricsCollector {
         this.checkRateLimitAlerts();
     }
 
+    /**
+     * Record an account locked after repeated failed sign-ins
+     */
+    recordAccountLockout(lockout: AccountLockout): void {
+        this.accountLockouts.push(lockout);
+
+        logger.warn('Account locked after failed sign-ins', {
+            account: lockout.account,
+            userId: lockout.userId,
+            clientIp: lockout.clientIp,
+            failedAttempts: lockout.failedAttempts,
+            lockoutMinutes: lockout.lockoutMinutes
+        });
+    }
+
     /**
      * Record an error metric
      */
@@ -190,11 +216,15 @@ class MetricsCollector {
         this.errorMetrics = this.errorMetrics.filter(
             e => new Date(e.timestamp).getTime() > cutoff
         );
+        this.accountLockouts = this.accountLockouts.filter(
+            l => new Date(l.timestamp).getTime() > cutoff
+        );
 
         logger.debug('Metrics cleanup completed', {
             requestMetrics: this.requestMetrics.length,
             rateLimitViolations: this.rateLimitViolations.length,
-            errorMetrics: this.errorMetrics.length
+            errorMetrics: this.errorMetrics.length,
+            accountLockouts: this.accountLockouts.length
         });
     }
 
@@ -209,11 +239,13 @@ class MetricsCollector {
             errorRate: string;
             averageResponseTime: number;
             rateLimitViolations: number;
+            accountLockouts: number;
         };
         topEndpoints: Array<{ endpoint: string; count: number; avgResponseTime: number }>;
         errorsByEndpoint: Array<{ endpoint: string; count: number; errors: string[] }>;
         rateLimitViolationsByIp: Array<{ ip: string; count: number; endpoints: string[] }>;
         slowestEndpoints: Array<{ endpoint: string; method: string; responseTime: number }>;
+        accountLockouts: AccountLockout[];
     } {
         const now = Date.now();
         const recentRequests = this.requestMetrics.filter(
@@ -225,6 +257,9 @@ class MetricsCollector {
         const recentErrors = this.errorMetrics.filter(
             e => now - new Date(e.timestamp).getTime() < windowMs
         );
+        const recentLockouts = this.accountLockouts.filter(
+            l => now - new Date(l.timestamp).getTime() < windowMs
+        );
 
         // Calculate summary
         const totalRequests = recentRequests.length;
@@ -278,12 +313,15 @@ class MetricsCollector {
                 failedRequests,
                 errorRate,
                 averageResponseTime: Math.round(averageResponseTime),
-                rateLimitViolations: recentViolations.length
+                rateLimitViolations: recentViolations.length,
+                accountLockouts: recentLockouts.length
             },
             topEndpoints,
             errorsByEndpoint,
             rateLimitViolationsByIp,
-            slowestEndpoints
+            slowestEndpoints,
+            // Most recent first
+            accountLockouts: [...recentLockouts].reverse().slice(0, 20)
         };
     }
 
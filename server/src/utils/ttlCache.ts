@@ -0,0 +1,38 @@
+/**
+ * In-memory cache with a time-to-live per entry
+ * Entries are per process, so after a write other server instances can serve
+ * the old value until it expires.
+ */
+export class TtlCache<T> {
+    private entries = new Map<string, { value: T; expiresAt: number }>();
+
+    constructor(private ttlMs: number, private maxEntries = 1000) {}
+
+    get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: T) {
+        // Maps keep insertion order, so the first key is the oldest entry
+        if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest !== undefined) this.entries.delete(oldest);
+        }
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    delete(key: string) {
+        this.entries.delete(key);
+    }
+
+    clear() {
+        this.entries.clear();
+    }
+}